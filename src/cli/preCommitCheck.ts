@@ -0,0 +1,37 @@
+import * as path from 'path';
+import { CommitGate } from '../core/CommitGate';
+
+/**
+ * Entry point of the git pre-commit hook installed by "Install Convention Pre-commit Hook"
+ * Usage: node preCommitCheck.js [workspaceRoot]
+ * Exits with 1 when blocking convention violations remain in the staged files
+ */
+async function main(): Promise<number> {
+    const workspaceRoot = path.resolve(process.argv[2] || process.cwd());
+    const conventions = CommitGate.loadConventions(workspaceRoot);
+    if (!conventions) {
+        // Not an OBS plugin project configured by the extension
+        return 0;
+    }
+
+    const gate = new CommitGate();
+    const result = await gate.check(workspaceRoot, conventions);
+    if (result.violations.length > 0 || Object.keys(result.fixed).length > 0) {
+        console.error(gate.formatReport(result));
+    }
+
+    if (!result.passed) {
+        console.error('\nFix the violations above, or commit anyway with: git commit --no-verify');
+        return 1;
+    }
+    return 0;
+}
+
+main().then(
+    code => process.exit(code),
+    error => {
+        // A broken check must not prevent committing
+        console.error(`OBS convention check failed to run: ${error instanceof Error ? error.message : error}`);
+        process.exit(0);
+    }
+);
@@ -8,14 +8,48 @@ import { AIMiddleware } from '../core/AIMiddleware';
 import { PatchGenerator } from '../core/PatchGenerator';
 import { TemplateManager } from '../core/TemplateManager';
 import { CMakeCacheParser, CMakeDependencyInfo } from '../core/CMakeCacheParser';
+import { BuildHistory } from '../core/BuildHistory';
+import { ConventionScanner } from '../core/ConventionScanner';
+import { ConventionReportWriter } from '../core/ConventionReportWriter';
+import { ConventionTreeNode, ConventionTreeProvider } from '../core/ConventionTreeProvider';
+import { ConventionRuleEngine } from '../core/ConventionRuleEngine';
+import { SourceRelocator } from '../core/SourceRelocator';
+import { CommitGate } from '../core/CommitGate';
+import { ObsSymbolIndex } from '../core/ObsSymbolIndex';
+import { PromptRedactor } from '../core/PromptRedactor';
+import { AIResponseParser } from '../core/AIResponseParser';
+import { PatchReviewProvider } from '../core/PatchReviewProvider';
+import { PendingPatchNode } from '../core/PendingPatchTreeProvider';
+import { SnapshotManager } from '../core/SnapshotManager';
+import { AIProviderManager } from '../providers/AIProviderManager';
+import { AIProviderError } from '../providers/AIProviderError';
 import { Logger } from '../utils/Logger';
-import { ObsConfig, BuildResult, ErrorCollection } from '../types/ObsConfig';
+import {
+    AIRequestEnvelope,
+    ObsConfig,
+    BuildOptions,
+    BuildResult,
+    ErrorCollection,
+    FileSnapshot,
+    BuildComparison,
+    BuildHistoryEntry,
+    CodingConventions,
+    CommitGateResult,
+    ConventionReportFormat,
+    ConventionScanResult,
+    ConventionViolation,
+    FileMove,
+    PatchOperation,
+    RelocationPlan,
+    SuggestedChange
+} from '../types/ObsConfig';
 
 /**
  * Command handlers for OBS Plugin AI Assistant
  */
 export class ObsCommands {
     private lastBuildResult: BuildResult | null = null;
+    private fixBaselineId: string | undefined;
     private cmakeCacheParser: CMakeCacheParser;
 
     constructor(
@@ -23,11 +57,30 @@ export class ObsCommands {
         private buildExecutor: BuildExecutor,
         private aiMiddleware: AIMiddleware,
         private patchGenerator: PatchGenerator,
-        private templateManager: TemplateManager
+        private templateManager: TemplateManager,
+        private buildHistory: BuildHistory,
+        private conventionScanner: ConventionScanner,
+        private conventionReportWriter: ConventionReportWriter,
+        private conventionTree: ConventionTreeProvider,
+        private conventionRuleEngine: ConventionRuleEngine,
+        private sourceRelocator: SourceRelocator,
+        private commitGate: CommitGate,
+        private aiProviderManager: AIProviderManager,
+        private symbolIndex: ObsSymbolIndex,
+        private responseParser: AIResponseParser,
+        private patchReview: PatchReviewProvider,
+        private snapshots: SnapshotManager
     ) {
         this.cmakeCacheParser = new CMakeCacheParser();
     }
 
+    /**
+     * Result of the last build in this session
+     */
+    public getLastBuildResult(): BuildResult | null {
+        return this.lastBuildResult;
+    }
+
     /**
      * Register all OBS commands
      */
@@ -46,7 +99,28 @@ export class ObsCommands {
             vscode.commands.registerCommand('obs.validate-conventions', () => this.validateConventions()),
             vscode.commands.registerCommand('obs.show-logs', () => this.showLogs()),
             vscode.commands.registerCommand('obs.reset-config', () => this.resetConfig()),
-            vscode.commands.registerCommand('obs.ai-assist', () => this.aiAssist())
+            vscode.commands.registerCommand('obs.ai-assist', () => this.aiAssist()),
+            vscode.commands.registerCommand('obs.apply-fixits', () => this.applyFixIts()),
+            vscode.commands.registerCommand('obs.compare-builds', () => this.compareBuilds()),
+            vscode.commands.registerCommand('obs.scan-conventions', () => this.scanConventions()),
+            vscode.commands.registerCommand('obs.export-convention-report', () => this.exportConventionReport()),
+            vscode.commands.registerCommand('obs.fix-convention', (node?: ConventionTreeNode) => this.fixConvention(node)),
+            vscode.commands.registerCommand('obs.install-pre-commit-hook', () => this.installPreCommitHook()),
+            vscode.commands.registerCommand('obs.set-ai-api-key', () => this.setAIApiKey()),
+            vscode.commands.registerCommand('obs.apply-suggested-change', (change: SuggestedChange) => this.applySuggestedChange(change)),
+            vscode.commands.registerCommand('obs.rebuild-symbol-index', () => this.rebuildSymbolIndex()),
+            vscode.commands.registerCommand('obs.preview-ai-request', () => this.previewAIRequest()),
+            vscode.commands.registerCommand('obs.preview-prompt-template', () => this.previewPromptTemplate()),
+            vscode.commands.registerCommand('obs.review-patch', (target?: PendingPatchNode | string) => this.reviewPatch(target)),
+            vscode.commands.registerCommand('obs.accept-hunk', (patchId: string, file: string, hunk: number) =>
+                this.patchReview.setDecision(patchId, file, hunk, 'accepted')),
+            vscode.commands.registerCommand('obs.reject-hunk', (patchId: string, file: string, hunk: number) =>
+                this.patchReview.setDecision(patchId, file, hunk, 'rejected')),
+            vscode.commands.registerCommand('obs.accept-all-hunks', (patchId: string) => this.patchReview.acceptAll(patchId)),
+            vscode.commands.registerCommand('obs.apply-accepted-hunks', (target?: PendingPatchNode | string) => this.applyAcceptedHunks(target)),
+            vscode.commands.registerCommand('obs.discard-patch', (target?: PendingPatchNode | string) => this.discardPatch(target)),
+            vscode.commands.registerCommand('obs.undo-last-change', () => this.undoLastChange()),
+            vscode.commands.registerCommand('obs.show-change-history', () => this.showChangeHistory())
         ];
 
         commands.forEach(command => context.subscriptions.push(command));
@@ -160,18 +234,25 @@ export class ObsCommands {
                     throw new Error(`No profile found for build type: ${buildType}`);
                 }
                 
-                const buildResult = await this.buildExecutor.build(profile, workspaceRoot);
+                const buildResult = await this.runWithBuildOptions(progress, token, options => this.buildExecutor.build(profile, workspaceRoot, options));
                 this.lastBuildResult = buildResult; // Store the build result
+                this.aiMiddleware.updateBuildLog([buildResult.stdout, buildResult.stderr].filter(output => output).join('\n'));
+                this.reportFixOutcome(buildResult);
 
                 if (buildResult.success) {
                     vscode.window.showInformationMessage('Build completed successfully!');
                     
                     // Auto-commit if enabled
                     if (config.auto_features?.auto_commit_on_success) {
-                        await this.patchGenerator.autoCommit([]);
+                        await this.patchGenerator.autoCommit([], {
+                            conventions: config.coding_conventions,
+                            onBlocked: result => this.confirmBlockedCommit(result)
+                        });
                     }
                 } else {
-                    vscode.window.showErrorMessage('Build failed. Check output for details.');
+                    vscode.window.showErrorMessage(buildResult.stopped_early
+                        ? `Build stopped after ${buildResult.errors.length} diagnostics (fail-fast). Check output for details.`
+                        : 'Build failed. Check output for details.');
                     
                     // Offer to fix errors
                     const fixErrors = await vscode.window.showQuickPick(
@@ -246,7 +327,7 @@ export class ObsCommands {
                 return;
             }
 
-            const config = await this.configManager.loadConfig(workspaceRoot);
+            const config = this.configManager.getConfig();
             if (!config) {
                 vscode.window.showErrorMessage('No OBS plugin configuration found');
                 return;
@@ -258,40 +339,440 @@ export class ObsCommands {
                 return;
             }
 
-            await vscode.window.withProgress({
+            const suggestions = await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
                 title: 'Analyzing Errors with AI',
-                cancellable: false
-            }, async (progress) => {
+                cancellable: true
+            }, async (progress, token) => {
                 progress.report({ message: 'Analyzing build errors...' });
                 
                 // Get AI suggestions
-                const suggestions = await this.aiMiddleware.getFixSuggestions(this.lastBuildResult!.errors);
+                const response = await this.aiMiddleware.getFixSuggestions(
+                    this.lastBuildResult!.errors, vscode.window.activeTextEditor?.document, token);
                 
-                if (!suggestions || suggestions.trim().length === 0) {
+                if (!response || response.trim().length === 0) {
                     vscode.window.showInformationMessage('No AI suggestions available for current errors');
-                    return;
+                    return undefined;
                 }
 
                 progress.report({ message: 'Displaying AI suggestions...' });
                 
                 // Show AI suggestions in a new document
                 const doc = await vscode.workspace.openTextDocument({
-                    content: `# AI Error Fix Suggestions\n\n${suggestions}`,
+                    content: `# AI Error Fix Suggestions\n\n${response}`,
                     language: 'markdown'
                 });
                 
                 await vscode.window.showTextDocument(doc);
-                
-                vscode.window.showInformationMessage('AI suggestions displayed in new document');
+
+                // The next build reports whether these suggestions fixed anything
+                this.fixBaselineId = this.lastBuildResult!.history_id;
+                return response;
             });
+            if (!suggestions) {
+                return;
+            }
+
+            const { patches, rejected } = this.responseParser.createPatches(
+                AIResponseParser.extractChanges(suggestions), workspaceRoot, this.aiMiddleware.createRedactor());
+            if (patches.length === 0) {
+                vscode.window.showInformationMessage(rejected.length > 0
+                    ? `AI suggestions displayed in new document; ${rejected.length} suggested change(s) could not be used. Check output for details.`
+                    : 'AI suggestions displayed in new document');
+                return;
+            }
+
+            const review = await vscode.window.showInformationMessage(
+                `The AI suggested ${patches.length} change(s)` +
+                (rejected.length > 0 ? `; ${rejected.length} more could not be used (see output)` : '') + '.',
+                'Review Changes'
+            );
+            if (review === 'Review Changes') {
+                await this.reviewPatches(patches);
+            }
+
+        } catch (error) {
+            if (!this.handleAIProviderError(error)) {
+                Logger.error('Error fixing failed', error);
+                vscode.window.showErrorMessage('Error fixing failed. Check output for details.');
+            }
+        }
+    }
+
+    /**
+     * Apply compiler fix-it hints from the last build
+     */
+    private async applyFixIts(): Promise<void> {
+        try {
+            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+            if (!workspaceRoot) {
+                vscode.window.showErrorMessage('No workspace folder found');
+                return;
+            }
+
+            const patch = this.lastBuildResult
+                ? this.patchGenerator.generateFixItPatch(this.lastBuildResult.errors, workspaceRoot)
+                : null;
+            if (!patch) {
+                vscode.window.showInformationMessage('No compiler fix-it hints found in the last build. Set diagnostics_format to "sarif" or "json" to collect them.');
+                return;
+            }
+
+            const choice = await vscode.window.showInformationMessage(
+                `Apply ${patch.edits!.length} compiler fix-it hint(s) to ${patch.target_files.length} file(s)?`,
+                'Apply',
+                'Preview'
+            );
+
+            if (choice === 'Preview') {
+                await this.reviewPatch(patch);
+                return;
+            }
+
+            if (choice !== 'Apply') {
+                this.patchGenerator.discardPatch(patch.id!);
+                return;
+            }
+
+            if (await this.patchGenerator.applyPatch(patch)) {
+                this.fixBaselineId = this.lastBuildResult!.history_id;
+                vscode.window.showInformationMessage(`Applied fix-it hints to ${patch.target_files.length} file(s)`);
+            } else {
+                vscode.window.showErrorMessage('Failed to apply fix-it hints. Check output for details.');
+            }
+        } catch (error) {
+            Logger.error('Applying fix-it hints failed', error);
+            vscode.window.showErrorMessage('Applying fix-it hints failed. Check output for details.');
+        }
+    }
+
+    /**
+     * Apply a code change suggested in the @obs chat
+     * Path placeholders from request redaction are mapped back first
+     */
+    private async applySuggestedChange(change: SuggestedChange): Promise<void> {
+        try {
+            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+            if (!workspaceRoot) {
+                vscode.window.showErrorMessage('No workspace folder found');
+                return;
+            }
 
+            const { patches, rejected } = this.responseParser.createPatches(
+                [change], workspaceRoot, new PromptRedactor({ workspaceRoot, homeDir: os.homedir() }));
+            if (rejected.length > 0) {
+                vscode.window.showErrorMessage(`Cannot apply the suggested change: ${rejected[0].reason}`);
+                return;
+            }
+
+            await this.reviewPatches(patches);
         } catch (error) {
-            Logger.error('Error fixing failed', error);
-            vscode.window.showErrorMessage('Error fixing failed. Check output for details.');
+            Logger.error('Applying suggested change failed', error);
+            vscode.window.showErrorMessage('Applying suggested change failed. Check output for details.');
+        }
+    }
+
+    /**
+     * Open the side-by-side review of patches made from an AI response
+     * Hunks are accepted or rejected with CodeLens actions; the rest stay listed in the pending patches view
+     */
+    private async reviewPatches(patches: PatchOperation[]): Promise<void> {
+        if (patches.length === 0) {
+            return;
+        }
+
+        await this.reviewPatch(patches[0]);
+        await vscode.commands.executeCommand('obsPendingPatches.focus');
+        if (patches.length > 1) {
+            vscode.window.showInformationMessage(
+                `Reviewing change 1 of ${patches.length}; the others are listed under OBS Pending Patches.`);
         }
     }
 
+    /**
+     * Open a pending patch in the diff editor, picking one when none is given
+     */
+    private async reviewPatch(target?: PendingPatchNode | PatchOperation | string): Promise<void> {
+        try {
+            const patch = await this.resolvePendingPatch(target);
+            if (!patch) {
+                return;
+            }
+
+            const file = target && typeof target === 'object' && 'kind' in target && target.kind === 'file' ? target.file : undefined;
+            const errors = await this.patchReview.open(patch, file);
+            if (errors.length > 0) {
+                errors.forEach(error => Logger.info(`Cannot review ${patch.description || 'patch'}: ${error}`));
+                vscode.window.showErrorMessage(`Cannot review ${patch.description || 'the patch'}: ${errors[0]}. Check output for details.`);
+            }
+        } catch (error) {
+            Logger.error('Opening the patch review failed', error);
+            vscode.window.showErrorMessage('Opening the patch review failed. Check output for details.');
+        }
+    }
+
+    /**
+     * Write the accepted hunks of a patch under review and report convention violations in the changed files
+     */
+    private async applyAcceptedHunks(target?: PendingPatchNode | string): Promise<void> {
+        try {
+            const patch = await this.resolvePendingPatch(target);
+            if (!patch?.id) {
+                return;
+            }
+
+            const counts = this.patchReview.getCounts(patch.id);
+            if (!counts) {
+                vscode.window.showInformationMessage('Open the patch review and accept hunks first');
+                await this.reviewPatch(patch);
+                return;
+            }
+            if (counts.accepted === 0) {
+                vscode.window.showInformationMessage('No hunks accepted yet; use Accept above a hunk or Accept All');
+                return;
+            }
+
+            const changes = this.patchReview.getAcceptedChanges(patch.id);
+            if (!this.patchGenerator.writeProposal(patch, changes)) {
+                vscode.window.showErrorMessage('Failed to apply the accepted hunks. Check output for details.');
+                return;
+            }
+            await this.patchReview.close(patch.id);
+
+            if (this.lastBuildResult && !this.lastBuildResult.success) {
+                this.fixBaselineId = this.lastBuildResult.history_id;
+            }
+            this.reportAppliedChanges(changes.map(change => change.file), counts.accepted, 'hunk(s)');
+        } catch (error) {
+            Logger.error('Applying accepted hunks failed', error);
+            vscode.window.showErrorMessage(`Applying accepted hunks failed: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Drop a pending patch and close its review
+     */
+    private async discardPatch(target?: PendingPatchNode | string): Promise<void> {
+        const patch = await this.resolvePendingPatch(target);
+        if (patch?.id) {
+            this.patchGenerator.discardPatch(patch.id);
+            await this.patchReview.close(patch.id);
+        }
+    }
+
+    /**
+     * Restore the files changed by the most recent patch, convention fix or template write
+     */
+    private async undoLastChange(): Promise<void> {
+        try {
+            const snapshot = this.snapshots.getLatest();
+            if (!snapshot) {
+                vscode.window.showInformationMessage('No changes to undo');
+                return;
+            }
+            await this.restoreSnapshot(snapshot);
+        } catch (error) {
+            Logger.error('Failed to undo last change', error);
+            vscode.window.showErrorMessage('Failed to undo last change. Check output for details.');
+        }
+    }
+
+    /**
+     * Pick any recorded change and restore the files it touched
+     */
+    private async showChangeHistory(): Promise<void> {
+        try {
+            const snapshots = this.snapshots.list();
+            if (snapshots.length === 0) {
+                vscode.window.showInformationMessage('No recorded changes');
+                return;
+            }
+
+            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+            const picked = await vscode.window.showQuickPick(snapshots.map(snapshot => ({
+                label: snapshot.label,
+                description: `${new Date(snapshot.timestamp).toLocaleString()} · ${snapshot.files.length} file(s)${snapshot.restored_at ? ' · restored' : ''}`,
+                detail: snapshot.files.map(file => path.relative(workspaceRoot, file.path)).join(', '),
+                snapshot
+            })), { placeHolder: 'Select a change to roll back' });
+            if (picked) {
+                await this.restoreSnapshot(picked.snapshot);
+            }
+        } catch (error) {
+            Logger.error('Failed to restore change', error);
+            vscode.window.showErrorMessage('Failed to restore change. Check output for details.');
+        }
+    }
+
+    /**
+     * Confirm and restore the files of a snapshot to their state before the change
+     */
+    private async restoreSnapshot(snapshot: FileSnapshot): Promise<void> {
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+        const detail = snapshot.files.map(file =>
+            `${path.relative(workspaceRoot, file.path)}${file.existed ? '' : ' (created by the change, will be deleted)'}`).join('\n');
+        const confirm = await vscode.window.showWarningMessage(
+            `Restore ${snapshot.files.length} file(s) to their state before "${snapshot.label}"?`,
+            { modal: true, detail },
+            'Restore'
+        );
+        if (confirm !== 'Restore') {
+            return;
+        }
+
+        const result = this.snapshots.restore(snapshot.id);
+        if (result.restored.length === 0 && result.deleted.length === 0) {
+            vscode.window.showInformationMessage(`Files already match their state before "${snapshot.label}"`);
+            return;
+        }
+        vscode.window.showInformationMessage(
+            `Undid "${snapshot.label}": restored ${result.restored.length} file(s), deleted ${result.deleted.length} file(s)`
+        );
+    }
+
+    /**
+     * Find the pending patch of a tree node or id, or let the user pick one
+     */
+    private async resolvePendingPatch(target?: PendingPatchNode | PatchOperation | string): Promise<PatchOperation | undefined> {
+        if (typeof target === 'string') {
+            return this.patchGenerator.getPatch(target);
+        }
+        if (target && 'kind' in target) {
+            return target.patch;
+        }
+        if (target) {
+            return target;
+        }
+
+        const pending = this.patchGenerator.getPendingPatches();
+        if (pending.length === 0) {
+            vscode.window.showInformationMessage('No pending patches');
+            return undefined;
+        }
+        const picked = await vscode.window.showQuickPick(pending.map(patch => ({
+            label: patch.description || patch.target_files.map(file => path.basename(file)).join(', '),
+            description: `${patch.validation_status} · ${patch.target_files.length} file(s)`,
+            patch
+        })), { placeHolder: 'Select a pending patch' });
+        return picked?.patch;
+    }
+
+    /**
+     * Report applied changes, with the convention violations they leave in the changed files
+     */
+    private reportAppliedChanges(files: string[], count: number, unit: string): void {
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+        const conventions = this.configManager.getConfig()?.coding_conventions || {};
+        const violations = files.filter(file => fs.existsSync(file)).flatMap(file =>
+            this.conventionRuleEngine.validate(file, fs.readFileSync(file, 'utf8'), conventions, workspaceRoot));
+        const names = files.map(file => path.relative(workspaceRoot, file)).join(', ');
+        if (violations.length > 0) {
+            violations.forEach(violation => Logger.info(`${violation.file}:${violation.line || 1} ${violation.suggestion}`));
+            vscode.window.showWarningMessage(`Applied ${count} ${unit} to ${names}; they have ${violations.length} convention violation(s). Check output for details.`);
+        } else {
+            vscode.window.showInformationMessage(`Applied ${count} ${unit} to ${names}`);
+        }
+    }
+
+    /**
+     * Compare the diagnostics of two recorded builds
+     */
+    private async compareBuilds(): Promise<void> {
+        try {
+            const entries = this.buildHistory.getEntries();
+            if (entries.length < 2) {
+                vscode.window.showInformationMessage('At least two recorded builds are needed for a comparison');
+                return;
+            }
+
+            const toItem = (entry: BuildHistoryEntry) => ({
+                label: `${new Date(entry.timestamp).toLocaleString()} — ${entry.cmake_preset}`,
+                description: `${entry.success ? 'succeeded' : 'failed'}, ${entry.error_count} errors, ${entry.warning_count} warnings`,
+                detail: `${(entry.duration / 1000).toFixed(1)}s`,
+                entry
+            });
+
+            const target = await vscode.window.showQuickPick(entries.map(toItem), {
+                placeHolder: 'Select the newer build'
+            });
+            if (!target) {
+                return;
+            }
+
+            const olderEntries = entries.slice(entries.indexOf(target.entry) + 1);
+            if (olderEntries.length === 0) {
+                vscode.window.showInformationMessage('No earlier build to compare with');
+                return;
+            }
+
+            const base = await vscode.window.showQuickPick(olderEntries.map(toItem), {
+                placeHolder: 'Select the build to compare against'
+            });
+            if (!base) {
+                return;
+            }
+
+            const comparison = BuildHistory.diff(base.entry, target.entry);
+            const doc = await vscode.workspace.openTextDocument({
+                content: this.formatBuildComparison(comparison),
+                language: 'markdown'
+            });
+            await vscode.window.showTextDocument(doc);
+        } catch (error) {
+            Logger.error('Failed to compare builds', error);
+            vscode.window.showErrorMessage('Failed to compare builds. Check output for details.');
+        }
+    }
+
+    /**
+     * Report whether the last AI suggestion or fix-it changed the build errors
+     */
+    private reportFixOutcome(buildResult: BuildResult): void {
+        if (!this.fixBaselineId || !buildResult.history_id) {
+            return;
+        }
+
+        const comparison = this.buildHistory.compare(this.fixBaselineId, buildResult.history_id);
+        this.fixBaselineId = undefined;
+        if (!comparison) {
+            return;
+        }
+
+        const summary = BuildHistory.summarize(comparison);
+        Logger.info(`Fix outcome: ${summary}`);
+
+        if (comparison.fixed_errors.length > 0 && comparison.new_errors.length === 0) {
+            vscode.window.showInformationMessage(`The last fix worked: ${summary}`);
+        } else {
+            vscode.window.showWarningMessage(`The last fix did not fully resolve the errors: ${summary}`);
+        }
+    }
+
+    /**
+     * Format a build comparison as markdown
+     */
+    private formatBuildComparison(comparison: BuildComparison): string {
+        const section = (title: string, errors: BuildComparison['new_errors']) => [
+            `## ${title} (${errors.length})`,
+            '',
+            ...(errors.length > 0
+                ? errors.map(error => `- \`${error.file}:${error.line}\` ${error.severity}: ${error.message.split('\n')[0]}`)
+                : ['_None_']),
+            ''
+        ];
+
+        return [
+            '# Build Comparison',
+            '',
+            `- Base: ${new Date(comparison.base.timestamp).toLocaleString()} (${comparison.base.cmake_preset}, ${comparison.base.error_count} errors)`,
+            `- Target: ${new Date(comparison.target.timestamp).toLocaleString()} (${comparison.target.cmake_preset}, ${comparison.target.error_count} errors)`,
+            '',
+            ...section('New', comparison.new_errors),
+            ...section('Fixed', comparison.fixed_errors),
+            ...section('Still Present', comparison.persisting_errors)
+        ].join('\n');
+    }
+
     /**
      * Create new OBS source
      */
@@ -425,6 +906,241 @@ export class ObsCommands {
         }
     }
 
+    /**
+     * Scan all workspace sources against the convention rules
+     */
+    private async scanConventions(): Promise<ConventionScanResult | null> {
+        try {
+            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+            if (!workspaceRoot) {
+                vscode.window.showErrorMessage('No workspace folder found');
+                return null;
+            }
+
+            const config = this.configManager.getConfig();
+
+            const result = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Scanning Conventions',
+                cancellable: true
+            }, (progress, token) => this.conventionScanner.scan(workspaceRoot, config?.coding_conventions || {}, {
+                buildDirs: this.getBuildDirectories(config),
+                onProgress: (filesScanned, relativePath) => progress.report({ message: `${filesScanned} files — ${relativePath}` }),
+                isCancelled: () => token.isCancellationRequested
+            }));
+
+            this.conventionTree.setResult(result);
+
+            const message = `Convention scan: ${result.violations.length} violations in ${result.files_scanned} files`;
+            const action = await vscode.window.showInformationMessage(message, 'Export Report');
+            if (action === 'Export Report') {
+                await this.exportConventionReport();
+            }
+
+            return result;
+        } catch (error) {
+            Logger.error('Convention scan failed', error);
+            vscode.window.showErrorMessage('Convention scan failed. Check output for details.');
+            return null;
+        }
+    }
+
+    /**
+     * Export the last convention scan as JSON, SARIF or HTML
+     */
+    private async exportConventionReport(): Promise<void> {
+        try {
+            const result = this.conventionTree.getResult() || await this.scanConventions();
+            if (!result) {
+                return;
+            }
+
+            const formats: Array<{ label: string; description: string; format: ConventionReportFormat; extension: string }> = [
+                { label: 'HTML', description: 'Standalone page for code reviews', format: 'html', extension: 'html' },
+                { label: 'SARIF 2.1.0', description: 'For code scanning tools', format: 'sarif', extension: 'sarif' },
+                { label: 'JSON', description: 'For comparing convention debt between releases', format: 'json', extension: 'json' }
+            ];
+            const selected = await vscode.window.showQuickPick(formats, { placeHolder: 'Select report format' });
+            if (!selected) {
+                return;
+            }
+
+            const target = await vscode.window.showSaveDialog({
+                defaultUri: vscode.Uri.file(path.join(result.workspace_root, `convention-report.${selected.extension}`)),
+                filters: { [selected.label]: [selected.extension] }
+            });
+            if (!target) {
+                return;
+            }
+
+            await this.conventionReportWriter.write(result, selected.format, target.fsPath);
+            Logger.info(`Convention report written to ${target.fsPath}`);
+
+            const action = await vscode.window.showInformationMessage(`Convention report saved to ${path.basename(target.fsPath)}`, 'Open');
+            if (action === 'Open') {
+                await vscode.commands.executeCommand('vscode.open', target);
+            }
+        } catch (error) {
+            Logger.error('Failed to export convention report', error);
+            vscode.window.showErrorMessage('Failed to export convention report. Check output for details.');
+        }
+    }
+
+    /**
+     * Fix a convention violation from the convention view or the active editor
+     */
+    private async fixConvention(node?: ConventionTreeNode): Promise<void> {
+        try {
+            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+            if (!workspaceRoot) {
+                vscode.window.showErrorMessage('No workspace folder found');
+                return;
+            }
+
+            const conventions = this.configManager.getConfig()?.coding_conventions || {};
+            const violation = node?.kind === 'violation'
+                ? node.violation
+                : await this.pickActiveEditorViolation(workspaceRoot, conventions);
+            if (!violation?.file) {
+                return;
+            }
+
+            const fullPath = path.resolve(workspaceRoot, violation.file);
+            const relativePath = path.relative(workspaceRoot, fullPath).replace(/\\/g, '/');
+            const content = fs.readFileSync(fullPath, 'utf8');
+
+            const target = this.conventionRuleEngine.getRelocationTarget(violation.type, fullPath, content, conventions, workspaceRoot);
+            if (target) {
+                // Files moved to another directory take their implementation and .ui form along
+                const moves = path.posix.dirname(target) === path.posix.dirname(relativePath)
+                    ? [{ from: relativePath, to: target }]
+                    : this.sourceRelocator.withCompanions(workspaceRoot, [{ from: relativePath, to: target }]);
+                const plan = await this.relocateFiles(workspaceRoot, moves);
+                if (plan) {
+                    await this.verifyRelocation(workspaceRoot, plan);
+                }
+            } else if (violation.auto_fixable) {
+                if (await this.patchGenerator.autoFixConventions(fullPath, [violation], conventions)) {
+                    vscode.window.showInformationMessage(`Fixed ${violation.type} in ${path.basename(fullPath)}`);
+                }
+            } else {
+                vscode.window.showInformationMessage(`No automatic fix is available for ${violation.type}`);
+            }
+        } catch (error) {
+            Logger.error('Failed to fix convention violation', error);
+            vscode.window.showErrorMessage('Failed to fix convention violation. Check output for details.');
+        }
+    }
+
+    /**
+     * Let the user pick a fixable violation in the active editor
+     */
+    private async pickActiveEditorViolation(
+        workspaceRoot: string,
+        conventions: Partial<CodingConventions>
+    ): Promise<ConventionViolation | undefined> {
+        const document = vscode.window.activeTextEditor?.document;
+        if (!document) {
+            vscode.window.showErrorMessage('No active editor found');
+            return undefined;
+        }
+
+        const relativePath = path.relative(workspaceRoot, document.uri.fsPath).replace(/\\/g, '/');
+        const violations = this.conventionRuleEngine.validate(document.uri.fsPath, document.getText(), conventions, workspaceRoot)
+            .filter(violation => violation.auto_fixable)
+            .map(violation => ({ ...violation, file: relativePath }));
+
+        if (violations.length === 0) {
+            vscode.window.showInformationMessage('No fixable convention violations in this file');
+            return undefined;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            violations.map(violation => ({ label: violation.type, detail: violation.suggestion, violation })),
+            { placeHolder: 'Select the violation to fix' }
+        );
+        return selected?.violation;
+    }
+
+    /**
+     * Preview and apply a file relocation
+     */
+    private async relocateFiles(workspaceRoot: string, moves: FileMove[]): Promise<RelocationPlan | null> {
+        const plan = await this.sourceRelocator.plan(workspaceRoot, moves, this.getBuildDirectories(this.configManager.getConfig()));
+
+        const doc = await vscode.workspace.openTextDocument({
+            content: this.sourceRelocator.formatPreview(plan),
+            language: 'markdown'
+        });
+        await vscode.window.showTextDocument(doc, { preview: true });
+
+        const confirm = await vscode.window.showInformationMessage(
+            `Move ${plan.moves.length} file(s) and update ${plan.edits.length} file(s)?`,
+            { modal: true },
+            'Apply'
+        );
+        if (confirm !== 'Apply') {
+            return null;
+        }
+
+        await this.sourceRelocator.apply(plan);
+        vscode.window.showInformationMessage(
+            `Moved ${plan.moves.map(move => path.basename(move.from)).join(', ')} and updated ${plan.edits.length} file(s)`
+        );
+        return plan;
+    }
+
+    /**
+     * Configure the project after a relocation and offer to undo it when configuration fails
+     */
+    private async verifyRelocation(workspaceRoot: string, plan: RelocationPlan): Promise<void> {
+        const profile = this.configManager.getPlatformProfile();
+        if (!profile) {
+            Logger.warn('No platform profile found, skipping configure check after relocation');
+            return;
+        }
+
+        const result = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Verifying relocation with CMake configure',
+            cancellable: true
+        }, (progress, token) => this.runWithBuildOptions(progress, token, options => this.buildExecutor.configure(profile, workspaceRoot, options)));
+
+        if (result.success) {
+            vscode.window.showInformationMessage('Relocation verified: CMake configure succeeded');
+            return;
+        }
+
+        const action = await vscode.window.showWarningMessage(
+            `CMake configure failed after the relocation with ${result.errors.length} error(s)`,
+            'Undo Relocation',
+            'Keep Changes'
+        );
+        if (action === 'Undo Relocation') {
+            await this.sourceRelocator.revert(plan);
+            vscode.window.showInformationMessage('Relocation undone');
+        }
+    }
+
+    /**
+     * Collect the workspace-relative build directories configured for all platforms
+     */
+    private getBuildDirectories(config: ObsConfig | null): string[] {
+        const dirs = new Set<string>(['build']);
+        for (const dir of Object.values(config?.platform_build_dirs || {})) {
+            dirs.add(dir);
+        }
+        for (const profile of Object.values(config?.platform_profiles || {})) {
+            if (profile.build_dir) {
+                dirs.add(profile.build_dir);
+            }
+            if (profile.output_dir) {
+                dirs.add(profile.output_dir);
+            }
+        }
+        return Array.from(dirs);
+    }
+
     /**
      * Show logs
      */
@@ -484,17 +1200,14 @@ export class ObsCommands {
                 return;
             }
 
-            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-            const config = workspaceRoot ? await this.configManager.loadConfig(workspaceRoot) : null;
-
             await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
                 title: 'Getting AI Assistance',
-                cancellable: false
-            }, async (progress) => {
+                cancellable: true
+            }, async (progress, token) => {
                 progress.report({ message: 'Analyzing question...' });
                 
-                const response = await this.aiMiddleware.getAssistance(question);
+                const response = await this.aiMiddleware.getAssistance(question, vscode.window.activeTextEditor?.document, token);
                 
                 // Show response in a new document
                 const doc = await vscode.workspace.openTextDocument({
@@ -506,8 +1219,185 @@ export class ObsCommands {
             });
 
         } catch (error) {
-            Logger.error('AI assistance failed', error);
-            vscode.window.showErrorMessage('AI assistance failed. Check output for details.');
+            if (!this.handleAIProviderError(error)) {
+                Logger.error('AI assistance failed', error);
+                vscode.window.showErrorMessage('AI assistance failed. Check output for details.');
+            }
+        }
+    }
+
+    /**
+     * Store or remove the API key of the AI provider
+     */
+    private async setAIApiKey(): Promise<void> {
+        try {
+            const apiKey = await vscode.window.showInputBox({
+                prompt: 'API key for the AI provider (leave empty to remove the stored key)',
+                password: true,
+                ignoreFocusOut: true
+            });
+            if (apiKey === undefined) {
+                return;
+            }
+
+            await this.aiProviderManager.setApiKey(apiKey.trim());
+            vscode.window.showInformationMessage(apiKey.trim() ? 'AI provider API key saved' : 'AI provider API key removed');
+        } catch (error) {
+            Logger.error('Failed to store AI provider API key', error);
+            vscode.window.showErrorMessage('Failed to store API key. Check output for details.');
+        }
+    }
+
+    /**
+     * Report AI provider failures with a specific message
+     * Returns false for other errors
+     */
+    private handleAIProviderError(error: unknown): boolean {
+        if (!(error instanceof AIProviderError)) {
+            return false;
+        }
+
+        if (error.cancelled) {
+            Logger.info('AI request cancelled');
+        } else if (error.status === 401 || error.status === 403) {
+            Logger.error('AI provider rejected the request', error);
+            vscode.window.showErrorMessage('AI provider rejected the API key.', 'Set API Key').then(action => {
+                if (action === 'Set API Key') {
+                    vscode.commands.executeCommand('obs.set-ai-api-key');
+                }
+            });
+        } else {
+            Logger.error('AI request failed', error);
+            vscode.window.showErrorMessage(`AI request failed: ${error.message}`);
+        }
+        return true;
+    }
+
+    /**
+     * Rebuild the OBS API symbol index from the SDK headers
+     */
+    private async rebuildSymbolIndex(): Promise<void> {
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Indexing OBS SDK Headers',
+                cancellable: false
+            }, () => this.symbolIndex.refresh(true));
+
+            if (this.symbolIndex.size === 0) {
+                vscode.window.showWarningMessage('No OBS SDK headers found. Check sdk_path in .obspluginrc.json or run "OBS: Configure".');
+            } else {
+                vscode.window.showInformationMessage(`Indexed ${this.symbolIndex.size} OBS API symbols`);
+            }
+        } catch (error) {
+            Logger.error('Indexing OBS SDK headers failed', error);
+            vscode.window.showErrorMessage('Indexing OBS SDK headers failed. Check output for details.');
+        }
+    }
+
+    /**
+     * Show exactly what an AI request would send, after budgeting and redaction, without sending it
+     */
+    private async previewAIRequest(): Promise<void> {
+        try {
+            const hasErrors = !!this.lastBuildResult && !this.lastBuildResult.success && this.lastBuildResult.errors.length > 0;
+            const kind = await vscode.window.showQuickPick([
+                ...(hasErrors ? [{ label: 'Fix Last Build Errors', value: 'fix' }] : []),
+                { label: 'Ask a Question', value: 'assist' }
+            ], {
+                placeHolder: 'Request to preview'
+            });
+            if (!kind) {
+                return;
+            }
+
+            const activeFile = vscode.window.activeTextEditor?.document;
+            let envelope: AIRequestEnvelope;
+            if (kind.value === 'fix') {
+                const errors = this.lastBuildResult!.errors;
+                envelope = this.aiMiddleware.createRequestEnvelope('fix', this.aiMiddleware.createFixPrompt(errors), activeFile, {
+                    errorContexts: await this.aiMiddleware.collectErrorContexts(errors),
+                    templateVariables: this.aiMiddleware.createErrorVariables(errors)
+                });
+            } else {
+                const question = await vscode.window.showInputBox({
+                    prompt: 'Question to preview',
+                    placeHolder: 'How do I add a properties dialog to my source?'
+                });
+                if (!question) {
+                    return;
+                }
+                envelope = this.aiMiddleware.createRequestEnvelope('assist', question, activeFile);
+            }
+
+            const settings = vscode.workspace.getConfiguration('obsPlugin.ai');
+            const provider = settings.get<string>('provider', 'openai-compatible');
+            const target = provider === 'openai-compatible'
+                ? `${settings.get<string>('model', 'gpt-4o-mini')} at ${settings.get<string>('baseUrl', 'https://api.openai.com/v1')}`
+                : provider;
+
+            const doc = await vscode.workspace.openTextDocument({
+                content: this.aiMiddleware.createRequestPreview(envelope, target),
+                language: 'markdown'
+            });
+            await vscode.window.showTextDocument(doc);
+        } catch (error) {
+            Logger.error('Previewing AI request failed', error);
+            vscode.window.showErrorMessage('Previewing AI request failed. Check output for details.');
+        }
+    }
+
+    /**
+     * Render a prompt template against the current project and the last build errors
+     */
+    private async previewPromptTemplate(): Promise<void> {
+        try {
+            const config = this.configManager.getConfig();
+            if (!config) {
+                vscode.window.showErrorMessage('No OBS plugin configuration found');
+                return;
+            }
+
+            const templates = this.aiMiddleware.getPromptTemplates(config);
+            const picked = await vscode.window.showQuickPick(templates.map(template => ({
+                label: template.name,
+                description: `${template.id} (${template.source})`,
+                detail: template.intents.length > 0 ? `Intents: ${template.intents.join(', ')}` : undefined,
+                template
+            })), {
+                placeHolder: 'Prompt template to preview'
+            });
+            if (!picked) {
+                return;
+            }
+
+            const template = picked.template;
+            const errors = this.lastBuildResult && !this.lastBuildResult.success ? this.lastBuildResult.errors : [];
+            const rendering = this.aiMiddleware.renderPromptTemplate(
+                template.intents[0] || 'assist', config, this.aiMiddleware.createErrorVariables(errors), template.id);
+
+            const lines = [
+                `# Prompt Template: ${template.name}`,
+                '',
+                `- **Id:** ${template.id}`,
+                `- **Source:** ${template.file ? vscode.workspace.asRelativePath(template.file) : template.source}`,
+                `- **Intents:** ${template.intents.join(', ') || 'none'}`,
+                `- **Variables:** ${template.variables.map(variable => `{${variable}}`).join(', ') || 'none'}`,
+                `- **Missing values:** ${rendering.missing.map(variable => `{${variable}}`).join(', ') || 'none'}`
+            ];
+            if (rendering.warnings.length > 0) {
+                lines.push('', '## Warnings', '', ...rendering.warnings.map(warning => `- ${warning}`));
+            }
+            lines.push('', '## Rendered', '', '````text', rendering.text, '````');
+
+            const doc = await vscode.workspace.openTextDocument({
+                content: lines.join('\n'),
+                language: 'markdown'
+            });
+            await vscode.window.showTextDocument(doc);
+        } catch (error) {
+            Logger.error('Previewing prompt template failed', error);
+            vscode.window.showErrorMessage('Previewing prompt template failed. Check output for details.');
         }
     }
 
@@ -719,7 +1609,7 @@ export class ObsCommands {
                 }
                 
                 // Build the project first, then run tests
-                const result = await this.buildExecutor.build(profile, workspaceRoot);
+                const result = await this.runWithBuildOptions(progress, token, options => this.buildExecutor.build(profile, workspaceRoot, options));
                 if (result.success) {
                     vscode.window.showInformationMessage('Build and tests completed successfully!');
                 } else {
@@ -744,7 +1634,7 @@ export class ObsCommands {
                 return;
             }
 
-            const config = await this.configManager.loadConfig(workspaceRoot);
+            const config = this.configManager.getConfig();
             if (!config) {
                 vscode.window.showErrorMessage('No OBS plugin configuration found. Run "OBS: Configure" first.');
                 return;
@@ -769,7 +1659,10 @@ export class ObsCommands {
             }, async (progress) => {
                 progress.report({ message: 'Analyzing changes...' });
                 
-                const result = await this.patchGenerator.autoCommit([]);
+                const result = await this.patchGenerator.autoCommit([], {
+                    conventions: config.coding_conventions,
+                    onBlocked: gateResult => this.confirmBlockedCommit(gateResult)
+                });
                 if (result) {
                     vscode.window.showInformationMessage('Changes committed successfully!');
                 } else {
@@ -783,6 +1676,42 @@ export class ObsCommands {
         }
     }
 
+    /**
+     * Show the convention report of a blocked commit and ask whether to commit anyway
+     */
+    private async confirmBlockedCommit(result: CommitGateResult): Promise<boolean> {
+        const report = this.commitGate.formatReport(result);
+        Logger.info(report);
+
+        const choice = await vscode.window.showWarningMessage(
+            `Commit blocked: ${result.blocking.length} convention violations in staged files`,
+            { modal: true, detail: report },
+            'Commit Anyway'
+        );
+        return choice === 'Commit Anyway';
+    }
+
+    /**
+     * Install the convention check as a git pre-commit hook so terminal commits are checked too
+     */
+    private async installPreCommitHook(): Promise<void> {
+        try {
+            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+            if (!workspaceRoot) {
+                vscode.window.showErrorMessage('No workspace folder found');
+                return;
+            }
+
+            const hookPath = await this.commitGate.installHook(workspaceRoot);
+            vscode.window.showInformationMessage(
+                `Installed convention pre-commit hook at ${path.relative(workspaceRoot, hookPath)}. Use 'git commit --no-verify' to bypass it.`
+            );
+        } catch (error) {
+            Logger.error('Failed to install pre-commit hook', error);
+            vscode.window.showErrorMessage('Failed to install pre-commit hook. Check output for details.');
+        }
+    }
+
     /**
      * Detect current platform for CMake preset
      */
@@ -819,6 +1748,26 @@ export class ObsCommands {
         }
     }
 
+    /**
+     * Run a build or configure with options that report live progress and honour cancellation
+     * The cancellation listener is removed when the run finishes, so a late cancel cannot stop a later build
+     */
+    private async runWithBuildOptions<T>(
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token: vscode.CancellationToken,
+        run: (options: BuildOptions) => Promise<T>
+    ): Promise<T> {
+        const cancellation = token.onCancellationRequested(() => this.buildExecutor.cancel());
+        try {
+            return await run({
+                onProgress: message => progress.report({ message }),
+                failFastErrorLimit: vscode.workspace.getConfiguration('obsPlugin').get<number>('failFastErrorLimit', 0)
+            });
+        } finally {
+            cancellation.dispose();
+        }
+    }
+
     /**
      * Execute CMake preset to generate cache
      */
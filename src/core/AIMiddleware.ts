@@ -1,9 +1,40 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { Logger } from '../utils/Logger';
 import { ConfigManager } from './ConfigManager';
-import { AIRequestEnvelope, FileContext, ProjectStructure, PromptTemplate } from '../types/ObsConfig';
+import { ContextBudgeter } from './ContextBudgeter';
+import { ErrorContextCollector } from './ErrorContextCollector';
+import { ObsSymbolIndex } from './ObsSymbolIndex';
+import { PromptRedactor } from './PromptRedactor';
+import { PromptTemplateRegistry } from './PromptTemplateRegistry';
+import { AIProviderManager } from '../providers/AIProviderManager';
+import {
+    AICancellationToken,
+    AIChatMessage,
+    AIIntent,
+    AIRequestEnvelope,
+    BuildError,
+    ContextCandidate,
+    FileContext,
+    ObsConfig,
+    ProjectStructure,
+    PromptTemplate,
+    PromptTemplateRendering
+} from '../types/ObsConfig';
+
+/**
+ * Extra inputs of a request envelope
+ */
+export interface RequestEnvelopeOptions {
+    /** Source behind the build errors, from collectErrorContexts */
+    errorContexts?: ContextCandidate[];
+    /** Input limit of the model, which caps the context budget */
+    maxInputTokens?: number;
+    /** Values of template placeholders, such as those from createErrorVariables */
+    templateVariables?: Record<string, string>;
+}
 
 /**
  * Manages AI context injection and prompt enhancement
@@ -11,75 +42,182 @@ import { AIRequestEnvelope, FileContext, ProjectStructure, PromptTemplate } from
  */
 export class AIMiddleware {
     private readonly configManager: ConfigManager;
-    private readonly promptTemplates: Map<string, PromptTemplate>;
     private recentBuildLog: string = '';
 
-    constructor(configManager: ConfigManager) {
+    private static readonly DEFAULT_CONTEXT_BUDGET = 8000;
+
+    constructor(
+        configManager: ConfigManager,
+        private readonly providerManager?: AIProviderManager,
+        private readonly symbolIndex?: ObsSymbolIndex,
+        private readonly budgeter: ContextBudgeter = new ContextBudgeter(),
+        private readonly errorContextCollector: ErrorContextCollector = new ErrorContextCollector(),
+        private readonly promptTemplates: PromptTemplateRegistry = new PromptTemplateRegistry()
+    ) {
         this.configManager = configManager;
-        this.promptTemplates = new Map();
-        this.initializePromptTemplates();
     }
 
     /**
-     * Register AI context injection with Trae IDE
+     * Register AI context injection
+     * Chat requests get their context from the @obs participant, which builds every request with createRequestEnvelope
      */
     public registerContextInjection(): void {
-        // This would integrate with Trae's AI system
-        // For now, we'll provide methods that can be called when AI assistance is requested
         Logger.info('AI context injection registered');
     }
 
     /**
      * Create enhanced AI request envelope with OBS context
+     * Contexts are added in priority order until the token budget is used; what was left out is recorded in context_budget
+     * Secrets, local paths and excluded files are then redacted, as recorded in redaction
      */
     public createRequestEnvelope(
-        intent: 'compile' | 'fix' | 'assist',
+        intent: AIIntent,
         userPrompt: string,
-        activeFile?: vscode.TextDocument
+        activeFile?: vscode.TextDocument,
+        options: RequestEnvelopeOptions = {}
     ): AIRequestEnvelope {
         const config = this.configManager.getConfig();
         if (!config) {
             throw new Error('No OBS plugin configuration found');
         }
 
-        const systemPrompt = this.generateSystemPrompt(intent, config);
-        const fileContexts = this.gatherFileContexts(activeFile);
+        const systemPrompt = this.generateSystemPrompt(intent, config, options.templateVariables);
         const projectStructure = this.analyzeProjectStructure();
-
-        const envelope: AIRequestEnvelope = {
+        const reservedTokens = ContextBudgeter.estimateTokens(systemPrompt + userPrompt + JSON.stringify(projectStructure));
+
+        const redactor = this.createRedactor();
+        const errorContexts = (options.errorContexts || []).filter(context => !redactor?.isExcluded(context.id));
+        const fileContexts = this.gatherFileContexts(activeFile).filter(context => !redactor?.isExcluded(context.id));
+        const apiReference = this.createApiReference([
+            userPrompt,
+            ...errorContexts.map(context => context.content),
+            ...fileContexts.map(context => context.content)
+        ].join('\n'));
+
+        const candidates = [
+            ...errorContexts,
+            ...(apiReference ? [{ id: 'api_reference', kind: 'api_reference' as const, content: apiReference }] : []),
+            ...fileContexts,
+            ...(this.recentBuildLog ? [{ id: 'build_log', kind: 'build_log' as const, content: this.recentBuildLog }] : []),
+            { id: 'conventions', kind: 'conventions' as const, content: JSON.stringify(config.coding_conventions) }
+        ];
+        const { selected, report } = this.budgeter.fill(candidates, this.getContextBudget(options.maxInputTokens), reservedTokens);
+
+        let envelope: AIRequestEnvelope = {
             intent,
             system_prompt: systemPrompt,
             user_prompt: userPrompt,
-            file_contexts: fileContexts,
-            recent_build_log: this.recentBuildLog,
-            coding_conventions: config.coding_conventions,
-            project_structure: projectStructure
+            file_contexts: selected
+                .filter(candidate => !['api_reference', 'build_log', 'conventions'].includes(candidate.kind))
+                .map(candidate => ({
+                    path: candidate.id,
+                    snippet: candidate.content,
+                    cursor_line: candidate.focus_line || 0,
+                    file_type: this.getFileType(candidate.id),
+                    start_line: candidate.start_line || undefined
+                })),
+            api_reference: selected.find(candidate => candidate.kind === 'api_reference')?.content,
+            recent_build_log: selected.find(candidate => candidate.kind === 'build_log')?.content,
+            coding_conventions: selected.some(candidate => candidate.kind === 'conventions') ? config.coding_conventions : undefined,
+            project_structure: projectStructure,
+            context_budget: report
         };
+        if (redactor) {
+            envelope = redactor.redactEnvelope(envelope);
+        }
+        envelope.estimated_tokens = ContextBudgeter.estimateTokens(
+            this.toChatMessages(envelope).map(message => message.content).join('\n'));
 
-        Logger.info(`Created AI request envelope for intent: ${intent}`);
+        Logger.info(`Created AI request envelope for intent: ${intent} (~${envelope.estimated_tokens} tokens, budget ${report.budget_tokens})`);
+        if (report.dropped.length > 0 || report.included.some(item => item.truncated)) {
+            const truncated = report.included.filter(item => item.truncated).map(item => item.id);
+            Logger.info(`AI context over budget: truncated [${truncated.join(', ')}], dropped [${report.dropped.map(item => item.id).join(', ')}]`);
+        }
+        if (envelope.redaction) {
+            const secrets = Object.values(envelope.redaction.secrets).reduce((sum, count) => sum + count, 0);
+            Logger.info(`Redacted ${secrets} secret(s) and ${envelope.redaction.paths} path(s)` +
+                (envelope.redaction.excluded_files.length > 0 ? `, excluded [${envelope.redaction.excluded_files.join(', ')}]` : ''));
+        }
         return envelope;
     }
 
     /**
-     * Generate system prompt based on intent and configuration
+     * Redactor configured by the obsPlugin.ai.redaction settings, or undefined when redaction is disabled
+     * Each request gets its own redactor so its report only covers that request
      */
-    public generateSystemPrompt(intent: string, config: any): string {
-        const templateName = this.getTemplateForIntent(intent);
-        const template = this.promptTemplates.get(templateName);
-        
-        if (!template) {
-            return this.getDefaultSystemPrompt(config);
+    public createRedactor(): PromptRedactor | undefined {
+        const settings = vscode.workspace.getConfiguration('obsPlugin.ai.redaction');
+        if (!settings.get<boolean>('enabled', true)) {
+            return undefined;
         }
 
-        return this.interpolateTemplate(template.template, {
-            cmake_preset: this.getCurrentPlatformPreset(config),
-            build_dir: config.build_dir,
-            deps_dir: config.dependencies?.obs || '.deps/obs-studio',
-            ui_dir: config.coding_conventions.ui_components_dir,
-            header_ext: config.coding_conventions.header_extension
+        return new PromptRedactor({
+            workspaceRoot: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+            homeDir: os.homedir(),
+            excludeGlobs: [...PromptRedactor.DEFAULT_EXCLUDES, ...settings.get<string[]>('excludeFiles', [])],
+            secretPatterns: settings.get<string[]>('patterns', [])
         });
     }
 
+    /**
+     * Generate system prompt from the template for the intent
+     * custom_context is appended unless the template places it with {custom_context}
+     */
+    public generateSystemPrompt(intent: AIIntent, config: ObsConfig, variables: Record<string, string> = {}): string {
+        const rendering = this.renderPromptTemplate(intent, config, variables);
+        if (rendering.missing.length > 0) {
+            Logger.info(`Prompt template ${rendering.template.id} has no value for {${rendering.missing.join('}, {')}}`);
+        }
+
+        const customContext = config.ai_prompts?.custom_context;
+        return customContext && !rendering.template.variables.includes('custom_context')
+            ? `${rendering.text}\n\nProject context:\n${customContext}`
+            : rendering.text;
+    }
+
+    /**
+     * Render a template against the current project: the one for an intent, or a specific template by id
+     */
+    public renderPromptTemplate(
+        intent: AIIntent,
+        config: ObsConfig,
+        variables: Record<string, string> = {},
+        templateId?: string
+    ): PromptTemplateRendering {
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        this.promptTemplates.load(config.ai_prompts, workspaceRoot);
+
+        const template = (templateId && this.promptTemplates.get(templateId)) || this.promptTemplates.resolve(intent, config.ai_prompts);
+        return this.promptTemplates.render(template, {
+            ...this.getProjectVariables(intent, config),
+            ...config.ai_prompts?.variables,
+            ...variables
+        });
+    }
+
+    /**
+     * Prompt templates available for the configuration
+     */
+    public getPromptTemplates(config: ObsConfig): PromptTemplate[] {
+        this.promptTemplates.load(config.ai_prompts, vscode.workspace.workspaceFolders?.[0]?.uri.fsPath);
+        return this.promptTemplates.list();
+    }
+
+    /**
+     * Template variables describing the first build error
+     */
+    public createErrorVariables(errors: Partial<BuildError>[]): Record<string, string> {
+        const error = errors[0];
+        if (!error) {
+            return {};
+        }
+        return {
+            error_message: error.message || '',
+            file_path: error.file ? this.toWorkspacePath(error.file) : '',
+            line_number: String(error.line || '')
+        };
+    }
+
     /**
      * Update recent build log for context
      */
@@ -91,105 +229,152 @@ export class AIMiddleware {
     /**
      * Get AI fix suggestions for build errors
      */
-    public async getFixSuggestions(errors: any[], activeFile?: vscode.TextDocument): Promise<string> {
-        const envelope = this.createRequestEnvelope('fix', 
-            `Please analyze and fix these build errors:\n${this.formatErrorsForAI(errors)}`,
-            activeFile
-        );
-
-        // This would call Trae's AI service
-        // For now, return a formatted request that can be sent to AI
-        return this.formatAIRequest(envelope);
+    public async getFixSuggestions(errors: any[], activeFile?: vscode.TextDocument, token?: AICancellationToken): Promise<string> {
+        const errorContexts = await this.collectErrorContexts(errors);
+        const envelope = this.createRequestEnvelope('fix', this.createFixPrompt(errors), activeFile, {
+            errorContexts,
+            templateVariables: this.createErrorVariables(errors)
+        });
+        return this.sendRequest(envelope, token);
+    }
+
+    /**
+     * Collect the source lines, declarations and CMake target commands behind build errors
+     */
+    public async collectErrorContexts(errors: Partial<BuildError>[]): Promise<ContextCandidate[]> {
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+        return this.errorContextCollector.collect(errors, workspaceRoot);
+    }
+
+    /**
+     * Create the user prompt asking to fix build errors
+     */
+    public createFixPrompt(errors: any[]): string {
+        return `Please analyze and fix these build errors:\n${this.formatErrorsForAI(errors)}`;
     }
 
     /**
      * Get AI assistance for general development questions
      */
-    public async getAssistance(question: string, activeFile?: vscode.TextDocument): Promise<string> {
+    public async getAssistance(question: string, activeFile?: vscode.TextDocument, token?: AICancellationToken): Promise<string> {
         const envelope = this.createRequestEnvelope('assist', question, activeFile);
-        return this.formatAIRequest(envelope);
+        return this.sendRequest(envelope, token);
     }
 
     /**
-     * Initialize built-in prompt templates
+     * Send a request envelope to the configured provider
+     * Without a provider the formatted request is returned so it can be pasted into another assistant
      */
-    private initializePromptTemplates(): void {
-        // OBS Plugin Expert Template
-        this.promptTemplates.set('obs_plugin_expert', {
-            id: 'obs_plugin_expert',
-            name: 'OBS Plugin Expert',
-            type: 'system',
-            template: `You are an expert C++ developer specializing in OBS Studio plugin development. This project follows OBS plugin template conventions with the following standards:
-
-- Use {header_ext} extensions for headers with #pragma once
-- Implement UI components as separate classes in {ui_dir}/ directory  
-- For Qt6 signals, include "moc_ClassName.cpp" in cpp files
-- Use CMake presets: cmake --preset {cmake_preset}, cmake --build --preset {cmake_preset} --config Debug
-- Dependencies are in {deps_dir}/ directory, build output in {build_dir}/
-- Follow OBS API best practices and libobs conventions
-- Write English comments and commit messages
-- Avoid modifying CMakeLists.txt except for src file changes
-
-When suggesting code changes, ensure compliance with these conventions and return precise file paths with line edits or unified diffs.`,
-            variables: {},
-            conventions: {} as any
-        });
+    public async sendRequest(envelope: AIRequestEnvelope, token?: AICancellationToken): Promise<string> {
+        const provider = await this.providerManager?.getProvider();
+        if (!provider) {
+            Logger.info('No AI provider configured, returning the formatted request');
+            return this.formatAIRequest(envelope);
+        }
 
-        // Error Fix Template
-        this.promptTemplates.set('obs_error_fix', {
-            id: 'obs_error_fix',
-            name: 'OBS Error Fix',
-            type: 'error_analysis',
-            template: `Analyzing OBS plugin build error. Project uses CMake presets with Qt6 enabled. Common issues include:
-- Missing #pragma once in {header_ext} files
-- Incorrect moc file inclusion for Qt6 signals
-- UI components not properly separated into {ui_dir}/ directory
-- Dependency path issues in {deps_dir}/ directory
-
-Provide fixes that maintain OBS plugin template structure and coding conventions.
-
-Error context: {error_message}
-File: {file_path}:{line_number}
-Build command: {build_command}`,
-            variables: {},
-            conventions: {} as any
-        });
+        const response = await provider.complete({ messages: this.toChatMessages(envelope) }, token);
+        Logger.info(`AI response from ${provider.id} (${response.model})` +
+            (response.usage ? `: ${response.usage.prompt_tokens} prompt and ${response.usage.completion_tokens} completion tokens` : ''));
+        return response.content;
+    }
 
-        Logger.info(`Initialized ${this.promptTemplates.size} prompt templates`);
+    /**
+     * Convert a request envelope to chat messages
+     */
+    public toChatMessages(envelope: AIRequestEnvelope): AIChatMessage[] {
+        return [
+            { role: 'system', content: envelope.system_prompt },
+            { role: 'user', content: `${envelope.user_prompt}\n\n${this.renderContext(envelope)}` }
+        ];
     }
 
     /**
-     * Get template name for specific intent
+     * Markdown report of exactly what a request would send, for the dry-run preview
      */
-    private getTemplateForIntent(intent: string): string {
-        switch (intent) {
-            case 'fix':
-                return 'obs_error_fix';
-            case 'compile':
-            case 'assist':
-            default:
-                return 'obs_plugin_expert';
+    public createRequestPreview(envelope: AIRequestEnvelope, target: string): string {
+        const lines = [
+            '# AI Request Preview (not sent)',
+            '',
+            `- **Target:** ${target}`,
+            `- **Intent:** ${envelope.intent}`,
+            `- **Estimated tokens:** ~${envelope.estimated_tokens ?? 0}`
+        ];
+
+        const budget = envelope.context_budget;
+        if (budget) {
+            lines.push(`- **Context budget:** ${budget.used_tokens} of ${budget.budget_tokens} tokens (${budget.reserved_tokens} reserved for prompts)`);
+            for (const item of budget.included) {
+                lines.push(`  - included \`${this.toWorkspacePath(item.id)}\` (${item.kind}, ~${item.tokens} tokens${item.truncated ? ', truncated' : ''})`);
+            }
+            for (const item of budget.dropped) {
+                lines.push(`  - dropped \`${this.toWorkspacePath(item.id)}\` (${item.kind}, ~${item.tokens} tokens)`);
+            }
         }
+
+        const redaction = envelope.redaction;
+        if (redaction) {
+            const secrets = Object.entries(redaction.secrets).map(([id, count]) => `${id} × ${count}`);
+            lines.push(`- **Redacted secrets:** ${secrets.length > 0 ? secrets.join(', ') : 'none'}`);
+            lines.push(`- **Redacted paths:** ${redaction.paths}`);
+            lines.push(`- **Excluded files:** ${redaction.excluded_files.length > 0 ? redaction.excluded_files.join(', ') : 'none'}`);
+        } else {
+            lines.push('- **Redaction:** disabled');
+        }
+
+        for (const message of this.toChatMessages(envelope)) {
+            // A fence longer than any backtick run in the message keeps its own code blocks intact
+            const longestRun = Math.max(0, ...(message.content.match(/`+/g) || []).map(run => run.length));
+            const fence = '`'.repeat(Math.max(3, longestRun + 1));
+            lines.push('', `## ${message.role} message`, '', `${fence}markdown`, message.content, fence);
+        }
+
+        return lines.join('\n');
     }
 
     /**
-     * Interpolate template with variables
+     * Render the envelope context as markdown sections
      */
-    private interpolateTemplate(template: string, variables: Record<string, string>): string {
-        let result = template;
-        for (const [key, value] of Object.entries(variables)) {
-            result = result.replace(new RegExp(`\\{${key}\\}`, 'g'), value);
+    private renderContext(envelope: AIRequestEnvelope): string {
+        const sections: string[] = [];
+
+        for (const context of envelope.file_contexts) {
+            const firstLine = (context.start_line || 0) + 1;
+            const lastLine = firstLine + context.snippet.split('\n').length - 1;
+            const relativePath = this.toWorkspacePath(context.path);
+            sections.push(`### ${relativePath} (lines ${firstLine}-${lastLine})\n\`\`\`${context.file_type}\n${context.snippet}\n\`\`\``);
+        }
+        if (envelope.api_reference) {
+            sections.push(`### OBS API signatures\n\`\`\`c\n${envelope.api_reference}\n\`\`\``);
         }
-        return result;
+        if (envelope.recent_build_log) {
+            sections.push(`### Build log (tail)\n\`\`\`text\n${envelope.recent_build_log}\n\`\`\``);
+        }
+        if (envelope.coding_conventions) {
+            sections.push(`### Coding conventions\n${JSON.stringify(envelope.coding_conventions)}`);
+        }
+        sections.push(`### Project structure\n${JSON.stringify(envelope.project_structure)}`);
+
+        return `## Context\n\n${sections.join('\n\n')}`;
     }
 
     /**
-     * Get default system prompt
+     * Template variables describing the project and the current platform
      */
-    private getDefaultSystemPrompt(config: any): string {
-        return `You are an expert C++ developer specializing in OBS Studio plugin development. 
-This project uses CMake presets and follows OBS plugin template conventions.
-Please provide solutions that comply with the project's coding standards.`;
+    private getProjectVariables(intent: AIIntent, config: ObsConfig): Record<string, string> {
+        const platform = process.platform === 'darwin' ? 'macos' :
+                        process.platform === 'win32' ? 'windows' : 'linux';
+        const profile = config.platform_profiles?.[platform];
+        return {
+            intent,
+            platform,
+            cmake_preset: this.getCurrentPlatformPreset(config),
+            build_command: profile?.build_command || '',
+            build_dir: profile?.build_dir || config.platform_build_dirs?.[platform] || 'build',
+            deps_dir: config.dependencies?.obs || '.deps/obs-studio',
+            ui_dir: config.coding_conventions?.ui_components_dir || 'ui',
+            header_ext: config.coding_conventions?.header_extension || '.hpp',
+            custom_context: config.ai_prompts?.custom_context || ''
+        };
     }
 
     /**
@@ -202,42 +387,75 @@ Please provide solutions that comply with the project's coding standards.`;
     }
 
     /**
-     * Gather file contexts for AI
+     * Token budget for the request context from the obsPlugin.ai.contextTokenBudget setting
+     * A quarter of the model input limit is left for chat history and tool output
      */
-    private gatherFileContexts(activeFile?: vscode.TextDocument): FileContext[] {
-        const contexts: FileContext[] = [];
-
-        if (activeFile) {
-            const fileType = this.getFileType(activeFile.fileName);
-            const cursorLine = vscode.window.activeTextEditor?.selection.active.line || 0;
-            
-            contexts.push({
-                path: activeFile.fileName,
-                snippet: this.getRelevantSnippet(activeFile, cursorLine),
-                cursor_line: cursorLine,
-                file_type: fileType
-            });
+    private getContextBudget(maxInputTokens?: number): number {
+        const configured = vscode.workspace.getConfiguration('obsPlugin.ai')
+            .get<number>('contextTokenBudget', AIMiddleware.DEFAULT_CONTEXT_BUDGET);
+        return maxInputTokens ? Math.min(configured, Math.floor(maxInputTokens * 0.75)) : configured;
+    }
+
+    /**
+     * Exact signatures of the indexed OBS APIs mentioned in the request, each with its header and first doc line
+     */
+    private createApiReference(text: string): string | undefined {
+        const symbols = this.symbolIndex?.findReferences(text) || [];
+        if (symbols.length === 0) {
+            return undefined;
         }
 
-        // Add related files (headers, implementations)
-        if (activeFile) {
-            const relatedFiles = this.findRelatedFiles(activeFile.fileName);
-            for (const relatedFile of relatedFiles) {
-                if (fs.existsSync(relatedFile)) {
-                    const content = fs.readFileSync(relatedFile, 'utf8');
-                    contexts.push({
-                        path: relatedFile,
-                        snippet: content.substring(0, 1000), // First 1000 chars
-                        cursor_line: 0,
-                        file_type: this.getFileType(relatedFile)
-                    });
-                }
+        return symbols.map(symbol => {
+            const summary = symbol.doc?.split('\n')[0];
+            return `// ${symbol.include}${summary ? ` - ${summary}` : ''}\n${symbol.signature}`;
+        }).join('\n\n');
+    }
+
+    /**
+     * Gather the active file and its header/implementation pair
+     */
+    private gatherFileContexts(activeFile?: vscode.TextDocument): ContextCandidate[] {
+        const contexts: ContextCandidate[] = [];
+        if (!activeFile) {
+            return contexts;
+        }
+
+        const editor = vscode.window.activeTextEditor;
+        contexts.push({
+            id: activeFile.fileName,
+            kind: 'active_file',
+            content: activeFile.getText(),
+            start_line: 0,
+            focus_line: editor?.document === activeFile ? editor.selection.active.line : 0
+        });
+
+        for (const relatedFile of this.findRelatedFiles(activeFile.fileName)) {
+            if (fs.existsSync(relatedFile)) {
+                contexts.push({
+                    id: relatedFile,
+                    kind: 'paired_header',
+                    content: fs.readFileSync(relatedFile, 'utf8')
+                });
             }
         }
 
         return contexts;
     }
 
+    /**
+     * Path relative to the workspace root, for display in prompts
+     */
+    private toWorkspacePath(filePath: string): string {
+        if (filePath.startsWith(PromptRedactor.WORKSPACE_PLACEHOLDER)) {
+            return filePath.substring(PromptRedactor.WORKSPACE_PLACEHOLDER.length + 1).split(path.sep).join('/');
+        }
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        const relativePath = workspaceRoot ? path.relative(workspaceRoot, filePath) : filePath;
+        return relativePath && !relativePath.startsWith('..') && !path.isAbsolute(relativePath)
+            ? relativePath.split(path.sep).join('/')
+            : filePath;
+    }
+
     /**
      * Analyze project structure
      */
@@ -266,21 +484,6 @@ Please provide solutions that comply with the project's coding standards.`;
         return 'cpp';
     }
 
-    /**
-     * Get relevant code snippet around cursor
-     */
-    private getRelevantSnippet(document: vscode.TextDocument, cursorLine: number): string {
-        const startLine = Math.max(0, cursorLine - 10);
-        const endLine = Math.min(document.lineCount - 1, cursorLine + 10);
-        
-        let snippet = '';
-        for (let i = startLine; i <= endLine; i++) {
-            snippet += document.lineAt(i).text + '\n';
-        }
-        
-        return snippet;
-    }
-
     /**
      * Find related files (header/implementation pairs)
      */
@@ -341,15 +544,19 @@ Please provide solutions that comply with the project's coding standards.`;
      * Format errors for AI consumption
      */
     private formatErrorsForAI(errors: any[]): string {
-        return errors.map((error, index) => 
-            `${index + 1}. ${error.file}:${error.line}:${error.column} - ${error.severity}: ${error.message}`
-        ).join('\n');
+        return errors.map((error, index) => {
+            const related = (error.related || []).map((r: any) => `\n   ${r.kind}: ${r.file}:${r.line} ${r.message}`).join('');
+            const objects = error.linker?.object_files.length ? `\n   referenced from: ${error.linker.object_files.join(', ')}` : '';
+            const suggestion = error.suggestion ? `\n   suggestion: ${error.suggestion}` : '';
+            const fixits = (error.fixits || []).map((f: any) => `\n   fix-it: ${f.file}:${f.range.start.line}:${f.range.start.column} replace with '${f.replacement}'`).join('');
+            return `${index + 1}. ${error.file}:${error.line}:${error.column} - ${error.severity}: ${error.message}${related}${objects}${suggestion}${fixits}`;
+        }).join('\n');
     }
 
     /**
      * Format AI request envelope as string
      */
     private formatAIRequest(envelope: AIRequestEnvelope): string {
-        return `${envelope.system_prompt}\n\nUser Request: ${envelope.user_prompt}\n\nContext: ${JSON.stringify(envelope, null, 2)}`;
+        return `${envelope.system_prompt}\n\nUser Request: ${envelope.user_prompt}\n\n${this.renderContext(envelope)}`;
     }
 }
\ No newline at end of file
@@ -0,0 +1,273 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../utils/Logger';
+import { PatchGenerator } from './PatchGenerator';
+import { PromptRedactor } from './PromptRedactor';
+import { UnifiedDiffApplier } from './UnifiedDiffApplier';
+import {
+    AIResponsePatches,
+    PatchOperation,
+    SourcePosition,
+    SuggestedChange
+} from '../types/ObsConfig';
+
+/**
+ * One SEARCH/REPLACE pair of a search_replace change
+ */
+interface SearchReplaceBlock {
+    search: string;
+    replace: string;
+}
+
+/**
+ * Turns model output into patches: unified diffs, whole files in code blocks tagged with a path,
+ * and SEARCH/REPLACE blocks
+ */
+export class AIResponseParser {
+    private static readonly FENCE = /^```([^\n`]*)\n([\s\S]*?)^```[ \t]*$/gm;
+    private static readonly SEARCH_MARKER = /^<{5,9} SEARCH\s*$/;
+    private static readonly DIVIDER_MARKER = /^={5,9}\s*$/;
+    private static readonly REPLACE_MARKER = /^>{5,9} REPLACE\s*$/;
+
+    constructor(private readonly patchGenerator: PatchGenerator) {}
+
+    /**
+     * Find the changes in a response, one per code block and target file
+     */
+    public static extractChanges(markdown: string): SuggestedChange[] {
+        const changes: SuggestedChange[] = [];
+        const fence = new RegExp(AIResponseParser.FENCE.source, AIResponseParser.FENCE.flags);
+        let match: RegExpExecArray | null;
+
+        while ((match = fence.exec(markdown)) !== null) {
+            const info = match[1].trim().split(/[\s:]+/).filter(part => part);
+            const content = match[2];
+            const infoFile = info.find(part => AIResponseParser.isPath(part));
+
+            if (content.split('\n').some(line => AIResponseParser.SEARCH_MARKER.test(line))) {
+                const precedingLine = markdown.substring(0, match.index).trimEnd().split('\n').pop() || '';
+                changes.push(...AIResponseParser.extractSearchReplace(content, infoFile || AIResponseParser.toPath(precedingLine)));
+                continue;
+            }
+
+            if (info[0] === 'diff' || info[0] === 'patch' || (/^--- /m.test(content) && /^\+\+\+ /m.test(content))) {
+                const files = UnifiedDiffApplier.parse(content)
+                    .flatMap(file => file.status === 'rename' ? [file.old_path, file.new_path] : [file.new_path]);
+                if (files.length > 0) {
+                    changes.push({ kind: 'unified_diff', files: Array.from(new Set(files)), content });
+                }
+                continue;
+            }
+
+            if (infoFile) {
+                changes.push({ kind: 'file_content', files: [AIResponseParser.normalizePath(infoFile)], content });
+            }
+        }
+
+        return changes;
+    }
+
+    /**
+     * Parse the SEARCH/REPLACE pairs of a change
+     */
+    public static parseSearchReplace(content: string): SearchReplaceBlock[] {
+        const blocks: SearchReplaceBlock[] = [];
+        let search: string[] | undefined;
+        let replace: string[] | undefined;
+
+        for (const line of content.split('\n')) {
+            if (AIResponseParser.SEARCH_MARKER.test(line)) {
+                search = [];
+                replace = undefined;
+            } else if (search && !replace && AIResponseParser.DIVIDER_MARKER.test(line)) {
+                replace = [];
+            } else if (search && replace && AIResponseParser.REPLACE_MARKER.test(line)) {
+                blocks.push({ search: search.join('\n'), replace: replace.join('\n') });
+                search = undefined;
+                replace = undefined;
+            } else if (replace) {
+                replace.push(line);
+            } else if (search) {
+                search.push(line);
+            }
+        }
+
+        return blocks;
+    }
+
+    /**
+     * Create one patch per change, resolving paths against the workspace
+     * Changes outside the workspace, diffs of missing files and searches that do not match are rejected
+     */
+    public createPatches(changes: SuggestedChange[], workspaceRoot: string, redactor?: PromptRedactor): AIResponsePatches {
+        const result: AIResponsePatches = { patches: [], rejected: [] };
+
+        for (const suggested of changes) {
+            // Placeholders from request redaction; diffs apply from the workspace root, so they get relative paths
+            const change: SuggestedChange = redactor ? {
+                kind: suggested.kind,
+                files: suggested.files.map(file => redactor.restorePaths(file)),
+                content: redactor.restorePaths(suggested.content, suggested.kind === 'unified_diff')
+            } : suggested;
+
+            try {
+                result.patches.push(this.createPatch(change, workspaceRoot));
+            } catch (error) {
+                const reason = error instanceof Error ? error.message : String(error);
+                Logger.info(`Rejected suggested change to ${change.files.join(', ')}: ${reason}`);
+                result.rejected.push({ files: change.files, reason });
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Create the patch of a single change, throwing when it cannot be applied
+     */
+    private createPatch(change: SuggestedChange, workspaceRoot: string): PatchOperation {
+        const files = change.files.map(file => path.resolve(workspaceRoot, file));
+        const outside = files.find(file => {
+            const relativePath = path.relative(workspaceRoot, file);
+            return relativePath.startsWith('..') || path.isAbsolute(relativePath);
+        });
+        if (outside) {
+            throw new Error(`${outside} is outside the workspace`);
+        }
+
+        const names = files.map(file => path.relative(workspaceRoot, file).split(path.sep).join('/'));
+        const missing = files.filter(file => !fs.existsSync(file));
+
+        if (change.kind === 'unified_diff') {
+            // New files and rename targets do not exist yet; a rename only needs its source
+            const created = UnifiedDiffApplier.parse(change.content)
+                .filter(file => file.status === 'create' || file.status === 'rename')
+                .map(file => path.resolve(workspaceRoot, file.new_path));
+            const missingSources = missing.filter(file => !created.includes(file));
+            if (missingSources.length > 0) {
+                throw new Error(`diff targets missing files: ${missingSources.map(file => path.relative(workspaceRoot, file)).join(', ')}`);
+            }
+            const diff = this.toPatch(change.content, files, `Diff of ${names.join(', ')}`);
+            diff.type = 'unified_diff';
+            return diff;
+        }
+
+        const file = files[0];
+        const newFiles = missing.length > 0 ? [file] : undefined;
+
+        if (change.kind === 'file_content') {
+            const current = newFiles ? '' : fs.readFileSync(file, 'utf8');
+            const patch = this.toPatch(change.content, files, `${newFiles ? 'Create' : 'Replace'} ${names[0]}`);
+            patch.type = 'edit_instructions';
+            patch.edits = [{ type: 'replace_range', file, range: this.getWholeRange(current), text: change.content }];
+            patch.new_files = newFiles;
+            return patch;
+        }
+
+        // Blocks are located again when applied, so the patch follows edits made while it is reviewed
+        const content = `FILE: ${file}\n${change.content}`;
+        const instructions = this.patchGenerator.parseEditInstructions(content, workspaceRoot);
+        const { failures } = this.patchGenerator.resolveEditInstructions(instructions, newFiles);
+        if (failures.length > 0) {
+            throw new Error(failures.map(failure => failure.reason).join('; '));
+        }
+
+        const patch = this.toPatch(content, files, `${instructions.length} search/replace edit(s) in ${names[0]}`);
+        patch.type = 'edit_instructions';
+        patch.new_files = newFiles;
+        return patch;
+    }
+
+    /**
+     * Register a reviewed, never auto-committed patch with PatchGenerator
+     */
+    private toPatch(content: string, files: string[], description: string): PatchOperation {
+        const patch = this.patchGenerator.generatePatch(content, files, true);
+        patch.auto_commit = false;
+        patch.description = description;
+        return patch;
+    }
+
+    /**
+     * SEARCH/REPLACE changes of a code block, one per file; a path line right above a SEARCH marker names its file
+     */
+    private static extractSearchReplace(content: string, defaultFile: string | undefined): SuggestedChange[] {
+        const byFile = new Map<string, string[]>();
+        let file = defaultFile;
+        let current: string[] | undefined;
+        let previous = '';
+
+        for (const line of content.split('\n')) {
+            if (!current && AIResponseParser.SEARCH_MARKER.test(line)) {
+                file = AIResponseParser.toPath(previous) || file;
+                current = file ? byFile.get(file) || [] : [];
+                if (file) {
+                    byFile.set(file, current);
+                }
+            }
+            if (current) {
+                current.push(line);
+                if (AIResponseParser.REPLACE_MARKER.test(line)) {
+                    current = undefined;
+                }
+            }
+            if (line.trim()) {
+                previous = line;
+            }
+        }
+
+        return Array.from(byFile.entries()).map(([target, lines]) => ({
+            kind: 'search_replace' as const,
+            files: [AIResponseParser.normalizePath(target)],
+            content: `${lines.join('\n')}\n`
+        }));
+    }
+
+    /**
+     * The path on a line such as "src/filter.cpp" or "File: `src/filter.cpp`:", or the last quoted or bold path in a sentence
+     */
+    private static toPath(line: string): string | undefined {
+        const candidate = line.trim()
+            .replace(/^#+\s*/, '')
+            .replace(/^(?:file|path)\s*:\s*/i, '')
+            .replace(/^[*`_]+|[*`_:]+$/g, '')
+            .trim();
+        if (/^[\w.\-/\\]+$/.test(candidate) && AIResponseParser.isPath(candidate)) {
+            return candidate;
+        }
+
+        const quoted = Array.from(line.matchAll(/(?:`|\*\*)([\w.\-/\\]+)(?:`|\*\*)/g), match => match[1])
+            .filter(word => AIResponseParser.isPath(word));
+        return quoted.pop();
+    }
+
+    /**
+     * Whether a word of an info string or line looks like a file path
+     */
+    private static isPath(word: string): boolean {
+        return /[\\/]/.test(word) || /\.\w+$/.test(word);
+    }
+
+    /**
+     * Workspace-relative path with forward slashes
+     */
+    private static normalizePath(file: string): string {
+        return file.replace(/\\/g, '/').replace(/^\.\//, '');
+    }
+
+    /**
+     * Range covering a whole file
+     */
+    private getWholeRange(content: string): { start: SourcePosition; end: SourcePosition } {
+        return { start: { line: 1, column: 1 }, end: this.toPosition(content, content.length) };
+    }
+
+    /**
+     * One-based line and column of a content offset
+     */
+    private toPosition(content: string, offset: number): SourcePosition {
+        const before = content.substring(0, offset);
+        const lineStart = before.lastIndexOf('\n') + 1;
+        return { line: before.split('\n').length, column: offset - lineStart + 1 };
+    }
+}
@@ -4,57 +4,85 @@ import * as path from 'path';
 import { Logger } from '../utils/Logger';
 import { OutputChannelManager } from '../utils/OutputChannelManager';
 import { LogParser } from './LogParser';
+import { DiagnosticPublisher } from './DiagnosticPublisher';
 import { CMakeCacheParser, CacheValidationResult } from './CMakeCacheParser';
-import { BuildResult, PlatformProfile } from '../types/ObsConfig';
+import { BuildError, BuildOptions, BuildResult, DiagnosticsFormat, PlatformProfile } from '../types/ObsConfig';
 import { ConfigManager } from './ConfigManager';
+import { BuildHistory } from './BuildHistory';
+import { ErrorFingerprint } from '../utils/ErrorFingerprint';
 
 /**
  * Executes CMake preset-based builds with real-time output streaming
  * Supports platform-specific build configurations
  */
 export class BuildExecutor {
+    /** Flags getConfigureCommand adds to the compiler flags for structured diagnostics */
+    private static readonly DIAGNOSTICS_FLAGS = [
+        '-fdiagnostics-format=json',
+        '-fdiagnostics-format=sarif',
+        '-fdiagnostics-format=sarif-stderr',
+        '-Wno-sarif-format-unstable'
+    ];
+
     private readonly outputManager: OutputChannelManager;
     private readonly logParser: LogParser;
     private readonly cacheParser: CMakeCacheParser;
     private readonly configManager: ConfigManager;
+    private readonly diagnosticPublisher: DiagnosticPublisher;
+    private readonly buildHistory: BuildHistory;
     private currentProcess: cp.ChildProcess | null = null;
 
-    constructor(outputManager: OutputChannelManager, logParser: LogParser, configManager: ConfigManager) {
+    constructor(
+        outputManager: OutputChannelManager,
+        logParser: LogParser,
+        configManager: ConfigManager,
+        diagnosticPublisher: DiagnosticPublisher,
+        buildHistory: BuildHistory
+    ) {
         this.outputManager = outputManager;
         this.logParser = logParser;
         this.cacheParser = new CMakeCacheParser();
         this.configManager = configManager;
+        this.diagnosticPublisher = diagnosticPublisher;
+        this.buildHistory = buildHistory;
     }
 
     /**
      * Configure CMake build system using platform preset
      */
-    public async configure(profile: PlatformProfile, workspaceRoot: string): Promise<BuildResult> {
+    public async configure(profile: PlatformProfile, workspaceRoot: string, options: BuildOptions = {}): Promise<BuildResult> {
         const startTime = Date.now();
+        const configureCommand = this.getConfigureCommand(profile, workspaceRoot);
         this.outputManager.clear();
+        this.diagnosticPublisher.clear();
         this.outputManager.appendLine(`🔧 Configuring CMake with preset: ${profile.cmake_preset}`);
-        this.outputManager.appendLine(`Command: ${profile.configure_command}`);
+        this.outputManager.appendLine(`Command: ${configureCommand}`);
         this.outputManager.appendLine('─'.repeat(80));
 
         try {
-            const result = await this.executeCommand(
-                profile.configure_command,
+            const result = await this.executeWithDiagnostics(
+                configureCommand,
+                'Configure',
+                profile,
                 workspaceRoot,
-                'Configure'
+                options
             );
 
             const duration = Date.now() - startTime;
             const buildResult: BuildResult = {
-                success: result.exitCode === 0,
+                success: result.exitCode === 0 && !result.stoppedEarly,
                 exit_code: result.exitCode,
                 stdout: result.stdout,
                 stderr: result.stderr,
                 duration,
-                errors: this.logParser.parseErrors(result.stderr, profile.cmake_preset),
+                errors: result.errors,
                 cmake_preset: profile.cmake_preset,
-                build_command: profile.configure_command
+                build_command: configureCommand,
+                stopped_early: result.stoppedEarly
             };
 
+            this.publishDiagnostics(buildResult, profile, workspaceRoot);
+
             if (buildResult.success) {
                 this.outputManager.appendLine(`✅ Configuration completed successfully in ${duration}ms`);
                 
@@ -63,6 +91,7 @@ export class BuildExecutor {
             } else {
                 this.outputManager.appendLine(`❌ Configuration failed with exit code ${result.exitCode}`);
                 this.displayErrors(buildResult.errors);
+                this.explainConfigureFailures(buildResult.errors, profile, workspaceRoot);
             }
 
             return buildResult;
@@ -79,7 +108,7 @@ export class BuildExecutor {
                 duration,
                 errors: [],
                 cmake_preset: profile.cmake_preset,
-                build_command: profile.configure_command
+                build_command: configureCommand
             };
         }
     }
@@ -87,37 +116,47 @@ export class BuildExecutor {
     /**
      * Build project using CMake preset
      */
-    public async build(profile: PlatformProfile, workspaceRoot: string): Promise<BuildResult> {
+    public async build(profile: PlatformProfile, workspaceRoot: string, options: BuildOptions = {}): Promise<BuildResult> {
         const startTime = Date.now();
         this.outputManager.clear();
+        this.diagnosticPublisher.clear();
         this.outputManager.appendLine(`🔨 Building with preset: ${profile.cmake_preset}`);
         this.outputManager.appendLine(`Command: ${profile.build_command}`);
         this.outputManager.appendLine('─'.repeat(80));
 
         try {
-            const result = await this.executeCommand(
+            const result = await this.executeWithDiagnostics(
                 profile.build_command,
+                'Build',
+                profile,
                 workspaceRoot,
-                'Build'
+                options
             );
 
             const duration = Date.now() - startTime;
-            const errors = this.logParser.parseErrors(result.stderr, profile.cmake_preset);
+            const errors = result.errors;
             
             const buildResult: BuildResult = {
-                success: result.exitCode === 0,
+                success: result.exitCode === 0 && !result.stoppedEarly,
                 exit_code: result.exitCode,
                 stdout: result.stdout,
                 stderr: result.stderr,
                 duration,
                 errors,
                 cmake_preset: profile.cmake_preset,
-                build_command: profile.build_command
+                build_command: profile.build_command,
+                stopped_early: result.stoppedEarly
             };
 
+            this.publishDiagnostics(buildResult, profile, workspaceRoot);
+            await this.buildHistory.record(buildResult);
+
             if (buildResult.success) {
                 this.outputManager.appendLine(`✅ Build completed successfully in ${duration}ms`);
                 this.outputManager.appendLine(`📁 Output directory: ${profile.output_dir}`);
+            } else if (result.stoppedEarly) {
+                this.outputManager.appendLine(`⏹️  Build stopped after ${errors.length} diagnostics (fail-fast)`);
+                this.displayErrors(errors);
             } else {
                 this.outputManager.appendLine(`❌ Build failed with exit code ${result.exitCode}`);
                 this.displayErrors(errors);
@@ -148,6 +187,7 @@ export class BuildExecutor {
     public async clean(profile: PlatformProfile, workspaceRoot: string): Promise<BuildResult> {
         const startTime = Date.now();
         this.outputManager.clear();
+        this.diagnosticPublisher.clear();
         this.outputManager.appendLine(`🧹 Cleaning build artifacts for preset: ${profile.cmake_preset}`);
         
         const cleanCommand = `cmake --build --preset ${profile.cmake_preset} --target clean`;
@@ -203,7 +243,7 @@ export class BuildExecutor {
      */
     public cancel(): void {
         if (this.currentProcess) {
-            this.currentProcess.kill('SIGTERM');
+            this.killProcessTree(this.currentProcess);
             this.currentProcess = null;
             this.outputManager.appendLine('🛑 Build operation cancelled');
             Logger.info('Build operation cancelled by user');
@@ -300,6 +340,106 @@ export class BuildExecutor {
         }
     }
 
+    /**
+     * Build the configure command, adding structured diagnostics flags when the profile opts in
+     * The flags are appended to the compiler flags already in the cache, or seed them on a fresh configure,
+     * and are removed again when the profile goes back to text output
+     */
+    private getConfigureCommand(profile: PlatformProfile, workspaceRoot: string): string {
+        if (profile.configure_command.includes('-fdiagnostics-format')) {
+            return profile.configure_command;
+        }
+
+        const format = this.getDiagnosticsFormat(profile);
+        if (format === 'text' && profile.diagnostics_format && profile.diagnostics_format !== 'text') {
+            Logger.warn(`${profile.compiler} does not support ${profile.diagnostics_format} diagnostics; using text output`);
+        }
+
+        // GCC writes SARIF to stderr only with the -stderr variant; Clang marks its SARIF output as unstable
+        const flag = format === 'text'
+            ? ''
+            : format === 'json'
+                ? '-fdiagnostics-format=json'
+                : profile.compiler === 'clang++'
+                    ? '-fdiagnostics-format=sarif -Wno-sarif-format-unstable'
+                    : '-fdiagnostics-format=sarif-stderr';
+
+        const buildDir = path.join(workspaceRoot, profile.build_dir || this.configManager.getBuildDirectory());
+        const cacheEntries = this.cacheParser.readCacheEntries(buildDir);
+        const definitions: string[] = [];
+        for (const variable of ['CMAKE_C_FLAGS', 'CMAKE_CXX_FLAGS']) {
+            const cached = cacheEntries[variable];
+            if (cached === undefined) {
+                if (flag) {
+                    definitions.push(`"-D${variable}_INIT=${flag}"`);
+                }
+                continue;
+            }
+
+            const kept = cached.split(/\s+/).filter(part => part && !BuildExecutor.DIAGNOSTICS_FLAGS.includes(part));
+            const updated = [...kept, flag].filter(part => part).join(' ');
+            if (updated !== cached) {
+                definitions.push(`"-D${variable}=${updated.replace(/"/g, '\\"')}"`);
+            }
+        }
+
+        return [profile.configure_command, ...definitions].join(' ');
+    }
+
+    /**
+     * Diagnostics format the compiler writes: one set by -fdiagnostics-format in the configure command,
+     * else the profile's diagnostics_format when the compiler supports it
+     */
+    private getDiagnosticsFormat(profile: PlatformProfile): DiagnosticsFormat {
+        const explicit = profile.configure_command.match(/-fdiagnostics-format=(json|sarif)/);
+        if (explicit) {
+            return explicit[1] as DiagnosticsFormat;
+        }
+
+        const format = profile.diagnostics_format || 'text';
+        if (profile.compiler === 'msvc' || (format === 'json' && profile.compiler === 'clang++')) {
+            return 'text';
+        }
+        return format;
+    }
+
+    /**
+     * Show the CMake cache entries behind classified configure failures
+     */
+    private explainConfigureFailures(errors: BuildError[], profile: PlatformProfile, workspaceRoot: string): void {
+        const classified = errors.filter(error => error.cmake && error.cmake.category !== 'other');
+        if (classified.length === 0) {
+            return;
+        }
+
+        const buildDir = path.join(workspaceRoot, profile.build_dir || this.configManager.getBuildDirectory());
+        const cacheEntries = this.cacheParser.readCacheEntries(buildDir);
+
+        this.outputManager.appendLine('🧭 Configure failure analysis:');
+        for (const error of classified) {
+            const cmake = error.cmake!;
+            const subject = cmake.package ? ` (${cmake.package})` : '';
+            this.outputManager.appendLine(`   ${cmake.category}${subject}: ${error.file}:${error.line}`);
+
+            if (cmake.cache_variable) {
+                const value = cacheEntries[cmake.cache_variable];
+                const dependency = cmake.dependency_key ? ` [${cmake.dependency_key}]` : '';
+                this.outputManager.appendLine(
+                    `      Cache entry ${cmake.cache_variable}${dependency} = ${value !== undefined ? value : '(not in CMakeCache.txt)'}`
+                );
+            }
+        }
+        this.outputManager.appendLine('');
+    }
+
+    /**
+     * Publish parsed build errors to the Problems panel
+     */
+    private publishDiagnostics(buildResult: BuildResult, profile: PlatformProfile, workspaceRoot: string): void {
+        const buildDir = profile.build_dir || this.configManager.getBuildDirectory();
+        this.diagnosticPublisher.publish(buildResult.errors, workspaceRoot, buildDir);
+    }
+
     /**
      * Emit dependency validation event for other components to handle
      */
@@ -324,10 +464,83 @@ export class BuildExecutor {
         }
     }
 
+    /**
+     * Execute command while parsing diagnostics from stdout and stderr as they arrive
+     * Updates the Problems panel and progress live, and cancels the process on fail-fast
+     */
+    private async executeWithDiagnostics(
+        command: string,
+        operation: string,
+        profile: PlatformProfile,
+        workspaceRoot: string,
+        options: BuildOptions
+    ): Promise<{exitCode: number, stdout: string, stderr: string, errors: BuildError[], stoppedEarly: boolean}> {
+        const format = this.getDiagnosticsFormat(profile);
+        const streams = { stdout: this.logParser.createStream(format), stderr: this.logParser.createStream(format) };
+        const buildDir = profile.build_dir || this.configManager.getBuildDirectory();
+        const errors: BuildError[] = [];
+        let stepMessage = '';
+        let stoppedEarly = false;
+        let publishTimer: NodeJS.Timeout | undefined;
+
+        const reportProgress = () => {
+            const errorCount = errors.filter(error => error.severity === 'error').length;
+            const errorMessage = errorCount > 0 ? `${errorCount} error${errorCount === 1 ? '' : 's'} so far` : '';
+            options.onProgress?.([stepMessage, errorMessage].filter(part => part).join(' — '));
+        };
+
+        for (const stream of [streams.stdout, streams.stderr]) {
+            stream.onDiagnostics(newErrors => {
+                errors.push(...newErrors);
+                reportProgress();
+
+                // Batch Problems panel updates while diagnostics arrive in bursts
+                if (!publishTimer) {
+                    publishTimer = setTimeout(() => {
+                        publishTimer = undefined;
+                        this.diagnosticPublisher.publish(errors, workspaceRoot, buildDir);
+                    }, 250);
+                }
+
+                const limit = options.failFastErrorLimit || 0;
+                const errorCount = errors.filter(error => error.severity === 'error').length;
+                if (limit > 0 && !stoppedEarly && errorCount >= limit) {
+                    stoppedEarly = true;
+                    this.outputManager.appendLine(`\n🛑 Fail-fast: stopping ${operation.toLowerCase()} after ${errorCount} errors`);
+                    this.cancel();
+                }
+            });
+
+            stream.onProgress(progress => {
+                stepMessage = progress.total !== undefined
+                    ? `[${progress.completed}/${progress.total}] ${progress.description}`
+                    : `[${progress.percent}%] ${progress.description}`;
+                reportProgress();
+            });
+        }
+
+        try {
+            const result = await this.executeCommand(command, workspaceRoot, operation, (source, chunk) => streams[source].write(chunk));
+            streams.stdout.end();
+            streams.stderr.end();
+            ErrorFingerprint.assign(errors, workspaceRoot);
+            return { ...result, errors, stoppedEarly };
+        } finally {
+            if (publishTimer) {
+                clearTimeout(publishTimer);
+            }
+        }
+    }
+
     /**
      * Execute command with real-time output streaming
      */
-    private executeCommand(command: string, cwd: string, operation: string): Promise<{exitCode: number, stdout: string, stderr: string}> {
+    private executeCommand(
+        command: string,
+        cwd: string,
+        operation: string,
+        onData?: (source: 'stdout' | 'stderr', chunk: string) => void
+    ): Promise<{exitCode: number, stdout: string, stderr: string}> {
         return new Promise((resolve, reject) => {
             const args = command.split(' ');
             const cmd = args.shift()!;
@@ -335,28 +548,37 @@ export class BuildExecutor {
             this.currentProcess = cp.spawn(cmd, args, {
                 cwd,
                 stdio: ['pipe', 'pipe', 'pipe'],
-                shell: true
+                shell: true,
+                // Own process group so cancellation reaches the compilers started by the shell
+                detached: process.platform !== 'win32'
             });
 
             let stdout = '';
             let stderr = '';
 
-            this.currentProcess.stdout?.on('data', (data: Buffer) => {
-                const output = data.toString();
+            // Decode as UTF-8 so multi-byte characters split across chunks stay intact
+            this.currentProcess.stdout?.setEncoding('utf8');
+            this.currentProcess.stderr?.setEncoding('utf8');
+
+            this.currentProcess.stdout?.on('data', (data: string) => {
+                const output = data;
                 stdout += output;
                 this.outputManager.append(output);
+                onData?.('stdout', output);
             });
 
-            this.currentProcess.stderr?.on('data', (data: Buffer) => {
-                const output = data.toString();
+            this.currentProcess.stderr?.on('data', (data: string) => {
+                const output = data;
                 stderr += output;
                 this.outputManager.append(output);
+                onData?.('stderr', output);
             });
 
             this.currentProcess.on('close', (code) => {
                 this.currentProcess = null;
                 resolve({
-                    exitCode: code || 0,
+                    // A null code means the process was killed by a signal
+                    exitCode: code === null ? -1 : code,
                     stdout,
                     stderr
                 });
@@ -370,7 +592,7 @@ export class BuildExecutor {
             // Handle process termination
             const timeout = setTimeout(() => {
                 if (this.currentProcess) {
-                    this.currentProcess.kill('SIGTERM');
+                    this.killProcessTree(this.currentProcess);
                     reject(new Error(`${operation} operation timed out after 5 minutes`));
                 }
             }, 5 * 60 * 1000); // 5 minutes timeout
@@ -381,6 +603,27 @@ export class BuildExecutor {
         });
     }
 
+    /**
+     * Terminate a spawned shell together with the processes it started
+     */
+    private killProcessTree(child: cp.ChildProcess): void {
+        if (child.pid === undefined) {
+            return;
+        }
+
+        if (process.platform === 'win32') {
+            cp.exec(`taskkill /pid ${child.pid} /T /F`);
+            return;
+        }
+
+        try {
+            process.kill(-child.pid, 'SIGTERM');
+        } catch (error) {
+            Logger.warn(`Failed to terminate process group ${child.pid}`, error);
+            child.kill('SIGTERM');
+        }
+    }
+
     /**
      * Display build errors in output channel
      */
@@ -396,6 +639,18 @@ export class BuildExecutor {
         errors.forEach((error, index) => {
             this.outputManager.appendLine(`${index + 1}. ${error.file}:${error.line}:${error.column}`);
             this.outputManager.appendLine(`   ${error.severity.toUpperCase()}: ${error.message}`);
+
+            for (const related of error.related || []) {
+                this.outputManager.appendLine(`      ↳ ${related.file}:${related.line}: ${related.message}`);
+            }
+
+            if (error.linker && error.linker.object_files.length > 0) {
+                this.outputManager.appendLine(`   Referenced from: ${error.linker.object_files.join(', ')}`);
+            }
+
+            if (error.suggestion) {
+                this.outputManager.appendLine(`   🔧 Fix: ${error.suggestion}`);
+            }
             
             if (error.convention_violation) {
                 this.outputManager.appendLine(`   💡 Convention: ${error.convention_violation.suggestion}`);
@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import { Logger } from '../utils/Logger';
+import { BuildComparison, BuildHistoryEntry, BuildResult, RecordedBuildError } from '../types/ObsConfig';
+
+/**
+ * Persists build diagnostics in workspace storage
+ * Compares builds by error fingerprint to find new, fixed and persisting errors
+ */
+export class BuildHistory {
+    private static readonly STORAGE_KEY = 'obsPlugin.buildHistory';
+    private static readonly MAX_ENTRIES = 50;
+
+    constructor(private readonly storage: vscode.Memento) {}
+
+    /**
+     * Record a build result and return its history entry
+     */
+    public async record(result: BuildResult): Promise<BuildHistoryEntry> {
+        const entry: BuildHistoryEntry = {
+            id: this.generateEntryId(),
+            timestamp: new Date().toISOString(),
+            cmake_preset: result.cmake_preset,
+            build_command: result.build_command,
+            duration: result.duration,
+            success: result.success,
+            error_count: result.errors.filter(error => error.severity === 'error').length,
+            warning_count: result.errors.filter(error => error.severity === 'warning').length,
+            errors: result.errors.map(error => ({
+                fingerprint: error.fingerprint || '',
+                file: error.file,
+                line: error.line,
+                severity: error.severity,
+                message: error.message
+            }))
+        };
+
+        const entries = [entry, ...this.getEntries()].slice(0, BuildHistory.MAX_ENTRIES);
+        await this.storage.update(BuildHistory.STORAGE_KEY, entries);
+        result.history_id = entry.id;
+
+        Logger.info(`Recorded build ${entry.id}: ${entry.error_count} errors, ${entry.warning_count} warnings`);
+        return entry;
+    }
+
+    /**
+     * Get recorded builds, newest first
+     */
+    public getEntries(): BuildHistoryEntry[] {
+        return this.storage.get<BuildHistoryEntry[]>(BuildHistory.STORAGE_KEY, []);
+    }
+
+    /**
+     * Get a recorded build by id
+     */
+    public getEntry(id: string): BuildHistoryEntry | undefined {
+        return this.getEntries().find(entry => entry.id === id);
+    }
+
+    /**
+     * Get the most recent recorded build
+     */
+    public getLatest(): BuildHistoryEntry | undefined {
+        return this.getEntries()[0];
+    }
+
+    /**
+     * Compare two recorded builds by id
+     */
+    public compare(baseId: string, targetId: string): BuildComparison | undefined {
+        const base = this.getEntry(baseId);
+        const target = this.getEntry(targetId);
+        return base && target ? BuildHistory.diff(base, target) : undefined;
+    }
+
+    /**
+     * Remove all recorded builds
+     */
+    public async clear(): Promise<void> {
+        await this.storage.update(BuildHistory.STORAGE_KEY, []);
+    }
+
+    /**
+     * Split the errors of two builds into new, fixed and persisting
+     */
+    public static diff(base: BuildHistoryEntry, target: BuildHistoryEntry): BuildComparison {
+        const baseFingerprints = new Set(base.errors.map(error => error.fingerprint));
+        const targetFingerprints = new Set(target.errors.map(error => error.fingerprint));
+        const isTracked = (error: RecordedBuildError) => error.severity !== 'info';
+
+        return {
+            base,
+            target,
+            new_errors: target.errors.filter(error => isTracked(error) && !baseFingerprints.has(error.fingerprint)),
+            fixed_errors: base.errors.filter(error => isTracked(error) && !targetFingerprints.has(error.fingerprint)),
+            persisting_errors: target.errors.filter(error => isTracked(error) && baseFingerprints.has(error.fingerprint))
+        };
+    }
+
+    /**
+     * Format a comparison as a short summary
+     */
+    public static summarize(comparison: BuildComparison): string {
+        return `${comparison.fixed_errors.length} fixed, ${comparison.new_errors.length} new, ` +
+            `${comparison.persisting_errors.length} still present`;
+    }
+
+    /**
+     * Generate unique history entry ID
+     */
+    private generateEntryId(): string {
+        return `build_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    }
+}
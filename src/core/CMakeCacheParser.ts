@@ -33,6 +33,16 @@ export interface CacheValidationResult {
  * to extract actual resolved dependency paths for OBS Studio, Qt6, and related libraries.
  */
 export class CMakeCacheParser {
+    private static readonly PACKAGE_DEPENDENCY_KEYS: Record<string, string> = {
+        'OBS': 'obs_studio_dir',
+        'obs-studio': 'obs_studio_dir',
+        'libobs': 'libobs_dir',
+        'obs-frontend-api': 'obs_frontend_api_dir',
+        'Qt6': 'qt6_dir',
+        'Qt6Core': 'qt6_core_dir',
+        'Qt6Widgets': 'qt6_widgets_dir'
+    };
+
     private readonly logger = Logger;
 
     /**
@@ -237,6 +247,48 @@ export class CMakeCacheParser {
         return { differences, hasChanges };
     }
 
+    /**
+     * Map a CMake package name to the dependency key that records its location
+     * @param packageName Package name as passed to find_package
+     * @returns string | undefined Dependency key, if the package is a known OBS plugin dependency
+     */
+    public getDependencyKeyForPackage(packageName: string): string | undefined {
+        const key = CMakeCacheParser.PACKAGE_DEPENDENCY_KEYS[packageName];
+        if (key) {
+            return key;
+        }
+
+        // Other Qt6 components are located through Qt6_DIR
+        return /^Qt6\w+$/.test(packageName) ? 'qt6_dir' : undefined;
+    }
+
+    /**
+     * Read all entries from CMakeCache.txt in the specified build directory
+     * @param buildDir Path to the build directory containing CMakeCache.txt
+     * @returns Record<string, string> Cache values keyed by variable name, empty if there is no cache
+     */
+    public readCacheEntries(buildDir: string): Record<string, string> {
+        const entries: Record<string, string> = {};
+        const cacheFilePath = path.join(buildDir, 'CMakeCache.txt');
+
+        try {
+            if (!fs.existsSync(cacheFilePath)) {
+                return entries;
+            }
+
+            for (const line of fs.readFileSync(cacheFilePath, 'utf8').split(/\r?\n/)) {
+                const match = line.match(/^([^#/][^:=]*):[A-Z_]+=(.*)$/);
+                if (match) {
+                    entries[match[1]] = match[2].trim();
+                }
+            }
+        } catch (error) {
+            this.logger.warn(`Failed to read cache entries from ${cacheFilePath}`, error);
+        }
+
+        return entries;
+    }
+
     /**
      * Log dependency information for debugging
      * @param dependencies Dependency information to log
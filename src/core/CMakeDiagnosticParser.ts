@@ -0,0 +1,264 @@
+import * as path from 'path';
+import { BuildError, CMakeDiagnostic, DiagnosticLineParser, RelatedDiagnostic } from '../types/ObsConfig';
+import { CMakeCacheParser } from './CMakeCacheParser';
+
+/**
+ * Stateful parser for CMake errors, warnings and deprecation warnings
+ * Captures the indented explanation and call stack that follow each header line
+ */
+export class CMakeDiagnosticParser implements DiagnosticLineParser {
+    private static readonly LOCATED_HEADER = /^CMake (Error|Warning|Deprecation Warning|Deprecation Error)( \(dev\))? (?:at|in) (.+?)(?::(\d+))?(?: \(([^)]+)\))?:(?:\s+(.*))?$/;
+    private static readonly HEADER = /^CMake (Error|Warning|Deprecation Warning|Deprecation Error)( \(dev\))?:\s*(.*)$/;
+    private static readonly CALL_STACK = /^Call Stack \(most recent call first\):$/;
+    private static readonly CALL_STACK_FRAME = /^\s+(.+?):(\d+)(?: \(([^)]+)\))?$/;
+    private static readonly DEVELOPER_NOTE = /^This (?:warning|error) is for project developers\./;
+    private static readonly UNINDENTED_TERMINATORS = /^(?:CMake |-- |\[|Call Stack)/;
+
+    private static readonly CATEGORIES: Array<[RegExp, CMakeDiagnostic['category']]> = [
+        [/does not match the generator used previously|generator platform:[\s\S]*does not match the platform used previously|Could not create named generator/i, 'generator_mismatch'],
+        [/is different than the directory[\s\S]*where CMakeCache\.txt was created|does not match the source[\s\S]*used to generate cache|CMakeCache\.txt[\s\S]*re-run CMake/i, 'stale_cache'],
+        [/No such preset|Could not read presets|Invalid preset|Invalid macro expansion|CMakePresets\.json|CMakeUserPresets\.json/i, 'bad_preset'],
+        [/Could not find toolchain file|No CMAKE_(?:C|CXX)_COMPILER could be found|CMAKE_(?:C|CXX)_COMPILER not set|The (?:C|CXX) compiler .* is not able to compile/i, 'toolchain'],
+        [/Could NOT find |Could not find a (?:package )?configuration file|By not providing "Find|Could not find a configuration file for package/i, 'missing_package']
+    ];
+
+    private static readonly PACKAGE_NAME = [
+        /Could NOT find ([\w.+-]+)/,
+        /provided by "([\w.+-]+)"/,
+        /configuration file for package "([\w.+-]+)"/,
+        /By not providing "Find([\w.+-]+)\.cmake"/
+    ];
+
+    private current: BuildError | null = null;
+    private locationless = false;
+    private inCallStack = false;
+    private paragraphs: string[][] = [];
+    private completed: BuildError[] = [];
+
+    constructor(private readonly cacheParser: CMakeCacheParser) {}
+
+    /**
+     * Feed a single log line into the parser
+     */
+    public feed(line: string): boolean {
+        let match: RegExpMatchArray | null;
+
+        if ((match = line.match(CMakeDiagnosticParser.LOCATED_HEADER))) {
+            const [, kind, dev, file, lineStr, command, message] = match;
+            this.open(kind, dev, file, lineStr, command, message, line);
+            return true;
+        }
+
+        if ((match = line.match(CMakeDiagnosticParser.HEADER))) {
+            const [, kind, dev, message] = match;
+            this.open(kind, dev, 'CMakeLists.txt', undefined, undefined, message, line);
+            this.locationless = true;
+            return true;
+        }
+
+        if (!this.current) {
+            return false;
+        }
+
+        if (CMakeDiagnosticParser.CALL_STACK.test(line)) {
+            this.inCallStack = true;
+            this.current.raw += '\n' + line;
+            return true;
+        }
+
+        if (CMakeDiagnosticParser.DEVELOPER_NOTE.test(line)) {
+            this.current.raw += '\n' + line;
+            this.flush();
+            return true;
+        }
+
+        if (line.trim() === '') {
+            if (this.locationless) {
+                this.flush();
+                return false;
+            }
+            this.paragraphs.push([]);
+            return true;
+        }
+
+        if (this.inCallStack && (match = line.match(CMakeDiagnosticParser.CALL_STACK_FRAME))) {
+            this.current.related!.push({
+                kind: 'call_stack',
+                file: path.normalize(match[1]),
+                line: parseInt(match[2]) || 1,
+                column: 1,
+                message: match[3] ? `${match[3]} called here` : 'Called from here'
+            });
+            this.current.raw += '\n' + line;
+            return true;
+        }
+
+        // Location-less errors such as generator mismatches continue on unindented lines
+        const continues = /^\s/.test(line) ||
+            (this.locationless && !CMakeDiagnosticParser.UNINDENTED_TERMINATORS.test(line));
+        if (!continues || this.inCallStack) {
+            this.flush();
+            return false;
+        }
+
+        this.paragraphs[this.paragraphs.length - 1].push(line.trim());
+        this.current.raw += '\n' + line;
+        return true;
+    }
+
+    /**
+     * Close the open CMake diagnostic
+     */
+    public flush(): void {
+        if (!this.current) {
+            return;
+        }
+
+        const error = this.current;
+        const body = this.paragraphs
+            .filter(paragraph => paragraph.length > 0)
+            .map(paragraph => paragraph.join(' '))
+            .join('\n');
+        if (body) {
+            error.message = error.message ? `${error.message}\n${body}` : body;
+        }
+        if (!error.message) {
+            error.message = error.cmake!.command ? `${error.cmake!.command} failed` : 'CMake reported an error';
+        }
+
+        this.relocateToProjectFile(error);
+        this.classify(error);
+
+        this.completed.push(error);
+        this.current = null;
+        this.locationless = false;
+        this.inCallStack = false;
+        this.paragraphs = [];
+    }
+
+    /**
+     * Take all completed CMake diagnostics
+     */
+    public drain(): BuildError[] {
+        const completed = this.completed;
+        this.completed = [];
+        return completed;
+    }
+
+    /**
+     * Start a new CMake diagnostic from its header line
+     */
+    private open(
+        kind: string,
+        dev: string | undefined,
+        file: string,
+        lineStr: string | undefined,
+        command: string | undefined,
+        message: string | undefined,
+        line: string
+    ): void {
+        this.flush();
+
+        const cmakeKind = this.normalizeKind(kind, Boolean(dev));
+        this.current = {
+            file: path.normalize(file.trim()),
+            line: parseInt(lineStr || '') || 1,
+            column: 1,
+            severity: cmakeKind.endsWith('warning') ? 'warning' : 'error',
+            message: (message || '').trim(),
+            raw: line,
+            related: [],
+            cmake: {
+                kind: cmakeKind,
+                command,
+                category: 'other'
+            }
+        };
+        this.paragraphs = [[]];
+    }
+
+    /**
+     * Point errors raised inside CMake modules at the project file that called them
+     */
+    private relocateToProjectFile(error: BuildError): void {
+        if (!path.isAbsolute(error.file)) {
+            return;
+        }
+
+        const frame = error.related!.find(related => related.kind === 'call_stack' && !path.isAbsolute(related.file));
+        if (frame) {
+            const origin: RelatedDiagnostic = {
+                kind: 'context',
+                file: error.file,
+                line: error.line,
+                column: 1,
+                message: 'Raised here'
+            };
+            error.file = frame.file;
+            error.line = frame.line;
+            error.related!.unshift(origin);
+        }
+    }
+
+    /**
+     * Classify a configure failure and link it to the cache entry that explains it
+     */
+    private classify(error: BuildError): void {
+        const cmake = error.cmake!;
+        const text = `${error.message}\n${error.raw}`;
+        const category = CMakeDiagnosticParser.CATEGORIES.find(([pattern]) => pattern.test(text));
+        cmake.category = category ? category[1] : 'other';
+
+        switch (cmake.category) {
+            case 'missing_package': {
+                const packageMatch = CMakeDiagnosticParser.PACKAGE_NAME
+                    .map(pattern => text.match(pattern))
+                    .find(match => match !== null);
+                cmake.package = packageMatch ? packageMatch[1] : undefined;
+                if (cmake.package) {
+                    cmake.dependency_key = this.cacheParser.getDependencyKeyForPackage(cmake.package);
+                    cmake.cache_variable = `${cmake.package}_DIR`;
+                }
+                error.suggestion = cmake.package
+                    ? `Set ${cmake.cache_variable} to the directory containing ${cmake.package}Config.cmake, ` +
+                        `or add the ${cmake.package} install prefix to CMAKE_PREFIX_PATH in the configure preset`
+                    : 'Add the missing package install prefix to CMAKE_PREFIX_PATH in the configure preset';
+                break;
+            }
+            case 'bad_preset':
+                error.file = this.locationless ? 'CMakePresets.json' : error.file;
+                error.suggestion = 'Check that the cmake_preset in .obspluginrc.json names a preset defined in CMakePresets.json';
+                break;
+            case 'stale_cache':
+                cmake.cache_variable = 'CMAKE_CACHEFILE_DIR';
+                error.suggestion = 'The build directory was configured from another location: run OBS: Clean or delete ' +
+                    'CMakeCache.txt and CMakeFiles in the build directory, then configure again';
+                break;
+            case 'generator_mismatch':
+                cmake.cache_variable = 'CMAKE_GENERATOR';
+                error.suggestion = 'The build directory was configured with a different generator: delete CMakeCache.txt ' +
+                    'and CMakeFiles in the build directory or give this preset its own build_dir';
+                break;
+            case 'toolchain':
+                cmake.cache_variable = 'CMAKE_CXX_COMPILER';
+                error.suggestion = 'Install the compiler toolchain for this platform or fix the compiler and toolchain file set by the preset';
+                break;
+        }
+    }
+
+    /**
+     * Normalize CMake diagnostic kind
+     */
+    private normalizeKind(kind: string, dev: boolean): CMakeDiagnostic['kind'] {
+        switch (kind) {
+            case 'Warning':
+                return dev ? 'dev_warning' : 'warning';
+            case 'Deprecation Warning':
+                return 'deprecation_warning';
+            case 'Deprecation Error':
+                return 'deprecation_error';
+            default:
+                return 'error';
+        }
+    }
+}
@@ -0,0 +1,240 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as cp from 'child_process';
+import { Logger } from '../utils/Logger';
+import { CodingConventions, CommitGateResult, ConventionSeverity, ConventionViolation } from '../types/ObsConfig';
+import { ConventionRuleEngine } from './ConventionRuleEngine';
+
+/**
+ * Checks staged files against the coding conventions before a commit
+ * Used by PatchGenerator.autoCommit and by the git pre-commit hook, so it must not depend on the VS Code API
+ */
+export class CommitGate {
+    public static readonly HOOK_MARKER = '# obs-plugin-ai-assistant pre-commit hook';
+
+    private static readonly SEVERITY_RANK: Record<ConventionSeverity, number> = { info: 0, warning: 1, error: 2 };
+    private static readonly MAX_FILE_SIZE = 1024 * 1024;
+
+    /**
+     * @param hookScriptPath compiled preCommitCheck.js run by the installed hook
+     */
+    constructor(
+        private readonly ruleEngine: ConventionRuleEngine = new ConventionRuleEngine(),
+        private readonly hookScriptPath?: string
+    ) {}
+
+    /**
+     * Read coding conventions from .obspluginrc.json in the workspace root
+     */
+    public static loadConventions(workspaceRoot: string): Partial<CodingConventions> | undefined {
+        const configPath = path.join(workspaceRoot, '.obspluginrc.json');
+        if (!fs.existsSync(configPath)) {
+            return undefined;
+        }
+        return JSON.parse(fs.readFileSync(configPath, 'utf8')).coding_conventions || {};
+    }
+
+    /**
+     * Validate the staged version of every staged file
+     * Fully staged files are auto-fixed and re-staged when commit_gate.auto_fix is not disabled
+     */
+    public async check(workspaceRoot: string, conventions?: Partial<CodingConventions>): Promise<CommitGateResult> {
+        conventions = conventions || CommitGate.loadConventions(workspaceRoot) || {};
+        const settings = conventions.commit_gate || {};
+        const result: CommitGateResult = {
+            workspace_root: workspaceRoot,
+            files: [],
+            fixed: {},
+            violations: [],
+            blocking: [],
+            passed: true
+        };
+
+        if (settings.enabled === false) {
+            return result;
+        }
+
+        for (const relativePath of await this.getStagedFiles(workspaceRoot)) {
+            if (this.ruleEngine.getApplicableRules(relativePath, conventions).length === 0) {
+                continue;
+            }
+
+            const staged = await this.git(['show', `:${relativePath}`], workspaceRoot);
+            if (staged.length > CommitGate.MAX_FILE_SIZE) {
+                Logger.warn(`Skipping convention check of large staged file ${relativePath}`);
+                continue;
+            }
+
+            const filePath = path.join(workspaceRoot, relativePath);
+            let violations = this.ruleEngine.validate(filePath, staged, conventions, workspaceRoot);
+
+            if (settings.auto_fix !== false && violations.some(violation => violation.auto_fixable)) {
+                const fixed = await this.fixStagedFile(workspaceRoot, relativePath, staged, violations, conventions);
+                if (fixed) {
+                    result.fixed[relativePath] = fixed.rules;
+                    violations = this.ruleEngine.validate(filePath, fixed.content, conventions, workspaceRoot);
+                }
+            }
+
+            result.files.push(relativePath);
+            result.violations.push(...violations);
+        }
+
+        const threshold = CommitGate.SEVERITY_RANK[settings.block_on || 'warning'];
+        result.blocking = result.violations.filter(violation =>
+            CommitGate.SEVERITY_RANK[violation.severity || 'warning'] >= threshold
+        );
+        result.passed = result.blocking.length === 0;
+
+        Logger.info(`Commit gate checked ${result.files.length} staged files: ${result.blocking.length} blocking violations`);
+        return result;
+    }
+
+    /**
+     * Format a gate result as plain text for dialogs and the terminal
+     */
+    public formatReport(result: CommitGateResult): string {
+        const lines: string[] = [];
+        const blocking = new Set(result.blocking);
+
+        lines.push(result.passed
+            ? `Convention check passed for ${result.files.length} staged files`
+            : `${result.blocking.length} blocking convention violations in staged files:`);
+
+        for (const violation of this.sortViolations(result.violations, result.workspace_root)) {
+            const relativePath = path.relative(result.workspace_root, violation.file || '').replace(/\\/g, '/');
+            const marker = blocking.has(violation) ? '✗' : '•';
+            lines.push(`  ${marker} ${relativePath}:${violation.line || 1} [${violation.severity || 'warning'}] ${violation.type}: ${violation.suggestion}`);
+        }
+
+        for (const [relativePath, rules] of Object.entries(result.fixed)) {
+            lines.push(`  Auto-fixed and re-staged ${relativePath} (${rules.join(', ')})`);
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Install the convention check as the repository's git pre-commit hook
+     * An existing foreign hook is kept as pre-commit.local and run first
+     */
+    public async installHook(workspaceRoot: string): Promise<string> {
+        if (!this.hookScriptPath) {
+            throw new Error('No pre-commit check script is available');
+        }
+
+        const hooksDir = path.resolve(workspaceRoot, (await this.git(['rev-parse', '--git-path', 'hooks'], workspaceRoot)).trim());
+        const hookPath = path.join(hooksDir, 'pre-commit');
+        const localHookPath = path.join(hooksDir, 'pre-commit.local');
+
+        if (fs.existsSync(hooksDir) && !fs.statSync(hooksDir).isDirectory()) {
+            throw new Error(`Git hooks are disabled because core.hooksPath is ${hooksDir}`);
+        }
+        await fs.promises.mkdir(hooksDir, { recursive: true });
+        if (fs.existsSync(hookPath) && !fs.readFileSync(hookPath, 'utf8').includes(CommitGate.HOOK_MARKER)) {
+            if (fs.existsSync(localHookPath)) {
+                throw new Error(`Both ${hookPath} and ${localHookPath} exist; remove one before installing`);
+            }
+            await fs.promises.rename(hookPath, localHookPath);
+            Logger.info(`Kept existing pre-commit hook as ${localHookPath}`);
+        }
+
+        await fs.promises.writeFile(hookPath, this.createHookScript(this.hookScriptPath, process.execPath), { mode: 0o755 });
+        await fs.promises.chmod(hookPath, 0o755);
+
+        Logger.info(`Installed convention pre-commit hook at ${hookPath}`);
+        return hookPath;
+    }
+
+    /**
+     * List staged added, copied, modified and renamed files
+     */
+    public async getStagedFiles(workspaceRoot: string): Promise<string[]> {
+        const output = await this.git(['diff', '--cached', '--name-only', '--diff-filter=ACMR', '-z'], workspaceRoot);
+        return output.split('\0').filter(file => file);
+    }
+
+    /**
+     * Apply content fixes to a file whose working copy matches the index, then re-stage it
+     * Partially staged files are left alone so unstaged changes never end up in the commit
+     */
+    private async fixStagedFile(
+        workspaceRoot: string,
+        relativePath: string,
+        staged: string,
+        violations: ConventionViolation[],
+        conventions: Partial<CodingConventions>
+    ): Promise<{ content: string; rules: string[] } | undefined> {
+        const filePath = path.join(workspaceRoot, relativePath);
+        const working = fs.existsSync(filePath) ? await fs.promises.readFile(filePath, 'utf8') : undefined;
+        if (working !== staged) {
+            Logger.info(`Not auto-fixing partially staged file ${relativePath}`);
+            return undefined;
+        }
+
+        const result = this.ruleEngine.applyFixes(filePath, staged, violations, conventions, workspaceRoot);
+        if (result.fixed.length === 0) {
+            return undefined;
+        }
+
+        await fs.promises.writeFile(filePath, result.content, 'utf8');
+        await this.git(['add', '--', relativePath], workspaceRoot);
+        Logger.info(`Auto-fixed ${result.fixed.join(', ')} in staged file ${relativePath}`);
+        return { content: result.content, rules: result.fixed };
+    }
+
+    /**
+     * Sort violations by file and line
+     */
+    private sortViolations(violations: ConventionViolation[], workspaceRoot: string): ConventionViolation[] {
+        return [...violations].sort((a, b) =>
+            path.relative(workspaceRoot, a.file || '').localeCompare(path.relative(workspaceRoot, b.file || '')) ||
+            (a.line || 1) - (b.line || 1)
+        );
+    }
+
+    /**
+     * Build the shell script of the pre-commit hook
+     * Falls back to the editor's bundled Node.js runtime when node is not on PATH
+     */
+    private createHookScript(scriptPath: string, runtimePath: string): string {
+        const quote = (value: string) => `'${value.replace(/\\/g, '/').replace(/'/g, `'\\''`)}'`;
+
+        return [
+            '#!/bin/sh',
+            CommitGate.HOOK_MARKER,
+            '# Checks staged files against the coding conventions in .obspluginrc.json',
+            '# Bypass once with: git commit --no-verify',
+            'HOOK_DIR=$(dirname "$0")',
+            'if [ -x "$HOOK_DIR/pre-commit.local" ]; then',
+            '    "$HOOK_DIR/pre-commit.local" "$@" || exit $?',
+            'fi',
+            `SCRIPT=${quote(scriptPath)}`,
+            'if [ ! -f "$SCRIPT" ]; then',
+            '    echo "OBS convention check skipped: $SCRIPT not found. Reinstall the hook from VS Code." >&2',
+            '    exit 0',
+            'fi',
+            'ROOT=$(git rev-parse --show-toplevel)',
+            'if command -v node >/dev/null 2>&1; then',
+            '    exec node "$SCRIPT" "$ROOT"',
+            'fi',
+            `ELECTRON_RUN_AS_NODE=1 exec ${quote(runtimePath)} "$SCRIPT" "$ROOT"`,
+            ''
+        ].join('\n');
+    }
+
+    /**
+     * Run a git command in the workspace
+     */
+    private git(args: string[], cwd: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            cp.execFile('git', args, { cwd, maxBuffer: 16 * 1024 * 1024 }, (error, stdout, stderr) => {
+                if (error) {
+                    reject(new Error(`Git command failed: ${stderr || error.message}`));
+                } else {
+                    resolve(stdout);
+                }
+            });
+        });
+    }
+}
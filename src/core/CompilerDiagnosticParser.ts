@@ -0,0 +1,178 @@
+import * as path from 'path';
+import { BuildError, DiagnosticLineParser, RelatedDiagnostic } from '../types/ObsConfig';
+
+/**
+ * Stateful parser for GCC, Clang and MSVC compiler diagnostics
+ * Groups notes, include chains and template backtraces under their primary error
+ */
+export class CompilerDiagnosticParser implements DiagnosticLineParser {
+    private static readonly GCC_DIAGNOSTIC = /^(.+?):(\d+):(?:(\d+):)?\s*(fatal error|error|warning|note|remark):\s*(.*)$/;
+    private static readonly MSVC_DIAGNOSTIC = /^(.+?)\((\d+)(?:,(\d+))?\)\s*:\s*(fatal error|error|warning|note)\s*(?:C\d+\s*)?:\s*(.*)$/;
+    private static readonly INCLUDED_FROM = /^In file included from (.+?):(\d+)(?::(\d+))?[,:]$/;
+    private static readonly INCLUDED_FROM_CONTINUATION = /^\s+from (.+?):(\d+)(?::(\d+))?[,:]$/;
+    private static readonly SCOPE_CONTEXT = /^(.+?): ((?:In|At) .+):$/;
+    private static readonly REQUIRED_FROM = /^(.+?):(\d+):(\d+):\s+((?:recursively )?required (?:from|by) .*)$/;
+    private static readonly INSTANTIATION_NOTE = /in instantiation of|requested here|required from/i;
+    private static readonly SUMMARY = /^\d+ (?:errors?|warnings?)(?: and \d+ (?:errors?|warnings?))? generated\.$/;
+    private static readonly TERMINATORS = [
+        /^\[\s*\d+%\]/,
+        /^\[\d+\/\d+\]/,
+        /^(?:FAILED|ninja|g?make(?:\[\d+\])?|mingw32-make|cc1plus|cc1):/,
+        /^\*\*\*/,
+        /^-- /
+    ];
+
+    private pending: RelatedDiagnostic[] = [];
+    private pendingRaw: string[] = [];
+    private current: BuildError | null = null;
+    private completed: BuildError[] = [];
+
+    /**
+     * Feed a single log line into the parser
+     */
+    public feed(line: string): boolean {
+        let match: RegExpMatchArray | null;
+
+        if ((match = line.match(CompilerDiagnosticParser.INCLUDED_FROM))) {
+            this.flush();
+            this.addPending(this.createRelated('include', match[1], match[2], match[3], 'In file included from here'), line);
+            return true;
+        }
+
+        if ((match = line.match(CompilerDiagnosticParser.INCLUDED_FROM_CONTINUATION)) && this.pending.length > 0) {
+            this.addPending(this.createRelated('include', match[1], match[2], match[3], 'Included from here'), line);
+            return true;
+        }
+
+        if ((match = line.match(CompilerDiagnosticParser.REQUIRED_FROM))) {
+            this.closeCurrent();
+            this.addPending(this.createRelated('instantiation', match[1], match[2], match[3], match[4].trim()), line);
+            return true;
+        }
+
+        if ((match = line.match(CompilerDiagnosticParser.GCC_DIAGNOSTIC)) ||
+            (match = line.match(CompilerDiagnosticParser.MSVC_DIAGNOSTIC))) {
+            this.handleDiagnostic(match, line);
+            return true;
+        }
+
+        if ((match = line.match(CompilerDiagnosticParser.SCOPE_CONTEXT))) {
+            this.closeCurrent();
+            this.addPending(this.createRelated('context', match[1], '1', undefined, match[2]), line);
+            return true;
+        }
+
+        if (!this.current) {
+            return false;
+        }
+
+        if (CompilerDiagnosticParser.SUMMARY.test(line.trim())) {
+            this.flush();
+            return true;
+        }
+
+        if (line.trim() === '' || CompilerDiagnosticParser.TERMINATORS.some(pattern => pattern.test(line))) {
+            this.flush();
+            return false;
+        }
+
+        // Source excerpts and caret lines belong to the open diagnostic
+        this.current.raw += '\n' + line;
+        return true;
+    }
+
+    /**
+     * Close the open diagnostic and discard orphaned context lines
+     */
+    public flush(): void {
+        this.closeCurrent();
+        this.pending = [];
+        this.pendingRaw = [];
+    }
+
+    /**
+     * Take all completed diagnostics
+     */
+    public drain(): BuildError[] {
+        const completed = this.completed;
+        this.completed = [];
+        return completed;
+    }
+
+    /**
+     * Start a new diagnostic or attach a note to the open one
+     */
+    private handleDiagnostic(match: RegExpMatchArray, line: string): void {
+        const [, file, lineStr, columnStr, severity, message] = match;
+
+        if (severity === 'note' && this.current) {
+            const kind = CompilerDiagnosticParser.INSTANTIATION_NOTE.test(message) ? 'instantiation' : 'note';
+            this.current.related!.push(this.createRelated(kind, file, lineStr, columnStr, message.trim()));
+            this.current.raw += '\n' + line;
+            return;
+        }
+
+        this.closeCurrent();
+
+        const related = this.pending;
+        const raw = [...this.pendingRaw, line].join('\n');
+        this.pending = [];
+        this.pendingRaw = [];
+
+        this.current = {
+            file: path.normalize(file.trim()),
+            line: parseInt(lineStr) || 1,
+            column: parseInt(columnStr) || 1,
+            severity: this.normalizeSeverity(severity),
+            message: message.trim(),
+            raw,
+            related
+        };
+    }
+
+    /**
+     * Queue context that precedes the next primary diagnostic
+     */
+    private addPending(related: RelatedDiagnostic, line: string): void {
+        this.pending.push(related);
+        this.pendingRaw.push(line);
+    }
+
+    /**
+     * Move the open diagnostic to the completed list
+     */
+    private closeCurrent(): void {
+        if (this.current) {
+            this.completed.push(this.current);
+            this.current = null;
+        }
+    }
+
+    /**
+     * Create related diagnostic entry
+     */
+    private createRelated(
+        kind: RelatedDiagnostic['kind'],
+        file: string,
+        lineStr: string,
+        columnStr: string | undefined,
+        message: string
+    ): RelatedDiagnostic {
+        return {
+            kind,
+            file: path.normalize(file.trim()),
+            line: parseInt(lineStr) || 1,
+            column: columnStr ? parseInt(columnStr) || 1 : 1,
+            message
+        };
+    }
+
+    /**
+     * Normalize compiler severity
+     */
+    private normalizeSeverity(severity: string): 'error' | 'warning' | 'info' {
+        if (severity.includes('error')) {return 'error';}
+        if (severity === 'warning') {return 'warning';}
+        return 'info';
+    }
+}
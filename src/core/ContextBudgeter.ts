@@ -0,0 +1,144 @@
+import { ContextBudgetItem, ContextBudgetReport, ContextCandidate, ContextKind } from '../types/ObsConfig';
+
+/**
+ * Contexts chosen for a request, with the report of what was kept and dropped
+ */
+export interface ContextBudgetSelection {
+    selected: ContextCandidate[];
+    report: ContextBudgetReport;
+}
+
+/**
+ * Fills a token budget with AI request contexts in priority order
+ * Error sites come first, then the declarations, OBS API signatures and CMake target commands they refer to,
+ * the active file, paired headers, the build log tail and the conventions
+ */
+export class ContextBudgeter {
+    private static readonly CHARS_PER_TOKEN = 4;
+    private static readonly MIN_TRUNCATED_TOKENS = 64;
+    private static readonly PRIORITY: Record<ContextKind, number> = {
+        error_site: 0,
+        declaration: 1,
+        api_reference: 2,
+        build_target: 3,
+        active_file: 4,
+        paired_header: 5,
+        build_log: 6,
+        conventions: 7
+    };
+
+    /**
+     * Estimate the token count of a text
+     * Uses about four characters per token, which is close for English and source code with common tokenizers
+     */
+    public static estimateTokens(text: string): number {
+        return Math.ceil(text.length / ContextBudgeter.CHARS_PER_TOKEN);
+    }
+
+    /**
+     * Select contexts in priority order until the budget is used, cutting down the first one that does not fit
+     */
+    public fill(candidates: ContextCandidate[], budgetTokens: number, reservedTokens: number = 0): ContextBudgetSelection {
+        const ordered = candidates
+            .map((candidate, index) => ({ candidate, index }))
+            .sort((a, b) => ContextBudgeter.PRIORITY[a.candidate.kind] - ContextBudgeter.PRIORITY[b.candidate.kind] || a.index - b.index)
+            .map(entry => entry.candidate);
+
+        const selected: ContextCandidate[] = [];
+        const included: ContextBudgetItem[] = [];
+        const dropped: ContextBudgetItem[] = [];
+        let used = reservedTokens;
+
+        for (const candidate of ordered) {
+            const tokens = ContextBudgeter.estimateTokens(candidate.content);
+            const remaining = budgetTokens - used;
+
+            if (tokens <= remaining) {
+                selected.push(candidate);
+                included.push({ id: candidate.id, kind: candidate.kind, tokens, truncated: false });
+                used += tokens;
+                continue;
+            }
+
+            const truncated = remaining >= ContextBudgeter.MIN_TRUNCATED_TOKENS ? this.truncate(candidate, remaining) : undefined;
+            if (truncated) {
+                const truncatedTokens = ContextBudgeter.estimateTokens(truncated.content);
+                selected.push(truncated);
+                included.push({ id: candidate.id, kind: candidate.kind, tokens: truncatedTokens, truncated: true });
+                used += truncatedTokens;
+            } else {
+                dropped.push({ id: candidate.id, kind: candidate.kind, tokens, truncated: false });
+            }
+        }
+
+        return {
+            selected,
+            report: {
+                budget_tokens: budgetTokens,
+                reserved_tokens: reservedTokens,
+                used_tokens: used,
+                included,
+                dropped
+            }
+        };
+    }
+
+    /**
+     * Cut a context down to whole lines that fit the token limit
+     * Build logs keep their tail, the active file keeps the lines around its focus and other files keep their head
+     */
+    private truncate(candidate: ContextCandidate, maxTokens: number): ContextCandidate | undefined {
+        if (candidate.kind === 'conventions') {
+            return undefined;
+        }
+
+        const maxChars = maxTokens * ContextBudgeter.CHARS_PER_TOKEN;
+        const lines = candidate.content.split('\n');
+        const firstLine = candidate.start_line || 0;
+        let start: number;
+        let end: number;
+
+        if (candidate.kind === 'build_log') {
+            end = lines.length;
+            start = end;
+            let size = 0;
+            while (start > 0 && size + lines[start - 1].length + 1 <= maxChars) {
+                size += lines[--start].length + 1;
+            }
+        } else if (candidate.kind === 'active_file' && candidate.focus_line !== undefined) {
+            const focus = Math.min(Math.max(candidate.focus_line - firstLine, 0), lines.length - 1);
+            start = focus;
+            end = focus;
+            let size = 0;
+            let grew = true;
+            while (grew) {
+                grew = false;
+                if (end < lines.length && size + lines[end].length + 1 <= maxChars) {
+                    size += lines[end++].length + 1;
+                    grew = true;
+                }
+                if (start > 0 && size + lines[start - 1].length + 1 <= maxChars) {
+                    size += lines[--start].length + 1;
+                    grew = true;
+                }
+            }
+        } else {
+            start = 0;
+            end = 0;
+            let size = 0;
+            while (end < lines.length && size + lines[end].length + 1 <= maxChars) {
+                size += lines[end++].length + 1;
+            }
+        }
+
+        if (end <= start) {
+            return undefined;
+        }
+
+        return {
+            ...candidate,
+            content: lines.slice(start, end).join('\n'),
+            start_line: firstLine + start
+        };
+    }
+}
@@ -0,0 +1,214 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { ConventionReportFormat, ConventionScanResult, ConventionSeverity, ConventionViolation } from '../types/ObsConfig';
+
+/**
+ * Exports convention scan results as JSON, SARIF 2.1.0 or a standalone HTML report
+ */
+export class ConventionReportWriter {
+    private static readonly TOOL_NAME = 'OBS Plugin AI Assistant';
+    private static readonly TOOL_URI = 'https://github.com/trae-ai/obs-plugin-ai-assistant';
+    private static readonly SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+    constructor(private readonly toolVersion: string) {}
+
+    /**
+     * Render a report in the requested format
+     */
+    public render(result: ConventionScanResult, format: ConventionReportFormat): string {
+        switch (format) {
+            case 'sarif':
+                return this.toSarif(result);
+            case 'html':
+                return this.toHtml(result);
+            default:
+                return this.toJson(result);
+        }
+    }
+
+    /**
+     * Render and write a report to disk
+     */
+    public async write(result: ConventionScanResult, format: ConventionReportFormat, filePath: string): Promise<void> {
+        await fs.promises.writeFile(filePath, this.render(result, format), 'utf8');
+    }
+
+    /**
+     * Export results as JSON with per-rule totals and stable violation fingerprints
+     */
+    public toJson(result: ConventionScanResult): string {
+        const fingerprints = this.fingerprints(result.violations);
+        const report = {
+            tool: { name: ConventionReportWriter.TOOL_NAME, version: this.toolVersion },
+            timestamp: result.timestamp,
+            files_scanned: result.files_scanned,
+            total_violations: result.violations.length,
+            rules: result.rules,
+            violations: result.violations.map((violation, index) => ({
+                rule: violation.type,
+                severity: violation.severity,
+                file: violation.file,
+                line: violation.line,
+                message: violation.suggestion,
+                auto_fixable: violation.auto_fixable,
+                fingerprint: fingerprints[index]
+            }))
+        };
+
+        return JSON.stringify(report, null, 2);
+    }
+
+    /**
+     * Export results as a SARIF 2.1.0 log
+     */
+    public toSarif(result: ConventionScanResult): string {
+        const ruleIndex = new Map(result.rules.map((rule, index) => [rule.id, index]));
+        const fingerprints = this.fingerprints(result.violations);
+
+        const sarif = {
+            $schema: ConventionReportWriter.SARIF_SCHEMA,
+            version: '2.1.0',
+            runs: [{
+                tool: {
+                    driver: {
+                        name: ConventionReportWriter.TOOL_NAME,
+                        version: this.toolVersion,
+                        informationUri: ConventionReportWriter.TOOL_URI,
+                        rules: result.rules.map(rule => ({
+                            id: rule.id,
+                            shortDescription: { text: rule.description },
+                            defaultConfiguration: { level: this.sarifLevel(rule.severity) }
+                        }))
+                    }
+                },
+                originalUriBaseIds: {
+                    SRCROOT: { uri: pathToFileURL(result.workspace_root + path.sep).href }
+                },
+                invocations: [{
+                    executionSuccessful: true,
+                    endTimeUtc: result.timestamp
+                }],
+                results: result.violations.map((violation, index) => ({
+                    ruleId: violation.type,
+                    ruleIndex: ruleIndex.get(violation.type),
+                    level: this.sarifLevel(violation.severity || 'warning'),
+                    message: { text: violation.suggestion },
+                    locations: [{
+                        physicalLocation: {
+                            artifactLocation: { uri: encodeURI(violation.file || ''), uriBaseId: 'SRCROOT' },
+                            region: { startLine: violation.line || 1 }
+                        }
+                    }],
+                    partialFingerprints: { 'obsConvention/v1': fingerprints[index] }
+                }))
+            }]
+        };
+
+        return JSON.stringify(sarif, null, 2);
+    }
+
+    /**
+     * Export results as a self-contained HTML page
+     */
+    public toHtml(result: ConventionScanResult): string {
+        const byFile = new Map<string, ConventionViolation[]>();
+        for (const violation of result.violations) {
+            const file = violation.file || '';
+            byFile.set(file, [...(byFile.get(file) || []), violation]);
+        }
+
+        const ruleRows = result.rules.map(rule => `
+        <tr>
+          <td><code>${this.escape(rule.id)}</code></td>
+          <td>${this.escape(rule.description)}</td>
+          <td><span class="severity ${rule.severity}">${rule.severity}</span></td>
+          <td class="count">${rule.violation_count}</td>
+        </tr>`).join('');
+
+        const fileSections = Array.from(byFile.entries())
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([file, violations]) => `
+    <section>
+      <h3>${this.escape(file)} <span class="muted">(${violations.length})</span></h3>
+      <ul>${violations.map(violation => `
+        <li><span class="severity ${violation.severity || 'warning'}">${violation.severity || 'warning'}</span>
+          ${violation.line ? `<span class="muted">line ${violation.line}</span>` : ''}
+          <code>${this.escape(violation.type)}</code> ${this.escape(violation.suggestion)}</li>`).join('')}
+      </ul>
+    </section>`).join('');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Convention Report</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 2rem; color: #1e1e1e; }
+    table { border-collapse: collapse; margin-bottom: 2rem; }
+    th, td { border: 1px solid #ddd; padding: 0.4rem 0.8rem; text-align: left; }
+    th { background: #f3f3f3; }
+    .count { text-align: right; }
+    .muted { color: #777; font-weight: normal; }
+    .severity { display: inline-block; min-width: 4rem; padding: 0 0.3rem; border-radius: 3px; font-size: 0.85em; color: #fff; text-align: center; }
+    .severity.error { background: #c62828; }
+    .severity.warning { background: #ef6c00; }
+    .severity.info { background: #1565c0; }
+    li { margin: 0.3rem 0; }
+  </style>
+</head>
+<body>
+  <h1>Convention Report</h1>
+  <p class="muted">Generated ${this.escape(result.timestamp)} by ${ConventionReportWriter.TOOL_NAME} ${this.escape(this.toolVersion)}
+    &middot; ${result.files_scanned} files scanned &middot; ${result.violations.length} violations</p>
+  <h2>Rules</h2>
+  <table>
+    <thead>
+      <tr><th>Rule</th><th>Description</th><th>Severity</th><th>Violations</th></tr>
+    </thead>
+    <tbody>${ruleRows}
+    </tbody>
+  </table>
+  <h2>Files</h2>${fileSections || '\n  <p>No violations found.</p>'}
+</body>
+</html>
+`;
+    }
+
+    /**
+     * Identify violations independently of their line so reports can be compared between releases
+     * Repeats of the same violation in a file are numbered in order
+     */
+    private fingerprints(violations: ConventionViolation[]): string[] {
+        const seen = new Map<string, number>();
+
+        return violations.map(violation => {
+            const base = crypto.createHash('sha1')
+                .update(`${violation.type}\n${violation.file}\n${violation.suggestion}`)
+                .digest('hex')
+                .substring(0, 16);
+            const occurrence = (seen.get(base) || 0) + 1;
+            seen.set(base, occurrence);
+            return occurrence === 1 ? base : `${base}-${occurrence}`;
+        });
+    }
+
+    /**
+     * Map a convention severity to a SARIF level
+     */
+    private sarifLevel(severity: ConventionSeverity): 'error' | 'warning' | 'note' {
+        return severity === 'info' ? 'note' : severity;
+    }
+
+    /**
+     * Escape text for HTML output
+     */
+    private escape(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+}
@@ -0,0 +1,242 @@
+import * as path from 'path';
+import { Logger } from '../utils/Logger';
+import { GlobMatcher } from '../utils/GlobMatcher';
+import {
+    CodingConventions,
+    ConventionRule,
+    ConventionRuleConfig,
+    ConventionRuleContext,
+    ConventionRuleSetting,
+    ConventionSeverity,
+    ConventionViolation
+} from '../types/ObsConfig';
+import { BUILTIN_CONVENTION_RULES, createPatternRule } from './ConventionRules';
+
+/**
+ * A rule combined with its effective configuration
+ */
+export interface ResolvedConventionRule {
+    rule: ConventionRule;
+    enabled: boolean;
+    severity: ConventionSeverity;
+    files: string[];
+    exclude: string[];
+    options: Record<string, unknown>;
+}
+
+/**
+ * Registry of coding convention rules
+ * Resolves rule settings from coding_conventions.rules and runs enabled rules against files
+ */
+export class ConventionRuleEngine {
+    private readonly rules: Map<string, ConventionRule> = new Map();
+
+    constructor() {
+        BUILTIN_CONVENTION_RULES.forEach(rule => this.register(rule));
+    }
+
+    /**
+     * Register an additional rule
+     */
+    public register(rule: ConventionRule): void {
+        if (this.rules.has(rule.id)) {
+            throw new Error(`Convention rule '${rule.id}' is already registered`);
+        }
+        this.rules.set(rule.id, rule);
+    }
+
+    /**
+     * Get all registered rules
+     */
+    public getRules(): ConventionRule[] {
+        return Array.from(this.rules.values());
+    }
+
+    /**
+     * Get a registered rule by id
+     */
+    public getRule(id: string): ConventionRule | undefined {
+        return this.rules.get(id);
+    }
+
+    /**
+     * Resolve registered and custom rules against the project configuration
+     */
+    public resolveRules(conventions: Partial<CodingConventions> = {}): ResolvedConventionRule[] {
+        const settings = conventions.rules || {};
+        const resolved: ResolvedConventionRule[] = [];
+
+        for (const rule of this.rules.values()) {
+            resolved.push(this.resolve(rule, settings[rule.id], conventions));
+        }
+
+        for (const [id, setting] of Object.entries(settings)) {
+            if (this.rules.has(id)) {
+                continue;
+            }
+            if (typeof setting !== 'object' || !setting.pattern) {
+                Logger.warn(`Unknown convention rule '${id}' in .obspluginrc.json`);
+                continue;
+            }
+
+            try {
+                resolved.push(this.resolve(createPatternRule(id, setting), setting, conventions));
+            } catch (error) {
+                Logger.warn(`Invalid pattern for convention rule '${id}'`, error);
+            }
+        }
+
+        return resolved;
+    }
+
+    /**
+     * Run all enabled rules that apply to a file
+     */
+    public validate(
+        filePath: string,
+        content: string,
+        conventions: Partial<CodingConventions> = {},
+        workspaceRoot?: string
+    ): ConventionViolation[] {
+        const relativePath = this.toRelativePath(filePath, workspaceRoot);
+        const violations: ConventionViolation[] = [];
+
+        for (const resolved of this.getApplicableRules(relativePath, conventions)) {
+            const context = this.createContext(resolved, filePath, relativePath, content, conventions);
+
+            try {
+                for (const finding of resolved.rule.check(context)) {
+                    violations.push({
+                        type: resolved.rule.id,
+                        suggestion: finding.message,
+                        auto_fixable: Boolean(resolved.rule.fix || resolved.rule.relocate),
+                        severity: resolved.severity,
+                        file: filePath,
+                        line: finding.line
+                    });
+                }
+            } catch (error) {
+                Logger.error(`Convention rule '${resolved.rule.id}' failed on ${relativePath}`, error);
+            }
+        }
+
+        return violations;
+    }
+
+    /**
+     * Apply the auto-fixes of the rules that reported violations
+     * Returns the fixed content and the ids of the rules that changed it
+     */
+    public applyFixes(
+        filePath: string,
+        content: string,
+        violations: ConventionViolation[],
+        conventions: Partial<CodingConventions> = {},
+        workspaceRoot?: string
+    ): { content: string; fixed: string[] } {
+        const relativePath = this.toRelativePath(filePath, workspaceRoot);
+        const ruleIds = new Set(violations.filter(violation => violation.auto_fixable).map(violation => violation.type));
+        const fixed: string[] = [];
+
+        for (const resolved of this.resolveRules(conventions)) {
+            if (!ruleIds.has(resolved.rule.id) || !resolved.rule.fix) {
+                continue;
+            }
+
+            const result = resolved.rule.fix(this.createContext(resolved, filePath, relativePath, content, conventions));
+            if (result !== undefined && result !== content) {
+                content = result;
+                fixed.push(resolved.rule.id);
+            }
+        }
+
+        return { content, fixed };
+    }
+
+    /**
+     * Get the workspace-relative path a rule wants a file moved to
+     */
+    public getRelocationTarget(
+        ruleId: string,
+        filePath: string,
+        content: string,
+        conventions: Partial<CodingConventions> = {},
+        workspaceRoot?: string
+    ): string | undefined {
+        const resolved = this.resolveRules(conventions).find(candidate => candidate.rule.id === ruleId);
+        if (!resolved?.rule.relocate) {
+            return undefined;
+        }
+
+        const relativePath = this.toRelativePath(filePath, workspaceRoot);
+        return resolved.rule.relocate(this.createContext(resolved, filePath, relativePath, content, conventions));
+    }
+
+    /**
+     * Get enabled rules whose globs match a workspace-relative path
+     */
+    public getApplicableRules(relativePath: string, conventions: Partial<CodingConventions> = {}): ResolvedConventionRule[] {
+        return this.resolveRules(conventions).filter(resolved =>
+            resolved.enabled &&
+            GlobMatcher.matchesAny(relativePath, resolved.files) &&
+            !GlobMatcher.matchesAny(relativePath, resolved.exclude)
+        );
+    }
+
+    /**
+     * Combine a rule with its setting from .obspluginrc.json
+     */
+    private resolve(
+        rule: ConventionRule,
+        setting: ConventionRuleSetting | undefined,
+        conventions: Partial<CodingConventions>
+    ): ResolvedConventionRule {
+        const enabledByDefault = rule.isEnabledByDefault ? rule.isEnabledByDefault(conventions) : true;
+
+        if (setting === undefined) {
+            return { rule, enabled: enabledByDefault, severity: rule.severity, files: rule.files, exclude: [], options: {} };
+        }
+
+        if (typeof setting === 'string') {
+            return {
+                rule,
+                enabled: setting !== 'off',
+                severity: setting === 'off' ? rule.severity : setting,
+                files: rule.files,
+                exclude: [],
+                options: {}
+            };
+        }
+
+        const config: ConventionRuleConfig = setting;
+        return {
+            rule,
+            enabled: config.enabled ?? true,
+            severity: config.severity || rule.severity,
+            files: config.files || rule.files,
+            exclude: config.exclude || [],
+            options: config.options || {}
+        };
+    }
+
+    /**
+     * Create the context passed to a rule
+     */
+    private createContext(
+        resolved: ResolvedConventionRule,
+        filePath: string,
+        relativePath: string,
+        content: string,
+        conventions: Partial<CodingConventions>
+    ): ConventionRuleContext {
+        return { relativePath, filePath, content, conventions, options: resolved.options };
+    }
+
+    /**
+     * Convert a file path to a workspace-relative path with forward slashes
+     */
+    private toRelativePath(filePath: string, workspaceRoot?: string): string {
+        const relative = workspaceRoot && path.isAbsolute(filePath) ? path.relative(workspaceRoot, filePath) : filePath;
+        return relative.replace(/\\/g, '/');
+    }
+}
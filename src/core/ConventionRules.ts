@@ -0,0 +1,299 @@
+import * as path from 'path';
+import { ConventionFinding, ConventionRule, ConventionRuleConfig, ConventionRuleContext } from '../types/ObsConfig';
+import { CppSourceScanner } from '../utils/CppSourceScanner';
+import { GlobMatcher } from '../utils/GlobMatcher';
+
+const HEADER_FILES = ['**/*.{h,hpp,hh,hxx}'];
+const SOURCE_FILES = ['**/*.{c,cpp,cc,cxx,h,hpp,hh,hxx}'];
+
+/**
+ * Headers must start with #pragma once
+ */
+const pragmaOnceRule: ConventionRule = {
+    id: 'missing_pragma_once',
+    description: "Headers use '#pragma once' instead of include guards",
+    files: HEADER_FILES,
+    severity: 'warning',
+    isEnabledByDefault: conventions => conventions.use_pragma_once !== false,
+
+    check(context: ConventionRuleContext): ConventionFinding[] {
+        if (/^\s*#\s*pragma\s+once\b/m.test(context.content)) {
+            return [];
+        }
+        return [{ message: `Add '#pragma once' at the beginning of ${path.basename(context.filePath)}`, line: 1 }];
+    },
+
+    fix(context: ConventionRuleContext): string | undefined {
+        if (/^\s*#\s*pragma\s+once\b/m.test(context.content)) {
+            return undefined;
+        }
+
+        const lines = context.content.split('\n');
+        // Insert after any initial comments
+        let insertIndex = 0;
+        while (insertIndex < lines.length &&
+               (lines[insertIndex].trim().startsWith('//') ||
+                lines[insertIndex].trim().startsWith('/*') ||
+                lines[insertIndex].trim() === '')) {
+            insertIndex++;
+        }
+        lines.splice(insertIndex, 0, '#pragma once', '');
+        return lines.join('\n');
+    }
+};
+
+/**
+ * Headers use the configured extension
+ */
+const headerExtensionRule: ConventionRule = {
+    id: 'wrong_header_extension',
+    description: 'C++ headers use the extension set by coding_conventions.header_extension',
+    files: HEADER_FILES,
+    severity: 'warning',
+
+    check(context: ConventionRuleContext): ConventionFinding[] {
+        const expected = String(context.options.extension || context.conventions.header_extension || '.hpp');
+        const actual = path.extname(context.filePath);
+        if (actual === expected) {
+            return [];
+        }
+        return [{ message: `Use ${expected} extension instead of ${actual} for C++ headers` }];
+    },
+
+    relocate(context: ConventionRuleContext): string | undefined {
+        const expected = String(context.options.extension || context.conventions.header_extension || '.hpp');
+        const extension = path.posix.extname(context.relativePath);
+        return extension === expected ? undefined : context.relativePath.slice(0, -extension.length) + expected;
+    }
+};
+
+/**
+ * Qt widgets and dialogs live in the UI components directory
+ */
+const uiComponentLocationRule: ConventionRule = {
+    id: 'ui_component_location',
+    description: 'UI components are placed in the ui_components_dir directory',
+    files: SOURCE_FILES,
+    severity: 'info',
+
+    check(context: ConventionRuleContext): ConventionFinding[] {
+        const uiDir = String(context.options.directory || context.conventions.ui_components_dir || 'ui').replace(/^\/+|\/+$/g, '');
+        const fileName = path.basename(context.filePath);
+        if (!isUIComponent(fileName, context.content) || `/${context.relativePath}`.includes(`/${uiDir}/`)) {
+            return [];
+        }
+        return [{ message: `Move UI component '${fileName}' to the '${uiDir}/' directory` }];
+    },
+
+    relocate(context: ConventionRuleContext): string | undefined {
+        const uiDir = String(context.options.directory || context.conventions.ui_components_dir || 'ui').replace(/^\/+|\/+$/g, '');
+        const segments = context.relativePath.split('/');
+        // A bare directory name is placed below the top-level source directory, such as src/ui
+        const parent = uiDir.includes('/') || segments.length < 2 ? '' : `${segments[0]}/`;
+        const target = `${parent}${uiDir}/${segments[segments.length - 1]}`;
+        return target === context.relativePath ? undefined : target;
+    }
+};
+
+/**
+ * Qt6 sources include their generated moc file
+ */
+const mocIncludeRule: ConventionRule = {
+    id: 'moc_include_missing',
+    description: 'Sources of Qt classes include moc_<name>.cpp for Qt6 signal support',
+    files: ['**/*.{cpp,cc,cxx}'],
+    severity: 'warning',
+    isEnabledByDefault: conventions => conventions.qt6_moc_include !== false,
+
+    check(context: ConventionRuleContext): ConventionFinding[] {
+        if (!isQtComponent(context.content) || context.content.includes(mocInclude(context.filePath))) {
+            return [];
+        }
+        return [{ message: `Include 'moc_${path.parse(context.filePath).name}.cpp' for Qt6 signal support` }];
+    },
+
+    fix(context: ConventionRuleContext): string | undefined {
+        const include = mocInclude(context.filePath);
+        if (context.content.includes(include)) {
+            return undefined;
+        }
+        // Add at the end of the file
+        return context.content + '\n' + include + '\n';
+    }
+};
+
+/**
+ * Comments are written in English
+ */
+const englishCommentsRule: ConventionRule = {
+    id: 'non_english_comment',
+    description: 'Comments are written in English, as set by coding_conventions.english_comments',
+    files: SOURCE_FILES,
+    severity: 'warning',
+    isEnabledByDefault: conventions => conventions.english_comments !== false,
+
+    check(context: ConventionRuleContext): ConventionFinding[] {
+        const allowIdentifiers = context.options.allow_identifiers !== false;
+        const allowUrls = context.options.allow_urls !== false;
+        const asciiOnly = context.options.ascii_only === true;
+        const findings: ConventionFinding[] = [];
+
+        for (const comment of CppSourceScanner.extractComments(context.content)) {
+            comment.text.split('\n').forEach((text, offset) => {
+                let prose = text;
+                if (allowUrls) {
+                    prose = prose.replace(/\b[a-z][a-z0-9+.-]*:\/\/\S+/gi, ' ');
+                }
+                if (allowIdentifiers) {
+                    // Code references such as `名前` or member_name stay as written
+                    prose = prose.replace(/`[^`]*`/g, ' ').replace(/[\p{L}\p{N}_]*(?:_|::|\(\))[\p{L}\p{N}_:()]*/gu, ' ');
+                }
+
+                const foreign = findNonEnglishText(prose, asciiOnly);
+                if (foreign) {
+                    findings.push({ message: `Write comments in English instead of '${foreign}'`, line: comment.line + offset });
+                }
+            });
+        }
+
+        return findings;
+    }
+};
+
+/**
+ * Plugin declarations live in the configured namespace
+ */
+const namespaceRule: ConventionRule = {
+    id: 'missing_namespace',
+    description: 'Declarations in plugin sources are placed in the namespace set by coding_conventions.namespace',
+    files: SOURCE_FILES,
+    severity: 'warning',
+    isEnabledByDefault: conventions => Boolean(conventions.namespace),
+
+    check(context: ConventionRuleContext): ConventionFinding[] {
+        const expected = String(context.options.namespace || context.conventions.namespace || '').replace(/^::/, '');
+        if (!expected) {
+            return [];
+        }
+
+        // OBS looks up the module entry points by their unmangled global names
+        const allowed = Array.isArray(context.options.allow) ? context.options.allow.map(String) : ['obs_module_*', 'main'];
+        const findings: ConventionFinding[] = [];
+
+        for (const declaration of CppSourceScanner.findNamespaceScopeDeclarations(context.content)) {
+            if (declaration.externC || declaration.qualified || declaration.kind === 'forward' ||
+                `${declaration.namespaces.join('::')}::`.startsWith(`${expected}::`) ||
+                allowed.some((pattern: string) => GlobMatcher.toRegExp(pattern).test(declaration.name))) {
+                continue;
+            }
+            findings.push({ message: `Move '${declaration.name}' into namespace ${expected}`, line: declaration.line });
+        }
+
+        return findings;
+    }
+};
+
+/**
+ * Rules shipped with the extension
+ */
+export const BUILTIN_CONVENTION_RULES: ConventionRule[] = [
+    pragmaOnceRule,
+    headerExtensionRule,
+    uiComponentLocationRule,
+    mocIncludeRule,
+    englishCommentsRule,
+    namespaceRule
+];
+
+/**
+ * Create a rule declared in .obspluginrc.json that reports lines matching a regular expression
+ */
+export function createPatternRule(id: string, config: ConventionRuleConfig): ConventionRule {
+    const pattern = new RegExp(config.pattern!);
+    const message = config.message || `Line matches forbidden pattern ${config.pattern}`;
+
+    const rule: ConventionRule = {
+        id,
+        description: config.description || message,
+        files: config.files || SOURCE_FILES,
+        severity: config.severity || 'warning',
+
+        check(context: ConventionRuleContext): ConventionFinding[] {
+            const findings: ConventionFinding[] = [];
+            context.content.split('\n').forEach((line, index) => {
+                if (pattern.test(line)) {
+                    findings.push({ message, line: index + 1 });
+                }
+            });
+            return findings;
+        }
+    };
+
+    if (config.replacement !== undefined) {
+        const replacement = config.replacement;
+        const global = new RegExp(config.pattern!, 'g');
+        rule.fix = context => {
+            const fixed = context.content.replace(global, replacement);
+            return fixed !== context.content ? fixed : undefined;
+        };
+    }
+
+    return rule;
+}
+
+/**
+ * Check if file is a UI component
+ */
+function isUIComponent(fileName: string, content: string): boolean {
+    const uiIndicators = [
+        'QWidget',
+        'QDialog',
+        'QMainWindow',
+        'QFrame',
+        'obs_frontend',
+        'ui_',
+        'Widget',
+        'Dialog'
+    ];
+
+    return uiIndicators.some(indicator =>
+        content.includes(indicator) || fileName.toLowerCase().includes(indicator.toLowerCase())
+    );
+}
+
+/**
+ * Check if file is a Qt component
+ */
+function isQtComponent(content: string): boolean {
+    const qtIndicators = [
+        'Q_OBJECT',
+        'signals:',
+        'slots:',
+        'emit ',
+        'connect(',
+        'QObject'
+    ];
+
+    return qtIndicators.some(indicator => content.includes(indicator));
+}
+
+/**
+ * Find the first run of text written in a non-Latin script, or any non-ASCII letters when asciiOnly is set
+ */
+function findNonEnglishText(text: string, asciiOnly: boolean): string | undefined {
+    const letter = asciiOnly ? /[^\P{L}A-Za-z]/u : /[^\P{L}\p{Script=Latin}]/u;
+    const start = text.search(letter);
+    if (start === -1) {
+        return undefined;
+    }
+
+    const run = text.substring(start).match(/^[^\s,.;:!?]+(?:\s+[^\s,.;:!?]+){0,3}/u);
+    return (run ? run[0] : text.substring(start)).substring(0, 40);
+}
+
+/**
+ * Build the moc include line for a source file
+ */
+function mocInclude(filePath: string): string {
+    return `#include "moc_${path.parse(filePath).name}.cpp"`;
+}
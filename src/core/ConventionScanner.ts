@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../utils/Logger';
+import { WorkspaceWalker, WorkspaceWalkOptions } from '../utils/WorkspaceWalker';
+import { CodingConventions, ConventionScanResult, ConventionViolation } from '../types/ObsConfig';
+import { ConventionRuleEngine } from './ConventionRuleEngine';
+
+/**
+ * Options for a workspace convention scan
+ */
+export interface ConventionScanOptions extends WorkspaceWalkOptions {
+    onProgress?: (filesScanned: number, relativePath: string) => void;
+}
+
+/**
+ * Walks the plugin sources of a workspace and runs every enabled convention rule
+ * Skips .git, .deps, node_modules, CMake build trees and paths ignored by .gitignore
+ */
+export class ConventionScanner {
+    private static readonly MAX_FILE_SIZE = 1024 * 1024;
+
+    constructor(private readonly ruleEngine: ConventionRuleEngine) {}
+
+    /**
+     * Scan all workspace files that at least one enabled rule applies to
+     */
+    public async scan(
+        workspaceRoot: string,
+        conventions: Partial<CodingConventions>,
+        options: ConventionScanOptions = {}
+    ): Promise<ConventionScanResult> {
+        const startTime = Date.now();
+        const violations: ConventionViolation[] = [];
+        let filesScanned = 0;
+
+        for (const relativePath of await WorkspaceWalker.listFiles(workspaceRoot, options)) {
+            if (options.isCancelled?.()) {
+                break;
+            }
+            if (this.ruleEngine.getApplicableRules(relativePath, conventions).length === 0) {
+                continue;
+            }
+
+            const fullPath = path.join(workspaceRoot, relativePath);
+            violations.push(...await this.scanFile(fullPath, relativePath, workspaceRoot, conventions));
+            filesScanned++;
+            options.onProgress?.(filesScanned, relativePath);
+        }
+
+        const rules = this.ruleEngine.resolveRules(conventions)
+            .filter(resolved => resolved.enabled)
+            .map(resolved => ({
+                id: resolved.rule.id,
+                description: resolved.rule.description,
+                severity: resolved.severity,
+                violation_count: violations.filter(violation => violation.type === resolved.rule.id).length
+            }));
+
+        Logger.info(`Convention scan found ${violations.length} violations in ${filesScanned} files`);
+
+        return {
+            workspace_root: workspaceRoot,
+            timestamp: new Date().toISOString(),
+            duration: Date.now() - startTime,
+            files_scanned: filesScanned,
+            rules,
+            violations
+        };
+    }
+
+    /**
+     * Run the convention rules on a single file
+     */
+    private async scanFile(
+        fullPath: string,
+        relativePath: string,
+        workspaceRoot: string,
+        conventions: Partial<CodingConventions>
+    ): Promise<ConventionViolation[]> {
+        try {
+            const stats = await fs.promises.stat(fullPath);
+            if (stats.size > ConventionScanner.MAX_FILE_SIZE) {
+                Logger.warn(`Skipping large file during convention scan: ${relativePath}`);
+                return [];
+            }
+
+            const content = await fs.promises.readFile(fullPath, 'utf8');
+            return this.ruleEngine.validate(fullPath, content, conventions, workspaceRoot)
+                .map(violation => ({ ...violation, file: relativePath }));
+        } catch (error) {
+            Logger.warn(`Failed to scan ${relativePath}`, error);
+            return [];
+        }
+    }
+}
@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConventionRuleSummary, ConventionScanResult, ConventionViolation } from '../types/ObsConfig';
+
+/**
+ * Node of the convention summary tree
+ */
+export type ConventionTreeNode =
+    | { kind: 'rule'; rule: ConventionRuleSummary }
+    | { kind: 'file'; rule: ConventionRuleSummary; file: string; violations: ConventionViolation[] }
+    | { kind: 'violation'; violation: ConventionViolation };
+
+/**
+ * Tree view of the last workspace convention scan, grouped by rule and file
+ */
+export class ConventionTreeProvider implements vscode.TreeDataProvider<ConventionTreeNode> {
+    private readonly changeEmitter = new vscode.EventEmitter<ConventionTreeNode | undefined>();
+    private result: ConventionScanResult | null = null;
+
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    /**
+     * Replace the displayed scan result
+     */
+    public setResult(result: ConventionScanResult | null): void {
+        this.result = result;
+        this.changeEmitter.fire(undefined);
+    }
+
+    /**
+     * Get the displayed scan result
+     */
+    public getResult(): ConventionScanResult | null {
+        return this.result;
+    }
+
+    /**
+     * Get rules at the root, files under a rule and violations under a file
+     */
+    public getChildren(node?: ConventionTreeNode): ConventionTreeNode[] {
+        if (!this.result) {
+            return [];
+        }
+
+        if (!node) {
+            return this.result.rules
+                .filter(rule => rule.violation_count > 0)
+                .sort((a, b) => b.violation_count - a.violation_count)
+                .map(rule => ({ kind: 'rule', rule }));
+        }
+
+        if (node.kind === 'rule') {
+            const byFile = new Map<string, ConventionViolation[]>();
+            for (const violation of this.result.violations.filter(v => v.type === node.rule.id)) {
+                const file = violation.file || '';
+                byFile.set(file, [...(byFile.get(file) || []), violation]);
+            }
+            return Array.from(byFile.entries())
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([file, violations]) => ({ kind: 'file', rule: node.rule, file, violations }));
+        }
+
+        if (node.kind === 'file') {
+            return node.violations.map(violation => ({ kind: 'violation', violation }));
+        }
+
+        return [];
+    }
+
+    /**
+     * Render a tree node
+     */
+    public getTreeItem(node: ConventionTreeNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'rule': {
+                const item = new vscode.TreeItem(node.rule.id, vscode.TreeItemCollapsibleState.Expanded);
+                item.description = `${node.rule.violation_count}`;
+                item.tooltip = node.rule.description;
+                item.iconPath = this.severityIcon(node.rule.severity);
+                return item;
+            }
+            case 'file': {
+                const item = new vscode.TreeItem(path.basename(node.file), vscode.TreeItemCollapsibleState.Collapsed);
+                item.description = `${path.dirname(node.file)} · ${node.violations.length}`;
+                item.resourceUri = this.toUri(node.file);
+                item.iconPath = vscode.ThemeIcon.File;
+                return item;
+            }
+            case 'violation': {
+                const violation = node.violation;
+                const item = new vscode.TreeItem(violation.suggestion, vscode.TreeItemCollapsibleState.None);
+                item.description = violation.line ? `line ${violation.line}` : undefined;
+                item.iconPath = this.severityIcon(violation.severity || 'warning');
+                item.contextValue = violation.auto_fixable ? 'fixableViolation' : 'violation';
+                item.command = {
+                    command: 'vscode.open',
+                    title: 'Open File',
+                    arguments: [
+                        this.toUri(violation.file || ''),
+                        { selection: new vscode.Range(Math.max(0, (violation.line || 1) - 1), 0, Math.max(0, (violation.line || 1) - 1), 0) }
+                    ]
+                };
+                return item;
+            }
+        }
+    }
+
+    /**
+     * Resolve a workspace-relative path from the scan
+     */
+    private toUri(relativePath: string): vscode.Uri {
+        return vscode.Uri.file(path.join(this.result?.workspace_root || '', relativePath));
+    }
+
+    /**
+     * Pick the icon for a severity
+     */
+    private severityIcon(severity: string): vscode.ThemeIcon {
+        switch (severity) {
+            case 'error':
+                return new vscode.ThemeIcon('error');
+            case 'info':
+                return new vscode.ThemeIcon('info');
+            default:
+                return new vscode.ThemeIcon('warning');
+        }
+    }
+}
@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../utils/Logger';
+import { BuildError, SourceRange } from '../types/ObsConfig';
+
+/**
+ * Publishes parsed build errors to the VS Code Problems panel
+ * Resolves log paths against the workspace and build directories
+ */
+export class DiagnosticPublisher {
+    private readonly collection: vscode.DiagnosticCollection;
+
+    constructor(name: string = 'obs-plugin') {
+        this.collection = vscode.languages.createDiagnosticCollection(name);
+    }
+
+    /**
+     * Replace all published diagnostics with the given build errors
+     */
+    public publish(errors: BuildError[], workspaceRoot: string, buildDir?: string): void {
+        this.collection.clear();
+
+        const byFile = new Map<string, vscode.Diagnostic[]>();
+        for (const error of errors) {
+            const filePath = this.resolvePath(error.file, workspaceRoot, buildDir);
+            const diagnostics = byFile.get(filePath) || [];
+
+            diagnostics.push(this.createDiagnostic(error, workspaceRoot, buildDir));
+
+            if (error.convention_violation) {
+                diagnostics.push(this.createConventionDiagnostic(error));
+            }
+
+            byFile.set(filePath, diagnostics);
+        }
+
+        for (const [filePath, diagnostics] of byFile) {
+            this.collection.set(vscode.Uri.file(filePath), diagnostics);
+        }
+
+        Logger.info(`Published ${errors.length} build diagnostics across ${byFile.size} files`);
+    }
+
+    /**
+     * Remove all diagnostics from the Problems panel
+     */
+    public clear(): void {
+        this.collection.clear();
+    }
+
+    /**
+     * Dispose the underlying diagnostic collection
+     */
+    public dispose(): void {
+        this.collection.dispose();
+    }
+
+    /**
+     * Resolve a log path to an absolute file path
+     */
+    private resolvePath(file: string, workspaceRoot: string, buildDir?: string): string {
+        if (path.isAbsolute(file)) {
+            return path.normalize(file);
+        }
+
+        // Compilers report paths relative to the directory they were invoked from,
+        // which is the build directory for CMake generators
+        const candidates = [path.join(workspaceRoot, file)];
+        if (buildDir) {
+            candidates.push(path.resolve(workspaceRoot, buildDir, file));
+        }
+
+        return candidates.find(candidate => fs.existsSync(candidate)) || candidates[0];
+    }
+
+    /**
+     * Create diagnostic for a build error
+     */
+    private createDiagnostic(error: BuildError, workspaceRoot: string, buildDir?: string): vscode.Diagnostic {
+        const diagnostic = new vscode.Diagnostic(
+            error.range ? this.createSourceRange(error.range) : this.createRange(error),
+            error.suggestion ? `${error.message}\n${error.suggestion}` : error.message,
+            this.toDiagnosticSeverity(error.severity)
+        );
+        diagnostic.source = 'obs-build';
+
+        if (error.related && error.related.length > 0) {
+            diagnostic.relatedInformation = error.related.map(related => new vscode.DiagnosticRelatedInformation(
+                new vscode.Location(
+                    vscode.Uri.file(this.resolvePath(related.file, workspaceRoot, buildDir)),
+                    this.createRange(related)
+                ),
+                related.message
+            ));
+        }
+
+        return diagnostic;
+    }
+
+    /**
+     * Create diagnostic for the convention suggestion attached to a build error
+     */
+    private createConventionDiagnostic(error: BuildError): vscode.Diagnostic {
+        const violation = error.convention_violation!;
+        const diagnostic = new vscode.Diagnostic(
+            this.createRange(error),
+            violation.suggestion,
+            vscode.DiagnosticSeverity.Information
+        );
+        diagnostic.source = 'obs-conventions';
+        diagnostic.code = violation.type;
+
+        return diagnostic;
+    }
+
+    /**
+     * Create zero-based range from one-based line and column
+     */
+    private createRange(location: { line: number; column: number }): vscode.Range {
+        const line = Math.max(0, location.line - 1);
+        const column = Math.max(0, location.column - 1);
+        return new vscode.Range(line, column, line, Number.MAX_SAFE_INTEGER);
+    }
+
+    /**
+     * Create zero-based range from a one-based, end-exclusive compiler range
+     */
+    private createSourceRange(range: SourceRange): vscode.Range {
+        return new vscode.Range(
+            Math.max(0, range.start.line - 1),
+            Math.max(0, range.start.column - 1),
+            Math.max(0, range.end.line - 1),
+            Math.max(0, range.end.column - 1)
+        );
+    }
+
+    /**
+     * Map build error severity to VS Code severity
+     */
+    private toDiagnosticSeverity(severity: BuildError['severity']): vscode.DiagnosticSeverity {
+        switch (severity) {
+            case 'error':
+                return vscode.DiagnosticSeverity.Error;
+            case 'warning':
+                return vscode.DiagnosticSeverity.Warning;
+            default:
+                return vscode.DiagnosticSeverity.Information;
+        }
+    }
+}
@@ -0,0 +1,166 @@
+import { BuildError, BuildProgress, DiagnosticLineParser } from '../types/ObsConfig';
+
+/**
+ * Incremental log parser for a single output stream of a running process
+ * Emits diagnostics and build progress as complete lines arrive
+ */
+export class DiagnosticStream {
+    private static readonly NINJA_PROGRESS = /^\[(\d+)\/(\d+)\]\s+(.*)$/;
+    private static readonly MAKE_PROGRESS = /^\[\s*(\d+)%\]\s+(.*)$/;
+
+    private partialLine = '';
+    private owner: DiagnosticLineParser | undefined;
+    private ended = false;
+    private readonly errors: BuildError[] = [];
+    private readonly diagnosticListeners: Array<(errors: BuildError[]) => void> = [];
+    private readonly progressListeners: Array<(progress: BuildProgress) => void> = [];
+
+    constructor(
+        private readonly parsers: DiagnosticLineParser[],
+        private readonly prepareLine: (line: string) => string,
+        private readonly annotate: (error: BuildError) => void
+    ) {}
+
+    /**
+     * Register a listener for newly completed diagnostics
+     */
+    public onDiagnostics(listener: (errors: BuildError[]) => void): void {
+        this.diagnosticListeners.push(listener);
+    }
+
+    /**
+     * Register a listener for build progress lines
+     */
+    public onProgress(listener: (progress: BuildProgress) => void): void {
+        this.progressListeners.push(listener);
+    }
+
+    /**
+     * Feed a chunk of process output, which may end in the middle of a line
+     */
+    public write(chunk: string): void {
+        const lines = (this.partialLine + chunk).split(/\r?\n/);
+        this.partialLine = lines.pop()!;
+
+        for (const line of lines) {
+            this.feedLine(line);
+        }
+    }
+
+    /**
+     * Flush all parsers and return every diagnostic seen on this stream
+     */
+    public end(): BuildError[] {
+        if (!this.ended) {
+            this.ended = true;
+            if (this.partialLine) {
+                this.feedLine(this.partialLine);
+                this.partialLine = '';
+            }
+            for (const parser of this.parsers) {
+                parser.flush();
+                this.replay(parser);
+            }
+            this.parsers.forEach(parser => parser.flush());
+            this.collectCompleted();
+        }
+        return this.errors;
+    }
+
+    /**
+     * Get the diagnostics completed so far
+     */
+    public getErrors(): BuildError[] {
+        return this.errors;
+    }
+
+    /**
+     * Feed a complete line to the first parser that claims it
+     */
+    private feedLine(rawLine: string): void {
+        this.dispatch(this.prepareLine(rawLine));
+    }
+
+    /**
+     * Offer a line to each parser in turn, except the one that gave it back
+     */
+    private dispatch(line: string, skip?: DiagnosticLineParser): void {
+        let claimedBy: DiagnosticLineParser | undefined;
+        for (const parser of this.parsers) {
+            if (parser === skip) {
+                continue;
+            }
+            const claimed = parser.feed(line);
+            this.replay(parser);
+            if (claimed) {
+                claimedBy = parser;
+                break;
+            }
+        }
+
+        // A tentative claim leaves the current diagnostic open until the claim is confirmed
+        if (claimedBy !== this.owner && !claimedBy?.isTentative?.()) {
+            this.parsers.filter(parser => parser !== claimedBy && parser !== skip).forEach(parser => parser.flush());
+            this.owner = claimedBy;
+        }
+
+        this.collectCompleted();
+
+        if (!claimedBy) {
+            this.detectProgress(line);
+        }
+    }
+
+    /**
+     * Offer the lines a parser gave back to the other parsers, in log order
+     */
+    private replay(parser: DiagnosticLineParser): void {
+        for (const line of parser.release?.() || []) {
+            this.dispatch(line, parser);
+        }
+    }
+
+    /**
+     * Move completed diagnostics from the line parsers to the stream
+     */
+    private collectCompleted(): void {
+        const completed: BuildError[] = [];
+        for (const parser of this.parsers) {
+            completed.push(...parser.drain());
+        }
+
+        if (completed.length === 0) {
+            return;
+        }
+
+        completed.forEach(error => this.annotate(error));
+        this.errors.push(...completed);
+        this.diagnosticListeners.forEach(listener => listener(completed));
+    }
+
+    /**
+     * Report ninja and make progress lines
+     */
+    private detectProgress(line: string): void {
+        let progress: BuildProgress | undefined;
+        let match: RegExpMatchArray | null;
+
+        if ((match = line.match(DiagnosticStream.NINJA_PROGRESS))) {
+            const completed = parseInt(match[1]);
+            const total = parseInt(match[2]);
+            progress = {
+                completed,
+                total,
+                percent: total > 0 ? Math.round(completed * 100 / total) : undefined,
+                description: match[3].trim()
+            };
+        } else if ((match = line.match(DiagnosticStream.MAKE_PROGRESS))) {
+            progress = { percent: parseInt(match[1]), description: match[2].trim() };
+        }
+
+        if (progress) {
+            const reported = progress;
+            this.progressListeners.forEach(listener => listener(reported));
+        }
+    }
+}
@@ -0,0 +1,281 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../utils/Logger';
+import { CppSourceScanner } from '../utils/CppSourceScanner';
+import { WorkspaceWalker } from '../utils/WorkspaceWalker';
+import { BuildError, ContextCandidate } from '../types/ObsConfig';
+
+/**
+ * Collects the source behind build errors for fix requests
+ * Adds the lines around each error, the declarations of symbols named in the errors and,
+ * for linker errors, the CMake commands that list target sources and libraries
+ */
+export class ErrorContextCollector {
+    private static readonly SITE_RADIUS = 6;
+    private static readonly MAX_SITES = 20;
+    private static readonly MAX_SYMBOLS = 10;
+    private static readonly MAX_DECLARATION_LINES = 25;
+    private static readonly MAX_TARGET_COMMANDS = 10;
+    private static readonly MAX_SCANNED_FILE_SIZE = 512 * 1024;
+    private static readonly SOURCE_FILE = /\.(?:c|cc|cpp|cxx|h|hh|hpp|hxx|inl|m|mm)$/i;
+    private static readonly CMAKE_FILE = /(?:^|\/)CMakeLists\.txt$|\.cmake$/i;
+    private static readonly TARGET_COMMAND = /^\s*(target_sources|target_link_libraries)\s*\(/i;
+    private static readonly QUOTED_NAME = /['‘`"]([A-Za-z_~][\w:<>,*&~ ]*(?:\([^)]*\))?)['’`"]/g;
+    private static readonly IGNORED_NAMES = new Set([
+        'auto', 'bool', 'char', 'class', 'const', 'double', 'enum', 'float', 'int', 'long', 'short',
+        'signed', 'size_t', 'std', 'struct', 'unsigned', 'void'
+    ]);
+
+    /**
+     * Collect context candidates for the given errors
+     */
+    public async collect(errors: Partial<BuildError>[], workspaceRoot: string): Promise<ContextCandidate[]> {
+        const sites = this.collectErrorSites(errors, workspaceRoot);
+        const symbols = ErrorContextCollector.extractSymbols(errors);
+        const needsTargets = errors.some(error => error.linker);
+
+        if (!workspaceRoot || (symbols.length === 0 && !needsTargets)) {
+            return sites;
+        }
+
+        let files: string[] = [];
+        try {
+            files = await WorkspaceWalker.listFiles(workspaceRoot);
+        } catch (error) {
+            Logger.warn('Failed to list workspace files for error context', error);
+            return sites;
+        }
+
+        const declarations = symbols.length > 0 ? await this.findDeclarations(symbols, files, workspaceRoot, sites) : [];
+        const targets = needsTargets ? await this.findTargetCommands(files, workspaceRoot) : [];
+        return [...sites, ...declarations, ...targets];
+    }
+
+    /**
+     * Names of the symbols an error message or linker diagnostic refers to, without templates or parameters
+     */
+    public static extractSymbols(errors: Partial<BuildError>[]): string[] {
+        const names = new Set<string>();
+        const add = (raw: string) => {
+            const withoutArguments = raw.replace(/\([^)]*\)/g, '');
+            let withoutTemplates = withoutArguments;
+            while (/<[^<>]*>/.test(withoutTemplates)) {
+                withoutTemplates = withoutTemplates.replace(/<[^<>]*>/g, '');
+            }
+            for (const part of withoutTemplates.split('::')) {
+                const name = part.replace(/^~/, '').match(/[A-Za-z_]\w*/)?.[0];
+                if (name && name.length > 1 && !ErrorContextCollector.IGNORED_NAMES.has(name)) {
+                    names.add(name);
+                }
+            }
+        };
+
+        for (const error of errors) {
+            if (error.linker?.symbol) {
+                add(error.linker.symbol);
+            }
+            for (const match of (error.message || '').matchAll(ErrorContextCollector.QUOTED_NAME)) {
+                add(match[1]);
+            }
+        }
+
+        return Array.from(names).slice(0, ErrorContextCollector.MAX_SYMBOLS);
+    }
+
+    /**
+     * Source lines around each error, merging errors whose windows touch into one snippet
+     */
+    private collectErrorSites(errors: Partial<BuildError>[], workspaceRoot: string): ContextCandidate[] {
+        const radius = ErrorContextCollector.SITE_RADIUS;
+        const linesByFile = new Map<string, number[]>();
+
+        for (const error of errors) {
+            if (!error.file || !error.line) {
+                continue;
+            }
+            const file = path.resolve(workspaceRoot, error.file);
+            linesByFile.set(file, [...(linesByFile.get(file) || []), error.line - 1]);
+        }
+
+        const sites: ContextCandidate[] = [];
+        for (const [file, errorLines] of linesByFile) {
+            const lines = this.readLines(file);
+            if (!lines) {
+                continue;
+            }
+
+            const windows: Array<{ start: number; end: number; focus: number }> = [];
+            for (const errorLine of [...new Set(errorLines)].filter(line => line < lines.length).sort((a, b) => a - b)) {
+                const start = Math.max(0, errorLine - radius);
+                const end = Math.min(lines.length, errorLine + radius + 1);
+                const last = windows[windows.length - 1];
+                if (last && start <= last.end) {
+                    last.end = Math.max(last.end, end);
+                } else {
+                    windows.push({ start, end, focus: errorLine });
+                }
+            }
+
+            for (const window of windows) {
+                sites.push({
+                    id: file,
+                    kind: 'error_site',
+                    content: lines.slice(window.start, window.end).join('\n'),
+                    start_line: window.start,
+                    focus_line: window.focus
+                });
+            }
+        }
+
+        return sites.slice(0, ErrorContextCollector.MAX_SITES);
+    }
+
+    /**
+     * Find where the named symbols are declared in the workspace sources, skipping lines already in an error site
+     */
+    private async findDeclarations(
+        symbols: string[],
+        files: string[],
+        workspaceRoot: string,
+        sites: ContextCandidate[]
+    ): Promise<ContextCandidate[]> {
+        const wanted = new Set(symbols);
+        const declarations: ContextCandidate[] = [];
+        // Headers first, since they hold the declarations most errors are about
+        const sources = files
+            .filter(file => ErrorContextCollector.SOURCE_FILE.test(file))
+            .sort((a, b) => Number(!/\.h\w*$/i.test(a)) - Number(!/\.h\w*$/i.test(b)));
+
+        for (const relativePath of sources) {
+            if (wanted.size === 0) {
+                break;
+            }
+
+            const file = path.join(workspaceRoot, relativePath);
+            let content: string;
+            try {
+                const stat = await fs.promises.stat(file);
+                if (stat.size > ErrorContextCollector.MAX_SCANNED_FILE_SIZE) {
+                    continue;
+                }
+                content = await fs.promises.readFile(file, 'utf8');
+            } catch (error) {
+                continue;
+            }
+            if (![...wanted].some(symbol => content.includes(symbol))) {
+                continue;
+            }
+
+            const lines = content.split('\n');
+            const code = CppSourceScanner.stripCommentsAndLiterals(content).split('\n');
+            for (const declaration of CppSourceScanner.findNamespaceScopeDeclarations(content)) {
+                const name = declaration.name.split('::').pop() || '';
+                if (!wanted.has(name) || declaration.kind === 'forward') {
+                    continue;
+                }
+
+                const start = declaration.line - 1;
+                const covered = sites.some(site => site.id === file &&
+                    start >= (site.start_line || 0) && start < (site.start_line || 0) + site.content.split('\n').length);
+                wanted.delete(name);
+                if (covered) {
+                    continue;
+                }
+
+                declarations.push({
+                    id: file,
+                    kind: 'declaration',
+                    content: lines.slice(start, this.findDeclarationEnd(code, start)).join('\n'),
+                    start_line: start
+                });
+            }
+        }
+
+        return declarations;
+    }
+
+    /**
+     * Line after the end of a declaration: its closing semicolon or the brace closing its body, within a line limit
+     */
+    private findDeclarationEnd(code: string[], start: number): number {
+        const limit = Math.min(code.length, start + ErrorContextCollector.MAX_DECLARATION_LINES);
+        let depth = 0;
+        let opened = false;
+
+        for (let line = start; line < limit; line++) {
+            for (const char of code[line]) {
+                if (char === '{') {
+                    depth++;
+                    opened = true;
+                } else if (char === '}') {
+                    depth--;
+                    if (opened && depth === 0) {
+                        return line + 1;
+                    }
+                } else if (char === ';' && depth === 0) {
+                    return line + 1;
+                }
+            }
+        }
+        return limit;
+    }
+
+    /**
+     * The target_sources and target_link_libraries commands of the workspace CMake files
+     */
+    private async findTargetCommands(files: string[], workspaceRoot: string): Promise<ContextCandidate[]> {
+        const commands: ContextCandidate[] = [];
+        // CMakeLists.txt files define the plugin target; helper modules come after them
+        const cmakeFiles = files
+            .filter(file => ErrorContextCollector.CMAKE_FILE.test(file))
+            .sort((a, b) => Number(!/CMakeLists\.txt$/i.test(a)) - Number(!/CMakeLists\.txt$/i.test(b)));
+
+        for (const relativePath of cmakeFiles) {
+            const file = path.join(workspaceRoot, relativePath);
+            const lines = this.readLines(file);
+            if (!lines) {
+                continue;
+            }
+
+            for (let start = 0; start < lines.length; start++) {
+                if (commands.length >= ErrorContextCollector.MAX_TARGET_COMMANDS) {
+                    return commands;
+                }
+                if (!ErrorContextCollector.TARGET_COMMAND.test(lines[start])) {
+                    continue;
+                }
+
+                let end = start;
+                let depth = 0;
+                for (; end < lines.length; end++) {
+                    const code = lines[end].replace(/#.*$/, '');
+                    depth += (code.match(/\(/g) || []).length - (code.match(/\)/g) || []).length;
+                    if (depth <= 0) {
+                        break;
+                    }
+                }
+
+                commands.push({
+                    id: file,
+                    kind: 'build_target',
+                    content: lines.slice(start, end + 1).join('\n'),
+                    start_line: start
+                });
+                start = end;
+            }
+        }
+
+        return commands;
+    }
+
+    /**
+     * Read a file as lines, or undefined when it cannot be read
+     */
+    private readLines(file: string): string[] | undefined {
+        try {
+            return fs.readFileSync(file, 'utf8').split('\n');
+        } catch (error) {
+            return undefined;
+        }
+    }
+}
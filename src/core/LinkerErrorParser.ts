@@ -0,0 +1,471 @@
+import * as path from 'path';
+import { BuildError, DiagnosticLineParser, LinkerDiagnostic } from '../types/ObsConfig';
+import { Demangler } from '../utils/Demangler';
+
+type LinkerBlock = 'none' | 'lld_undefined' | 'lld_duplicate' | 'ld64_undefined' | 'ld64_duplicate';
+
+/**
+ * Stateful parser for GNU ld, gold, lld, ld64 and MSVC link.exe failures
+ * Produces one build error per missing or duplicate symbol
+ */
+export class LinkerErrorParser implements DiagnosticLineParser {
+    private static readonly GNU_PREFIX = String.raw`(?:\S*[\/\\])?(?:[\w.-]+-)?ld(?:\.bfd|\.gold)?(?:\.exe)?: `;
+    private static readonly GNU_IN_FUNCTION = new RegExp(`^${LinkerErrorParser.GNU_PREFIX}(.+?): in function [\`'](.+)':$`);
+    private static readonly GNU_UNDEFINED = new RegExp(`^(?:${LinkerErrorParser.GNU_PREFIX})?(.+?):(?:\\(([^)]*)\\)|(\\d+))?: undefined reference to [\`'](.+)'$`);
+    private static readonly GNU_MULTIPLE = new RegExp(`^(?:${LinkerErrorParser.GNU_PREFIX})?(.+?):(?:\\(([^)]*)\\)|(\\d+))?: multiple definition of [\`'](.+?)'; (.+?):(?:\\([^)]*\\)|\\d+)?: first defined here$`);
+    private static readonly GNU_MISSING_LIBRARY = new RegExp(`^${LinkerErrorParser.GNU_PREFIX}cannot find -l([^\\s:]+)`);
+    private static readonly LLD_ERROR = /^(?:\S*[\/\\])?(?:ld\.lld|ld64\.lld|lld-link|wasm-ld)(?:\.exe)?: error: (undefined symbol|duplicate symbol|unable to find library -l)\s*:?\s*(.+)$/;
+    private static readonly LLD_LOCATION = /^>>> (?:referenced by|defined at) (.+?)(?: \((.+)\))?$/;
+    private static readonly LLD_OBJECT = /^>>>\s+(?:referenced by |defined at )?(.+?):\((.+)\)$/;
+    private static readonly LLD_MORE = /^>>> referenced \d+ more times?$/;
+    private static readonly LD64_UNDEFINED_HEADER = /^Undefined symbols for architecture (\S+):$/;
+    private static readonly LD64_UNDEFINED_SYMBOL = /^\s+"(.+)", referenced from:$/;
+    private static readonly LD64_REFERENCE = /^\s+(.+) in (\S+)$/;
+    private static readonly LD64_DUPLICATE_HEADER = /^duplicate symbol '?(.+?)'? in:$/;
+    private static readonly LD64_DUPLICATE_OBJECT = /^\s+(\S+\.(?:o|obj|a|dylib))$/;
+    private static readonly LD64_MISSING_LIBRARY = /^ld: library not found for -l(\S+)$/;
+    private static readonly MSVC_UNRESOLVED = /^(.+?) : (?:fatal )?error (LNK2019|LNK2001): unresolved external symbol (.+?)(?: referenced in function (.+))?$/;
+    private static readonly MSVC_DUPLICATE = /^(.+?) : (?:fatal )?error LNK2005: (.+?) already defined in (.+)$/;
+    private static readonly MSVC_MISSING_LIBRARY = /^LINK : fatal error LNK1104: cannot open file '(.+\.lib)'$/;
+    private static readonly SUMMARIES = [
+        /^collect2(?:\.exe)?: error: ld returned \d+ exit status$/,
+        /^(?:\S*[\/\\])?clang(?:\+\+)?(?:\.exe)?: error: linker command failed with exit code \d+/,
+        /^ld: (?:symbol\(s\) not found|\d+ duplicate symbols?) for architecture \S+$/,
+        /^(?:\S*[\/\\])?ld\.lld(?:\.exe)?: error: too many errors emitted/,
+        /^.+ : fatal error LNK1120: \d+ unresolved externals?$/,
+        /^.+ : fatal error LNK1169: one or more multiply defined symbols found$/
+    ];
+
+    private static readonly QT_MODULES: Array<[RegExp, string]> = [
+        [/^Q(?:Network|Http|Ssl|Tcp|Udp|Dns|HostAddress|AbstractSocket|LocalSocket)\w*$/, 'Network'],
+        [/^Q(?:Pixmap|Image|Color|Painter|Icon|Font|Palette|Brush|Pen|Cursor|Screen|Window|GuiApplication|KeySequence|Clipboard|Movie|Validator|IntValidator|DoubleValidator|RegularExpressionValidator|StandardItemModel|StandardItem|TextDocument|DesktopServices|Action|Shortcut)\w*$/, 'Gui'],
+        [/^Q(?:Object|String|Timer|Thread|MetaObject|ByteArray|List|Variant|CoreApplication|Settings|File|Dir|Json\w*|Url|DateTime|Date|Time|Mutex|Event|Debug|Locale|Regular\w*|Process|Buffer|IODevice|TextStream|Translator|Abstract(?:Item|List|Table)Model|ModelIndex|Signal\w*)\b/, 'Core']
+    ];
+
+    private block: LinkerBlock = 'none';
+    private currentSymbol: BuildError | null = null;
+    private currentObject: string | undefined;
+    private currentFunction: string | undefined;
+    private reportedSymbols = false;
+    private symbols = new Map<string, BuildError>();
+    private completed: BuildError[] = [];
+
+    /**
+     * Feed a single log line into the parser
+     */
+    public feed(line: string): boolean {
+        if (LinkerErrorParser.SUMMARIES.some(pattern => pattern.test(line))) {
+            if (this.symbols.size === 0 && !this.reportedSymbols) {
+                this.addGeneric(line);
+            }
+            this.flush();
+            this.reportedSymbols = false;
+            return true;
+        }
+
+        return this.feedBlock(line) || this.feedGnu(line) || this.feedLld(line) ||
+            this.feedLd64(line) || this.feedMsvc(line);
+    }
+
+    /**
+     * Emit the symbols collected for the current link step
+     */
+    public flush(): void {
+        this.reportedSymbols = this.reportedSymbols || this.symbols.size > 0;
+        this.completed.push(...this.symbols.values());
+        this.symbols.clear();
+        this.closeBlock();
+    }
+
+    /**
+     * Take all completed linker errors
+     */
+    public drain(): BuildError[] {
+        const completed = this.completed;
+        this.completed = [];
+        return completed;
+    }
+
+    /**
+     * Continue an open lld or ld64 block
+     */
+    private feedBlock(line: string): boolean {
+        if (this.block === 'none') {
+            return false;
+        }
+
+        let match: RegExpMatchArray | null;
+
+        if (this.block === 'lld_undefined' || this.block === 'lld_duplicate') {
+            if ((match = line.match(LinkerErrorParser.LLD_OBJECT))) {
+                this.addReference(this.currentSymbol!, match[1], match[2], line);
+                return true;
+            }
+            if ((match = line.match(LinkerErrorParser.LLD_LOCATION))) {
+                this.addSourceLocation(this.currentSymbol!, match[2] || match[1]);
+                this.currentSymbol!.raw += '\n' + line;
+                return true;
+            }
+            if (LinkerErrorParser.LLD_MORE.test(line)) {
+                this.currentSymbol!.raw += '\n' + line;
+                return true;
+            }
+        }
+
+        if (this.block === 'ld64_undefined') {
+            if ((match = line.match(LinkerErrorParser.LD64_UNDEFINED_SYMBOL))) {
+                this.currentSymbol = this.getSymbol('undefined_symbol', this.normalizeLd64Symbol(match[1]), line);
+                return true;
+            }
+            if (this.currentSymbol && (match = line.match(LinkerErrorParser.LD64_REFERENCE))) {
+                this.addReference(this.currentSymbol, match[2], this.normalizeLd64Symbol(match[1]), line);
+                return true;
+            }
+            if (/^\s+(?:NOTE|ld: warning):/.test(line)) {
+                return true;
+            }
+        }
+
+        if (this.block === 'ld64_duplicate' && (match = line.match(LinkerErrorParser.LD64_DUPLICATE_OBJECT))) {
+            this.addReference(this.currentSymbol!, match[1], undefined, line);
+            return true;
+        }
+
+        this.closeBlock();
+        return false;
+    }
+
+    /**
+     * Parse GNU ld and gold diagnostics
+     */
+    private feedGnu(line: string): boolean {
+        let match: RegExpMatchArray | null;
+
+        if ((match = line.match(LinkerErrorParser.GNU_IN_FUNCTION))) {
+            this.currentObject = match[1];
+            this.currentFunction = match[2];
+            return true;
+        }
+
+        if ((match = line.match(LinkerErrorParser.GNU_UNDEFINED))) {
+            const [, location, , lineNumber, symbol] = match;
+            const error = this.getSymbol('undefined_symbol', symbol, line);
+            // Without debug info ld names the object file itself, otherwise a source file
+            const isObject = /\.(?:o|obj)$|\.a\(.+\)$/.test(location);
+            this.addReference(error, isObject ? location : this.currentObject, this.currentFunction);
+            if (lineNumber) {
+                this.addSourceLocation(error, `${location}:${lineNumber}`);
+            }
+            return true;
+        }
+
+        if ((match = line.match(LinkerErrorParser.GNU_MULTIPLE))) {
+            const [, location, , , symbol, firstDefinition] = match;
+            const error = this.getSymbol('duplicate_symbol', symbol, line);
+            this.addReference(error, location, undefined);
+            this.addReference(error, firstDefinition, undefined);
+            return true;
+        }
+
+        if ((match = line.match(LinkerErrorParser.GNU_MISSING_LIBRARY))) {
+            this.getSymbol('missing_library', match[1], line);
+            return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * Parse the header line of an lld error block
+     */
+    private feedLld(line: string): boolean {
+        const match = line.match(LinkerErrorParser.LLD_ERROR);
+        if (!match) {
+            return false;
+        }
+
+        const [, kind, subject] = match;
+        if (kind === 'undefined symbol') {
+            this.currentSymbol = this.getSymbol('undefined_symbol', subject, line);
+            this.block = 'lld_undefined';
+        } else if (kind === 'duplicate symbol') {
+            this.currentSymbol = this.getSymbol('duplicate_symbol', subject, line);
+            this.block = 'lld_duplicate';
+        } else {
+            this.getSymbol('missing_library', subject, line);
+        }
+        return true;
+    }
+
+    /**
+     * Parse the header line of an ld64 error block
+     */
+    private feedLd64(line: string): boolean {
+        let match: RegExpMatchArray | null;
+
+        if (LinkerErrorParser.LD64_UNDEFINED_HEADER.test(line)) {
+            this.closeBlock();
+            this.block = 'ld64_undefined';
+            return true;
+        }
+
+        if ((match = line.match(LinkerErrorParser.LD64_DUPLICATE_HEADER))) {
+            this.closeBlock();
+            this.currentSymbol = this.getSymbol('duplicate_symbol', this.normalizeLd64Symbol(match[1]), line);
+            this.block = 'ld64_duplicate';
+            return true;
+        }
+
+        if ((match = line.match(LinkerErrorParser.LD64_MISSING_LIBRARY))) {
+            this.getSymbol('missing_library', match[1], line);
+            return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * Parse MSVC link.exe diagnostics
+     */
+    private feedMsvc(line: string): boolean {
+        let match: RegExpMatchArray | null;
+
+        if ((match = line.match(LinkerErrorParser.MSVC_UNRESOLVED))) {
+            const [, objectFile, , symbol, referencingFunction] = match;
+            const error = this.getSymbol('undefined_symbol', this.normalizeMsvcSymbol(symbol), line);
+            this.addReference(error, objectFile, referencingFunction ? this.normalizeMsvcSymbol(referencingFunction) : undefined);
+            return true;
+        }
+
+        if ((match = line.match(LinkerErrorParser.MSVC_DUPLICATE))) {
+            const [, objectFile, symbol, firstDefinition] = match;
+            const error = this.getSymbol('duplicate_symbol', this.normalizeMsvcSymbol(symbol), line);
+            this.addReference(error, objectFile, undefined);
+            this.addReference(error, firstDefinition, undefined);
+            return true;
+        }
+
+        if ((match = line.match(LinkerErrorParser.MSVC_MISSING_LIBRARY))) {
+            this.getSymbol('missing_library', path.basename(match[1], '.lib'), line);
+            return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * Get or create the build error for a symbol in the current link step
+     */
+    private getSymbol(kind: LinkerDiagnostic['kind'], rawSymbol: string, line: string): BuildError {
+        const mangled = rawSymbol.trim();
+        const symbol = Demangler.demangle(mangled);
+        const key = `${kind}:${symbol}`;
+
+        const existing = this.symbols.get(key);
+        if (existing) {
+            existing.raw += '\n' + line;
+            return existing;
+        }
+
+        const linker: LinkerDiagnostic = {
+            kind,
+            symbol,
+            mangled_symbol: symbol !== mangled ? mangled : undefined,
+            object_files: [],
+            referencing_functions: [],
+            classification: 'unknown'
+        };
+        this.classify(linker);
+
+        const error: BuildError = {
+            file: 'CMakeLists.txt',
+            line: 1,
+            column: 1,
+            severity: 'error',
+            message: this.createMessage(linker),
+            raw: line,
+            linker
+        };
+        error.suggestion = this.createSuggestion(linker);
+
+        this.symbols.set(key, error);
+        return error;
+    }
+
+    /**
+     * Record an object file and referencing function for a symbol
+     */
+    private addReference(error: BuildError, objectFile: string | undefined, referencingFunction: string | undefined, line?: string): void {
+        const linker = error.linker!;
+
+        if (objectFile) {
+            const normalized = path.normalize(objectFile.trim());
+            if (!linker.object_files.includes(normalized)) {
+                linker.object_files.push(normalized);
+            }
+            if (error.file === 'CMakeLists.txt' && linker.kind !== 'missing_library') {
+                error.file = this.objectToSource(normalized);
+            }
+        }
+
+        if (referencingFunction) {
+            const demangled = Demangler.demangle(referencingFunction.trim());
+            if (!linker.referencing_functions.includes(demangled)) {
+                linker.referencing_functions.push(demangled);
+            }
+        }
+
+        if (line) {
+            error.raw += '\n' + line;
+        }
+    }
+
+    /**
+     * Use a reported source location in place of the object file
+     */
+    private addSourceLocation(error: BuildError, location: string): void {
+        const match = location.trim().match(/^(.+?):(\d+)$/);
+        if (match && error.line === 1) {
+            error.file = path.normalize(match[1]);
+            error.line = parseInt(match[2]) || 1;
+        }
+    }
+
+    /**
+     * Map a CMake object file path back to its source file
+     */
+    private objectToSource(objectFile: string): string {
+        const withoutArchive = objectFile.replace(/^.+\.(?:a|lib)\((.+)\)$/, '$1');
+        const withinTarget = withoutArchive.split(/[\/\\]CMakeFiles[\/\\][^\/\\]+\.dir[\/\\]/).pop()!
+            .replace(/^CMakeFiles[\/\\][^\/\\]+\.dir[\/\\]/, '');
+        return withinTarget.replace(/\.(?:c|cc|cpp|cxx|m|mm)\.(?:o|obj)$/, match => match.replace(/\.(?:o|obj)$/, ''));
+    }
+
+    /**
+     * Strip the underscore ld64 prefixes to C symbols
+     */
+    private normalizeLd64Symbol(symbol: string): string {
+        return !Demangler.isMangled(symbol) && /^_[A-Za-z_]\w*$/.test(symbol) ? symbol.substring(1) : symbol;
+    }
+
+    /**
+     * Prefer the undecorated name MSVC prints in quotes
+     */
+    private normalizeMsvcSymbol(symbol: string): string {
+        const quoted = symbol.match(/^"(.+?)" \(.+\)$/);
+        if (!quoted) {
+            return symbol.trim().replace(/^__imp_/, '');
+        }
+
+        // "public: __cdecl MyDock::MyDock(class QWidget *)" -> "MyDock::MyDock(class QWidget *)"
+        const name = quoted[1]
+            .replace(/^(?:public|protected|private): /, '')
+            .replace(/^.*?__(?:cdecl|stdcall|fastcall|thiscall|vectorcall) /, '')
+            .trim();
+        return name.includes('(') ? name : name.split(' ').pop()!;
+    }
+
+    /**
+     * Record a linker failure for which no symbols were reported
+     */
+    private addGeneric(line: string): void {
+        this.completed.push({
+            file: 'CMakeLists.txt',
+            line: 1,
+            column: 1,
+            severity: 'error',
+            message: line.trim(),
+            raw: line
+        });
+    }
+
+    /**
+     * Close the open lld or ld64 block
+     */
+    private closeBlock(): void {
+        this.block = 'none';
+        this.currentSymbol = null;
+        this.currentObject = undefined;
+        this.currentFunction = undefined;
+    }
+
+    /**
+     * Classify well-known OBS plugin link failures
+     */
+    private classify(linker: LinkerDiagnostic): void {
+        const symbol = linker.symbol;
+
+        if (linker.kind === 'duplicate_symbol') {
+            linker.classification = 'duplicate_definition';
+        } else if (/^(?!Q[A-Z])[\w:]+::(?:staticMetaObject|metaObject\(\)|qt_metacall\(|qt_metacast\(|qt_static_metacall\()/.test(symbol) ||
+            /^vtable for (?!Q[A-Z])[\w:]+$/.test(symbol)) {
+            linker.classification = 'missing_moc';
+        } else if (/^obs_frontend_|^obs-frontend-api$/.test(symbol)) {
+            linker.classification = 'missing_frontend_api';
+        } else if (/^(?:obs_|gs_|vec[234]_|matrix[34]_|calldata_|signal_handler_|proc_handler_|os_|dstr_|config_|bmalloc|bzalloc|brealloc|bfree|bstrdup|blog$|obs$)/.test(symbol)) {
+            linker.classification = 'missing_libobs';
+        } else if (this.getQtModule(symbol)) {
+            linker.classification = 'missing_qt_module';
+        }
+    }
+
+    /**
+     * Determine the Qt module that provides a symbol or library
+     */
+    private getQtModule(symbol: string): string | undefined {
+        const library = symbol.match(/^Qt6(\w+)$/);
+        if (library) {
+            return library[1];
+        }
+
+        const owner = symbol.match(/^(?:vtable for |typeinfo for |non-virtual thunk to )?(Q[A-Z]\w*)(?:::|$)/);
+        if (!owner) {
+            return undefined;
+        }
+
+        const module = LinkerErrorParser.QT_MODULES.find(([pattern]) => pattern.test(owner[1]));
+        return module ? module[1] : 'Widgets';
+    }
+
+    /**
+     * Create a readable message for a linker error
+     */
+    private createMessage(linker: LinkerDiagnostic): string {
+        switch (linker.kind) {
+            case 'undefined_symbol':
+                return `undefined reference to '${linker.symbol}'`;
+            case 'duplicate_symbol':
+                return `multiple definition of '${linker.symbol}'`;
+            default:
+                return `cannot find library '${linker.symbol}'`;
+        }
+    }
+
+    /**
+     * Create a concrete fix suggestion for a classified linker error
+     */
+    private createSuggestion(linker: LinkerDiagnostic): string | undefined {
+        switch (linker.classification) {
+            case 'missing_frontend_api':
+                return 'Link the OBS frontend API: target_link_libraries(${CMAKE_PROJECT_NAME} PRIVATE OBS::obs-frontend-api) ' +
+                    'after find_package(obs-frontend-api REQUIRED)';
+            case 'missing_libobs':
+                return 'Link libobs: target_link_libraries(${CMAKE_PROJECT_NAME} PRIVATE OBS::libobs) after find_package(libobs REQUIRED)';
+            case 'missing_qt_module': {
+                const module = this.getQtModule(linker.symbol);
+                return `Link Qt6 ${module}: find_package(Qt6 REQUIRED COMPONENTS ${module}) and ` +
+                    `target_link_libraries(\${CMAKE_PROJECT_NAME} PRIVATE Qt6::${module})`;
+            }
+            case 'missing_moc': {
+                const className = linker.symbol.replace(/^vtable for /, '').split('::')[0];
+                return `Meta-object code for ${className} was not linked: enable CMAKE_AUTOMOC or include moc_<file>.cpp ` +
+                    'in the implementation file, and make sure the header declaring Q_OBJECT is listed in target sources';
+            }
+            case 'duplicate_definition':
+                return 'The symbol is defined in more than one translation unit: mark definitions in headers inline ' +
+                    'or move them into a single .cpp file';
+            default:
+                return undefined;
+        }
+    }
+}
@@ -0,0 +1,269 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Logger } from '../utils/Logger';
+import { AIMiddleware } from './AIMiddleware';
+import { ConfigManager } from './ConfigManager';
+import { BuildHistory } from './BuildHistory';
+import { ConventionRuleEngine } from './ConventionRuleEngine';
+import { PromptRedactor } from './PromptRedactor';
+import { AIResponseParser } from './AIResponseParser';
+import { AIChatMessage, AIIntent, BuildError, BuildResult, SuggestedChange } from '../types/ObsConfig';
+
+/**
+ * Prompt prepared for a chat request
+ */
+interface ChatPrompt {
+    intent: AIIntent;
+    text: string;
+    document?: vscode.TextDocument;
+    errors?: Partial<BuildError>[];
+}
+
+/**
+ * The @obs chat participant
+ * Builds requests with AIMiddleware.createRequestEnvelope and sends them to the model selected in the chat view
+ */
+export class ObsChatParticipant {
+    public static readonly ID = 'obs-plugin-ai-assistant.obs';
+
+    private static readonly CHANGE_FORMAT = 'When you propose code changes, reply with a unified diff in a ```diff block ' +
+        'using workspace-relative paths, with SEARCH/REPLACE blocks (<<<<<<< SEARCH, the exact current lines, =======, ' +
+        'the new lines, >>>>>>> REPLACE) in a code block whose info string is the language followed by the workspace-relative ' +
+        'path, or with the complete new file in such a code block, for example ```cpp src/plugin-main.cpp. ' +
+        'Only these blocks can be applied.';
+    private static readonly MAX_HISTORY_TURNS = 10;
+
+    constructor(
+        private readonly aiMiddleware: AIMiddleware,
+        private readonly configManager: ConfigManager,
+        private readonly buildHistory: BuildHistory,
+        private readonly ruleEngine: ConventionRuleEngine,
+        private readonly getLastBuildResult: () => BuildResult | null
+    ) {}
+
+    /**
+     * Register the participant with the chat view
+     */
+    public register(context: vscode.ExtensionContext): void {
+        const participant = vscode.chat.createChatParticipant(
+            ObsChatParticipant.ID,
+            (request, chatContext, stream, token) => this.handleRequest(request, chatContext, stream, token)
+        );
+        participant.iconPath = new vscode.ThemeIcon('plug');
+        context.subscriptions.push(participant);
+        Logger.info('Registered @obs chat participant');
+    }
+
+    /**
+     * Find the changes in a response that can be applied with PatchGenerator
+     */
+    public static extractSuggestedChanges(markdown: string): SuggestedChange[] {
+        return AIResponseParser.extractChanges(markdown);
+    }
+
+    /**
+     * Answer a chat request
+     */
+    private async handleRequest(
+        request: vscode.ChatRequest,
+        chatContext: vscode.ChatContext,
+        stream: vscode.ChatResponseStream,
+        token: vscode.CancellationToken
+    ): Promise<vscode.ChatResult> {
+        try {
+            const prompt = this.preparePrompt(request, stream);
+            if (!prompt) {
+                return { metadata: { command: request.command } };
+            }
+
+            stream.progress('Collecting OBS plugin context...');
+            const envelope = this.aiMiddleware.createRequestEnvelope(prompt.intent, prompt.text, prompt.document, {
+                errorContexts: prompt.errors ? await this.aiMiddleware.collectErrorContexts(prompt.errors) : undefined,
+                maxInputTokens: request.model.maxInputTokens,
+                templateVariables: prompt.errors ? this.aiMiddleware.createErrorVariables(prompt.errors) : undefined
+            });
+            const messages = this.toLanguageModelMessages(this.aiMiddleware.toChatMessages(envelope), chatContext,
+                this.aiMiddleware.createRedactor());
+
+            const response = await request.model.sendRequest(messages, {}, token);
+            let text = '';
+            for await (const fragment of response.text) {
+                text += fragment;
+                stream.markdown(fragment);
+            }
+
+            for (const change of ObsChatParticipant.extractSuggestedChanges(text)) {
+                stream.button({
+                    command: 'obs.apply-suggested-change',
+                    title: `Apply to ${change.files.join(', ')}`,
+                    arguments: [change]
+                });
+            }
+
+            return { metadata: { command: request.command } };
+        } catch (error) {
+            if (error instanceof vscode.LanguageModelError) {
+                Logger.warn(`Language model request failed: ${error.message}`);
+                return { errorDetails: { message: `Language model request failed: ${error.message}` } };
+            }
+            Logger.error('Chat request failed', error);
+            return { errorDetails: { message: 'Chat request failed. Check output for details.' } };
+        }
+    }
+
+    /**
+     * Build the prompt for a slash command and stream the file references it uses
+     */
+    private preparePrompt(request: vscode.ChatRequest, stream: vscode.ChatResponseStream): ChatPrompt | undefined {
+        const editor = vscode.window.activeTextEditor;
+
+        switch (request.command) {
+            case 'fix': {
+                const errors = this.getLastErrors();
+                if (errors.length === 0) {
+                    stream.markdown('No build errors are recorded. Build the plugin first.');
+                    stream.button({ command: 'obs.build', title: 'Build Plugin' });
+                    return undefined;
+                }
+
+                this.referenceFiles(errors.map(error => error.file || ''), stream);
+                const text = `${this.aiMiddleware.createFixPrompt(errors)}\n\n${request.prompt}`.trim();
+                return { intent: 'fix', text, document: editor?.document, errors };
+            }
+
+            case 'explain': {
+                if (!editor || editor.selection.isEmpty) {
+                    stream.markdown('Select the code to explain in the editor first.');
+                    return undefined;
+                }
+
+                const selection = editor.selection;
+                stream.reference(new vscode.Location(editor.document.uri, selection));
+                const code = editor.document.getText(selection);
+                const location = `${vscode.workspace.asRelativePath(editor.document.uri)} lines ${selection.start.line + 1}-${selection.end.line + 1}`;
+                return {
+                    intent: 'assist',
+                    text: `Explain this code from ${location} in the context of the OBS plugin API:\n\n\`\`\`${editor.document.languageId}\n${code}\n\`\`\`\n\n${request.prompt}`.trim(),
+                    document: editor.document
+                };
+            }
+
+            case 'conventions':
+                return this.prepareConventionsPrompt(request, stream, editor?.document);
+
+            case 'build': {
+                const latest = this.buildHistory.getLatest();
+                const summary = latest
+                    ? `The last build with preset '${latest.cmake_preset}' ${latest.success ? 'succeeded' : 'failed'} ` +
+                      `with ${latest.error_count} errors and ${latest.warning_count} warnings (command: ${latest.build_command}).`
+                    : 'The plugin has not been built yet.';
+                stream.button({ command: 'obs.build', title: 'Build Plugin' });
+                return {
+                    intent: 'compile',
+                    text: `${summary}\n\n${request.prompt || 'Explain how to configure and build this plugin with its CMake presets.'}`,
+                    document: editor?.document
+                };
+            }
+
+            default:
+                if (editor) {
+                    stream.reference(editor.document.uri);
+                }
+                return { intent: 'assist', text: request.prompt, document: editor?.document };
+        }
+    }
+
+    /**
+     * Prompt asking to review the active file against the coding conventions
+     */
+    private prepareConventionsPrompt(
+        request: vscode.ChatRequest,
+        stream: vscode.ChatResponseStream,
+        document?: vscode.TextDocument
+    ): ChatPrompt {
+        const conventions = this.configManager.getConfig()?.coding_conventions || {};
+        const question = request.prompt || 'Explain how to fix them.';
+
+        if (!document || document.uri.scheme !== 'file') {
+            return { intent: 'assist', text: `Summarize the coding conventions of this OBS plugin project. ${request.prompt}`.trim() };
+        }
+
+        stream.reference(document.uri);
+        const workspaceRoot = vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath;
+        const violations = this.ruleEngine.validate(document.uri.fsPath, document.getText(), conventions, workspaceRoot);
+        const relativePath = vscode.workspace.asRelativePath(document.uri);
+
+        if (violations.length === 0) {
+            return { intent: 'assist', text: `${relativePath} passes all convention rules. ${request.prompt}`.trim(), document };
+        }
+
+        const list = violations
+            .map(violation => `- line ${violation.line || 1} [${violation.severity || 'warning'}] ${violation.type}: ${violation.suggestion}`)
+            .join('\n');
+        return {
+            intent: 'fix',
+            text: `${relativePath} violates these coding conventions:\n${list}\n\n${question}`,
+            document
+        };
+    }
+
+    /**
+     * Errors of the last build in this session, or of the latest recorded build
+     */
+    private getLastErrors(): Partial<BuildError>[] {
+        const lastBuild = this.getLastBuildResult();
+        if (lastBuild) {
+            return lastBuild.success ? [] : lastBuild.errors.filter(error => error.severity === 'error');
+        }
+
+        const latest = this.buildHistory.getLatest();
+        return latest && !latest.success ? latest.errors.filter(error => error.severity === 'error') : [];
+    }
+
+    /**
+     * Stream references to the workspace files involved in a request
+     */
+    private referenceFiles(files: string[], stream: vscode.ChatResponseStream): void {
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        for (const file of Array.from(new Set(files)).filter(file => file)) {
+            const fullPath = workspaceRoot ? path.resolve(workspaceRoot, file) : file;
+            stream.reference(vscode.Uri.file(fullPath));
+        }
+    }
+
+    /**
+     * Convert envelope messages and earlier turns with @obs to language model messages
+     * The language model API has no system role, so the system prompt is sent as the first user message
+     * Earlier turns are redacted like the envelope, since they may quote secrets or local paths
+     */
+    private toLanguageModelMessages(
+        messages: AIChatMessage[],
+        chatContext: vscode.ChatContext,
+        redactor?: PromptRedactor
+    ): vscode.LanguageModelChatMessage[] {
+        const redact = (text: string) => redactor ? redactor.redactText(text) : text;
+        const [system, ...rest] = messages;
+        const result = [vscode.LanguageModelChatMessage.User(`${system.content}\n\n${ObsChatParticipant.CHANGE_FORMAT}`)];
+
+        for (const turn of chatContext.history.slice(-ObsChatParticipant.MAX_HISTORY_TURNS)) {
+            if (turn instanceof vscode.ChatRequestTurn) {
+                result.push(vscode.LanguageModelChatMessage.User(redact(turn.prompt)));
+            } else if (turn instanceof vscode.ChatResponseTurn) {
+                const text = turn.response
+                    .filter((part): part is vscode.ChatResponseMarkdownPart => part instanceof vscode.ChatResponseMarkdownPart)
+                    .map(part => part.value.value)
+                    .join('');
+                if (text) {
+                    result.push(vscode.LanguageModelChatMessage.Assistant(redact(text)));
+                }
+            }
+        }
+
+        for (const message of rest) {
+            result.push(message.role === 'assistant'
+                ? vscode.LanguageModelChatMessage.Assistant(message.content)
+                : vscode.LanguageModelChatMessage.User(message.content));
+        }
+        return result;
+    }
+}
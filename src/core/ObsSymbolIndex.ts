@@ -0,0 +1,328 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../utils/Logger';
+import { CppSourceScanner } from '../utils/CppSourceScanner';
+import { ConfigManager } from './ConfigManager';
+import { ObsApiIndexCache, ObsApiSymbol } from '../types/ObsConfig';
+
+/**
+ * Index of the libobs and obs-frontend-api symbols declared in the configured SDK headers
+ * The index is cached on disk and rebuilt when the header locations change
+ */
+export class ObsSymbolIndex {
+    private static readonly CACHE_VERSION = 1;
+    private static readonly API_NAME = /^(?:obs|gs)_\w+$/;
+    private static readonly API_REFERENCE = /\b(?:obs|gs)_\w+/g;
+    private static readonly MAX_HEADER_DEPTH = 4;
+    private static readonly MAX_TYPE_LINES = 60;
+    private static readonly SKIPPED_DIRECTORIES = new Set(['cmake', 'data', 'test', 'tests', 'docs']);
+
+    private symbols = new Map<string, ObsApiSymbol>();
+    private roots: string[] | undefined;
+    private pending: Promise<void> | undefined;
+
+    constructor(
+        private readonly configManager: ConfigManager,
+        private readonly cacheFile?: string
+    ) {}
+
+    /**
+     * Number of indexed symbols
+     */
+    public get size(): number {
+        return this.symbols.size;
+    }
+
+    /**
+     * Make sure the index matches the SDK headers of the current configuration
+     */
+    public async refresh(force: boolean = false): Promise<void> {
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+        const config = this.configManager.getConfig();
+        const runtime = this.configManager.getRuntimeDependencies();
+        const roots = ObsSymbolIndex.findHeaderRoots(
+            workspaceRoot,
+            config?.sdk_path,
+            [runtime.libobs_dir, runtime.obs_frontend_api_dir, this.configManager.getEffectiveDependencyPath('frontend_api')]
+        );
+        await this.load(roots, force);
+    }
+
+    /**
+     * Build or load the index for the given header roots, unless it already covers them
+     */
+    public async load(roots: string[], force: boolean = false): Promise<void> {
+        while (this.pending) {
+            await this.pending.catch(() => undefined);
+        }
+        if (!force && this.roots && JSON.stringify(this.roots) === JSON.stringify(roots)) {
+            return;
+        }
+
+        this.pending = (async () => {
+            const cached = force ? undefined : await this.readCache(roots);
+            const symbols = cached || await this.scan(roots);
+            this.symbols = new Map(symbols.map(symbol => [symbol.name, symbol]));
+            this.roots = roots;
+            if (!cached) {
+                await this.writeCache(roots, symbols);
+            }
+            Logger.info(`OBS symbol index has ${symbols.length} symbols from ${roots.length} header roots` +
+                (cached ? ' (cached)' : ''));
+        })();
+
+        try {
+            await this.pending;
+        } finally {
+            this.pending = undefined;
+        }
+    }
+
+    /**
+     * Find an indexed symbol by name
+     */
+    public lookup(name: string): ObsApiSymbol | undefined {
+        return this.symbols.get(name);
+    }
+
+    /**
+     * Indexed symbols mentioned in a text, in order of first mention
+     */
+    public findReferences(text: string, limit: number = 30): ObsApiSymbol[] {
+        const found = new Map<string, ObsApiSymbol>();
+        for (const match of text.matchAll(ObsSymbolIndex.API_REFERENCE)) {
+            const symbol = this.symbols.get(match[0]);
+            if (symbol && !found.has(symbol.name)) {
+                found.set(symbol.name, symbol);
+                if (found.size >= limit) {
+                    break;
+                }
+            }
+        }
+        return Array.from(found.values());
+    }
+
+    /**
+     * Header directories of an SDK source tree or install prefix, and of the CMake package directories found by configure
+     * Each root is the directory that #include paths are relative to
+     */
+    public static findHeaderRoots(workspaceRoot: string, sdkPath: string | undefined, cmakeDirs: Array<string | undefined>): string[] {
+        const candidates: string[] = [];
+
+        if (sdkPath) {
+            const sdk = path.resolve(workspaceRoot, sdkPath);
+            candidates.push(
+                path.join(sdk, 'libobs'),
+                path.join(sdk, 'UI', 'obs-frontend-api'),
+                path.join(sdk, 'frontend', 'api'),
+                path.join(sdk, 'include', 'obs')
+            );
+        }
+
+        for (const cmakeDir of cmakeDirs) {
+            if (!cmakeDir) {
+                continue;
+            }
+            const dir = path.resolve(workspaceRoot, cmakeDir);
+            // <prefix>/lib/cmake/libobs, <prefix>/cmake/libobs or <framework>/Resources
+            for (const prefix of [path.resolve(dir, '..', '..', '..'), path.resolve(dir, '..', '..')]) {
+                candidates.push(path.join(prefix, 'include', 'obs'));
+            }
+            candidates.push(path.resolve(dir, '..', 'Headers'));
+        }
+
+        const roots: string[] = [];
+        for (const candidate of candidates) {
+            if (!roots.includes(candidate) && fs.existsSync(candidate) && fs.statSync(candidate).isDirectory()) {
+                roots.push(candidate);
+            }
+        }
+        return roots;
+    }
+
+    /**
+     * Extract the exported obs_*, gs_* and obs_frontend_* functions, types and typedefs of a header
+     */
+    public static parseHeader(content: string, header: string, include: string): ObsApiSymbol[] {
+        const code = CppSourceScanner.stripCommentsAndLiterals(content).split('\n');
+        const comments = CppSourceScanner.extractComments(content);
+        const symbols: ObsApiSymbol[] = [];
+
+        for (const declaration of CppSourceScanner.findNamespaceScopeDeclarations(content)) {
+            if (!ObsSymbolIndex.API_NAME.test(declaration.name) || declaration.qualified ||
+                !['function', 'type', 'alias'].includes(declaration.kind)) {
+                continue;
+            }
+
+            const signature = ObsSymbolIndex.readSignature(code, declaration.line - 1, declaration.kind === 'type');
+            const keyword = signature.match(/^(?:typedef\s+)?(struct|enum|union)\b/)?.[1];
+            const kind = declaration.kind === 'function' ? 'function'
+                : declaration.kind === 'alias' ? 'typedef'
+                : keyword as 'struct' | 'enum' | 'union' | undefined;
+            if (!kind) {
+                continue;
+            }
+
+            // The comment ending on the line right above the declaration
+            const doc = comments.find(comment => comment.line + comment.text.split('\n').length === declaration.line);
+            symbols.push({
+                name: declaration.name,
+                kind,
+                signature,
+                doc: doc ? ObsSymbolIndex.cleanComment(doc.text) : undefined,
+                header,
+                include,
+                line: declaration.line
+            });
+        }
+
+        return symbols;
+    }
+
+    /**
+     * Read a declaration from comment-free code: up to its semicolon or body for functions,
+     * including the body for types
+     */
+    private static readSignature(code: string[], start: number, withBody: boolean): string {
+        const lines: string[] = [];
+        let depth = 0;
+
+        for (let line = start; line < code.length && lines.length < ObsSymbolIndex.MAX_TYPE_LINES; line++) {
+            let text = code[line];
+            let done = false;
+            for (let i = 0; i < text.length; i++) {
+                const char = text[i];
+                if (char === '{') {
+                    if (!withBody) {
+                        text = text.substring(0, i);
+                        done = true;
+                        break;
+                    }
+                    depth++;
+                } else if (char === '}') {
+                    depth--;
+                } else if (char === ';' && depth === 0) {
+                    text = text.substring(0, i + 1);
+                    done = true;
+                    break;
+                }
+            }
+            lines.push(text.replace(/\s+$/, ''));
+            if (done) {
+                break;
+            }
+        }
+
+        const signature = withBody
+            ? lines.filter(line => line.trim()).join('\n')
+            : lines.map(line => line.trim()).join(' ').replace(/\s+/g, ' ').replace(/\(\s+/g, '(');
+        return signature.replace(/^\s*EXPORT\s+/, '').trim();
+    }
+
+    /**
+     * Turn a comment body into plain text
+     */
+    private static cleanComment(text: string): string {
+        return text
+            .split('\n')
+            .map(line => line.replace(/^\s*\*+ ?/, '').trim())
+            .filter((line, index, lines) => line || (index > 0 && index < lines.length - 1))
+            .join('\n')
+            .trim();
+    }
+
+    /**
+     * Scan all headers under the roots; the first declaration of a name wins
+     */
+    private async scan(roots: string[]): Promise<ObsApiSymbol[]> {
+        const symbols = new Map<string, ObsApiSymbol>();
+
+        for (const root of roots) {
+            for (const header of await this.listHeaders(root, 0)) {
+                let content: string;
+                try {
+                    content = await fs.promises.readFile(header, 'utf8');
+                } catch (error) {
+                    continue;
+                }
+
+                const include = path.relative(root, header).split(path.sep).join('/');
+                for (const symbol of ObsSymbolIndex.parseHeader(content, header, include)) {
+                    if (!symbols.has(symbol.name)) {
+                        symbols.set(symbol.name, symbol);
+                    }
+                }
+            }
+        }
+
+        return Array.from(symbols.values());
+    }
+
+    /**
+     * List the .h files of a header root
+     */
+    private async listHeaders(directory: string, depth: number): Promise<string[]> {
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(directory, { withFileTypes: true });
+        } catch (error) {
+            Logger.info(`Skipping unreadable SDK header directory ${directory}`);
+            return [];
+        }
+
+        const headers: string[] = [];
+        for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+            const fullPath = path.join(directory, entry.name);
+            if (entry.isDirectory()) {
+                if (depth < ObsSymbolIndex.MAX_HEADER_DEPTH && !ObsSymbolIndex.SKIPPED_DIRECTORIES.has(entry.name)) {
+                    headers.push(...await this.listHeaders(fullPath, depth + 1));
+                }
+            } else if (entry.name.endsWith('.h')) {
+                headers.push(fullPath);
+            }
+        }
+        return headers;
+    }
+
+    /**
+     * Read the cached index if it was built from the same roots
+     */
+    private async readCache(roots: string[]): Promise<ObsApiSymbol[] | undefined> {
+        if (!this.cacheFile) {
+            return undefined;
+        }
+
+        try {
+            const cache: ObsApiIndexCache = JSON.parse(await fs.promises.readFile(this.cacheFile, 'utf8'));
+            if (cache.version === ObsSymbolIndex.CACHE_VERSION && JSON.stringify(cache.roots) === JSON.stringify(roots)) {
+                return cache.symbols;
+            }
+        } catch (error) {
+            // No cache yet, or an unreadable one that is rebuilt
+        }
+        return undefined;
+    }
+
+    /**
+     * Save the index next to the extension's workspace storage
+     */
+    private async writeCache(roots: string[], symbols: ObsApiSymbol[]): Promise<void> {
+        if (!this.cacheFile) {
+            return;
+        }
+
+        const cache: ObsApiIndexCache = {
+            version: ObsSymbolIndex.CACHE_VERSION,
+            roots,
+            built_at: new Date().toISOString(),
+            symbols
+        };
+        try {
+            await fs.promises.mkdir(path.dirname(this.cacheFile), { recursive: true });
+            await fs.promises.writeFile(this.cacheFile, JSON.stringify(cache), 'utf8');
+        } catch (error) {
+            Logger.info(`Failed to cache the OBS symbol index: ${error}`);
+        }
+    }
+}
@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import { ObsSymbolIndex } from './ObsSymbolIndex';
+import { ErrorContextCollector } from './ErrorContextCollector';
+import { ObsApiSymbol } from '../types/ObsConfig';
+
+/**
+ * Hovers and missing-include quick fixes for the OBS APIs in the symbol index
+ */
+export class ObsSymbolProvider implements vscode.HoverProvider, vscode.CodeActionProvider {
+    private static readonly SELECTOR: vscode.DocumentSelector = [
+        { language: 'c', scheme: 'file' },
+        { language: 'cpp', scheme: 'file' }
+    ];
+
+    constructor(private readonly symbolIndex: ObsSymbolIndex) {}
+
+    /**
+     * Register the hover and code action providers for C and C++ files
+     */
+    public register(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(
+            vscode.languages.registerHoverProvider(ObsSymbolProvider.SELECTOR, this),
+            vscode.languages.registerCodeActionsProvider(ObsSymbolProvider.SELECTOR, this, {
+                providedCodeActionKinds: [vscode.CodeActionKind.QuickFix]
+            })
+        );
+    }
+
+    /**
+     * Show the signature, documentation and header of an OBS API
+     */
+    public provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const range = document.getWordRangeAtPosition(position, /[A-Za-z_]\w*/);
+        const symbol = range ? this.symbolIndex.lookup(document.getText(range)) : undefined;
+        if (!symbol) {
+            return undefined;
+        }
+
+        const markdown = new vscode.MarkdownString();
+        markdown.appendCodeblock(symbol.signature, 'c');
+        if (symbol.doc) {
+            markdown.appendMarkdown(`\n\n${symbol.doc}`);
+        }
+        markdown.appendMarkdown(`\n\nDeclared in \`<${symbol.include}>\``);
+        return new vscode.Hover(markdown, range);
+    }
+
+    /**
+     * Offer to include the header of an OBS API named in a diagnostic when the file does not include it yet
+     */
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+        const offered = new Set<string>();
+
+        for (const diagnostic of context.diagnostics) {
+            for (const name of ErrorContextCollector.extractSymbols([{ message: diagnostic.message }])) {
+                const symbol = this.symbolIndex.lookup(name);
+                if (!symbol || offered.has(symbol.include) || this.includesHeader(document, symbol)) {
+                    continue;
+                }
+
+                offered.add(symbol.include);
+                const action = new vscode.CodeAction(`Add #include <${symbol.include}> for ${symbol.name}`, vscode.CodeActionKind.QuickFix);
+                action.diagnostics = [diagnostic];
+                action.isPreferred = true;
+                action.edit = new vscode.WorkspaceEdit();
+                action.edit.insert(document.uri, new vscode.Position(this.findIncludeLine(document), 0), `#include <${symbol.include}>\n`);
+                actions.push(action);
+            }
+        }
+
+        return actions;
+    }
+
+    /**
+     * Whether the document already includes the symbol's header
+     */
+    private includesHeader(document: vscode.TextDocument, symbol: ObsApiSymbol): boolean {
+        const escaped = symbol.include.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return new RegExp(`^\\s*#\\s*include\\s*[<"](?:[\\w.-]+/)*${escaped}[>"]`, 'm').test(document.getText());
+    }
+
+    /**
+     * Line after the last #include, or after #pragma once or the leading comment when there is none
+     */
+    private findIncludeLine(document: vscode.TextDocument): number {
+        let lastInclude = -1;
+        let afterPreamble = 0;
+
+        for (let line = 0; line < document.lineCount; line++) {
+            const text = document.lineAt(line).text.trim();
+            if (/^#\s*include\b/.test(text)) {
+                lastInclude = line;
+            } else if (lastInclude < 0 && (/^#\s*pragma\s+once\b/.test(text) || /^(\/\/|\/\*|\*)/.test(text))) {
+                afterPreamble = line + 1;
+            } else if (lastInclude < 0 && text && !text.startsWith('#')) {
+                break;
+            }
+        }
+
+        return lastInclude >= 0 ? lastInclude + 1 : afterPreamble;
+    }
+}
@@ -3,14 +3,87 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as cp from 'child_process';
 import { Logger } from '../utils/Logger';
-import { PatchOperation, ConventionViolation } from '../types/ObsConfig';
+import {
+    PatchOperation,
+    ConventionViolation,
+    BuildError,
+    EditInstruction,
+    AnchoredEdit,
+    AnchoredEditFailure,
+    AnchoredEditOperation,
+    DiffApplyOptions,
+    PatchProposal,
+    ProposedFileChange,
+    SourcePosition,
+    CodingConventions,
+    CommitGateResult
+} from '../types/ObsConfig';
+import { ConventionRuleEngine } from './ConventionRuleEngine';
+import { CommitGate } from './CommitGate';
+import { UnifiedDiffApplier } from './UnifiedDiffApplier';
+import { SnapshotManager } from './SnapshotManager';
+import { LineDiff } from '../utils/LineDiff';
+
+/**
+ * Options for committing through the convention gate
+ */
+export interface AutoCommitOptions {
+    /** Conventions to enforce; read from .obspluginrc.json when omitted */
+    conventions?: Partial<CodingConventions>;
+    /** Called with the gate result when blocking violations remain; resolve true to commit anyway */
+    onBlocked?: (result: CommitGateResult) => Promise<boolean>;
+}
+
+/**
+ * Offsets of an anchored edit resolved against the current file content
+ */
+interface ResolvedEdit {
+    instruction: AnchoredEdit;
+    start: number;
+    end: number;
+    text: string;
+}
 
 /**
  * Generates and applies code patches from AI suggestions
  * Handles git operations and convention compliance validation
+ *
+ * Edit instructions without range edits use blocks anchored on existing text:
+ *
+ *     FILE: src/plugin-main.cpp
+ *     <<<<<<< SEARCH            (also INSERT_BEFORE, INSERT_AFTER)
+ *     existing text
+ *     =======
+ *     new text
+ *     >>>>>>> REPLACE           (or END)
+ *     <<<<<<< DELETE
+ *     existing text
+ *     >>>>>>> END
  */
 export class PatchGenerator {
+    private static readonly FILE_HEADER = /^FILE:\s*(.+?)\s*$/;
+    private static readonly OPEN_MARKER = /^<{5,9} (SEARCH|INSERT[_ ]BEFORE|INSERT[_ ]AFTER|DELETE)\s*$/;
+    private static readonly DIVIDER_MARKER = /^={5,9}\s*$/;
+    private static readonly CLOSE_MARKER = /^>{5,9} (?:REPLACE|END)\s*$/;
+    private static readonly MARKERS: Record<AnchoredEditOperation, string> = {
+        replace: 'SEARCH',
+        insert_before: 'INSERT_BEFORE',
+        insert_after: 'INSERT_AFTER',
+        delete: 'DELETE'
+    };
+
     private readonly pendingPatches: Map<string, PatchOperation> = new Map();
+    private readonly pendingEmitter = new vscode.EventEmitter<void>();
+
+    /** Fires when a patch is generated, applied or discarded */
+    public readonly onDidChangePendingPatches = this.pendingEmitter.event;
+
+    constructor(
+        private readonly ruleEngine: ConventionRuleEngine = new ConventionRuleEngine(),
+        private readonly commitGate: CommitGate = new CommitGate(ruleEngine),
+        private readonly diffApplier: UnifiedDiffApplier = new UnifiedDiffApplier(),
+        private readonly snapshots?: SnapshotManager
+    ) {}
 
     /**
      * Generate patch from AI suggestion
@@ -23,6 +96,7 @@ export class PatchGenerator {
         const patchId = this.generatePatchId();
         
         const patch: PatchOperation = {
+            id: patchId,
             type: this.detectPatchType(suggestion),
             content: suggestion,
             target_files: targetFiles,
@@ -32,34 +106,196 @@ export class PatchGenerator {
         };
 
         this.pendingPatches.set(patchId, patch);
+        this.pendingEmitter.fire();
         Logger.info(`Generated patch ${patchId} for ${targetFiles.length} files`);
         
         return patch;
     }
 
     /**
-     * Preview patch before applying
+     * Generate patch from compiler fix-it hints
+     * Relative paths are resolved against the workspace root
+     */
+    public generateFixItPatch(errors: BuildError[], workspaceRoot: string): PatchOperation | null {
+        const edits: EditInstruction[] = [];
+        for (const error of errors) {
+            for (const fixit of error.fixits || []) {
+                edits.push({
+                    type: 'replace_range',
+                    file: path.resolve(workspaceRoot, fixit.file),
+                    range: fixit.range,
+                    text: fixit.replacement,
+                    byte_columns: fixit.byte_columns
+                });
+            }
+        }
+
+        if (edits.length === 0) {
+            return null;
+        }
+
+        const patchId = this.generatePatchId();
+        const patch: PatchOperation = {
+            id: patchId,
+            type: 'edit_instructions',
+            content: edits.map(edit =>
+                `${path.relative(workspaceRoot, edit.file)}:${edit.range.start.line}:${edit.range.start.column}-` +
+                `${edit.range.end.line}:${edit.range.end.column} -> ${JSON.stringify(edit.text)}`
+            ).join('\n'),
+            target_files: [...new Set(edits.map(edit => edit.file))],
+            validation_status: 'pending',
+            convention_compliance: true,
+            auto_commit: false,
+            edits
+        };
+
+        this.pendingPatches.set(patchId, patch);
+        this.pendingEmitter.fire();
+        Logger.info(`Generated fix-it patch ${patchId} with ${edits.length} edits`);
+
+        return patch;
+    }
+
+    /**
+     * Patches that were generated but not applied or discarded yet, oldest first
+     */
+    public getPendingPatches(): PatchOperation[] {
+        return Array.from(this.pendingPatches.values());
+    }
+
+    /**
+     * Get a pending patch by id
+     */
+    public getPatch(id: string): PatchOperation | undefined {
+        return this.pendingPatches.get(id);
+    }
+
+    /**
+     * Drop a pending patch without applying it
+     */
+    public discardPatch(id: string): boolean {
+        const removed = this.pendingPatches.delete(id);
+        if (removed) {
+            this.pendingEmitter.fire();
+            Logger.info(`Discarded patch ${id}`);
+        }
+        return removed;
+    }
+
+    /**
+     * Preview patch before applying as a unified diff of every file it changes
+     * Patches that cannot be applied preview as the reasons followed by their content
      */
     public async previewPatch(patch: PatchOperation): Promise<string> {
-        if (patch.type === 'unified_diff') {
-            return this.previewUnifiedDiff(patch);
-        } else {
-            return this.previewEditInstructions(patch);
+        const proposal = this.computeProposal(patch);
+        if (proposal.errors.length > 0) {
+            return [...proposal.errors.map(error => `# ${error}`), '', patch.content].join('\n');
+        }
+
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        return proposal.files
+            .map(change => LineDiff.formatUnified(
+                (workspaceRoot ? path.relative(workspaceRoot, change.file) : change.file).split(path.sep).join('/'),
+                change.original,
+                change.proposed
+            ))
+            .join('');
+    }
+
+    /**
+     * Compute the content every target file would have after the patch, without writing anything
+     */
+    public computeProposal(patch: PatchOperation): PatchProposal {
+        const errors: string[] = [];
+        try {
+            let contents: Map<string, string | undefined> | undefined;
+            if (patch.type === 'unified_diff') {
+                const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+                if (!workspaceRoot) {
+                    return { files: [], errors: ['No workspace root to apply the diff in'] };
+                }
+                const { result, contents: diffContents } = this.diffApplier.computeChanges(patch.content, workspaceRoot, this.getDiffOptions());
+                errors.push(...result.rejects.map(reject =>
+                    `${reject.file || 'diff'}${reject.hunk > 0 ? ` hunk ${reject.hunk}` : ''}: ${reject.reason}`));
+                contents = diffContents;
+            } else {
+                let edits = patch.edits;
+                if (!edits || edits.length === 0) {
+                    const resolved = this.resolveEditInstructions(this.parseEditInstructions(patch.content), patch.new_files);
+                    errors.push(...resolved.failures.map(failure => this.describeFailure(failure)));
+                    edits = resolved.edits;
+                }
+                contents = errors.length > 0 ? undefined : this.computeRangeEdits(edits, errors, patch.new_files);
+            }
+
+            if (errors.length > 0 || !contents) {
+                return { files: [], errors };
+            }
+            return {
+                files: Array.from(contents.entries()).map(([file, proposed]) => ({
+                    file,
+                    original: fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : undefined,
+                    proposed
+                })),
+                errors: []
+            };
+        } catch (error) {
+            return { files: [], errors: [error instanceof Error ? error.message : String(error)] };
+        }
+    }
+
+    /**
+     * Write reviewed file contents of a patch, deleting files whose proposed content is undefined,
+     * and remove the patch from the pending patches
+     */
+    public writeProposal(patch: PatchOperation, changes: ProposedFileChange[]): boolean {
+        try {
+            this.snapshots?.record(`Apply reviewed ${patch.description || 'patch'}`, changes.map(change => change.file));
+            for (const change of changes) {
+                if (change.proposed === undefined) {
+                    if (fs.existsSync(change.file)) {
+                        fs.unlinkSync(change.file);
+                    }
+                } else {
+                    fs.mkdirSync(path.dirname(change.file), { recursive: true });
+                    fs.writeFileSync(change.file, change.proposed, 'utf8');
+                }
+            }
+
+            patch.validation_status = 'valid';
+            this.removePending(patch);
+            Logger.info(`Applied reviewed changes to ${changes.length} files`);
+            return true;
+        } catch (error) {
+            Logger.error('Failed to write reviewed changes', error);
+            return false;
         }
     }
 
     /**
-     * Apply patch to target files
+     * Apply patch to target files, creating the new files it adds
      */
     public async applyPatch(patch: PatchOperation): Promise<boolean> {
+        patch.errors = [];
+        let snapshotId: string | undefined;
         try {
-            // Validate patch before applying
+            // Validate patch before recording a snapshot or creating any file
             const validationResult = await this.validatePatch(patch);
             if (!validationResult.valid) {
                 Logger.error(`Patch validation failed: ${validationResult.reason}`);
+                patch.errors.push(validationResult.reason || 'Patch validation failed');
                 return false;
             }
 
+            snapshotId = this.snapshots?.record(`Apply ${patch.description || 'patch'}`, this.getTouchedFiles(patch)).id;
+
+            for (const file of patch.new_files || []) {
+                if (!fs.existsSync(file)) {
+                    fs.mkdirSync(path.dirname(file), { recursive: true });
+                    fs.writeFileSync(file, '', 'utf8');
+                }
+            }
+
             // Apply the patch
             let success = false;
             if (patch.type === 'unified_diff') {
@@ -70,6 +306,7 @@ export class PatchGenerator {
 
             if (success) {
                 patch.validation_status = 'valid';
+                this.removePending(patch);
                 
                 // Auto-commit if enabled and convention compliant
                 if (patch.auto_commit && patch.convention_compliance) {
@@ -79,6 +316,7 @@ export class PatchGenerator {
                 Logger.info(`Successfully applied patch to ${patch.target_files.length} files`);
             } else {
                 patch.validation_status = 'invalid';
+                this.rollback(snapshotId);
                 Logger.error('Failed to apply patch');
             }
 
@@ -86,16 +324,143 @@ export class PatchGenerator {
         } catch (error) {
             Logger.error('Error applying patch', error);
             patch.validation_status = 'invalid';
+            this.rollback(snapshotId);
             return false;
         }
     }
 
+    /**
+     * Parse anchored edit blocks; relative FILE paths resolve against the workspace root
+     * Throws on malformed blocks, naming the line
+     */
+    public parseEditInstructions(content: string, baseDir?: string): AnchoredEdit[] {
+        const root = baseDir || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || process.cwd();
+        const instructions: AnchoredEdit[] = [];
+        let file: string | undefined;
+        let current: { operation: AnchoredEditOperation; line: number; anchor: string[]; text?: string[] } | undefined;
+
+        content.split('\n').forEach((line, index) => {
+            const lineNumber = index + 1;
+            const open = PatchGenerator.OPEN_MARKER.exec(line);
+
+            if (!current) {
+                const header = PatchGenerator.FILE_HEADER.exec(line);
+                if (header) {
+                    file = path.resolve(root, header[1]);
+                } else if (open) {
+                    if (!file) {
+                        throw new Error(`Line ${lineNumber}: ${open[1]} block has no preceding FILE: line`);
+                    }
+                    const marker = open[1].replace(' ', '_');
+                    const operation = (Object.keys(PatchGenerator.MARKERS) as AnchoredEditOperation[])
+                        .find(key => PatchGenerator.MARKERS[key] === marker)!;
+                    current = { operation, line: lineNumber, anchor: [] };
+                }
+                return;
+            }
+
+            if (open) {
+                throw new Error(`Line ${lineNumber}: ${PatchGenerator.MARKERS[current.operation]} block from line ${current.line} is not closed`);
+            } else if (!current.text && PatchGenerator.DIVIDER_MARKER.test(line)) {
+                if (current.operation === 'delete') {
+                    throw new Error(`Line ${lineNumber}: DELETE block takes no replacement text`);
+                }
+                current.text = [];
+            } else if (PatchGenerator.CLOSE_MARKER.test(line)) {
+                if (current.operation !== 'delete' && !current.text) {
+                    throw new Error(`Line ${lineNumber}: ${PatchGenerator.MARKERS[current.operation]} block has no ======= divider`);
+                }
+                const anchor = current.anchor.join('\n');
+                if (!anchor.trim() && current.operation !== 'replace') {
+                    throw new Error(`Line ${current.line}: ${PatchGenerator.MARKERS[current.operation]} block has no anchor text`);
+                }
+                instructions.push({
+                    operation: current.operation,
+                    file: file!,
+                    anchor,
+                    text: (current.text || []).join('\n'),
+                    line: current.line
+                });
+                current = undefined;
+            } else {
+                (current.text || current.anchor).push(line);
+            }
+        });
+
+        if (current) {
+            throw new Error(`Line ${current.line}: ${PatchGenerator.MARKERS[current.operation]} block is not closed`);
+        }
+        if (instructions.length === 0) {
+            throw new Error('No edit instructions found');
+        }
+
+        return instructions;
+    }
+
+    /**
+     * Locate anchored edits in the current files and turn them into range edits
+     * Every instruction that is not found, is ambiguous or overlaps another one is reported; files in newFiles may be missing
+     */
+    public resolveEditInstructions(
+        instructions: AnchoredEdit[],
+        newFiles: string[] = []
+    ): { edits: EditInstruction[]; failures: AnchoredEditFailure[] } {
+        const contents = new Map<string, string>();
+        const resolved = new Map<string, ResolvedEdit[]>();
+        const failures: AnchoredEditFailure[] = [];
+        const fail = (instruction: AnchoredEdit, reason: string) => failures.push({
+            index: instructions.indexOf(instruction) + 1,
+            line: instruction.line,
+            operation: instruction.operation,
+            file: instruction.file,
+            reason
+        });
+
+        for (const instruction of instructions) {
+            try {
+                if (!contents.has(instruction.file)) {
+                    const exists = fs.existsSync(instruction.file);
+                    if (!exists && !newFiles.includes(instruction.file)) {
+                        throw new Error(`${path.basename(instruction.file)} does not exist`);
+                    }
+                    contents.set(instruction.file, exists ? fs.readFileSync(instruction.file, 'utf8') : '');
+                }
+
+                const edit = this.resolveAnchoredEdit(instruction, contents.get(instruction.file)!);
+                const fileEdits = resolved.get(instruction.file) || [];
+                const overlapping = fileEdits.find(other => edit.start < other.end && other.start < edit.end);
+                if (overlapping) {
+                    throw new Error(`overlaps instruction ${instructions.indexOf(overlapping.instruction) + 1}`);
+                }
+                resolved.set(instruction.file, [...fileEdits, edit]);
+            } catch (error) {
+                fail(instruction, error instanceof Error ? error.message : String(error));
+            }
+        }
+
+        const edits: EditInstruction[] = [];
+        for (const [file, fileEdits] of resolved) {
+            const content = contents.get(file)!;
+            for (const edit of fileEdits) {
+                edits.push({
+                    type: 'replace_range',
+                    file,
+                    range: { start: this.toPosition(content, edit.start), end: this.toPosition(content, edit.end) },
+                    text: edit.text
+                });
+            }
+        }
+
+        return { edits, failures };
+    }
+
     /**
      * Auto-fix convention violations
      */
     public async autoFixConventions(
         filePath: string,
-        violations: ConventionViolation[]
+        violations: ConventionViolation[],
+        conventions?: Partial<CodingConventions>
     ): Promise<boolean> {
         const autoFixableViolations = violations.filter(v => v.auto_fixable);
         if (autoFixableViolations.length === 0) {
@@ -103,21 +468,17 @@ export class PatchGenerator {
         }
 
         try {
-            let content = fs.readFileSync(filePath, 'utf8');
-            let modified = false;
-
-            for (const violation of autoFixableViolations) {
-                const fixResult = this.applyConventionFix(content, violation, filePath);
-                if (fixResult.success) {
-                    content = fixResult.content;
-                    modified = true;
-                    Logger.info(`Auto-fixed ${violation.type} in ${path.basename(filePath)}`);
-                }
+            const content = fs.readFileSync(filePath, 'utf8');
+            const result = this.ruleEngine.applyFixes(filePath, content, autoFixableViolations, conventions);
+
+            for (const ruleId of result.fixed) {
+                Logger.info(`Auto-fixed ${ruleId} in ${path.basename(filePath)}`);
             }
 
-            if (modified) {
-                fs.writeFileSync(filePath, content, 'utf8');
-                Logger.info(`Applied ${autoFixableViolations.length} convention fixes to ${filePath}`);
+            if (result.fixed.length > 0) {
+                this.snapshots?.record(`Fix conventions in ${path.basename(filePath)}`, [filePath]);
+                fs.writeFileSync(filePath, result.content, 'utf8');
+                Logger.info(`Applied ${result.fixed.length} convention fixes to ${filePath}`);
             }
 
             return true;
@@ -129,8 +490,9 @@ export class PatchGenerator {
 
     /**
      * Commit changes with English comments
+     * Staged files must pass the convention gate unless onBlocked allows the commit
      */
-    public async autoCommit(files: string[]): Promise<boolean> {
+    public async autoCommit(files: string[], options: AutoCommitOptions = {}): Promise<boolean> {
         try {
             const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
             if (!workspaceRoot) {
@@ -143,11 +505,25 @@ export class PatchGenerator {
                 await this.executeGitCommand(['add', file], workspaceRoot);
             }
 
+            const gateResult = await this.commitGate.check(workspaceRoot, options.conventions);
+            const commitArgs: string[] = [];
+            if (!gateResult.passed) {
+                const override = options.onBlocked ? await options.onBlocked(gateResult) : false;
+                if (!override) {
+                    Logger.warn(`Commit blocked by ${gateResult.blocking.length} convention violations`);
+                    Logger.info(this.commitGate.formatReport(gateResult));
+                    return false;
+                }
+                Logger.info(`Committing despite ${gateResult.blocking.length} convention violations`);
+                // Skip the installed pre-commit hook, which would block the same violations again
+                commitArgs.push('--no-verify');
+            }
+
             // Generate commit message
             const commitMessage = this.generateCommitMessage(files);
             
             // Commit changes
-            await this.executeGitCommand(['commit', '-m', commitMessage], workspaceRoot);
+            await this.executeGitCommand(['commit', ...commitArgs, '-m', commitMessage], workspaceRoot);
             
             Logger.info(`Auto-committed changes: ${commitMessage}`);
             return true;
@@ -161,18 +537,18 @@ export class PatchGenerator {
      * Validate patch before applying
      */
     private async validatePatch(patch: PatchOperation): Promise<{valid: boolean, reason?: string}> {
-        // Check if target files exist
-        for (const file of patch.target_files) {
-            if (!fs.existsSync(file)) {
-                return { valid: false, reason: `Target file does not exist: ${file}` };
-            }
-        }
-
-        // Validate unified diff format
+        // Validate unified diff format; the diff applier checks the files it creates, deletes and changes
         if (patch.type === 'unified_diff') {
             if (!this.isValidUnifiedDiff(patch.content)) {
                 return { valid: false, reason: 'Invalid unified diff format' };
             }
+        } else {
+            // New files are created empty once the patch is valid
+            for (const file of patch.target_files.filter(target => !patch.new_files?.includes(target))) {
+                if (!fs.existsSync(file)) {
+                    return { valid: false, reason: `Target file does not exist: ${file}` };
+                }
+            }
         }
 
         // Check for convention compliance
@@ -184,93 +560,314 @@ export class PatchGenerator {
     }
 
     /**
-     * Apply unified diff patch
+     * Apply unified diff patch from the workspace root, logging moved or fuzzed hunks and the reject report
      */
     private async applyUnifiedDiff(patch: PatchOperation): Promise<boolean> {
-        try {
-            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-            if (!workspaceRoot) {
-                return false;
-            }
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!workspaceRoot) {
+            patch.errors?.push('No workspace root to apply the diff in');
+            return false;
+        }
 
-            // Write patch to temporary file
-            const tempPatchFile = path.join(workspaceRoot, '.temp_patch.diff');
-            fs.writeFileSync(tempPatchFile, patch.content, 'utf8');
+        const result = this.diffApplier.apply(patch.content, workspaceRoot, this.getDiffOptions());
 
-            try {
-                // Apply patch using git apply
-                await this.executeGitCommand(['apply', tempPatchFile], workspaceRoot);
-                return true;
-            } finally {
-                // Clean up temporary file
-                if (fs.existsSync(tempPatchFile)) {
-                    fs.unlinkSync(tempPatchFile);
-                }
-            }
-        } catch (error) {
-            Logger.error('Failed to apply unified diff', error);
+        for (const adjustment of result.adjustments) {
+            Logger.info(`Hunk ${adjustment.hunk} of ${adjustment.file} applied with offset ${adjustment.offset} and fuzz ${adjustment.fuzz}`);
+        }
+        if (!result.applied) {
+            patch.errors?.push(...result.rejects.map(reject =>
+                `${reject.file || 'diff'}${reject.hunk > 0 ? ` hunk ${reject.hunk}` : ''}: ${reject.reason}`));
+            patch.reject_report = this.diffApplier.formatRejects(result);
+            Logger.info(`Rejected hunks, no files were changed:\n${patch.reject_report}`);
             return false;
         }
+
+        patch.target_files = Array.from(new Set([...result.changed_files, ...result.created_files, ...result.deleted_files]));
+        return true;
     }
 
     /**
-     * Apply edit instructions
+     * Apply edit instructions: range edits, or anchored blocks that must all resolve before any file is written
      */
     private async applyEditInstructions(patch: PatchOperation): Promise<boolean> {
+        const errors = patch.errors || (patch.errors = []);
         try {
-            // Parse edit instructions and apply them
+            if (patch.edits && patch.edits.length > 0) {
+                return this.applyRangeEdits(patch.edits, errors);
+            }
+
             const instructions = this.parseEditInstructions(patch.content);
-            
-            for (const instruction of instructions) {
-                const success = await this.applyEditInstruction(instruction);
-                if (!success) {
-                    return false;
+            const { edits, failures } = this.resolveEditInstructions(instructions, patch.new_files);
+            if (failures.length > 0) {
+                for (const failure of failures) {
+                    const message = this.describeFailure(failure);
+                    Logger.info(message);
+                    errors.push(message);
                 }
+                Logger.error(`${failures.length} of ${instructions.length} edit instructions failed; no files were changed`);
+                return false;
             }
-            
-            return true;
+
+            return this.applyRangeEdits(edits, errors);
         } catch (error) {
             Logger.error('Failed to apply edit instructions', error);
+            errors.push(error instanceof Error ? error.message : String(error));
             return false;
         }
     }
 
     /**
-     * Apply single convention fix
+     * Offsets and text of one anchored edit; insertions and whole-line deletions work on complete lines
      */
-    private applyConventionFix(
-        content: string,
-        violation: ConventionViolation,
-        filePath: string
-    ): {success: boolean, content: string} {
-        switch (violation.type) {
-            case 'missing_pragma_once':
-                if (!content.includes('#pragma once')) {
-                    const lines = content.split('\n');
-                    // Insert after any initial comments
-                    let insertIndex = 0;
-                    while (insertIndex < lines.length && 
-                           (lines[insertIndex].trim().startsWith('//') || 
-                            lines[insertIndex].trim().startsWith('/*') ||
-                            lines[insertIndex].trim() === '')) {
-                        insertIndex++;
-                    }
-                    lines.splice(insertIndex, 0, '#pragma once', '');
-                    return { success: true, content: lines.join('\n') };
+    private resolveAnchoredEdit(instruction: AnchoredEdit, content: string): ResolvedEdit {
+        const { operation, text } = instruction;
+
+        // An empty SEARCH appends to the file
+        if (operation === 'replace' && !instruction.anchor.trim()) {
+            const separator = content && !content.endsWith('\n') ? '\n' : '';
+            return { instruction, start: content.length, end: content.length, text: `${separator}${text}\n` };
+        }
+
+        const match = this.locateAnchor(content, instruction);
+        const lineStart = content.lastIndexOf('\n', match.start - 1) + 1;
+        const nextLine = match.end > 0 && content[match.end - 1] === '\n'
+            ? match.end
+            : (content.indexOf('\n', match.end) + 1 || content.length);
+        const lines = text.endsWith('\n') || !text ? text : `${text}\n`;
+
+        switch (operation) {
+            case 'replace':
+                return { instruction, start: match.start, end: match.end, text };
+            case 'insert_before':
+                return { instruction, start: lineStart, end: lineStart, text: lines };
+            case 'insert_after':
+                return content.endsWith('\n') || nextLine < content.length
+                    ? { instruction, start: nextLine, end: nextLine, text: lines }
+                    : { instruction, start: nextLine, end: nextLine, text: `\n${lines.replace(/\n$/, '')}` };
+            case 'delete': {
+                const wholeLines = match.start === lineStart &&
+                    (match.end === content.length || content[match.end] === '\n' || content[match.end - 1] === '\n');
+                return { instruction, start: match.start, end: wholeLines ? nextLine : match.end, text: '' };
+            }
+        }
+    }
+
+    /**
+     * Find anchor text: an exact unique match, or a unique run of lines that matches ignoring whitespace differences
+     */
+    private locateAnchor(content: string, instruction: AnchoredEdit): { start: number; end: number } {
+        const { anchor } = instruction;
+        const describe = (problem: string) =>
+            `${PatchGenerator.MARKERS[instruction.operation]} text ${problem} in ${path.basename(instruction.file)}: ${anchor.trim().split('\n')[0]}`;
+
+        const exact = content.indexOf(anchor);
+        if (exact >= 0) {
+            if (content.indexOf(anchor, exact + 1) >= 0) {
+                throw new Error(describe('matches more than once'));
+            }
+            return { start: exact, end: exact + anchor.length };
+        }
+
+        const normalize = (line: string) => line.trim().replace(/\s+/g, ' ');
+        const anchorLines = anchor.split('\n').map(normalize);
+        while (anchorLines.length > 0 && !anchorLines[0]) {
+            anchorLines.shift();
+        }
+        while (anchorLines.length > 0 && !anchorLines[anchorLines.length - 1]) {
+            anchorLines.pop();
+        }
+
+        const lineOffsets = this.computeLineOffsets(content);
+        const lines = content.split('\n').map(normalize);
+        const matches: number[] = [];
+        for (let start = 0; anchorLines.length > 0 && start + anchorLines.length <= lines.length; start++) {
+            if (anchorLines.every((line, index) => lines[start + index] === line)) {
+                matches.push(start);
+            }
+        }
+        if (matches.length !== 1) {
+            throw new Error(describe(matches.length === 0 ? 'not found' : 'matches more than once'));
+        }
+
+        const last = matches[0] + anchorLines.length - 1;
+        const end = last + 1 < lineOffsets.length ? lineOffsets[last + 1] - 1 : content.length;
+        return { start: lineOffsets[matches[0]], end };
+    }
+
+    /**
+     * Apply range replacements, writing nothing if any file has overlapping or out-of-range edits
+     */
+    private applyRangeEdits(edits: EditInstruction[], errors: string[] = []): boolean {
+        const results = this.computeRangeEdits(edits, errors);
+        if (!results) {
+            return false;
+        }
+
+        for (const [file, content] of results) {
+            fs.writeFileSync(file, content, 'utf8');
+        }
+
+        Logger.info(`Applied ${edits.length} range edits to ${results.size} files`);
+        return true;
+    }
+
+    /**
+     * New content of every file the range edits touch, or undefined if any edit is out of range or overlaps another
+     * Files in newFiles that do not exist yet start empty
+     */
+    private computeRangeEdits(edits: EditInstruction[], errors: string[], newFiles: string[] = []): Map<string, string> | undefined {
+        const byFile = new Map<string, EditInstruction[]>();
+        for (const edit of edits) {
+            byFile.set(edit.file, [...(byFile.get(edit.file) || []), edit]);
+        }
+
+        const results = new Map<string, string>();
+        for (const [file, fileEdits] of byFile) {
+            let content = newFiles.includes(file) && !fs.existsSync(file) ? '' : fs.readFileSync(file, 'utf8');
+            const lineOffsets = this.computeLineOffsets(content);
+
+            // Apply from the end of the file so earlier offsets stay valid
+            const ordered = fileEdits
+                .map(edit => ({
+                    edit,
+                    start: this.toOffset(lineOffsets, content, edit.range.start, edit.byte_columns),
+                    end: this.toOffset(lineOffsets, content, edit.range.end, edit.byte_columns)
+                }))
+                .sort((a, b) => b.start - a.start || b.end - a.end);
+
+            let limit = content.length;
+            for (const { edit, start, end } of ordered) {
+                if (start < 0 || end < start || end > limit) {
+                    const message = `Edit at ${file}:${edit.range.start.line}:${edit.range.start.column} is out of range or overlaps another edit`;
+                    Logger.error(message);
+                    errors.push(message);
+                    return undefined;
                 }
-                break;
-
-            case 'moc_include_missing':
-                const fileName = path.parse(filePath).name;
-                const mocInclude = `#include "moc_${fileName}.cpp"`;
-                if (!content.includes(mocInclude)) {
-                    // Add at the end of the file
-                    return { success: true, content: content + '\n' + mocInclude + '\n' };
+                content = content.substring(0, start) + edit.text + content.substring(end);
+                limit = start;
+            }
+
+            results.set(file, content);
+        }
+
+        return results;
+    }
+
+    /**
+     * Describe a failed anchored edit with its position in the instructions
+     */
+    private describeFailure(failure: AnchoredEditFailure): string {
+        return `Instruction ${failure.index} (${failure.operation} in ${path.basename(failure.file)}, line ${failure.line}): ${failure.reason}`;
+    }
+
+    /**
+     * Hunk offset and fuzz limits from the obsPlugin.patch settings
+     */
+    private getDiffOptions(): DiffApplyOptions {
+        const settings = vscode.workspace.getConfiguration('obsPlugin.patch');
+        return {
+            max_offset: settings.get<number>('maxOffset', UnifiedDiffApplier.DEFAULT_OPTIONS.max_offset),
+            fuzz: settings.get<number>('fuzz', UnifiedDiffApplier.DEFAULT_OPTIONS.fuzz)
+        };
+    }
+
+    /**
+     * Files a patch may create, change or delete, recorded before it is applied
+     */
+    private getTouchedFiles(patch: PatchOperation): string[] {
+        const files = [...patch.target_files, ...(patch.new_files || [])];
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+
+        if (patch.type === 'unified_diff') {
+            if (workspaceRoot) {
+                for (const file of UnifiedDiffApplier.parse(patch.content)) {
+                    files.push(path.resolve(workspaceRoot, file.old_path), path.resolve(workspaceRoot, file.new_path));
                 }
-                break;
+            }
+        } else if (patch.edits && patch.edits.length > 0) {
+            files.push(...patch.edits.map(edit => edit.file));
+        } else {
+            try {
+                files.push(...this.parseEditInstructions(patch.content).map(instruction => instruction.file));
+            } catch {
+                // Malformed instructions fail before any file is written
+            }
+        }
+
+        return files;
+    }
+
+    /**
+     * Undo the files created for a patch that failed and forget its snapshot
+     */
+    private rollback(snapshotId: string | undefined): void {
+        if (!snapshotId || !this.snapshots) {
+            return;
+        }
+        try {
+            this.snapshots.restore(snapshotId);
+            this.snapshots.discard(snapshotId);
+        } catch (error) {
+            Logger.error('Failed to roll back patch', error);
+        }
+    }
+
+    /**
+     * Remove an applied patch from the pending patches
+     */
+    private removePending(patch: PatchOperation): void {
+        if (patch.id && this.pendingPatches.delete(patch.id)) {
+            this.pendingEmitter.fire();
+        }
+    }
+
+    /**
+     * Compute the offset at which each line starts
+     */
+    private computeLineOffsets(content: string): number[] {
+        const offsets = [0];
+        for (let i = 0; i < content.length; i++) {
+            if (content[i] === '\n') {
+                offsets.push(i + 1);
+            }
+        }
+        return offsets;
+    }
+
+    /**
+     * Convert a one-based line and column to a content offset, or -1 if it is outside the file
+     * Byte columns are counted in the UTF-8 encoding of the line
+     */
+    private toOffset(lineOffsets: number[], content: string, position: SourcePosition, byteColumns: boolean = false): number {
+        if (position.line < 1 || position.line > lineOffsets.length) {
+            return -1;
+        }
+
+        const lineStart = lineOffsets[position.line - 1];
+        const lineEnd = position.line < lineOffsets.length ? lineOffsets[position.line] : content.length;
+        if (!byteColumns) {
+            const offset = lineStart + position.column - 1;
+            return offset <= lineEnd ? offset : -1;
+        }
+
+        let offset = lineStart;
+        let bytes = 0;
+        while (bytes < position.column - 1 && offset < lineEnd) {
+            const codePoint = content.codePointAt(offset)!;
+            const character = String.fromCodePoint(codePoint);
+            bytes += Buffer.byteLength(character, 'utf8');
+            offset += character.length;
         }
+        return bytes === position.column - 1 ? offset : -1;
+    }
 
-        return { success: false, content };
+    /**
+     * One-based line and column of a content offset
+     */
+    private toPosition(content: string, offset: number): SourcePosition {
+        const before = content.substring(0, offset);
+        const lineStart = before.lastIndexOf('\n') + 1;
+        return { line: before.split('\n').length, column: offset - lineStart + 1 };
     }
 
     /**
@@ -307,7 +904,7 @@ export class PatchGenerator {
      */
     private executeGitCommand(args: string[], cwd: string): Promise<string> {
         return new Promise((resolve, reject) => {
-            cp.exec(`git ${args.join(' ')}`, { cwd }, (error, stdout, stderr) => {
+            cp.execFile('git', args, { cwd }, (error, stdout, stderr) => {
                 if (error) {
                     reject(new Error(`Git command failed: ${stderr || error.message}`));
                 } else {
@@ -337,38 +934,6 @@ export class PatchGenerator {
                lines.some(line => line.startsWith('+++'));
     }
 
-    /**
-     * Preview unified diff
-     */
-    private async previewUnifiedDiff(patch: PatchOperation): Promise<string> {
-        return `Unified Diff Preview:\n${'='.repeat(50)}\n${patch.content}`;
-    }
-
-    /**
-     * Preview edit instructions
-     */
-    private async previewEditInstructions(patch: PatchOperation): Promise<string> {
-        return `Edit Instructions Preview:\n${'='.repeat(50)}\n${patch.content}`;
-    }
-
-    /**
-     * Parse edit instructions
-     */
-    private parseEditInstructions(content: string): any[] {
-        // Simple parser for edit instructions
-        // This would be more sophisticated in a real implementation
-        return [{ type: 'replace', content }];
-    }
-
-    /**
-     * Apply single edit instruction
-     */
-    private async applyEditInstruction(instruction: any): Promise<boolean> {
-        // Placeholder for edit instruction application
-        Logger.info('Applied edit instruction');
-        return true;
-    }
-
     /**
      * Generate unique patch ID
      */
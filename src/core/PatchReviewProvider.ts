@@ -0,0 +1,275 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PatchGenerator } from './PatchGenerator';
+import { LineDiff } from '../utils/LineDiff';
+import { HunkDecision, LineHunk, PatchOperation, ProposedFileChange } from '../types/ObsConfig';
+
+/**
+ * One file of a patch under review
+ */
+interface ReviewFile {
+    change: ProposedFileChange;
+    hunks: LineHunk[];
+    decisions: HunkDecision[];
+}
+
+/**
+ * Review state of one pending patch
+ */
+interface ReviewSession {
+    patch: PatchOperation;
+    files: ReviewFile[];
+}
+
+/**
+ * Shows pending patches in the diff editor against virtual "proposed" documents,
+ * with CodeLens actions to accept or reject each hunk
+ */
+export class PatchReviewProvider implements vscode.TextDocumentContentProvider, vscode.CodeLensProvider {
+    public static readonly SCHEME = 'obs-proposed';
+
+    private readonly sessions = new Map<string, ReviewSession>();
+    private readonly contentEmitter = new vscode.EventEmitter<vscode.Uri>();
+    private readonly codeLensEmitter = new vscode.EventEmitter<void>();
+
+    public readonly onDidChange = this.contentEmitter.event;
+    public readonly onDidChangeCodeLenses = this.codeLensEmitter.event;
+
+    constructor(private readonly patchGenerator: PatchGenerator) {}
+
+    /**
+     * Register the proposed-document content and CodeLens providers
+     */
+    public register(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(
+            vscode.workspace.registerTextDocumentContentProvider(PatchReviewProvider.SCHEME, this),
+            vscode.languages.registerCodeLensProvider({ scheme: PatchReviewProvider.SCHEME }, this),
+            this.patchGenerator.onDidChangePendingPatches(() => this.dropFinishedSessions())
+        );
+    }
+
+    /**
+     * Open the diff editor for every file of a patch, or only for one of them
+     * Returns the reasons when the patch cannot be applied to the current files
+     */
+    public async open(patch: PatchOperation, file?: string): Promise<string[]> {
+        const session = this.sessions.get(patch.id || '') || this.createSession(patch);
+        if ('errors' in session) {
+            return session.errors;
+        }
+
+        for (const reviewFile of session.files.filter(candidate => !file || candidate.change.file === file)) {
+            const name = path.basename(reviewFile.change.file);
+            const original = reviewFile.change.original === undefined
+                ? this.toUri(session.patch, reviewFile.change.file, 'original')
+                : vscode.Uri.file(reviewFile.change.file);
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                original,
+                this.toUri(session.patch, reviewFile.change.file, 'proposed'),
+                `${name} ↔ Proposed (${session.patch.description || 'patch'})`,
+                { preview: false }
+            );
+        }
+        return [];
+    }
+
+    /**
+     * Accept or reject one hunk
+     */
+    public setDecision(patchId: string, file: string, hunk: number, decision: HunkDecision): void {
+        const reviewFile = this.sessions.get(patchId)?.files.find(candidate => candidate.change.file === file);
+        if (!reviewFile || hunk < 0 || hunk >= reviewFile.decisions.length) {
+            return;
+        }
+        reviewFile.decisions[hunk] = decision;
+        this.refresh(patchId, file);
+    }
+
+    /**
+     * Accept every hunk of a patch that was not rejected
+     */
+    public acceptAll(patchId: string): void {
+        for (const reviewFile of this.sessions.get(patchId)?.files || []) {
+            reviewFile.decisions = reviewFile.decisions.map(decision => decision === 'rejected' ? decision : 'accepted');
+            this.refresh(patchId, reviewFile.change.file);
+        }
+    }
+
+    /**
+     * Count the accepted hunks and all hunks of a patch under review
+     */
+    public getCounts(patchId: string): { accepted: number; total: number } | undefined {
+        const session = this.sessions.get(patchId);
+        if (!session) {
+            return undefined;
+        }
+        const decisions = session.files.flatMap(reviewFile => reviewFile.decisions);
+        return { accepted: decisions.filter(decision => decision === 'accepted').length, total: decisions.length };
+    }
+
+    /**
+     * File contents with only the accepted hunks applied, for files that have at least one
+     * Throws when a file changed on disk since the review started
+     */
+    public getAcceptedChanges(patchId: string): ProposedFileChange[] {
+        const session = this.sessions.get(patchId);
+        if (!session) {
+            return [];
+        }
+
+        const changes: ProposedFileChange[] = [];
+        for (const reviewFile of session.files) {
+            if (!reviewFile.decisions.includes('accepted')) {
+                continue;
+            }
+            const { file, original, proposed } = reviewFile.change;
+            const current = fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : undefined;
+            if (current !== original) {
+                throw new Error(`${path.basename(file)} changed since the review started; reopen the review`);
+            }
+
+            changes.push({
+                file,
+                original,
+                // Creating or deleting a file is a single hunk
+                proposed: proposed === undefined
+                    ? undefined
+                    : LineDiff.applyHunks(original || '', reviewFile.hunks, index => reviewFile.decisions[index] === 'accepted')
+            });
+        }
+        return changes;
+    }
+
+    /**
+     * End the review of a patch and close its diff editors
+     */
+    public async close(patchId: string): Promise<void> {
+        this.sessions.delete(patchId);
+        this.codeLensEmitter.fire();
+
+        const tabs = vscode.window.tabGroups.all.flatMap(group => group.tabs).filter(tab =>
+            tab.input instanceof vscode.TabInputTextDiff &&
+            tab.input.modified.scheme === PatchReviewProvider.SCHEME &&
+            new URLSearchParams(tab.input.modified.query).get('patch') === patchId);
+        if (tabs.length > 0) {
+            await vscode.window.tabGroups.close(tabs);
+        }
+    }
+
+    /**
+     * Content of a proposed document: the file with every hunk that was not rejected, or empty for the original of a new file
+     */
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        const located = this.locate(uri);
+        if (!located || located.side === 'original') {
+            return '';
+        }
+        const { reviewFile } = located;
+        return LineDiff.applyHunks(reviewFile.change.original || '', reviewFile.hunks,
+            index => reviewFile.decisions[index] !== 'rejected');
+    }
+
+    /**
+     * Patch actions on the first line and accept or reject actions above each hunk of a proposed document
+     */
+    public provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        const located = this.locate(document.uri);
+        if (!located || located.side !== 'proposed') {
+            return [];
+        }
+
+        const { session, reviewFile } = located;
+        const patchId = session.patch.id!;
+        const file = reviewFile.change.file;
+        const counts = this.getCounts(patchId)!;
+        const top = new vscode.Range(0, 0, 0, 0);
+        const lenses = [
+            new vscode.CodeLens(top, { title: `Apply Accepted (${counts.accepted} of ${counts.total} hunks)`, command: 'obs.apply-accepted-hunks', arguments: [patchId] }),
+            new vscode.CodeLens(top, { title: 'Accept All', command: 'obs.accept-all-hunks', arguments: [patchId] }),
+            new vscode.CodeLens(top, { title: 'Discard Patch', command: 'obs.discard-patch', arguments: [patchId] })
+        ];
+
+        const starts = LineDiff.getProposedStarts(reviewFile.hunks, index => reviewFile.decisions[index] !== 'rejected');
+        reviewFile.hunks.forEach((_hunk, index) => {
+            const line = Math.min(starts[index], Math.max(0, document.lineCount - 1));
+            const range = new vscode.Range(line, 0, line, 0);
+            const decision = reviewFile.decisions[index];
+            const label = `Hunk ${index + 1} of ${reviewFile.hunks.length}`;
+            const decide = (title: string, next: HunkDecision): vscode.CodeLens =>
+                new vscode.CodeLens(range, { title, command: next === 'accepted' ? 'obs.accept-hunk' : 'obs.reject-hunk', arguments: [patchId, file, index] });
+
+            if (decision === 'pending') {
+                lenses.push(decide(`Accept ${label.toLowerCase()}`, 'accepted'), decide('Reject', 'rejected'));
+            } else {
+                lenses.push(
+                    new vscode.CodeLens(range, { title: `${label} ${decision}`, command: '' }),
+                    decide(decision === 'accepted' ? 'Reject' : 'Accept', decision === 'accepted' ? 'rejected' : 'accepted')
+                );
+            }
+        });
+        return lenses;
+    }
+
+    /**
+     * Compute the proposal of a patch and split each file into hunks
+     */
+    private createSession(patch: PatchOperation): ReviewSession | { errors: string[] } {
+        const proposal = this.patchGenerator.computeProposal(patch);
+        if (proposal.errors.length > 0) {
+            return { errors: proposal.errors };
+        }
+
+        const files = proposal.files.map(change => {
+            const hunks = change.proposed === undefined || change.original === undefined
+                ? [{ original_start: 0, original_lines: (change.original || '').split('\n'), proposed_lines: (change.proposed || '').split('\n') }]
+                : LineDiff.computeHunks(change.original, change.proposed);
+            return { change, hunks, decisions: hunks.map((): HunkDecision => 'pending') };
+        }).filter(reviewFile => reviewFile.hunks.length > 0);
+
+        const session = { patch, files };
+        this.sessions.set(patch.id!, session);
+        return session;
+    }
+
+    /**
+     * Find the session and file of a proposed or original document
+     */
+    private locate(uri: vscode.Uri): { session: ReviewSession; reviewFile: ReviewFile; side: string } | undefined {
+        const query = new URLSearchParams(uri.query);
+        const session = this.sessions.get(query.get('patch') || '');
+        const reviewFile = session?.files.find(candidate => candidate.change.file === query.get('file'));
+        return session && reviewFile ? { session, reviewFile, side: query.get('side') || '' } : undefined;
+    }
+
+    /**
+     * Virtual document of one side of a file under review
+     */
+    private toUri(patch: PatchOperation, file: string, side: 'original' | 'proposed'): vscode.Uri {
+        const query = new URLSearchParams({ patch: patch.id!, file, side });
+        return vscode.Uri.from({ scheme: PatchReviewProvider.SCHEME, path: `/${path.basename(file)}`, query: query.toString() });
+    }
+
+    /**
+     * Update the proposed document and CodeLenses of a file
+     */
+    private refresh(patchId: string, file: string): void {
+        const session = this.sessions.get(patchId);
+        if (session) {
+            this.contentEmitter.fire(this.toUri(session.patch, file, 'proposed'));
+        }
+        this.codeLensEmitter.fire();
+    }
+
+    /**
+     * Close the reviews of patches that were applied or discarded elsewhere
+     */
+    private dropFinishedSessions(): void {
+        for (const patchId of Array.from(this.sessions.keys())) {
+            if (!this.patchGenerator.getPatch(patchId)) {
+                void this.close(patchId);
+            }
+        }
+    }
+}
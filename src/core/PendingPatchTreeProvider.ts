@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PatchGenerator } from './PatchGenerator';
+import { PatchOperation } from '../types/ObsConfig';
+
+/**
+ * Node of the pending patches tree
+ */
+export type PendingPatchNode =
+    | { kind: 'patch'; patch: PatchOperation }
+    | { kind: 'file'; patch: PatchOperation; file: string };
+
+/**
+ * Tree view of the patches PatchGenerator holds until they are applied or discarded
+ */
+export class PendingPatchTreeProvider implements vscode.TreeDataProvider<PendingPatchNode> {
+    private readonly changeEmitter = new vscode.EventEmitter<PendingPatchNode | undefined>();
+
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(private readonly patchGenerator: PatchGenerator) {
+        patchGenerator.onDidChangePendingPatches(() => this.changeEmitter.fire(undefined));
+    }
+
+    /**
+     * Get pending patches at the root and their target files below them
+     */
+    public getChildren(node?: PendingPatchNode): PendingPatchNode[] {
+        if (!node) {
+            return this.patchGenerator.getPendingPatches().map(patch => ({ kind: 'patch', patch }));
+        }
+        if (node.kind === 'patch') {
+            return node.patch.target_files.map(file => ({ kind: 'file', patch: node.patch, file }));
+        }
+        return [];
+    }
+
+    /**
+     * Render a tree node
+     */
+    public getTreeItem(node: PendingPatchNode): vscode.TreeItem {
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+
+        if (node.kind === 'patch') {
+            const { patch } = node;
+            const label = patch.description || patch.target_files.map(file => path.basename(file)).join(', ') || 'Patch';
+            const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.Collapsed);
+            item.id = patch.id;
+            item.description = `${patch.validation_status} · ${patch.convention_compliance ? 'convention compliant' : 'not convention compliant'}`;
+            item.tooltip = [
+                `${patch.type === 'unified_diff' ? 'Unified diff' : 'Edit instructions'} for ${patch.target_files.length} file(s)`,
+                `Validation: ${patch.validation_status}`,
+                `Convention compliant: ${patch.convention_compliance ? 'yes' : 'no'}`,
+                ...(patch.errors || []).map(error => `Error: ${error}`)
+            ].join('\n');
+            item.iconPath = new vscode.ThemeIcon(patch.validation_status === 'invalid' ? 'warning' : 'diff');
+            item.contextValue = 'pendingPatch';
+            item.command = { command: 'obs.review-patch', title: 'Review Patch', arguments: [node] };
+            return item;
+        }
+
+        const item = new vscode.TreeItem(path.basename(node.file), vscode.TreeItemCollapsibleState.None);
+        item.description = path.dirname(path.relative(workspaceRoot, node.file));
+        item.resourceUri = vscode.Uri.file(node.file);
+        item.iconPath = vscode.ThemeIcon.File;
+        item.contextValue = 'pendingPatchFile';
+        item.command = { command: 'obs.review-patch', title: 'Review Patch', arguments: [node] };
+        return item;
+    }
+}
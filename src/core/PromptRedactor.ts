@@ -0,0 +1,211 @@
+import * as path from 'path';
+import { GlobMatcher } from '../utils/GlobMatcher';
+import { Logger } from '../utils/Logger';
+import { AIRequestEnvelope, RedactionReport } from '../types/ObsConfig';
+
+/**
+ * Inputs of a redaction pass
+ */
+export interface PromptRedactorOptions {
+    workspaceRoot?: string;
+    homeDir?: string;
+    /** Globs of files that are never sent; patterns without a slash match the file name */
+    excludeGlobs?: string[];
+    /** Extra regular expressions whose matches are replaced */
+    secretPatterns?: string[];
+}
+
+/**
+ * A pattern replaced by a redaction marker; when keepGroup is set only the text after that group is replaced
+ */
+interface SecretRule {
+    id: string;
+    pattern: RegExp;
+    keepGroup?: number;
+}
+
+/**
+ * Removes secrets and local paths from AI requests before they leave the machine
+ * Paths become placeholders that restorePaths maps back when a response is applied
+ */
+export class PromptRedactor {
+    public static readonly WORKSPACE_PLACEHOLDER = '<WORKSPACE>';
+    public static readonly HOME_PLACEHOLDER = '<HOME>';
+    public static readonly DEFAULT_EXCLUDES = ['.env', '.env.*', '*.pem', '*.key', '*.p12', '*.pfx', '**/secrets/**'];
+
+    // Generic assignments come last and skip values an earlier rule already replaced
+    private static readonly BUILTIN_RULES: SecretRule[] = [
+        { id: 'private_key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+        { id: 'openai_key', pattern: /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}/g },
+        { id: 'github_token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{30,}|github_pat_[A-Za-z0-9_]{30,})/g },
+        { id: 'aws_access_key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+        { id: 'google_api_key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+        { id: 'slack_token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+        { id: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+        { id: 'bearer_token', pattern: /(\bBearer\s+)[A-Za-z0-9._~+/-]{16,}=*/g, keepGroup: 1 },
+        { id: 'url_credentials', pattern: /(\b[a-z][a-z0-9+.-]*:\/\/[^\s/:@]+:)[^\s/@]+(?=@)/gi, keepGroup: 1 },
+        { id: 'assignment', pattern: /(\b[A-Z][A-Z0-9_]*(?:KEY|TOKEN|SECRET|PASSWORD|PASSWD)\s*=\s*)(?!\[REDACTED)[^\s"'`]{8,}/g, keepGroup: 1 },
+        { id: 'assignment', pattern: /(\b\w*(?:api[_-]?key|token|secret|password|passwd)\w*["']?\s*[:=]\s*(["']))(?!\[REDACTED)[^"'\s]{8,}(?=\2)/gi, keepGroup: 1 }
+    ];
+
+    private readonly rules: SecretRule[];
+    private readonly excludeGlobs: string[];
+    private readonly report: RedactionReport = { secrets: {}, paths: 0, excluded_files: [] };
+
+    constructor(private readonly options: PromptRedactorOptions = {}) {
+        this.excludeGlobs = options.excludeGlobs ?? PromptRedactor.DEFAULT_EXCLUDES;
+        this.rules = [...PromptRedactor.BUILTIN_RULES];
+
+        for (const source of options.secretPatterns || []) {
+            try {
+                this.rules.push({ id: 'custom', pattern: new RegExp(source, 'g') });
+            } catch (error) {
+                Logger.info(`Ignoring invalid redaction pattern ${source}: ${error}`);
+            }
+        }
+    }
+
+    /**
+     * What this redactor has replaced and excluded so far
+     */
+    public getReport(): RedactionReport {
+        return {
+            secrets: { ...this.report.secrets },
+            paths: this.report.paths,
+            excluded_files: [...this.report.excluded_files]
+        };
+    }
+
+    /**
+     * Whether a file must not be sent, recording it in the report when excluded
+     */
+    public isExcluded(filePath: string): boolean {
+        const relativePath = this.options.workspaceRoot && path.isAbsolute(filePath)
+            ? path.relative(this.options.workspaceRoot, filePath)
+            : filePath;
+        const excluded = GlobMatcher.matchesAny(relativePath.replace(/\\/g, '/'), this.excludeGlobs);
+
+        if (excluded && !this.report.excluded_files.includes(relativePath)) {
+            this.report.excluded_files.push(relativePath);
+        }
+        return excluded;
+    }
+
+    /**
+     * Replace secrets with markers and local paths with placeholders
+     */
+    public redactText(text: string): string {
+        let result = text;
+
+        for (const rule of this.rules) {
+            rule.pattern.lastIndex = 0;
+            result = result.replace(rule.pattern, (match: string, ...groups: string[]) => {
+                this.report.secrets[rule.id] = (this.report.secrets[rule.id] || 0) + 1;
+                const kept = rule.keepGroup !== undefined ? groups[rule.keepGroup - 1] : '';
+                return `${kept}[REDACTED:${rule.id}]`;
+            });
+        }
+
+        for (const [directory, placeholder] of this.getPathPlaceholders()) {
+            for (const variant of this.getPathVariants(directory)) {
+                result = result.replace(new RegExp(`${this.escape(variant)}(?![\\w.-])`, this.pathFlags()), () => {
+                    this.report.paths++;
+                    return placeholder;
+                });
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Redact every text of an envelope and drop file contexts of excluded files
+     */
+    public redactEnvelope(envelope: AIRequestEnvelope): AIRequestEnvelope {
+        return {
+            ...envelope,
+            system_prompt: this.redactText(envelope.system_prompt),
+            user_prompt: this.redactText(envelope.user_prompt),
+            file_contexts: envelope.file_contexts
+                .filter(context => !this.isExcluded(context.path))
+                .map(context => ({ ...context, path: this.redactText(context.path), snippet: this.redactText(context.snippet) })),
+            recent_build_log: envelope.recent_build_log !== undefined ? this.redactText(envelope.recent_build_log) : undefined,
+            api_reference: envelope.api_reference !== undefined ? this.redactText(envelope.api_reference) : undefined,
+            coding_conventions: envelope.coding_conventions ? this.redactValue(envelope.coding_conventions) : undefined,
+            project_structure: this.redactValue(envelope.project_structure),
+            redaction: this.getReport()
+        };
+    }
+
+    /**
+     * Map path placeholders in a response back to local paths
+     * With relativeToWorkspace, workspace paths become relative so diffs apply from the workspace root
+     */
+    public restorePaths(text: string, relativeToWorkspace: boolean = false): string {
+        let result = text;
+        const workspaceRoot = this.options.workspaceRoot;
+        if (workspaceRoot) {
+            result = relativeToWorkspace
+                ? result.split(`${PromptRedactor.WORKSPACE_PLACEHOLDER}/`).join('').split(PromptRedactor.WORKSPACE_PLACEHOLDER).join('.')
+                : result.split(PromptRedactor.WORKSPACE_PLACEHOLDER).join(workspaceRoot.replace(/\\/g, '/'));
+        }
+        if (this.options.homeDir) {
+            result = result.split(PromptRedactor.HOME_PLACEHOLDER).join(this.options.homeDir.replace(/\\/g, '/'));
+        }
+        return result;
+    }
+
+    /**
+     * Redact the strings of a JSON-like value
+     */
+    private redactValue<T>(value: T): T {
+        if (typeof value === 'string') {
+            return this.redactText(value) as unknown as T;
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => this.redactValue(item)) as unknown as T;
+        }
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.redactValue(item)])) as T;
+        }
+        return value;
+    }
+
+    /**
+     * Directories to replace, workspace first since it is usually inside the home directory
+     */
+    private getPathPlaceholders(): Array<[string, string]> {
+        const placeholders: Array<[string, string]> = [];
+        for (const [directory, placeholder] of [
+            [this.options.workspaceRoot, PromptRedactor.WORKSPACE_PLACEHOLDER],
+            [this.options.homeDir, PromptRedactor.HOME_PLACEHOLDER]
+        ]) {
+            // A root directory would match every absolute path
+            if (directory && path.dirname(directory) !== directory) {
+                placeholders.push([directory.replace(/[\\/]+$/, ''), placeholder!]);
+            }
+        }
+        return placeholders;
+    }
+
+    /**
+     * A directory as written with native and forward slashes
+     */
+    private getPathVariants(directory: string): string[] {
+        return Array.from(new Set([directory, directory.replace(/\\/g, '/')]));
+    }
+
+    /**
+     * Windows paths compare case-insensitively
+     */
+    private pathFlags(): string {
+        return process.platform === 'win32' ? 'gi' : 'g';
+    }
+
+    /**
+     * Escape a string for use in a regular expression
+     */
+    private escape(text: string): string {
+        return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+}
@@ -0,0 +1,355 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../utils/Logger';
+import {
+    AIIntent,
+    AIPromptConfig,
+    PromptTemplate,
+    PromptTemplateDefinition,
+    PromptTemplateRendering,
+    PromptTemplateType
+} from '../types/ObsConfig';
+
+/**
+ * Prompt templates from the built-ins, ai_prompts.templates and the workspace templates directory
+ * Templates are validated when loaded: placeholders they do not declare and declared variables
+ * that nothing fills are reported once per change
+ */
+export class PromptTemplateRegistry {
+    public static readonly DEFAULT_TEMPLATES_DIR = '.obs/prompts';
+    /** Variables filled for every request */
+    public static readonly PROJECT_VARIABLES = [
+        'intent', 'platform', 'cmake_preset', 'build_command', 'build_dir', 'deps_dir', 'ui_dir', 'header_ext', 'custom_context'
+    ];
+    /** Variables filled from the first build error of a fix request */
+    public static readonly ERROR_VARIABLES = ['error_message', 'file_path', 'line_number'];
+
+    private static readonly PLACEHOLDER = /\{([A-Za-z_]\w*)\}/g;
+    private static readonly INTENTS: AIIntent[] = ['compile', 'fix', 'assist'];
+    private static readonly TYPES: PromptTemplateType[] = ['system', 'error_analysis', 'fix_suggestion'];
+    private static readonly DEFAULT_INTENT_TEMPLATES: Record<AIIntent, string> = {
+        compile: 'obs_plugin_expert',
+        assist: 'obs_plugin_expert',
+        fix: 'obs_error_fix'
+    };
+
+    private templates = new Map<string, PromptTemplate>();
+    private warnings = new Map<string, string[]>();
+    /** Templates without a declared variable list, which may use any known variable */
+    private undeclared = new Set<string>();
+    private signature: string | undefined;
+
+    /**
+     * Load the templates for a configuration, unless neither it nor the templates directory changed
+     */
+    public load(config: AIPromptConfig | undefined, workspaceRoot?: string): void {
+        const directory = workspaceRoot
+            ? path.resolve(workspaceRoot, config?.templates_dir || PromptTemplateRegistry.DEFAULT_TEMPLATES_DIR)
+            : undefined;
+        const files = directory ? this.listTemplateFiles(directory) : [];
+        const signature = JSON.stringify([
+            config?.templates,
+            config?.custom_system_prompt,
+            config?.intent_templates,
+            Object.keys(config?.variables || {}),
+            files.map(file => [file, fs.statSync(file).mtimeMs])
+        ]);
+        if (signature === this.signature) {
+            return;
+        }
+
+        this.signature = signature;
+        this.templates = new Map();
+        this.warnings = new Map();
+        this.undeclared = new Set();
+
+        for (const template of PromptTemplateRegistry.getBuiltinTemplates()) {
+            this.templates.set(template.id, template);
+        }
+        for (const file of files) {
+            this.addWorkspaceTemplate(file);
+        }
+        for (const [id, definition] of Object.entries(config?.templates || {})) {
+            this.addTemplate(id, definition, 'config');
+        }
+        if (config?.custom_system_prompt) {
+            this.addTemplate('custom', { name: 'Custom System Prompt', template: config.custom_system_prompt }, 'config');
+        }
+
+        const userVariables = Object.keys(config?.variables || {});
+        for (const template of this.templates.values()) {
+            this.validate(template, userVariables);
+        }
+        for (const [intent, id] of Object.entries(config?.intent_templates || {})) {
+            if (id && !this.templates.has(id)) {
+                this.addWarning('', `ai_prompts.intent_templates.${intent} names unknown template "${id}"`);
+            }
+        }
+
+        const problems = Array.from(this.warnings.values()).flat();
+        problems.forEach(problem => Logger.info(`Prompt template: ${problem}`));
+        if (problems.length > 0) {
+            Logger.warn(`Prompt templates have ${problems.length} problem(s). Check output for details.`);
+        }
+        Logger.info(`Loaded ${this.templates.size} prompt templates`);
+    }
+
+    /**
+     * All loaded templates
+     */
+    public list(): PromptTemplate[] {
+        return Array.from(this.templates.values());
+    }
+
+    /**
+     * Find a template by id
+     */
+    public get(id: string): PromptTemplate | undefined {
+        return this.templates.get(id);
+    }
+
+    /**
+     * Problems found when a template was loaded
+     */
+    public getWarnings(id: string): string[] {
+        return [...(this.warnings.get(id) || []), ...(this.warnings.get('') || [])];
+    }
+
+    /**
+     * Template for an intent: intent_templates, then a user template declaring the intent,
+     * then system_template for compile and assist requests, then the built-in default
+     */
+    public resolve(intent: AIIntent, config: AIPromptConfig | undefined): PromptTemplate {
+        const configured = config?.intent_templates?.[intent];
+        if (configured && this.templates.has(configured)) {
+            return this.templates.get(configured)!;
+        }
+
+        const declared = this.list().filter(template => template.source !== 'builtin' && template.intents.includes(intent));
+        if (declared.length > 0) {
+            return declared[declared.length - 1];
+        }
+
+        const system = config?.system_template;
+        if (intent !== 'fix' && system && this.templates.has(system)) {
+            return this.templates.get(system)!;
+        }
+
+        return this.templates.get(PromptTemplateRegistry.DEFAULT_INTENT_TEMPLATES[intent])
+            || PromptTemplateRegistry.getBuiltinTemplates()[0];
+    }
+
+    /**
+     * Fill the placeholders of a template; placeholders without a value are left empty and reported as missing
+     */
+    public render(template: PromptTemplate, variables: Record<string, string | undefined>): PromptTemplateRendering {
+        const missing: string[] = [];
+        const text = template.template.replace(PromptTemplateRegistry.PLACEHOLDER, (placeholder, name: string) => {
+            const value = variables[name];
+            if (value === undefined) {
+                if (!missing.includes(name)) {
+                    missing.push(name);
+                }
+                return '';
+            }
+            return value;
+        });
+
+        return { template, text, missing, warnings: this.getWarnings(template.id) };
+    }
+
+    /**
+     * Names of the {placeholders} in a template, in order of first use
+     */
+    public static findPlaceholders(template: string): string[] {
+        return Array.from(new Set(Array.from(template.matchAll(PromptTemplateRegistry.PLACEHOLDER), match => match[1])));
+    }
+
+    /**
+     * Split a template file into its front matter fields and body
+     */
+    public static parseTemplateFile(content: string): { fields: Record<string, string>; body: string } {
+        const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+        if (!match) {
+            return { fields: {}, body: content.trim() };
+        }
+
+        const fields: Record<string, string> = {};
+        for (const line of match[1].split(/\r?\n/)) {
+            const field = line.match(/^\s*([\w-]+)\s*:\s*(.*?)\s*$/);
+            if (field) {
+                fields[field[1]] = field[2].replace(/^(["'])(.*)\1$/, '$2');
+            }
+        }
+        return { fields, body: content.substring(match[0].length).trim() };
+    }
+
+    /**
+     * Add a template file of the workspace templates directory; the file name is its id
+     */
+    private addWorkspaceTemplate(file: string): void {
+        const id = path.basename(file, path.extname(file));
+        let content: string;
+        try {
+            content = fs.readFileSync(file, 'utf8');
+        } catch (error) {
+            this.addWarning(id, `cannot read ${file}: ${error}`);
+            return;
+        }
+
+        const { fields, body } = PromptTemplateRegistry.parseTemplateFile(content);
+        const toList = (value: string | undefined) => value === undefined
+            ? undefined
+            : value.replace(/^\[|\]$/g, '').split(',').map(item => item.trim()).filter(item => item);
+
+        for (const key of Object.keys(fields)) {
+            if (!['name', 'type', 'intents', 'variables'].includes(key)) {
+                this.addWarning(id, `unknown front matter field "${key}"`);
+            }
+        }
+        this.addTemplate(id, {
+            name: fields.name,
+            type: fields.type as PromptTemplateType | undefined,
+            template: body,
+            variables: toList(fields.variables),
+            intents: toList(fields.intents) as AIIntent[] | undefined
+        }, 'workspace', file);
+    }
+
+    /**
+     * Add a user template, replacing a template with the same id
+     */
+    private addTemplate(id: string, definition: PromptTemplateDefinition, source: PromptTemplate['source'], file?: string): void {
+        if (typeof definition.template !== 'string' || !definition.template.trim()) {
+            this.addWarning(id, 'template text is empty');
+            return;
+        }
+        if (definition.type && !PromptTemplateRegistry.TYPES.includes(definition.type)) {
+            this.addWarning(id, `unknown type "${definition.type}"`);
+        }
+        const intents = (definition.intents || []).filter(intent => {
+            if (!PromptTemplateRegistry.INTENTS.includes(intent)) {
+                this.addWarning(id, `unknown intent "${intent}"`);
+                return false;
+            }
+            return true;
+        });
+
+        this.templates.set(id, {
+            id,
+            name: definition.name || id,
+            type: definition.type && PromptTemplateRegistry.TYPES.includes(definition.type) ? definition.type : 'system',
+            template: definition.template,
+            variables: definition.variables || PromptTemplateRegistry.findPlaceholders(definition.template),
+            intents,
+            source,
+            file
+        });
+        if (definition.variables) {
+            this.undeclared.delete(id);
+        } else {
+            this.undeclared.add(id);
+        }
+    }
+
+    /**
+     * Report placeholders the template does not declare, declared variables it does not use and
+     * declared variables nothing can fill
+     */
+    private validate(template: PromptTemplate, userVariables: string[]): void {
+        const placeholders = PromptTemplateRegistry.findPlaceholders(template.template);
+        const known = this.getKnownVariables(userVariables);
+        const undeclared = this.undeclared.has(template.id);
+        const allowed = undeclared ? known : template.variables;
+
+        for (const name of placeholders.filter(placeholder => !allowed.includes(placeholder))) {
+            this.addWarning(template.id, `unknown placeholder {${name}}`);
+        }
+        if (undeclared) {
+            return;
+        }
+        for (const name of template.variables.filter(variable => !placeholders.includes(variable))) {
+            this.addWarning(template.id, `declared variable "${name}" is not used`);
+        }
+        for (const name of template.variables.filter(variable => !known.includes(variable))) {
+            this.addWarning(template.id, `variable "${name}" has no value; set it in ai_prompts.variables`);
+        }
+    }
+
+    /**
+     * Variables the extension fills, plus the user-defined ones
+     */
+    private getKnownVariables(userVariables: string[]): string[] {
+        return [...PromptTemplateRegistry.PROJECT_VARIABLES, ...PromptTemplateRegistry.ERROR_VARIABLES, ...userVariables];
+    }
+
+    /**
+     * Record a problem of a template, or of the configuration when id is empty
+     */
+    private addWarning(id: string, message: string): void {
+        const list = this.warnings.get(id) || [];
+        list.push(id ? `${id}: ${message}` : message);
+        this.warnings.set(id, list);
+    }
+
+    /**
+     * Markdown template files of the templates directory
+     */
+    private listTemplateFiles(directory: string): string[] {
+        try {
+            return fs.readdirSync(directory)
+                .filter(name => name.endsWith('.md'))
+                .sort()
+                .map(name => path.join(directory, name));
+        } catch (error) {
+            return [];
+        }
+    }
+
+    /**
+     * Templates shipped with the extension
+     */
+    private static getBuiltinTemplates(): PromptTemplate[] {
+        return [
+            {
+                id: 'obs_plugin_expert',
+                name: 'OBS Plugin Expert',
+                type: 'system',
+                template: `You are an expert C++ developer specializing in OBS Studio plugin development. This project follows OBS plugin template conventions with the following standards:
+
+- Use {header_ext} extensions for headers with #pragma once
+- Implement UI components as separate classes in {ui_dir}/ directory
+- For Qt6 signals, include "moc_ClassName.cpp" in cpp files
+- Use CMake presets: cmake --preset {cmake_preset}, cmake --build --preset {cmake_preset} --config Debug
+- Dependencies are in {deps_dir}/ directory, build output in {build_dir}/
+- Follow OBS API best practices and libobs conventions
+- Write English comments and commit messages
+- Avoid modifying CMakeLists.txt except for src file changes
+
+When suggesting code changes, ensure compliance with these conventions and return precise file paths with line edits or unified diffs.`,
+                variables: ['header_ext', 'ui_dir', 'cmake_preset', 'deps_dir', 'build_dir'],
+                intents: ['compile', 'assist'],
+                source: 'builtin'
+            },
+            {
+                id: 'obs_error_fix',
+                name: 'OBS Error Fix',
+                type: 'error_analysis',
+                template: `Analyzing OBS plugin build error. Project uses CMake presets with Qt6 enabled. Common issues include:
+- Missing #pragma once in {header_ext} files
+- Incorrect moc file inclusion for Qt6 signals
+- UI components not properly separated into {ui_dir}/ directory
+- Dependency path issues in {deps_dir}/ directory
+
+Provide fixes that maintain OBS plugin template structure and coding conventions.
+
+Error context: {error_message}
+File: {file_path}:{line_number}
+Build command: {build_command}`,
+                variables: ['header_ext', 'ui_dir', 'deps_dir', 'error_message', 'file_path', 'line_number', 'build_command'],
+                intents: ['fix'],
+                source: 'builtin'
+            }
+        ];
+    }
+}
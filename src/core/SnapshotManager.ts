@@ -0,0 +1,153 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../utils/Logger';
+import { FileSnapshot, SnapshotFileEntry, SnapshotRestoreResult } from '../types/ObsConfig';
+
+/**
+ * Keeps copies of files before the extension changes them, so any change can be rolled back
+ * Works on plain files under the storage directory and does not depend on git
+ */
+export class SnapshotManager {
+    public static readonly DEFAULT_MAX_SNAPSHOTS = 20;
+    private static readonly INDEX_FILE = 'index.json';
+
+    constructor(
+        private readonly storageDir: string,
+        private readonly maxSnapshots: number = SnapshotManager.DEFAULT_MAX_SNAPSHOTS
+    ) {}
+
+    /**
+     * Copy the current content of files before a change; files that do not exist yet are recorded as missing
+     */
+    public record(label: string, files: string[]): FileSnapshot {
+        const snapshot: FileSnapshot = {
+            id: this.generateSnapshotId(),
+            label,
+            timestamp: new Date().toISOString(),
+            files: []
+        };
+        const directory = this.getSnapshotDir(snapshot.id);
+        fs.mkdirSync(directory, { recursive: true });
+
+        for (const file of Array.from(new Set(files.map(candidate => path.resolve(candidate))))) {
+            const entry: SnapshotFileEntry = { path: file, existed: fs.existsSync(file) && fs.statSync(file).isFile() };
+            if (entry.existed) {
+                entry.blob = String(snapshot.files.length);
+                fs.copyFileSync(file, path.join(directory, entry.blob));
+            }
+            snapshot.files.push(entry);
+        }
+
+        const snapshots = [snapshot, ...this.list()];
+        for (const pruned of snapshots.slice(this.maxSnapshots)) {
+            fs.rmSync(this.getSnapshotDir(pruned.id), { recursive: true, force: true });
+        }
+        this.writeIndex(snapshots.slice(0, this.maxSnapshots));
+
+        Logger.info(`Recorded snapshot ${snapshot.id} of ${snapshot.files.length} files: ${label}`);
+        return snapshot;
+    }
+
+    /**
+     * Get recorded snapshots, newest first
+     */
+    public list(): FileSnapshot[] {
+        const indexFile = path.join(this.storageDir, SnapshotManager.INDEX_FILE);
+        if (!fs.existsSync(indexFile)) {
+            return [];
+        }
+        try {
+            return JSON.parse(fs.readFileSync(indexFile, 'utf8'));
+        } catch (error) {
+            Logger.info(`Ignoring unreadable snapshot index ${indexFile}: ${error}`);
+            return [];
+        }
+    }
+
+    /**
+     * Get a snapshot by id
+     */
+    public get(id: string): FileSnapshot | undefined {
+        return this.list().find(snapshot => snapshot.id === id);
+    }
+
+    /**
+     * Get the most recent snapshot that was not restored yet
+     */
+    public getLatest(): FileSnapshot | undefined {
+        return this.list().find(snapshot => !snapshot.restored_at);
+    }
+
+    /**
+     * Forget a snapshot and delete its stored copies
+     */
+    public discard(id: string): boolean {
+        const snapshots = this.list();
+        const remaining = snapshots.filter(snapshot => snapshot.id !== id);
+        if (remaining.length === snapshots.length) {
+            return false;
+        }
+        fs.rmSync(this.getSnapshotDir(id), { recursive: true, force: true });
+        this.writeIndex(remaining);
+        return true;
+    }
+
+    /**
+     * Put the files of a snapshot back as they were, deleting the ones that did not exist
+     * Files that already match the snapshot are left untouched
+     */
+    public restore(id: string): SnapshotRestoreResult {
+        const snapshots = this.list();
+        const snapshot = snapshots.find(candidate => candidate.id === id);
+        if (!snapshot) {
+            throw new Error(`Snapshot not found: ${id}`);
+        }
+
+        const result: SnapshotRestoreResult = { restored: [], deleted: [] };
+        for (const entry of snapshot.files) {
+            const exists = fs.existsSync(entry.path);
+            if (!entry.existed || !entry.blob) {
+                if (exists) {
+                    fs.rmSync(entry.path, { force: true });
+                    result.deleted.push(entry.path);
+                }
+                continue;
+            }
+
+            const saved = fs.readFileSync(path.join(this.getSnapshotDir(id), entry.blob));
+            if (exists && fs.readFileSync(entry.path).equals(saved)) {
+                continue;
+            }
+            fs.mkdirSync(path.dirname(entry.path), { recursive: true });
+            fs.writeFileSync(entry.path, saved);
+            result.restored.push(entry.path);
+        }
+
+        snapshot.restored_at = new Date().toISOString();
+        this.writeIndex(snapshots);
+        Logger.info(`Restored snapshot ${id}: ${result.restored.length} files restored, ${result.deleted.length} deleted`);
+        return result;
+    }
+
+    /**
+     * Directory holding the stored copies of a snapshot
+     */
+    private getSnapshotDir(id: string): string {
+        return path.join(this.storageDir, id);
+    }
+
+    /**
+     * Save the snapshot list
+     */
+    private writeIndex(snapshots: FileSnapshot[]): void {
+        fs.mkdirSync(this.storageDir, { recursive: true });
+        fs.writeFileSync(path.join(this.storageDir, SnapshotManager.INDEX_FILE), JSON.stringify(snapshots, null, 2), 'utf8');
+    }
+
+    /**
+     * Generate unique snapshot ID
+     */
+    private generateSnapshotId(): string {
+        return `snapshot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    }
+}
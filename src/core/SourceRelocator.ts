@@ -0,0 +1,349 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as cp from 'child_process';
+import { Logger } from '../utils/Logger';
+import { WorkspaceWalker } from '../utils/WorkspaceWalker';
+import { FileMove, RelocationChange, RelocationEdit, RelocationPlan } from '../types/ObsConfig';
+
+/**
+ * Moves and renames source files while keeping the project building
+ * Rewrites #include directives in dependents and source paths in CMake files, and uses git mv when possible
+ */
+export class SourceRelocator {
+    private static readonly SOURCE_FILE = /\.(?:c|cc|cpp|cxx|h|hh|hpp|hxx|inl|m|mm)$/i;
+    private static readonly CMAKE_FILE = /(?:^|\/)CMakeLists\.txt$|\.cmake$/i;
+    private static readonly INCLUDE = /^(\s*#\s*(?:include|import)\s*)(["<])([^">]+)([">])([\s\S]*)$/;
+    private static readonly CMAKE_PATH = /(\$\{(?:CMAKE_CURRENT_SOURCE_DIR|CMAKE_CURRENT_LIST_DIR|CMAKE_SOURCE_DIR|PROJECT_SOURCE_DIR)\}\/)?([\w.+-]+(?:\/[\w.+-]+)*\.\w+)/g;
+    private static readonly ROOT_VARIABLES = ['${CMAKE_SOURCE_DIR}/', '${PROJECT_SOURCE_DIR}/'];
+    private static readonly GENERATED_INCLUDE = /^((?:[\w.+-]+\/)*)(moc_|ui_)([\w.+-]+)\.(cpp|h)$/;
+    private static readonly COMPANION_EXTENSIONS = ['.h', '.hh', '.hpp', '.hxx', '.c', '.cc', '.cpp', '.cxx', '.ui'];
+
+    /**
+     * Plan moving files and the edits that keep includes and CMake source lists working
+     */
+    public async plan(workspaceRoot: string, moves: FileMove[], buildDirs: string[] = []): Promise<RelocationPlan> {
+        const normalizedMoves = moves.map(move => ({ from: this.normalize(move.from), to: this.normalize(move.to) }));
+        this.validateMoves(workspaceRoot, normalizedMoves);
+
+        const moveMap = new Map(normalizedMoves.map(move => [move.from, move.to]));
+        const files = await WorkspaceWalker.listFiles(workspaceRoot, { buildDirs });
+        const fileSet = new Set(files);
+        const edits: RelocationEdit[] = [];
+
+        for (const file of files) {
+            const isSource = SourceRelocator.SOURCE_FILE.test(file);
+            const isCMake = SourceRelocator.CMAKE_FILE.test(file);
+            if (!isSource && !isCMake) {
+                continue;
+            }
+
+            const original = await fs.promises.readFile(path.join(workspaceRoot, file), 'utf8');
+            const changes: RelocationChange[] = [];
+            const lines = original.split('\n');
+
+            lines.forEach((line, index) => {
+                const updated = isSource
+                    ? this.rewriteInclude(line, file, moveMap, fileSet)
+                    : this.rewriteCMakePaths(line, file, moveMap);
+                if (updated !== line) {
+                    changes.push({ line: index + 1, before: line, after: updated });
+                    lines[index] = updated;
+                }
+            });
+
+            if (changes.length > 0) {
+                edits.push({ file, original, content: lines.join('\n'), changes });
+            }
+        }
+
+        return {
+            workspace_root: workspaceRoot,
+            moves: normalizedMoves,
+            edits,
+            use_git: await this.isGitWorkTree(workspaceRoot)
+        };
+    }
+
+    /**
+     * Add the files that belong with each moved file, such as the implementation and .ui form of a header
+     * Companions share the directory and base name of the moved file and follow it to its new directory
+     */
+    public withCompanions(workspaceRoot: string, moves: FileMove[]): FileMove[] {
+        const result = new Map<string, FileMove>();
+
+        for (const move of moves) {
+            const from = this.normalize(move.from);
+            const to = this.normalize(move.to);
+            result.set(from, { from, to });
+
+            const stem = path.posix.join(path.posix.dirname(from), path.posix.parse(from).name);
+            const targetDir = path.posix.dirname(to);
+            for (const extension of SourceRelocator.COMPANION_EXTENSIONS) {
+                const companion = stem + extension;
+                if (!result.has(companion) && companion !== from && fs.existsSync(path.join(workspaceRoot, companion))) {
+                    result.set(companion, { from: companion, to: path.posix.join(targetDir, path.posix.basename(companion)) });
+                }
+            }
+        }
+
+        return Array.from(result.values());
+    }
+
+    /**
+     * Apply a plan, rolling back completed steps when one fails
+     */
+    public async apply(plan: RelocationPlan): Promise<void> {
+        const root = plan.workspace_root;
+        const written: RelocationEdit[] = [];
+        const moved: FileMove[] = [];
+
+        try {
+            for (const edit of plan.edits) {
+                const fullPath = path.join(root, edit.file);
+                if (await fs.promises.readFile(fullPath, 'utf8') !== edit.original) {
+                    throw new Error(`${edit.file} changed since the relocation was planned`);
+                }
+                await fs.promises.writeFile(fullPath, edit.content, 'utf8');
+                written.push(edit);
+            }
+
+            for (const move of plan.moves) {
+                await this.moveFile(root, move.from, move.to, plan.use_git);
+                moved.push(move);
+            }
+
+            Logger.info(`Relocated ${plan.moves.length} files and updated ${plan.edits.length} files`);
+        } catch (error) {
+            Logger.error('Relocation failed, rolling back', error);
+            await this.rollback(root, written, moved, plan.use_git);
+            throw error;
+        }
+    }
+
+    /**
+     * Undo an applied plan
+     */
+    public async revert(plan: RelocationPlan): Promise<void> {
+        await this.rollback(plan.workspace_root, plan.edits, plan.moves, plan.use_git);
+        Logger.info(`Reverted relocation of ${plan.moves.length} files`);
+    }
+
+    /**
+     * Format a plan as a markdown preview of every file it touches
+     */
+    public formatPreview(plan: RelocationPlan): string {
+        const lines = ['# Relocation Preview', '', '## Files to Move', ''];
+
+        for (const move of plan.moves) {
+            lines.push(`- \`${move.from}\` → \`${move.to}\`${plan.use_git ? ' (git mv)' : ''}`);
+        }
+
+        lines.push('', `## Files to Update (${plan.edits.length})`, '');
+        if (plan.edits.length === 0) {
+            lines.push('_No includes or CMake source lists reference the moved files._');
+        }
+
+        for (const edit of plan.edits) {
+            lines.push(`### ${edit.file}`, '', '```diff');
+            for (const change of edit.changes) {
+                lines.push(`@@ line ${change.line} @@`, `-${change.before}`, `+${change.after}`);
+            }
+            lines.push('```', '');
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Rewrite an #include that refers to a moved file or is written relative to a moved includer
+     */
+    private rewriteInclude(line: string, includer: string, moveMap: Map<string, string>, fileSet: Set<string>): string {
+        const match = line.match(SourceRelocator.INCLUDE);
+        if (!match) {
+            return line;
+        }
+
+        const [, prefix, open, spec, close, suffix] = match;
+        const newIncluderDir = path.posix.dirname(moveMap.get(includer) || includer);
+
+        const generated = spec.match(SourceRelocator.GENERATED_INCLUDE);
+        if (generated) {
+            return `${prefix}${open}${this.rewriteGeneratedInclude(generated, moveMap)}${close}${suffix}`;
+        }
+
+        // Quoted includes are searched next to the including file first
+        const besideIncluder = path.posix.normalize(path.posix.join(path.posix.dirname(includer), spec));
+        if (open === '"' && fileSet.has(besideIncluder)) {
+            const target = moveMap.get(besideIncluder) || besideIncluder;
+            if (target === besideIncluder && !moveMap.has(includer)) {
+                return line;
+            }
+            return `${prefix}${open}${this.relative(newIncluderDir, target)}${close}${suffix}`;
+        }
+
+        // Otherwise the include was found through an include directory that ends where the spec begins
+        for (const [from, to] of moveMap) {
+            if (from !== spec && !from.endsWith('/' + spec)) {
+                continue;
+            }
+            const includeRoot = from.slice(0, from.length - spec.length);
+            const newSpec = to.startsWith(includeRoot) ? to.slice(includeRoot.length) : this.relative(newIncluderDir, to);
+            return `${prefix}${open}${newSpec}${close}${suffix}`;
+        }
+
+        return line;
+    }
+
+    /**
+     * Rewrite an include of a file generated by AUTOMOC or AUTOUIC from a moved header or form
+     * Generated files are named after their source, and a directory prefix mirrors the source directory
+     */
+    private rewriteGeneratedInclude(generated: RegExpMatchArray, moveMap: Map<string, string>): string {
+        const [spec, directory, kind, stem, extension] = generated;
+        const sourceExtensions = kind === 'ui_' ? ['.ui'] : SourceRelocator.COMPANION_EXTENSIONS.filter(ext => ext.startsWith('.h'));
+
+        for (const [from, to] of moveMap) {
+            const parsed = path.posix.parse(from);
+            if (parsed.name !== stem || !sourceExtensions.includes(parsed.ext)) {
+                continue;
+            }
+
+            const newName = `${kind}${path.posix.parse(to).name}.${extension}`;
+            if (!directory) {
+                return newName;
+            }
+            if (!(parsed.dir + '/').endsWith(directory)) {
+                continue;
+            }
+
+            const includeRoot = (parsed.dir + '/').slice(0, -directory.length);
+            const newDirectory = path.posix.relative(includeRoot || '.', path.posix.dirname(to));
+            return newDirectory ? `${newDirectory}/${newName}` : newName;
+        }
+
+        return spec;
+    }
+
+    /**
+     * Rewrite source paths in a CMake file that refer to moved files
+     */
+    private rewriteCMakePaths(line: string, cmakeFile: string, moveMap: Map<string, string>): string {
+        if (line.trim().startsWith('#')) {
+            return line;
+        }
+
+        const cmakeDir = path.posix.dirname(cmakeFile);
+        return line.replace(SourceRelocator.CMAKE_PATH, (token: string, variable: string | undefined, filePath: string) => {
+            const baseDir = variable && SourceRelocator.ROOT_VARIABLES.includes(variable) ? '.' : cmakeDir;
+            const resolved = path.posix.normalize(path.posix.join(baseDir, filePath));
+            const target = moveMap.get(resolved);
+            if (!target) {
+                return token;
+            }
+            return `${variable || ''}${path.posix.relative(baseDir, target)}`;
+        });
+    }
+
+    /**
+     * Check that every source exists and no target is taken
+     */
+    private validateMoves(workspaceRoot: string, moves: FileMove[]): void {
+        const targets = new Set<string>();
+
+        for (const move of moves) {
+            if (!fs.existsSync(path.join(workspaceRoot, move.from))) {
+                throw new Error(`Cannot move ${move.from}: file not found`);
+            }
+            if (fs.existsSync(path.join(workspaceRoot, move.to)) || targets.has(move.to)) {
+                throw new Error(`Cannot move ${move.from}: ${move.to} already exists`);
+            }
+            targets.add(move.to);
+        }
+    }
+
+    /**
+     * Move a single file, preserving git history for tracked files
+     */
+    private async moveFile(workspaceRoot: string, from: string, to: string, useGit: boolean): Promise<void> {
+        await fs.promises.mkdir(path.dirname(path.join(workspaceRoot, to)), { recursive: true });
+
+        if (useGit && await this.isTracked(workspaceRoot, from)) {
+            await this.executeGit(['mv', '--', from, to], workspaceRoot);
+        } else {
+            await fs.promises.rename(path.join(workspaceRoot, from), path.join(workspaceRoot, to));
+        }
+    }
+
+    /**
+     * Move files back and restore original contents
+     */
+    private async rollback(workspaceRoot: string, edits: RelocationEdit[], moves: FileMove[], useGit: boolean): Promise<void> {
+        for (const move of [...moves].reverse()) {
+            try {
+                await this.moveFile(workspaceRoot, move.to, move.from, useGit);
+            } catch (error) {
+                Logger.error(`Failed to move ${move.to} back to ${move.from}`, error);
+            }
+        }
+
+        for (const edit of edits) {
+            try {
+                await fs.promises.writeFile(path.join(workspaceRoot, edit.file), edit.original, 'utf8');
+            } catch (error) {
+                Logger.error(`Failed to restore ${edit.file}`, error);
+            }
+        }
+    }
+
+    /**
+     * Relative include path from a directory, using forward slashes
+     */
+    private relative(fromDir: string, target: string): string {
+        return path.posix.relative(fromDir, target);
+    }
+
+    /**
+     * Normalize a workspace-relative path
+     */
+    private normalize(relativePath: string): string {
+        return path.posix.normalize(relativePath.replace(/\\/g, '/')).replace(/^\.\//, '');
+    }
+
+    /**
+     * Check whether the workspace is a git work tree
+     */
+    private async isGitWorkTree(workspaceRoot: string): Promise<boolean> {
+        try {
+            return (await this.executeGit(['rev-parse', '--is-inside-work-tree'], workspaceRoot)).trim() === 'true';
+        } catch (error) {
+            return false;
+        }
+    }
+
+    /**
+     * Check whether git tracks a file
+     */
+    private async isTracked(workspaceRoot: string, file: string): Promise<boolean> {
+        try {
+            await this.executeGit(['ls-files', '--error-unmatch', '--', file], workspaceRoot);
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    /**
+     * Execute git command
+     */
+    private executeGit(args: string[], cwd: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            cp.execFile('git', args, { cwd }, (error, stdout, stderr) => {
+                if (error) {
+                    reject(new Error(`Git command failed: ${stderr || error.message}`));
+                } else {
+                    resolve(stdout);
+                }
+            });
+        });
+    }
+}
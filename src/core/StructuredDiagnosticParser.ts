@@ -0,0 +1,334 @@
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { Logger } from '../utils/Logger';
+import { BuildError, DiagnosticLineParser, FixItHint, RelatedDiagnostic, SourcePosition, SourceRange } from '../types/ObsConfig';
+
+/**
+ * Bracket and string state of the JSON read so far
+ */
+interface JsonScanState {
+    depth: number;
+    inString: boolean;
+    escaped: boolean;
+}
+
+/**
+ * Parser for machine-readable compiler diagnostics
+ * Reads GCC -fdiagnostics-format=json arrays and SARIF logs from GCC or Clang
+ */
+export class StructuredDiagnosticParser implements DiagnosticLineParser {
+    /** Openings of a GCC JSON array, an empty array and a SARIF log, ignoring whitespace */
+    private static readonly DOCUMENT_STARTS = ['[{"kind"', '[]', '{"$schema"', '{"version"'];
+    /** Lines of pretty-printed JSON start with a value, a key or punctuation */
+    private static readonly JSON_LINE = /^\s*(?:$|[-"{}[\],:0-9]|true\b|false\b|null\b)/;
+    private static readonly MAX_DOCUMENT_LENGTH = 16 * 1024 * 1024;
+    private static readonly INSTANTIATION_NOTE = /in instantiation of|requested here|required from/i;
+
+    private buffer: string[] = [];
+    private bufferLength = 0;
+    private confirmed = false;
+    private state: JsonScanState = { depth: 0, inString: false, escaped: false };
+    private released: string[] = [];
+    private completed: BuildError[] = [];
+
+    /**
+     * Feed a single log line into the parser
+     * A line that cannot continue the buffered document gives the buffered lines back
+     */
+    public feed(line: string): boolean {
+        if (this.buffer.length > 0 && !this.continuesDocument(line)) {
+            this.giveBack();
+        }
+        if (this.buffer.length === 0 && (line.trim() === '' || !this.continuesDocument(line))) {
+            return false;
+        }
+
+        this.buffer.push(line);
+        this.bufferLength += line.length;
+        this.state = this.scan(line);
+
+        if (this.state.depth === 0) {
+            if (this.parseDocument(this.buffer.join('\n'))) {
+                this.reset();
+            } else {
+                this.giveBack();
+            }
+        } else if (this.bufferLength > StructuredDiagnosticParser.MAX_DOCUMENT_LENGTH) {
+            Logger.warn('Discarding unterminated structured diagnostics output');
+            this.reset();
+        }
+
+        return true;
+    }
+
+    /**
+     * Give back an unterminated document
+     */
+    public flush(): void {
+        if (this.buffer.length > 0) {
+            this.giveBack();
+        }
+    }
+
+    /**
+     * Take all completed diagnostics
+     */
+    public drain(): BuildError[] {
+        const completed = this.completed;
+        this.completed = [];
+        return completed;
+    }
+
+    /**
+     * Take the lines that turned out not to be a structured document
+     */
+    public release(): string[] {
+        const released = this.released;
+        this.released = [];
+        return released;
+    }
+
+    /**
+     * Whether the buffered lines have not been recognized as a document start yet
+     */
+    public isTentative(): boolean {
+        return this.buffer.length > 0 && !this.confirmed;
+    }
+
+    /**
+     * Check that a line keeps the buffer a valid document: JSON strings never span lines,
+     * and the document must open like a GCC JSON array or a SARIF log
+     */
+    private continuesDocument(line: string): boolean {
+        if (!StructuredDiagnosticParser.JSON_LINE.test(line)) {
+            return false;
+        }
+        const state = this.scan(line);
+        if (state.depth < 0 || state.inString) {
+            return false;
+        }
+        if (this.confirmed) {
+            return true;
+        }
+
+        const opening = [...this.buffer, line].join('').replace(/\s+/g, '');
+        const match = StructuredDiagnosticParser.DOCUMENT_STARTS.find(start =>
+            opening.length < start.length ? start.startsWith(opening) : opening.startsWith(start));
+        if (match && opening.length >= match.length) {
+            this.confirmed = true;
+        }
+        return Boolean(match);
+    }
+
+    /**
+     * Bracket depth and string state after a line, outside of JSON strings
+     */
+    private scan(line: string): JsonScanState {
+        let { depth, inString, escaped } = this.state;
+        for (const char of line) {
+            if (inString) {
+                if (escaped) {
+                    escaped = false;
+                } else if (char === '\\') {
+                    escaped = true;
+                } else if (char === '"') {
+                    inString = false;
+                }
+            } else if (char === '"') {
+                inString = true;
+            } else if (char === '{' || char === '[') {
+                depth++;
+            } else if (char === '}' || char === ']') {
+                depth--;
+            }
+        }
+        return { depth, inString, escaped };
+    }
+
+    /**
+     * Hand the buffered lines back to the other parsers
+     */
+    private giveBack(): void {
+        this.released.push(...this.buffer);
+        this.reset();
+    }
+
+    /**
+     * Reset document state
+     */
+    private reset(): void {
+        this.buffer = [];
+        this.bufferLength = 0;
+        this.confirmed = false;
+        this.state = { depth: 0, inString: false, escaped: false };
+    }
+
+    /**
+     * Convert a complete JSON document into build errors, returning false when it is not valid JSON
+     */
+    private parseDocument(text: string): boolean {
+        let document: any;
+        try {
+            document = JSON.parse(text);
+        } catch {
+            return false;
+        }
+
+        if (Array.isArray(document)) {
+            for (const diagnostic of document) {
+                if (diagnostic && typeof diagnostic === 'object' && 'kind' in diagnostic) {
+                    this.completed.push(this.fromGccJson(diagnostic, text));
+                }
+            }
+        } else if (document && Array.isArray(document.runs)) {
+            for (const run of document.runs) {
+                for (const result of run.results || []) {
+                    this.completed.push(this.fromSarif(result, run, text));
+                }
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Convert a GCC JSON diagnostic
+     */
+    private fromGccJson(diagnostic: any, raw: string): BuildError {
+        const location = (diagnostic.locations || [])[0];
+        const caret = this.gccPosition(location?.caret);
+        const finish = location?.finish ? this.gccPosition(location.finish) : caret;
+
+        const related: RelatedDiagnostic[] = (diagnostic.children || []).map((child: any) => {
+            const childCaret = (child.locations || [])[0]?.caret;
+            return {
+                kind: StructuredDiagnosticParser.INSTANTIATION_NOTE.test(child.message || '') ? 'instantiation' : 'note',
+                file: path.normalize(childCaret?.file || location?.caret?.file || ''),
+                line: childCaret?.line || 1,
+                column: this.gccPosition(childCaret).column,
+                message: child.message || ''
+            };
+        });
+
+        const fixits: FixItHint[] = (diagnostic.fixits || []).map((fixit: any) => ({
+            file: path.normalize(fixit.start.file),
+            range: { start: this.gccPosition(fixit.start), end: this.gccPosition(fixit.next) },
+            replacement: fixit.string || '',
+            byte_columns: true
+        }));
+
+        return {
+            file: path.normalize(location?.caret?.file || 'CMakeLists.txt'),
+            line: caret.line,
+            column: caret.column,
+            severity: this.normalizeSeverity(diagnostic.kind),
+            message: diagnostic.message || '',
+            raw,
+            related,
+            // GCC reports the finish position inclusively
+            range: { start: caret, end: { line: finish.line, column: finish.column + 1 } },
+            fixits: fixits.length > 0 ? fixits : undefined
+        };
+    }
+
+    /**
+     * Convert a SARIF result
+     */
+    private fromSarif(result: any, run: any, raw: string): BuildError {
+        const location = (result.locations || [])[0]?.physicalLocation;
+        const file = location ? this.sarifFile(location.artifactLocation, run) : 'CMakeLists.txt';
+        const range = this.sarifRange(location?.region);
+
+        const related: RelatedDiagnostic[] = (result.relatedLocations || []).map((relatedLocation: any) => {
+            const physical = relatedLocation.physicalLocation;
+            const message = relatedLocation.message?.text || '';
+            const relatedRange = this.sarifRange(physical?.region);
+            return {
+                kind: StructuredDiagnosticParser.INSTANTIATION_NOTE.test(message) ? 'instantiation' : 'note',
+                file: physical ? this.sarifFile(physical.artifactLocation, run) : file,
+                line: relatedRange.start.line,
+                column: relatedRange.start.column,
+                message
+            };
+        });
+
+        const fixits: FixItHint[] = [];
+        for (const fix of result.fixes || []) {
+            for (const change of fix.artifactChanges || []) {
+                for (const replacement of change.replacements || []) {
+                    fixits.push({
+                        file: this.sarifFile(change.artifactLocation, run),
+                        range: this.sarifRange(replacement.deletedRegion),
+                        replacement: replacement.insertedContent?.text || ''
+                    });
+                }
+            }
+        }
+
+        return {
+            file,
+            line: range.start.line,
+            column: range.start.column,
+            // SARIF defaults the level to warning when it is omitted
+            severity: this.normalizeSeverity(result.level || 'warning'),
+            message: result.message?.text || '',
+            raw,
+            related,
+            range,
+            fixits: fixits.length > 0 ? fixits : undefined
+        };
+    }
+
+    /**
+     * Read a GCC JSON position, preferring the byte column that matches the file contents
+     */
+    private gccPosition(position: any): SourcePosition {
+        return {
+            line: position?.line || 1,
+            column: position?.['byte-column'] || position?.column || 1
+        };
+    }
+
+    /**
+     * Read a SARIF region into an end-exclusive range
+     */
+    private sarifRange(region: any): SourceRange {
+        const startLine = region?.startLine || 1;
+        const startColumn = region?.startColumn || 1;
+        return {
+            start: { line: startLine, column: startColumn },
+            end: { line: region?.endLine || startLine, column: region?.endColumn || startColumn }
+        };
+    }
+
+    /**
+     * Resolve a SARIF artifact location against the run's base URIs
+     */
+    private sarifFile(artifactLocation: any, run: any): string {
+        const uri: string = artifactLocation?.uri || '';
+        const baseUri: string | undefined = artifactLocation?.uriBaseId
+            ? run.originalUriBaseIds?.[artifactLocation.uriBaseId]?.uri
+            : undefined;
+
+        try {
+            if (uri.startsWith('file:')) {
+                return path.normalize(fileURLToPath(uri));
+            }
+            if (baseUri && baseUri.startsWith('file:')) {
+                return path.normalize(fileURLToPath(new URL(uri, baseUri)));
+            }
+        } catch (error) {
+            Logger.warn(`Failed to resolve SARIF artifact location: ${uri}`, error);
+        }
+
+        return path.normalize(decodeURIComponent(uri));
+    }
+
+    /**
+     * Normalize structured diagnostic severity
+     */
+    private normalizeSeverity(kind: string): 'error' | 'warning' | 'info' {
+        if (kind.includes('error') || kind === 'ice' || kind === 'sorry') {return 'error';}
+        if (kind === 'warning') {return 'warning';}
+        return 'info';
+    }
+}
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { Logger } from '../utils/Logger';
+import { SnapshotManager } from './SnapshotManager';
 import { TemplateGeneration, ObsConfig } from '../types/ObsConfig';
 
 /**
@@ -12,7 +13,7 @@ export class TemplateManager {
     private readonly templateCache: Map<string, string> = new Map();
     private readonly builtinTemplates: Map<string, string> = new Map();
 
-    constructor() {
+    constructor(private readonly snapshots?: SnapshotManager) {
         this.initializeBuiltinTemplates();
     }
 
@@ -35,7 +36,7 @@ export class TemplateManager {
             const generatedContent = this.interpolateTemplate(template, variables);
             
             if (request.output_path) {
-                await this.writeTemplateToFile(generatedContent, request.output_path);
+                await this.writeTemplateFiles(`Generate ${templateName}`, [[request.output_path, generatedContent]]);
                 Logger.info(`Generated template ${request.template_name} to ${request.output_path}`);
             }
 
@@ -82,8 +83,7 @@ export class TemplateManager {
         const headerPath = path.join(outputDir, `${className}.hpp`);
         const sourcePath = path.join(outputDir, `${className}.cpp`);
 
-        await this.writeTemplateToFile(headerContent, headerPath);
-        await this.writeTemplateToFile(sourceContent, sourcePath);
+        await this.writeTemplateFiles(`Create source ${className}`, [[headerPath, headerContent], [sourcePath, sourceContent]]);
 
         return { headerPath, sourcePath };
     }
@@ -122,8 +122,7 @@ export class TemplateManager {
         const headerPath = path.join(uiDir, `${componentName}.hpp`);
         const sourcePath = path.join(uiDir, `${componentName}.cpp`);
 
-        await this.writeTemplateToFile(headerContent, headerPath);
-        await this.writeTemplateToFile(sourceContent, sourcePath);
+        await this.writeTemplateFiles(`Create UI component ${componentName}`, [[headerPath, headerContent], [sourcePath, sourceContent]]);
 
         return { headerPath, sourcePath };
     }
@@ -141,7 +140,7 @@ export class TemplateManager {
         });
 
         const configPath = path.join(projectRoot, '.obspluginrc.json');
-        await this.writeTemplateToFile(configContent, configPath);
+        await this.writeTemplateFiles('Generate .obspluginrc.json', [[configPath, configContent]]);
         
         return configPath;
     }
@@ -164,7 +163,7 @@ export class TemplateManager {
             }
         });
 
-        await this.writeTemplateToFile(cmakeContent, outputPath);
+        await this.writeTemplateFiles(`Generate ${path.basename(outputPath)}`, [[outputPath, cmakeContent]]);
         return outputPath;
     }
 
@@ -184,7 +183,7 @@ export class TemplateManager {
         });
 
         const presetsPath = path.join(projectRoot, 'CMakePresets.json');
-        await this.writeTemplateToFile(presetsContent, presetsPath);
+        await this.writeTemplateFiles('Generate CMakePresets.json', [[presetsPath, presetsContent]]);
         
         return presetsPath;
     }
@@ -231,15 +230,19 @@ export class TemplateManager {
     }
 
     /**
-     * Write template content to file
+     * Write template contents to files, recording one snapshot of them first
      */
-    private async writeTemplateToFile(content: string, filePath: string): Promise<void> {
-        const dir = path.dirname(filePath);
-        if (!fs.existsSync(dir)) {
-            fs.mkdirSync(dir, { recursive: true });
-        }
+    private async writeTemplateFiles(label: string, files: Array<[string, string]>): Promise<void> {
+        this.snapshots?.record(label, files.map(([filePath]) => filePath));
+
+        for (const [filePath, content] of files) {
+            const dir = path.dirname(filePath);
+            if (!fs.existsSync(dir)) {
+                fs.mkdirSync(dir, { recursive: true });
+            }
 
-        fs.writeFileSync(filePath, content, 'utf8');
+            fs.writeFileSync(filePath, content, 'utf8');
+        }
     }
 
     /**
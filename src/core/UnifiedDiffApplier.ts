@@ -0,0 +1,418 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    DiffApplyOptions,
+    DiffApplyResult,
+    DiffHunk,
+    FileDiff,
+    HunkAdjustment
+} from '../types/ObsConfig';
+
+/**
+ * Lines of a file with the line ending they are written back with
+ */
+interface FileLines {
+    lines: string[];
+    eol: string;
+    final_newline: boolean;
+}
+
+/**
+ * Parses unified diffs and applies them without git
+ * Hunks may move up to max_offset lines from their header and drop up to fuzz context lines, so diffs with
+ * wrong line numbers still apply when their context matches
+ */
+export class UnifiedDiffApplier {
+    public static readonly DEFAULT_OPTIONS: DiffApplyOptions = { max_offset: 1000, fuzz: 2 };
+
+    private static readonly HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+    private static readonly GIT_HEADER = /^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/;
+    private static readonly DEV_NULL = '/dev/null';
+
+    /**
+     * Parse a multi-file diff, including new, deleted and renamed files
+     * Hunk headers without line numbers are accepted and located by their context
+     */
+    public static parse(diff: string): FileDiff[] {
+        const files: FileDiff[] = [];
+        const lines = diff.split(/\r?\n/);
+        let current: FileDiff | undefined;
+        let hunk: DiffHunk | undefined;
+        // A git header names the file before its ---/+++ lines, which then belong to it
+        let gitHeaderOpen = false;
+
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+            const gitHeader = UnifiedDiffApplier.GIT_HEADER.exec(line);
+
+            if (gitHeader) {
+                current = { status: 'modify', old_path: gitHeader[1], new_path: gitHeader[2], hunks: [] };
+                files.push(current);
+                hunk = undefined;
+                gitHeaderOpen = true;
+            } else if (line.startsWith('--- ') && (lines[i + 1] || '').startsWith('+++ ')) {
+                const oldPath = UnifiedDiffApplier.cleanPath(line.substring(4));
+                const newPath = UnifiedDiffApplier.cleanPath(lines[++i].substring(4));
+                if (current && gitHeaderOpen) {
+                    current.old_path = oldPath;
+                    current.new_path = newPath;
+                } else {
+                    current = { status: 'modify', old_path: oldPath, new_path: newPath, hunks: [] };
+                    files.push(current);
+                }
+                hunk = undefined;
+                gitHeaderOpen = false;
+            } else if (line.startsWith('@@') && current) {
+                const numbers = UnifiedDiffApplier.HUNK_HEADER.exec(line);
+                hunk = {
+                    old_start: numbers ? parseInt(numbers[1], 10) : 0,
+                    old_lines: numbers ? parseInt(numbers[2] ?? '1', 10) : 0,
+                    new_start: numbers ? parseInt(numbers[3], 10) : 0,
+                    new_lines: numbers ? parseInt(numbers[4] ?? '1', 10) : 0,
+                    header: line,
+                    lines: []
+                };
+                current.hunks.push(hunk);
+                gitHeaderOpen = false;
+            } else if (hunk && (/^[ +-]/.test(line) || line === '')) {
+                hunk.lines.push(line);
+            } else if (hunk && line.startsWith('\\')) {
+                const previous = hunk.lines[hunk.lines.length - 1];
+                if (previous !== undefined && previous[0] !== '-') {
+                    hunk.no_newline_new = true;
+                }
+            } else if (current && gitHeaderOpen) {
+                const meta = /^(new file mode|deleted file mode|rename from|rename to)\s*(.*)$/.exec(line);
+                if (meta?.[1] === 'new file mode') {
+                    current.status = 'create';
+                } else if (meta?.[1] === 'deleted file mode') {
+                    current.status = 'delete';
+                } else if (meta?.[1] === 'rename from') {
+                    current.old_path = meta[2];
+                } else if (meta?.[1] === 'rename to') {
+                    current.new_path = meta[2];
+                }
+            } else {
+                hunk = undefined;
+            }
+        }
+
+        for (const file of files) {
+            for (const fileHunk of file.hunks) {
+                // Trailing blank lines separate files or close a code block; inner ones are context that lost its leading space
+                while (fileHunk.lines.length > 0 && fileHunk.lines[fileHunk.lines.length - 1] === '') {
+                    fileHunk.lines.pop();
+                }
+                fileHunk.lines = fileHunk.lines.map(line => line || ' ');
+            }
+
+            if (file.old_path === UnifiedDiffApplier.DEV_NULL) {
+                file.status = 'create';
+                file.old_path = file.new_path;
+            } else if (file.new_path === UnifiedDiffApplier.DEV_NULL) {
+                file.status = 'delete';
+                file.new_path = file.old_path;
+            } else if (file.status === 'modify' && file.old_path !== file.new_path) {
+                file.status = 'rename';
+            }
+        }
+
+        return files.filter(file => file.new_path);
+    }
+
+    /**
+     * Apply a diff to files under rootDir
+     * Every hunk is located first; if any is rejected nothing is written and the rejects explain why
+     */
+    public apply(diff: string, rootDir: string, options: DiffApplyOptions = UnifiedDiffApplier.DEFAULT_OPTIONS): DiffApplyResult {
+        const { result, contents } = this.computeChanges(diff, rootDir, options);
+        if (result.rejects.length > 0) {
+            return result;
+        }
+
+        for (const [file, content] of contents) {
+            if (content === undefined) {
+                if (fs.existsSync(file)) {
+                    fs.unlinkSync(file);
+                }
+            } else {
+                fs.mkdirSync(path.dirname(file), { recursive: true });
+                fs.writeFileSync(file, content, 'utf8');
+            }
+        }
+        result.applied = true;
+        return result;
+    }
+
+    /**
+     * New content of every file a diff touches, undefined for deleted files, without writing anything
+     */
+    public computeChanges(
+        diff: string,
+        rootDir: string,
+        options: DiffApplyOptions = UnifiedDiffApplier.DEFAULT_OPTIONS
+    ): { result: DiffApplyResult; contents: Map<string, string | undefined> } {
+        const result: DiffApplyResult = {
+            applied: false,
+            changed_files: [],
+            created_files: [],
+            deleted_files: [],
+            adjustments: [],
+            rejects: []
+        };
+        // New content of every touched file, undefined once deleted, so later file diffs see earlier ones
+        const pending = new Map<string, string | undefined>();
+        const read = (file: string): string | undefined =>
+            pending.has(file) ? pending.get(file) : (fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : undefined);
+
+        const files = UnifiedDiffApplier.parse(diff);
+        if (files.length === 0) {
+            result.rejects.push({ file: '', hunk: 0, header: '', reason: 'no file diffs found', lines: [] });
+            return { result, contents: pending };
+        }
+
+        for (const file of files) {
+            const source = path.resolve(rootDir, file.old_path);
+            const target = path.resolve(rootDir, file.new_path);
+            const name = this.toRelative(rootDir, target);
+            const rejectFile = (reason: string) =>
+                result.rejects.push({ file: name, hunk: 0, header: '', reason, lines: [] });
+
+            const outside = [source, target].find(resolved => {
+                const relativePath = path.relative(rootDir, resolved);
+                return relativePath.startsWith('..') || path.isAbsolute(relativePath);
+            });
+            if (outside) {
+                rejectFile(`${outside} is outside the workspace`);
+                continue;
+            }
+
+            const current = read(source);
+            if (file.status === 'create') {
+                if (current) {
+                    rejectFile(`${name} already exists`);
+                    continue;
+                }
+                const created = this.applyHunks(name, { lines: [], eol: '\n', final_newline: true }, file.hunks, options, result);
+                if (created) {
+                    pending.set(target, this.join(created));
+                    result.created_files.push(target);
+                }
+                continue;
+            }
+
+            if (current === undefined) {
+                rejectFile(`${this.toRelative(rootDir, source)} does not exist`);
+                continue;
+            }
+
+            if (file.status === 'delete') {
+                const expected = file.hunks.flatMap(hunk => hunk.lines.filter(line => line[0] !== '+').map(line => line.substring(1)));
+                const actual = this.split(current).lines;
+                if (file.hunks.length > 0 && !this.linesEqual(expected, actual)) {
+                    rejectFile(`${name} does not match the content the diff deletes`);
+                    continue;
+                }
+                pending.set(source, undefined);
+                result.deleted_files.push(source);
+                continue;
+            }
+
+            if (file.status === 'rename' && read(target) !== undefined) {
+                rejectFile(`cannot rename ${this.toRelative(rootDir, source)}: ${name} already exists`);
+                continue;
+            }
+
+            const updated = this.applyHunks(name, this.split(current), file.hunks, options, result);
+            if (!updated) {
+                continue;
+            }
+            if (file.status === 'rename') {
+                pending.set(source, undefined);
+                result.deleted_files.push(source);
+                result.created_files.push(target);
+            } else {
+                result.changed_files.push(target);
+            }
+            pending.set(target, this.join(updated));
+        }
+
+        result.changed_files = result.changed_files.filter(file => pending.get(file) !== undefined);
+        result.created_files = result.created_files.filter(file => pending.get(file) !== undefined);
+        result.deleted_files = Array.from(new Set(result.deleted_files.filter(file => pending.get(file) === undefined)));
+        return { result, contents: pending };
+    }
+
+    /**
+     * Reject report with the reason, header and body of every rejected hunk
+     */
+    public formatRejects(result: DiffApplyResult): string {
+        return result.rejects.map(reject => {
+            const title = reject.hunk > 0 ? `${reject.file} hunk ${reject.hunk} rejected` : `${reject.file || 'diff'} rejected`;
+            return [`${title}: ${reject.reason}`, ...(reject.header ? [reject.header] : []), ...reject.lines].join('\n');
+        }).join('\n\n');
+    }
+
+    /**
+     * Apply the hunks of one file in order, recording rejects and moved or fuzzed hunks
+     * Returns undefined when a hunk is rejected
+     */
+    private applyHunks(
+        file: string,
+        content: FileLines,
+        hunks: DiffHunk[],
+        options: DiffApplyOptions,
+        result: DiffApplyResult
+    ): FileLines | undefined {
+        const lines = [...content.lines];
+        let finalNewline = content.final_newline;
+        let delta = 0;
+        let minStart = 0;
+        let rejected = false;
+
+        hunks.forEach((hunk, index) => {
+            const oldSide = hunk.lines.filter(line => line[0] !== '+').map(line => line.substring(1));
+            const newSide = hunk.lines.filter(line => line[0] !== '-').map(line => line.substring(1));
+            const leading = hunk.lines.findIndex(line => line[0] !== ' ');
+            const trailing = [...hunk.lines].reverse().findIndex(line => line[0] !== ' ');
+            // Where the header puts the hunk after earlier hunks moved the file; the search starts at the nearest valid line
+            const target = hunk.old_start > 0 ? hunk.old_start - 1 + delta + (hunk.old_lines === 0 ? 1 : 0) : minStart;
+            const expected = Math.max(minStart, Math.min(lines.length, target));
+
+            let placed: HunkAdjustment | undefined;
+            const tried = new Set<string>();
+            for (let fuzz = 0; fuzz <= options.fuzz && !placed; fuzz++) {
+                const top = Math.min(fuzz, Math.max(leading, 0));
+                const bottom = Math.min(fuzz, Math.max(trailing, 0));
+                const pattern = oldSide.slice(top, oldSide.length - bottom);
+                // Skip fuzz levels that drop no further context, and never let fuzz remove a whole hunk
+                if (tried.has(`${top}:${bottom}`) || (pattern.length === 0 && oldSide.length > 0)) {
+                    continue;
+                }
+                tried.add(`${top}:${bottom}`);
+
+                const position = this.findPattern(lines, pattern, expected + top, minStart, options.max_offset);
+                if (position < 0) {
+                    continue;
+                }
+
+                const replacement = newSide.slice(top, newSide.length - bottom);
+                lines.splice(position, pattern.length, ...replacement);
+                if (position + replacement.length === lines.length && hunk.lines.some(line => line[0] !== ' ')) {
+                    finalNewline = !hunk.no_newline_new;
+                }
+                placed = { file, hunk: index + 1, offset: position - top - target, fuzz };
+                minStart = position + replacement.length;
+                delta += placed.offset + newSide.length - oldSide.length;
+            }
+
+            if (!placed) {
+                rejected = true;
+                result.rejects.push({
+                    file,
+                    hunk: index + 1,
+                    header: hunk.header,
+                    reason: this.describeMismatch(lines, oldSide, expected, hunk, options),
+                    lines: hunk.lines
+                });
+            } else if (placed.offset !== 0 || placed.fuzz > 0) {
+                result.adjustments.push(placed);
+            }
+        });
+
+        return rejected ? undefined : { lines, eol: content.eol, final_newline: finalNewline };
+    }
+
+    /**
+     * Nearest position of pattern to expected within maxOffset lines, not before minStart; -1 when not found
+     */
+    private findPattern(lines: string[], pattern: string[], expected: number, minStart: number, maxOffset: number): number {
+        if (pattern.length === 0) {
+            return expected;
+        }
+
+        const last = lines.length - pattern.length;
+        for (let distance = 0; distance <= maxOffset; distance++) {
+            const after = expected + distance;
+            const before = expected - distance;
+            if (after > last && before < minStart) {
+                break;
+            }
+            if (after >= minStart && after <= last && this.matchesAt(lines, pattern, after)) {
+                return after;
+            }
+            if (distance > 0 && before >= minStart && before <= last && this.matchesAt(lines, pattern, before)) {
+                return before;
+            }
+        }
+        return -1;
+    }
+
+    /**
+     * Why a hunk did not apply, naming the first line that differs at the expected position
+     */
+    private describeMismatch(lines: string[], oldSide: string[], expected: number, hunk: DiffHunk, options: DiffApplyOptions): string {
+        const where = hunk.old_start > 0 ? `within ${options.max_offset} lines of line ${hunk.old_start}` : 'after the previous hunk';
+        const mismatch = oldSide.findIndex((line, index) => lines[expected + index] === undefined ||
+            lines[expected + index].trimEnd() !== line.trimEnd());
+        if (mismatch < 0) {
+            return `context not found ${where}`;
+        }
+
+        const actual = lines[expected + mismatch];
+        return `context not found ${where}; line ${expected + mismatch + 1} ` +
+            (actual === undefined ? `is past the end of the file, expected "${oldSide[mismatch].trim()}"` :
+                `is "${actual.trim()}", expected "${oldSide[mismatch].trim()}"`);
+    }
+
+    /**
+     * Whether pattern matches lines at a position, ignoring trailing whitespace
+     */
+    private matchesAt(lines: string[], pattern: string[], position: number): boolean {
+        return pattern.every((line, index) => lines[position + index].trimEnd() === line.trimEnd());
+    }
+
+    /**
+     * Whether two line lists are equal ignoring trailing whitespace
+     */
+    private linesEqual(a: string[], b: string[]): boolean {
+        return a.length === b.length && this.matchesAt(a, b, 0);
+    }
+
+    /**
+     * Split content into lines, remembering its line ending and final newline
+     */
+    private split(content: string): FileLines {
+        const lines = content ? content.split(/\r?\n/) : [];
+        const finalNewline = content.endsWith('\n');
+        if (finalNewline) {
+            lines.pop();
+        }
+        return { lines, eol: content.includes('\r\n') ? '\r\n' : '\n', final_newline: finalNewline || !content };
+    }
+
+    /**
+     * Join lines back into content
+     */
+    private join(content: FileLines): string {
+        if (content.lines.length === 0) {
+            return '';
+        }
+        return content.lines.join(content.eol) + (content.final_newline ? content.eol : '');
+    }
+
+    /**
+     * Workspace-relative path with forward slashes
+     */
+    private toRelative(rootDir: string, file: string): string {
+        return path.relative(rootDir, file).split(path.sep).join('/');
+    }
+
+    /**
+     * Path of a ---/+++ line without its a/ or b/ prefix, quotes and timestamp
+     */
+    private static cleanPath(value: string): string {
+        const file = value.split('\t')[0].trim().replace(/^"(.*)"$/, '$1');
+        return file === UnifiedDiffApplier.DEV_NULL ? file : file.replace(/^[ab]\//, '');
+    }
+}
@@ -1,11 +1,28 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { ConfigManager } from './core/ConfigManager';
 import { AIMiddleware } from './core/AIMiddleware';
 import { BuildExecutor } from './core/BuildExecutor';
 import { LogParser } from './core/LogParser';
+import { ConventionRuleEngine } from './core/ConventionRuleEngine';
+import { ConventionScanner } from './core/ConventionScanner';
+import { ConventionReportWriter } from './core/ConventionReportWriter';
+import { ConventionTreeProvider } from './core/ConventionTreeProvider';
+import { SourceRelocator } from './core/SourceRelocator';
+import { CommitGate } from './core/CommitGate';
+import { AIProviderManager } from './providers/AIProviderManager';
+import { ObsSymbolIndex } from './core/ObsSymbolIndex';
+import { ObsSymbolProvider } from './core/ObsSymbolProvider';
+import { DiagnosticPublisher } from './core/DiagnosticPublisher';
+import { BuildHistory } from './core/BuildHistory';
 import { PatchGenerator } from './core/PatchGenerator';
+import { AIResponseParser } from './core/AIResponseParser';
+import { PatchReviewProvider } from './core/PatchReviewProvider';
+import { PendingPatchTreeProvider } from './core/PendingPatchTreeProvider';
+import { SnapshotManager } from './core/SnapshotManager';
 import { TemplateManager } from './core/TemplateManager';
 import { ObsCommands } from './commands/ObsCommands';
+import { ObsChatParticipant } from './core/ObsChatParticipant';
 import { Logger } from './utils/Logger';
 import { OutputChannelManager } from './utils/OutputChannelManager';
 
@@ -13,10 +30,23 @@ let configManager: ConfigManager;
 let aiMiddleware: AIMiddleware;
 let buildExecutor: BuildExecutor;
 let logParser: LogParser;
+let conventionRuleEngine: ConventionRuleEngine;
+let conventionScanner: ConventionScanner;
+let conventionReportWriter: ConventionReportWriter;
+let conventionTree: ConventionTreeProvider;
+let sourceRelocator: SourceRelocator;
+let commitGate: CommitGate;
+let aiProviderManager: AIProviderManager;
+let symbolIndex: ObsSymbolIndex;
+let snapshotManager: SnapshotManager;
 let patchGenerator: PatchGenerator;
+let patchReview: PatchReviewProvider;
 let templateManager: TemplateManager;
 let outputChannelManager: OutputChannelManager;
+let diagnosticPublisher: DiagnosticPublisher;
+let buildHistory: BuildHistory;
 let obsCommands: ObsCommands;
+let chatParticipant: ObsChatParticipant;
 
 export function activate(context: vscode.ExtensionContext) {
     // Initialize logger
@@ -26,12 +56,35 @@ export function activate(context: vscode.ExtensionContext) {
     try {
         // Initialize core components
         configManager = new ConfigManager(context);
-        logParser = new LogParser();
-        aiMiddleware = new AIMiddleware(configManager);
+        conventionRuleEngine = new ConventionRuleEngine();
+        logParser = new LogParser(conventionRuleEngine);
+        aiProviderManager = new AIProviderManager(context.secrets);
+        symbolIndex = new ObsSymbolIndex(
+            configManager,
+            path.join((context.storageUri || context.globalStorageUri).fsPath, 'obs-symbol-index.json')
+        );
+        new ObsSymbolProvider(symbolIndex).register(context);
+        aiMiddleware = new AIMiddleware(configManager, aiProviderManager, symbolIndex);
         outputChannelManager = new OutputChannelManager('OBS Plugin Build');
-        buildExecutor = new BuildExecutor(outputChannelManager, logParser, configManager);
-        patchGenerator = new PatchGenerator();
-        templateManager = new TemplateManager();
+        diagnosticPublisher = new DiagnosticPublisher('obs-plugin');
+        context.subscriptions.push(diagnosticPublisher);
+        buildHistory = new BuildHistory(context.workspaceState);
+        buildExecutor = new BuildExecutor(outputChannelManager, logParser, configManager, diagnosticPublisher, buildHistory);
+        commitGate = new CommitGate(conventionRuleEngine, path.join(context.extensionPath, 'out', 'cli', 'preCommitCheck.js'));
+        snapshotManager = new SnapshotManager(
+            path.join((context.storageUri || context.globalStorageUri).fsPath, 'snapshots'),
+            vscode.workspace.getConfiguration('obsPlugin.snapshots').get<number>('maxCount', SnapshotManager.DEFAULT_MAX_SNAPSHOTS)
+        );
+        patchGenerator = new PatchGenerator(conventionRuleEngine, commitGate, undefined, snapshotManager);
+        patchReview = new PatchReviewProvider(patchGenerator);
+        patchReview.register(context);
+        context.subscriptions.push(vscode.window.registerTreeDataProvider('obsPendingPatches', new PendingPatchTreeProvider(patchGenerator)));
+        templateManager = new TemplateManager(snapshotManager);
+        conventionScanner = new ConventionScanner(conventionRuleEngine);
+        conventionReportWriter = new ConventionReportWriter(context.extension.packageJSON.version);
+        conventionTree = new ConventionTreeProvider();
+        sourceRelocator = new SourceRelocator();
+        context.subscriptions.push(vscode.window.registerTreeDataProvider('obsConventions', conventionTree));
 
         // Initialize command handlers
         obsCommands = new ObsCommands(
@@ -39,11 +92,34 @@ export function activate(context: vscode.ExtensionContext) {
             buildExecutor,
             aiMiddleware,
             patchGenerator,
-            templateManager
+            templateManager,
+            buildHistory,
+            conventionScanner,
+            conventionReportWriter,
+            conventionTree,
+            conventionRuleEngine,
+            sourceRelocator,
+            commitGate,
+            aiProviderManager,
+            symbolIndex,
+            new AIResponseParser(patchGenerator),
+            patchReview,
+            snapshotManager
         );
 
         // Register all commands
         obsCommands.registerCommands(context);
+        refreshSymbolIndex();
+
+        // Register the @obs chat participant
+        chatParticipant = new ObsChatParticipant(
+            aiMiddleware,
+            configManager,
+            buildHistory,
+            conventionRuleEngine,
+            () => obsCommands.getLastBuildResult()
+        );
+        chatParticipant.register(context);
 
         // Set up file watchers for configuration changes
         const configWatcher = vscode.workspace.createFileSystemWatcher('**/.obspluginrc.json');
@@ -52,10 +128,8 @@ export function activate(context: vscode.ExtensionContext) {
             vscode.window.showInformationMessage('OBS Plugin configuration changed. Reloading...');
             
             // Reload configuration
-            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-            if (workspaceRoot) {
-                await configManager.loadConfig(workspaceRoot);
-            }
+            await configManager.loadConfig(uri.fsPath);
+            refreshSymbolIndex();
         });
         context.subscriptions.push(configWatcher);
 
@@ -108,6 +182,22 @@ export function deactivate() {
     // Cleanup will be handled by disposables
 }
 
+/**
+ * Rebuild the OBS symbol index in the background if the SDK headers moved
+ * Loads the workspace configuration first when no command has loaded it yet
+ */
+async function refreshSymbolIndex() {
+    try {
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!configManager.getConfig() && workspaceRoot && configManager.hasConfiguration(workspaceRoot)) {
+            await configManager.loadConfig(path.join(workspaceRoot, '.obspluginrc.json'));
+        }
+        await symbolIndex.refresh();
+    } catch (error) {
+        Logger.error('Failed to build the OBS symbol index', error);
+    }
+}
+
 /**
  * Show welcome message for first-time users
  */
@@ -0,0 +1,23 @@
+/**
+ * Failure reported by an AI provider
+ * Carries the HTTP status and whether the request may succeed when retried
+ */
+export class AIProviderError extends Error {
+    public readonly status?: number;
+    public readonly retryable: boolean;
+    public readonly cancelled: boolean;
+    /** Delay requested by the server through Retry-After */
+    public readonly retryAfterMs?: number;
+
+    constructor(
+        message: string,
+        details: { status?: number; retryable?: boolean; cancelled?: boolean; retryAfterMs?: number } = {}
+    ) {
+        super(message);
+        this.name = 'AIProviderError';
+        this.status = details.status;
+        this.retryable = details.retryable ?? false;
+        this.cancelled = details.cancelled ?? false;
+        this.retryAfterMs = details.retryAfterMs;
+    }
+}
@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import { Logger } from '../utils/Logger';
+import { AIProvider } from '../types/ObsConfig';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { FakeAIProvider } from './FakeAIProvider';
+
+/**
+ * Creates the AI provider selected in the obsPlugin.ai settings
+ * API keys are kept in SecretStorage, never in settings or .obspluginrc.json
+ */
+export class AIProviderManager {
+    public static readonly API_KEY_SECRET = 'obsPlugin.ai.apiKey';
+
+    private override: AIProvider | undefined;
+    private readonly fakeProvider = new FakeAIProvider();
+
+    constructor(private readonly secrets: vscode.SecretStorage) {}
+
+    /**
+     * Use a fixed provider instead of the configured one
+     */
+    public useProvider(provider: AIProvider | undefined): void {
+        this.override = provider;
+    }
+
+    /**
+     * Get the configured provider, or undefined when AI requests are disabled or not set up
+     */
+    public async getProvider(): Promise<AIProvider | undefined> {
+        if (this.override) {
+            return this.override;
+        }
+
+        const settings = vscode.workspace.getConfiguration('obsPlugin.ai');
+        const kind = settings.get<string>('provider', 'openai-compatible');
+        if (kind === 'none') {
+            return undefined;
+        }
+        if (kind === 'fake') {
+            return this.fakeProvider;
+        }
+
+        const baseUrl = settings.get<string>('baseUrl', 'https://api.openai.com/v1');
+        const apiKey = await this.secrets.get(AIProviderManager.API_KEY_SECRET);
+        if (!apiKey && !this.isLocalUrl(baseUrl)) {
+            Logger.info('No AI API key is set; run "OBS Plugin: Set AI Provider API Key" to enable AI requests');
+            return undefined;
+        }
+
+        return new OpenAICompatibleProvider({
+            baseUrl,
+            model: settings.get<string>('model', 'gpt-4o-mini'),
+            apiKey,
+            timeoutMs: settings.get<number>('timeoutSeconds', 120) * 1000,
+            maxRetries: settings.get<number>('maxRetries', 2)
+        });
+    }
+
+    /**
+     * Store the API key, or remove it when empty
+     */
+    public async setApiKey(apiKey: string): Promise<void> {
+        if (apiKey) {
+            await this.secrets.store(AIProviderManager.API_KEY_SECRET, apiKey);
+            Logger.info('Stored AI provider API key');
+        } else {
+            await this.secrets.delete(AIProviderManager.API_KEY_SECRET);
+            Logger.info('Removed AI provider API key');
+        }
+    }
+
+    /**
+     * Local servers such as Ollama or LM Studio usually need no API key
+     */
+    private isLocalUrl(baseUrl: string): boolean {
+        try {
+            return ['localhost', '127.0.0.1', '[::1]'].includes(new URL(baseUrl).hostname);
+        } catch (error) {
+            return false;
+        }
+    }
+}
@@ -0,0 +1,55 @@
+import { AICancellationToken, AIChatRequest, AIChatResponse, AIProvider } from '../types/ObsConfig';
+import { AIProviderError } from './AIProviderError';
+
+/**
+ * A scripted reply: fixed content, an error to throw, or a function of the request
+ */
+export type FakeAIReply = string | Error | ((request: AIChatRequest) => string);
+
+/**
+ * Offline provider that records requests and answers with scripted replies
+ * Used by tests and to try the AI commands without a model
+ */
+export class FakeAIProvider implements AIProvider {
+    public readonly id = 'fake';
+    public readonly requests: AIChatRequest[] = [];
+    private readonly replies: FakeAIReply[];
+
+    constructor(replies: FakeAIReply[] = []) {
+        this.replies = [...replies];
+    }
+
+    /**
+     * Queue a reply for the next request
+     */
+    public enqueue(reply: FakeAIReply): void {
+        this.replies.push(reply);
+    }
+
+    /**
+     * Answer with the next scripted reply, or echo the last user message when none is queued
+     */
+    public async complete(request: AIChatRequest, token?: AICancellationToken): Promise<AIChatResponse> {
+        if (token?.isCancellationRequested) {
+            throw new AIProviderError('AI request cancelled', { cancelled: true });
+        }
+        this.requests.push(request);
+
+        const reply = this.replies.shift();
+        if (reply instanceof Error) {
+            throw reply;
+        }
+
+        const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user');
+        const content = typeof reply === 'function'
+            ? reply(request)
+            : reply ?? `Fake response to: ${(lastUserMessage?.content || '').split('\n')[0]}`;
+
+        return {
+            content,
+            model: 'fake',
+            finish_reason: 'stop',
+            usage: { prompt_tokens: 0, completion_tokens: 0 }
+        };
+    }
+}
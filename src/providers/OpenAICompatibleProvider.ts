@@ -0,0 +1,181 @@
+import * as http from 'http';
+import * as https from 'https';
+import { Logger } from '../utils/Logger';
+import { AICancellationToken, AIChatRequest, AIChatResponse, AIProvider } from '../types/ObsConfig';
+import { AIProviderError } from './AIProviderError';
+
+/**
+ * Connection settings of an OpenAI-compatible endpoint
+ */
+export interface OpenAICompatibleOptions {
+    /** Base URL including the API version, such as https://api.openai.com/v1 or http://localhost:11434/v1 */
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+    timeoutMs?: number;
+    maxRetries?: number;
+    /** Delay before the first retry, doubled for each further attempt */
+    retryDelayMs?: number;
+}
+
+/**
+ * Chat completions client for OpenAI and compatible servers such as Ollama, LM Studio or vLLM
+ * Retries rate limits, server errors, timeouts and dropped connections
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+    public readonly id = 'openai-compatible';
+
+    constructor(private readonly options: OpenAICompatibleOptions) {}
+
+    /**
+     * Send a chat completion request
+     */
+    public async complete(request: AIChatRequest, token?: AICancellationToken): Promise<AIChatResponse> {
+        const maxRetries = this.options.maxRetries ?? 2;
+        const body = JSON.stringify({
+            model: this.options.model,
+            messages: request.messages,
+            temperature: request.temperature,
+            max_tokens: request.max_tokens,
+            stream: false
+        });
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const responseBody = await this.post(body, token);
+                return this.parseResponse(responseBody);
+            } catch (error) {
+                if (!(error instanceof AIProviderError) || !error.retryable || attempt >= maxRetries) {
+                    throw error;
+                }
+
+                const delay = error.retryAfterMs ?? (this.options.retryDelayMs ?? 1000) * 2 ** attempt;
+                Logger.info(`AI request failed (${error.message}), retrying in ${delay}ms`);
+                await this.wait(delay, token);
+            }
+        }
+    }
+
+    /**
+     * POST the request body to the chat completions endpoint
+     */
+    private post(body: string, token?: AICancellationToken): Promise<string> {
+        return new Promise((resolve, reject) => {
+            if (token?.isCancellationRequested) {
+                reject(new AIProviderError('AI request cancelled', { cancelled: true }));
+                return;
+            }
+
+            const url = new URL(`${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`);
+            const headers: Record<string, string | number> = {
+                'Content-Type': 'application/json',
+                'Content-Length': Buffer.byteLength(body)
+            };
+            if (this.options.apiKey) {
+                headers.Authorization = `Bearer ${this.options.apiKey}`;
+            }
+
+            const client = url.protocol === 'http:' ? http : https;
+            const req = client.request(url, { method: 'POST', headers }, response => {
+                const chunks: Buffer[] = [];
+                response.on('data', (chunk: Buffer) => chunks.push(chunk));
+                response.on('end', () => {
+                    cleanup();
+                    const text = Buffer.concat(chunks).toString('utf8');
+                    const status = response.statusCode || 0;
+                    if (status >= 200 && status < 300) {
+                        resolve(text);
+                    } else {
+                        reject(this.createHttpError(status, text, response.headers['retry-after']));
+                    }
+                });
+                response.on('error', error => {
+                    cleanup();
+                    reject(new AIProviderError(`AI response failed: ${error.message}`, { retryable: true }));
+                });
+            });
+
+            const timeoutMs = this.options.timeoutMs ?? 60000;
+            const timer = setTimeout(() => {
+                req.destroy(new AIProviderError(`AI request timed out after ${timeoutMs}ms`, { retryable: true }));
+            }, timeoutMs);
+            const cancellation = token?.onCancellationRequested(() => {
+                req.destroy(new AIProviderError('AI request cancelled', { cancelled: true }));
+            });
+            const cleanup = () => {
+                clearTimeout(timer);
+                cancellation?.dispose();
+            };
+
+            req.on('error', error => {
+                cleanup();
+                reject(error instanceof AIProviderError
+                    ? error
+                    : new AIProviderError(`AI request failed: ${error.message}`, { retryable: true }));
+            });
+            req.end(body);
+        });
+    }
+
+    /**
+     * Extract the assistant message from a chat completions response
+     */
+    private parseResponse(body: string): AIChatResponse {
+        let json: any;
+        try {
+            json = JSON.parse(body);
+        } catch (error) {
+            throw new AIProviderError('AI response is not valid JSON');
+        }
+
+        const choice = json?.choices?.[0];
+        if (typeof choice?.message?.content !== 'string') {
+            throw new AIProviderError('AI response contains no message');
+        }
+
+        return {
+            content: choice.message.content,
+            model: json.model || this.options.model,
+            finish_reason: choice.finish_reason || undefined,
+            usage: json.usage ? {
+                prompt_tokens: json.usage.prompt_tokens || 0,
+                completion_tokens: json.usage.completion_tokens || 0
+            } : undefined
+        };
+    }
+
+    /**
+     * Map an HTTP error response to an AIProviderError
+     */
+    private createHttpError(status: number, body: string, retryAfter?: string): AIProviderError {
+        let detail = body.trim().substring(0, 200);
+        try {
+            detail = JSON.parse(body)?.error?.message || detail;
+        } catch (error) {
+            // Keep the raw body as the detail
+        }
+
+        const retryAfterSeconds = retryAfter !== undefined ? Number(retryAfter) : NaN;
+        return new AIProviderError(`AI provider returned HTTP ${status}: ${detail}`, {
+            status,
+            retryable: status === 408 || status === 429 || status >= 500,
+            retryAfterMs: Number.isFinite(retryAfterSeconds) ? retryAfterSeconds * 1000 : undefined
+        });
+    }
+
+    /**
+     * Wait between retries, ending early when cancelled
+     */
+    private wait(ms: number, token?: AICancellationToken): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                cancellation?.dispose();
+                resolve();
+            }, ms);
+            const cancellation = token?.onCancellationRequested(() => {
+                clearTimeout(timer);
+                reject(new AIProviderError('AI request cancelled', { cancelled: true }));
+            });
+        });
+    }
+}
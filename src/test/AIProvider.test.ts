@@ -0,0 +1,179 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAICompatibleProvider } from '../providers/OpenAICompatibleProvider';
+import { FakeAIProvider } from '../providers/FakeAIProvider';
+import { AIProviderError } from '../providers/AIProviderError';
+import { AIProviderManager } from '../providers/AIProviderManager';
+import { AIMiddleware } from '../core/AIMiddleware';
+import { ConfigManager } from '../core/ConfigManager';
+import { AICancellationToken, BuildError, ObsConfig } from '../types/ObsConfig';
+
+/**
+ * A request received by the local chat completions stand-in
+ */
+interface RecordedRequest {
+    url: string;
+    authorization?: string;
+    body: any;
+}
+
+/**
+ * Test suite for the AI provider layer
+ * Runs the OpenAI-compatible provider and the fix flow against a local HTTP stand-in
+ */
+suite('AIProvider Tests', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let requests: RecordedRequest[];
+    let handlers: Array<(response: http.ServerResponse, request: RecordedRequest) => void>;
+
+    setup(async () => {
+        requests = [];
+        handlers = [];
+        server = http.createServer((req, res) => {
+            const chunks: Buffer[] = [];
+            req.on('data', chunk => chunks.push(chunk));
+            req.on('end', () => {
+                const recorded: RecordedRequest = {
+                    url: req.url || '',
+                    authorization: req.headers.authorization,
+                    body: JSON.parse(Buffer.concat(chunks).toString('utf8'))
+                };
+                requests.push(recorded);
+                const handler = handlers.shift() || reply('default reply');
+                handler(res, recorded);
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+    });
+
+    teardown(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    /**
+     * Handler answering with a chat completion
+     */
+    function reply(content: string): (response: http.ServerResponse) => void {
+        return response => {
+            response.writeHead(200, { 'Content-Type': 'application/json' });
+            response.end(JSON.stringify({
+                model: 'stand-in-model',
+                choices: [{ message: { role: 'assistant', content }, finish_reason: 'stop' }],
+                usage: { prompt_tokens: 12, completion_tokens: 3 }
+            }));
+        };
+    }
+
+    /**
+     * Handler answering with an HTTP error
+     */
+    function fail(status: number, headers: Record<string, string> = {}): (response: http.ServerResponse) => void {
+        return response => {
+            response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+            response.end(JSON.stringify({ error: { message: `status ${status}` } }));
+        };
+    }
+
+    /**
+     * Cancellation token that can be triggered from the test
+     */
+    function createToken(): AICancellationToken & { cancel(): void } {
+        const listeners: Array<() => void> = [];
+        return {
+            isCancellationRequested: false,
+            onCancellationRequested(listener: () => void) {
+                listeners.push(listener);
+                return { dispose: () => listeners.splice(listeners.indexOf(listener), 1) };
+            },
+            cancel() {
+                this.isCancellationRequested = true;
+                [...listeners].forEach(listener => listener());
+            }
+        };
+    }
+
+    test('Should send chat completions and parse the reply', async () => {
+        handlers.push(reply('Add #pragma once'));
+        const provider = new OpenAICompatibleProvider({ baseUrl, model: 'test-model', apiKey: 'secret' });
+
+        const response = await provider.complete({ messages: [{ role: 'user', content: 'Fix it' }], temperature: 0 });
+
+        assert.strictEqual(response.content, 'Add #pragma once');
+        assert.strictEqual(response.model, 'stand-in-model');
+        assert.deepStrictEqual(response.usage, { prompt_tokens: 12, completion_tokens: 3 });
+        assert.strictEqual(requests[0].url, '/v1/chat/completions');
+        assert.strictEqual(requests[0].authorization, 'Bearer secret');
+        assert.strictEqual(requests[0].body.model, 'test-model');
+        assert.deepStrictEqual(requests[0].body.messages, [{ role: 'user', content: 'Fix it' }]);
+    });
+
+    test('Should retry server errors but not client errors', async () => {
+        handlers.push(fail(500), fail(429, { 'Retry-After': '0' }), reply('third time'));
+        const provider = new OpenAICompatibleProvider({ baseUrl, model: 'm', maxRetries: 2, retryDelayMs: 1 });
+
+        const response = await provider.complete({ messages: [{ role: 'user', content: 'hi' }] });
+        assert.strictEqual(response.content, 'third time');
+        assert.strictEqual(requests.length, 3);
+
+        handlers.push(fail(400));
+        await assert.rejects(
+            provider.complete({ messages: [{ role: 'user', content: 'hi' }] }),
+            (error: AIProviderError) => error.status === 400 && !error.retryable && error.message.includes('status 400')
+        );
+        assert.strictEqual(requests.length, 4);
+    });
+
+    test('Should time out and cancel requests', async () => {
+        const hang = () => { /* never answer */ };
+        handlers.push(hang, hang);
+        const provider = new OpenAICompatibleProvider({ baseUrl, model: 'm', timeoutMs: 50, maxRetries: 0 });
+
+        await assert.rejects(
+            provider.complete({ messages: [{ role: 'user', content: 'hi' }] }),
+            (error: AIProviderError) => error.retryable && /timed out/.test(error.message)
+        );
+
+        const token = createToken();
+        const slowProvider = new OpenAICompatibleProvider({ baseUrl, model: 'm', timeoutMs: 10000 });
+        const pending = slowProvider.complete({ messages: [{ role: 'user', content: 'hi' }] }, token);
+        setTimeout(() => token.cancel(), 20);
+        await assert.rejects(pending, (error: AIProviderError) => error.cancelled);
+    });
+
+    test('Should run the fix flow end to end through AIMiddleware', async () => {
+        handlers.push(reply('Add `#pragma once` to src/filter.hpp'));
+        const config = {
+            coding_conventions: { header_extension: '.hpp', ui_components_dir: 'ui', use_pragma_once: true },
+            platform_profiles: {},
+            ai_prompts: {}
+        } as unknown as ObsConfig;
+        const configManager = { getConfig: () => config } as unknown as ConfigManager;
+        const providerManager = new AIProviderManager({} as any);
+        providerManager.useProvider(new OpenAICompatibleProvider({ baseUrl, model: 'm' }));
+        const middleware = new AIMiddleware(configManager, providerManager);
+
+        const errors: Partial<BuildError>[] = [
+            { file: 'src/filter.cpp', line: 3, column: 1, severity: 'error', message: "redefinition of 'struct Filter'" }
+        ];
+        const suggestion = await middleware.getFixSuggestions(errors);
+
+        assert.strictEqual(suggestion, 'Add `#pragma once` to src/filter.hpp');
+        const [system, user] = requests[0].body.messages;
+        assert.strictEqual(system.role, 'system');
+        assert.ok(system.content.includes('.hpp'));
+        assert.ok(user.content.includes("src/filter.cpp:3:1 - error: redefinition of 'struct Filter'"));
+    });
+
+    test('Should script replies with the fake provider', async () => {
+        const provider = new FakeAIProvider(['first', new AIProviderError('boom')]);
+
+        assert.strictEqual((await provider.complete({ messages: [{ role: 'user', content: 'a' }] })).content, 'first');
+        await assert.rejects(provider.complete({ messages: [] }), /boom/);
+        assert.strictEqual((await provider.complete({ messages: [{ role: 'user', content: 'echo me\nmore' }] })).content,
+            'Fake response to: echo me');
+        assert.strictEqual(provider.requests.length, 3);
+    });
+});
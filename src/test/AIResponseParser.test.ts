@@ -0,0 +1,161 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AIResponseParser } from '../core/AIResponseParser';
+import { PatchGenerator } from '../core/PatchGenerator';
+import { PromptRedactor } from '../core/PromptRedactor';
+
+/**
+ * Test suite for turning AI responses into patches
+ */
+suite('AIResponseParser Tests', () => {
+    const FILTER_SOURCE = [
+        '#include "filter.hpp"',
+        '',
+        'void Filter::update(obs_data_t *settings)',
+        '{',
+        '    width = obs_data_get_int(settings, "width");',
+        '}',
+        ''
+    ].join('\n');
+
+    let root: string;
+    let parser: AIResponseParser;
+    let patchGenerator: PatchGenerator;
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'obs-response-'));
+        fs.mkdirSync(path.join(root, 'src'));
+        fs.writeFileSync(path.join(root, 'src', 'filter.cpp'), FILTER_SOURCE);
+        patchGenerator = new PatchGenerator();
+        parser = new AIResponseParser(patchGenerator);
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('Should extract SEARCH/REPLACE blocks with the path above the block, in the info string or inside it', () => {
+        const response = [
+            'Update the width handling in **src/filter.cpp**:',
+            '',
+            '```cpp',
+            '<<<<<<< SEARCH',
+            '    width = 0;',
+            '=======',
+            '    width = 1;',
+            '>>>>>>> REPLACE',
+            '```',
+            '',
+            '```cpp src/filter.hpp',
+            'src/plugin-main.cpp',
+            '<<<<<<< SEARCH',
+            'a',
+            '=======',
+            'b',
+            '>>>>>>> REPLACE',
+            '```'
+        ].join('\n');
+
+        const changes = AIResponseParser.extractChanges(response);
+
+        assert.deepStrictEqual(changes.map(change => [change.kind, change.files[0]]), [
+            ['search_replace', 'src/filter.cpp'],
+            ['search_replace', 'src/plugin-main.cpp']
+        ]);
+        assert.deepStrictEqual(AIResponseParser.parseSearchReplace(changes[0].content), [{ search: '    width = 0;', replace: '    width = 1;' }]);
+    });
+
+    test('Should create one patch per change and apply search/replace edits and new files', async () => {
+        const response = [
+            '```cpp src/filter.cpp',
+            '<<<<<<< SEARCH',
+            '    width = obs_data_get_int(settings, "width");',
+            '=======',
+            '    width = (int)obs_data_get_int(settings, "width");',
+            '    height = (int)obs_data_get_int(settings, "height");',
+            '>>>>>>> REPLACE',
+            '<<<<<<< SEARCH',
+            '#include "filter.hpp"  ',
+            '=======',
+            '#include "filter.hpp"',
+            '#include <util/bmem.h>',
+            '>>>>>>> REPLACE',
+            '```',
+            '',
+            '```hpp <WORKSPACE>/src/ui/settings-dock.hpp',
+            '#pragma once',
+            '```'
+        ].join('\n');
+
+        const { patches, rejected } = parser.createPatches(AIResponseParser.extractChanges(response), root, new PromptRedactor({ workspaceRoot: root }));
+
+        assert.deepStrictEqual(rejected, []);
+        assert.deepStrictEqual(patches.map(patch => patch.description), [
+            '2 search/replace edit(s) in src/filter.cpp',
+            'Create src/ui/settings-dock.hpp'
+        ]);
+        assert.deepStrictEqual(patches[1].new_files, [path.join(root, 'src', 'ui', 'settings-dock.hpp')]);
+
+        for (const patch of patches) {
+            assert.ok(await patchGenerator.applyPatch(patch));
+        }
+        assert.strictEqual(fs.readFileSync(path.join(root, 'src', 'filter.cpp'), 'utf8'), [
+            '#include "filter.hpp"',
+            '#include <util/bmem.h>',
+            '',
+            'void Filter::update(obs_data_t *settings)',
+            '{',
+            '    width = (int)obs_data_get_int(settings, "width");',
+            '    height = (int)obs_data_get_int(settings, "height");',
+            '}',
+            ''
+        ].join('\n'));
+        assert.strictEqual(fs.readFileSync(path.join(root, 'src', 'ui', 'settings-dock.hpp'), 'utf8'), '#pragma once\n');
+    });
+
+    test('Should accept rename diffs whose source exists and reject those whose source is missing', () => {
+        const renameDiff = (from: string, to: string) => [
+            `diff --git a/${from} b/${to}`,
+            'similarity index 90%',
+            `rename from ${from}`,
+            `rename to ${to}`,
+            `--- a/${from}`,
+            `+++ b/${to}`,
+            '@@ -1,2 +1,2 @@',
+            '-#include "filter.hpp"',
+            '+#include "video-filter.hpp"',
+            ' ',
+            ''
+        ].join('\n');
+        const changes = AIResponseParser.extractChanges([
+            '```diff', renameDiff('src/filter.cpp', 'src/video-filter.cpp'), '```',
+            '```diff', renameDiff('src/old.cpp', 'src/new.cpp'), '```'
+        ].join('\n'));
+
+        const { patches, rejected } = parser.createPatches(changes, root);
+
+        assert.deepStrictEqual(changes[0].files, ['src/filter.cpp', 'src/video-filter.cpp']);
+        assert.strictEqual(patches.length, 1);
+        assert.strictEqual(patches[0].type, 'unified_diff');
+        assert.deepStrictEqual(rejected.map(change => change.reason), [`diff targets missing files: ${path.join('src', 'old.cpp')}`]);
+    });
+
+    test('Should reject changes outside the workspace, diffs of missing files and unmatched searches', () => {
+        const { patches, rejected } = parser.createPatches([
+            { kind: 'file_content', files: ['../elsewhere/evil.cpp'], content: '' },
+            { kind: 'unified_diff', files: ['src/missing.cpp'], content: '--- a/src/missing.cpp\n+++ b/src/missing.cpp\n@@ -1 +1 @@\n-a\n+b\n' },
+            { kind: 'search_replace', files: ['src/filter.cpp'], content: '<<<<<<< SEARCH\nnot there\n=======\nx\n>>>>>>> REPLACE\n' },
+            { kind: 'search_replace', files: ['src/filter.cpp'], content: '<<<<<<< SEARCH\nwidth\n=======\nheight\n>>>>>>> REPLACE\n' }
+        ], root);
+
+        assert.strictEqual(patches.length, 0);
+        assert.deepStrictEqual(rejected.map(change => change.reason), [
+            `${path.join(path.dirname(root), 'elsewhere', 'evil.cpp')} is outside the workspace`,
+            `diff targets missing files: ${path.join('src', 'missing.cpp')}`,
+            'SEARCH text not found in filter.cpp: not there',
+            'SEARCH text matches more than once in filter.cpp: width'
+        ]);
+    });
+});
@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { BuildHistory } from '../core/BuildHistory';
+import { ErrorFingerprint } from '../utils/ErrorFingerprint';
+import { BuildError, BuildResult } from '../types/ObsConfig';
+
+/**
+ * Test suite for BuildHistory and ErrorFingerprint
+ * Tests fingerprint stability and build comparisons
+ */
+suite('BuildHistory Tests', () => {
+    const workspaceRoot = '/home/dev/my-plugin';
+    let history: BuildHistory;
+
+    setup(() => {
+        const values = new Map<string, any>();
+        const storage = {
+            keys: () => Array.from(values.keys()),
+            get: (key: string, defaultValue?: any) => values.has(key) ? values.get(key) : defaultValue,
+            update: async (key: string, value: any) => { values.set(key, value); }
+        } as vscode.Memento;
+        history = new BuildHistory(storage);
+    });
+
+    /**
+     * Create a compiler error
+     */
+    function createError(file: string, line: number, message: string): BuildError {
+        return { file, line, column: 5, severity: 'error', message, raw: '' };
+    }
+
+    /**
+     * Create a fingerprinted build result
+     */
+    function createResult(errors: BuildError[]): BuildResult {
+        ErrorFingerprint.assign(errors, workspaceRoot);
+        return {
+            success: errors.length === 0,
+            exit_code: errors.length === 0 ? 0 : 1,
+            stdout: '',
+            stderr: '',
+            duration: 1000,
+            errors,
+            cmake_preset: 'linux-x86_64',
+            build_command: 'cmake --build --preset linux-x86_64'
+        };
+    }
+
+    test('Fingerprint ignores line drift and workspace location', () => {
+        const before = createError('/home/dev/my-plugin/src/plugin-main.cpp', 12, "'obs_source_t' was not declared in this scope");
+        const after = createError('/builds/ci/my-plugin/src/plugin-main.cpp', 40, "'obs_source_t' was not declared in this scope");
+
+        assert.strictEqual(
+            ErrorFingerprint.compute(before, workspaceRoot),
+            ErrorFingerprint.compute(after, '/builds/ci/my-plugin')
+        );
+    });
+
+    test('Fingerprint distinguishes messages and numbers repeats', () => {
+        const errors = [
+            createError('src/a.cpp', 1, 'expected ; before }'),
+            createError('src/a.cpp', 9, 'expected ; before }'),
+            createError('src/a.cpp', 3, "unknown type name 'foo'")
+        ];
+        ErrorFingerprint.assign(errors, workspaceRoot);
+
+        assert.strictEqual(errors[1].fingerprint, `${errors[0].fingerprint}-2`);
+        assert.notStrictEqual(errors[2].fingerprint, errors[0].fingerprint);
+    });
+
+    test('Should diff two builds into new, fixed and persisting errors', async () => {
+        const first = await history.record(createResult([
+            createError('src/a.cpp', 10, 'use of undeclared identifier obs_log'),
+            createError('src/b.cpp', 20, "no member named 'update' in 'obs_source_info'")
+        ]));
+        const second = await history.record(createResult([
+            createError('src/a.cpp', 14, 'use of undeclared identifier obs_log'),
+            createError('src/c.cpp', 5, 'expected expression')
+        ]));
+
+        const comparison = history.compare(first.id, second.id)!;
+        assert.strictEqual(comparison.new_errors.length, 1);
+        assert.strictEqual(comparison.new_errors[0].file, 'src/c.cpp');
+        assert.strictEqual(comparison.fixed_errors.length, 1);
+        assert.strictEqual(comparison.fixed_errors[0].file, 'src/b.cpp');
+        assert.strictEqual(comparison.persisting_errors.length, 1);
+        assert.strictEqual(BuildHistory.summarize(comparison), '1 fixed, 1 new, 1 still present');
+    });
+
+    test('Should keep entries newest first', async () => {
+        await history.record(createResult([]));
+        const latest = await history.record(createResult([createError('src/a.cpp', 1, 'oops')]));
+
+        assert.strictEqual(history.getEntries().length, 2);
+        assert.strictEqual(history.getLatest()!.id, latest.id);
+        assert.strictEqual(history.getLatest()!.error_count, 1);
+    });
+});
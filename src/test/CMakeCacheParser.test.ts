@@ -148,4 +148,28 @@ Qt6_DIR:PATH=/another/valid/path
         assert.strictEqual(result.dependencies.obs_studio_dir, '/valid/path');
         assert.strictEqual(result.dependencies.qt6_dir, '/another/valid/path');
     });
-});
\ No newline at end of file
+
+    test('should read raw cache entries', () => {
+        const cacheContent = `
+// Generator used
+CMAKE_GENERATOR:INTERNAL=Ninja
+obs-frontend-api_DIR:PATH=obs-frontend-api_DIR-NOTFOUND
+`;
+
+        fs.writeFileSync(path.join(tempDir, 'CMakeCache.txt'), cacheContent);
+
+        const entries = parser.readCacheEntries(tempDir);
+
+        assert.strictEqual(entries.CMAKE_GENERATOR, 'Ninja');
+        assert.strictEqual(entries['obs-frontend-api_DIR'], 'obs-frontend-api_DIR-NOTFOUND');
+        assert.deepStrictEqual(parser.readCacheEntries(path.join(tempDir, 'missing')), {});
+    });
+
+    test('should map packages to dependency keys', () => {
+        assert.strictEqual(parser.getDependencyKeyForPackage('obs-frontend-api'), 'obs_frontend_api_dir');
+        assert.strictEqual(parser.getDependencyKeyForPackage('Qt6Widgets'), 'qt6_widgets_dir');
+        assert.strictEqual(parser.getDependencyKeyForPackage('Qt6Gui'), 'qt6_dir');
+        assert.strictEqual(parser.getDependencyKeyForPackage('CURL'), undefined);
+    });
+});
+
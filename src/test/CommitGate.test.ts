@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommitGate } from '../core/CommitGate';
+import { CodingConventions } from '../types/ObsConfig';
+
+/**
+ * Test suite for CommitGate
+ * Tests checking staged files, auto-fixing and re-staging, and blocking severities
+ */
+suite('CommitGate Tests', () => {
+    let gate: CommitGate;
+    let tempDir: string;
+
+    setup(() => {
+        gate = new CommitGate();
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'commit-gate-test-'));
+        git('init', '-q');
+    });
+
+    teardown(() => {
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    /**
+     * Run git in the temporary workspace
+     */
+    function git(...args: string[]): string {
+        return cp.execFileSync('git', args, { cwd: tempDir, encoding: 'utf8' });
+    }
+
+    /**
+     * Create a file below the temporary workspace
+     */
+    function writeFile(relativePath: string, content: string): void {
+        const fullPath = path.join(tempDir, relativePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    }
+
+    test('Should check only staged files and block on remaining violations', async () => {
+        const conventions: Partial<CodingConventions> = { namespace: 'obs_plugin' };
+        writeFile('src/filter.hpp', 'namespace obs_plugin {\nclass Filter {};\n}\n');
+        writeFile('src/plugin.cpp', 'void helper();\n');
+        writeFile('src/unstaged.cpp', '// 未暂存\n');
+        git('add', 'src/filter.hpp', 'src/plugin.cpp');
+
+        const result = await gate.check(tempDir, conventions);
+
+        assert.deepStrictEqual(result.files.sort(), ['src/filter.hpp', 'src/plugin.cpp']);
+        assert.deepStrictEqual(result.fixed, { 'src/filter.hpp': ['missing_pragma_once'] });
+        assert.deepStrictEqual(result.blocking.map(violation => violation.type), ['missing_namespace']);
+        assert.strictEqual(result.passed, false);
+        assert.ok(git('show', ':src/filter.hpp').startsWith('#pragma once'));
+        assert.ok(gate.formatReport(result).includes("src/plugin.cpp:1 [warning] missing_namespace: Move 'helper' into namespace obs_plugin"));
+    });
+
+    test('Should not auto-fix partially staged files', async () => {
+        writeFile('src/filter.hpp', 'class Filter {};\n');
+        git('add', 'src/filter.hpp');
+        writeFile('src/filter.hpp', 'class Filter {};\nclass Unstaged {};\n');
+
+        const result = await gate.check(tempDir, {});
+
+        assert.deepStrictEqual(result.fixed, {});
+        assert.deepStrictEqual(result.blocking.map(violation => violation.type), ['missing_pragma_once']);
+        assert.strictEqual(git('show', ':src/filter.hpp'), 'class Filter {};\n');
+    });
+
+    test('Should honor commit_gate settings', async () => {
+        writeFile('src/plugin.cpp', '// 初始化\n');
+        writeFile('.obspluginrc.json', JSON.stringify({ coding_conventions: { commit_gate: { block_on: 'error' } } }));
+        git('add', '.');
+
+        const result = await gate.check(tempDir);
+        assert.strictEqual(result.violations.length, 1);
+        assert.strictEqual(result.passed, true);
+
+        const disabled = await gate.check(tempDir, { commit_gate: { enabled: false } });
+        assert.deepStrictEqual(disabled.files, []);
+        assert.strictEqual(disabled.passed, true);
+    });
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ContextBudgeter } from '../core/ContextBudgeter';
+import { AIMiddleware } from '../core/AIMiddleware';
+import { ConfigManager } from '../core/ConfigManager';
+import { ContextCandidate, ObsConfig } from '../types/ObsConfig';
+
+/**
+ * Test suite for token-budgeted AI context assembly
+ */
+suite('ContextBudgeter Tests', () => {
+    let budgeter: ContextBudgeter;
+
+    setup(() => {
+        budgeter = new ContextBudgeter();
+    });
+
+    /**
+     * Numbered lines of the given width, so sizes are easy to reason about
+     */
+    function numberedLines(count: number, width: number = 15): string {
+        return Array.from({ length: count }, (_, index) => `line ${index}`.padEnd(width, '.')).join('\n');
+    }
+
+    test('Should estimate about four characters per token', () => {
+        assert.strictEqual(ContextBudgeter.estimateTokens(''), 0);
+        assert.strictEqual(ContextBudgeter.estimateTokens('abcd'), 1);
+        assert.strictEqual(ContextBudgeter.estimateTokens('abcde'), 2);
+    });
+
+    test('Should fill the budget in priority order and record dropped contexts', () => {
+        const candidates: ContextCandidate[] = [
+            { id: 'conventions', kind: 'conventions', content: 'x'.repeat(400) },
+            { id: 'src/main.cpp', kind: 'active_file', content: 'y'.repeat(200) },
+            { id: 'src/main.cpp', kind: 'error_site', content: 'z'.repeat(200), start_line: 4, focus_line: 10 }
+        ];
+
+        const { selected, report } = budgeter.fill(candidates, 150, 20);
+
+        assert.deepStrictEqual(selected.map(candidate => candidate.kind), ['error_site', 'active_file']);
+        assert.strictEqual(report.reserved_tokens, 20);
+        assert.strictEqual(report.used_tokens, 120);
+        assert.deepStrictEqual(report.dropped, [{ id: 'conventions', kind: 'conventions', tokens: 100, truncated: false }]);
+    });
+
+    test('Should keep the tail of the build log and the lines around the cursor', () => {
+        const log = numberedLines(100);
+        const file = numberedLines(100);
+
+        const [active] = budgeter.fill([{ id: 'src/main.cpp', kind: 'active_file', content: file, start_line: 0, focus_line: 50 }], 100).selected;
+        const { selected, report } = budgeter.fill([{ id: 'build_log', kind: 'build_log', content: log }], 100);
+
+        assert.ok(active.content.includes('line 50'));
+        assert.ok(!active.content.includes('line 0.'));
+        assert.strictEqual(active.start_line, Number(/^line (\d+)/.exec(active.content)![1]));
+        assert.ok(selected[0].content.endsWith(log.split('\n')[99]));
+        assert.ok(!selected[0].content.includes('line 0.'));
+        assert.ok(report.included[0].truncated);
+        assert.ok(report.used_tokens <= 100);
+    });
+
+    test('Should keep the envelope within the configured budget', async () => {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), 'obs-budget-'));
+        try {
+            const source = path.join(root, 'filter.cpp');
+            fs.writeFileSync(source, numberedLines(40, 30));
+            const config = {
+                coding_conventions: { header_extension: '.hpp', ui_components_dir: 'ui', use_pragma_once: true },
+                platform_profiles: {},
+                ai_prompts: {}
+            } as unknown as ObsConfig;
+            const middleware = new AIMiddleware({ getConfig: () => config } as unknown as ConfigManager);
+            middleware.updateBuildLog(numberedLines(200000, 40));
+
+            const errorContexts = await middleware.collectErrorContexts([{ file: source, line: 20, severity: 'error', message: 'boom' }]);
+            const envelope = middleware.createRequestEnvelope('fix', 'Fix the error', undefined, { errorContexts });
+
+            assert.strictEqual(envelope.file_contexts.length, 1);
+            assert.strictEqual(envelope.file_contexts[0].start_line, 13);
+            assert.ok(envelope.file_contexts[0].snippet.startsWith('line 13'));
+            assert.ok(envelope.recent_build_log!.endsWith(numberedLines(200000, 40).slice(-40)));
+            assert.ok(envelope.estimated_tokens! < 8500);
+            assert.strictEqual(envelope.context_budget!.budget_tokens, 8000);
+            assert.deepStrictEqual(envelope.context_budget!.dropped.map(item => item.kind), ['conventions']);
+            assert.strictEqual(envelope.coding_conventions, undefined);
+        } finally {
+            fs.rmSync(root, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import { ConventionRuleEngine } from '../core/ConventionRuleEngine';
+import { GlobMatcher } from '../utils/GlobMatcher';
+import { CodingConventions } from '../types/ObsConfig';
+
+/**
+ * Test suite for ConventionRuleEngine
+ * Tests built-in rules, rule configuration and custom pattern rules
+ */
+suite('ConventionRuleEngine Tests', () => {
+    const workspaceRoot = '/home/dev/my-plugin';
+    let engine: ConventionRuleEngine;
+
+    setup(() => {
+        engine = new ConventionRuleEngine();
+    });
+
+    test('Should report built-in violations', () => {
+        const violations = engine.validate(`${workspaceRoot}/src/MySource.h`, 'struct MySource {};\n', {}, workspaceRoot);
+        const types = violations.map(violation => violation.type).sort();
+
+        assert.deepStrictEqual(types, ['missing_pragma_once', 'wrong_header_extension']);
+        assert.strictEqual(violations.find(v => v.type === 'missing_pragma_once')!.auto_fixable, true);
+    });
+
+    test('Should honor legacy convention flags', () => {
+        const conventions: Partial<CodingConventions> = { use_pragma_once: false, header_extension: '.h' };
+        const violations = engine.validate('src/MySource.h', 'struct MySource {};\n', conventions);
+
+        assert.strictEqual(violations.length, 0);
+    });
+
+    test('Should disable rules and override severity', () => {
+        const conventions: Partial<CodingConventions> = {
+            rules: {
+                wrong_header_extension: 'off',
+                missing_pragma_once: { severity: 'error', exclude: ['deps/**'] }
+            }
+        };
+
+        const violations = engine.validate('src/MySource.h', 'struct MySource {};\n', conventions);
+        assert.strictEqual(violations.length, 1);
+        assert.strictEqual(violations[0].type, 'missing_pragma_once');
+        assert.strictEqual(violations[0].severity, 'error');
+
+        assert.strictEqual(engine.validate('deps/lib/vendor.hpp', '', conventions).length, 0);
+    });
+
+    test('Should run and fix custom pattern rules', () => {
+        const conventions: Partial<CodingConventions> = {
+            rules: {
+                no_printf: { pattern: '\\bprintf\\(', message: 'Use blog()', replacement: 'blog(LOG_INFO, ', files: ['src/**/*.cpp'] }
+            }
+        };
+        const content = 'void f()\n{\n\tprintf("hi");\n}\n';
+
+        const violations = engine.validate('src/plugin-main.cpp', content, conventions);
+        assert.strictEqual(violations.length, 1);
+        assert.strictEqual(violations[0].line, 3);
+
+        const result = engine.applyFixes('src/plugin-main.cpp', content, violations, conventions);
+        assert.deepStrictEqual(result.fixed, ['no_printf']);
+        assert.ok(result.content.includes('blog(LOG_INFO, "hi");'));
+    });
+
+    test('Should insert pragma once after leading comments', () => {
+        const content = '// Copyright\n\nstruct A {};\n';
+        const violations = engine.validate('src/A.hpp', content);
+        const result = engine.applyFixes('src/A.hpp', content, violations);
+
+        assert.strictEqual(result.content, '// Copyright\n\n#pragma once\n\nstruct A {};\n');
+    });
+
+    test('Should compute relocation targets', () => {
+        const widget = 'class SettingsWidget : public QWidget {};\n';
+
+        assert.strictEqual(engine.getRelocationTarget('ui_component_location', 'src/SettingsWidget.hpp', widget), 'src/ui/SettingsWidget.hpp');
+        assert.strictEqual(
+            engine.getRelocationTarget('ui_component_location', 'src/SettingsWidget.hpp', widget, { ui_components_dir: 'src/forms' }),
+            'src/forms/SettingsWidget.hpp'
+        );
+        assert.strictEqual(engine.getRelocationTarget('wrong_header_extension', 'src/filter.h', ''), 'src/filter.hpp');
+        assert.strictEqual(engine.getRelocationTarget('missing_pragma_once', 'src/filter.h', ''), undefined);
+    });
+
+    test('Should match globs', () => {
+        assert.ok(GlobMatcher.matches('src/ui/Widget.cpp', 'src/**/*.{cpp,hpp}'));
+        assert.ok(GlobMatcher.matches('Widget.cpp', '**/*.cpp'));
+        assert.ok(GlobMatcher.matches('src/deep/Widget.hpp', '*.hpp'));
+        assert.ok(!GlobMatcher.matches('src/Widget.cpp', 'ui/*.cpp'));
+        assert.ok(!GlobMatcher.matches('src/a/b.cpp', 'src/*.cpp'));
+    });
+});
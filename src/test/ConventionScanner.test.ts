@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConventionRuleEngine } from '../core/ConventionRuleEngine';
+import { ConventionScanner } from '../core/ConventionScanner';
+import { ConventionReportWriter } from '../core/ConventionReportWriter';
+
+/**
+ * Test suite for ConventionScanner and ConventionReportWriter
+ * Tests workspace walking and report export
+ */
+suite('ConventionScanner Tests', () => {
+    let scanner: ConventionScanner;
+    let tempDir: string;
+
+    setup(() => {
+        scanner = new ConventionScanner(new ConventionRuleEngine());
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'convention-scanner-test-'));
+    });
+
+    teardown(() => {
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    /**
+     * Create a file below the temporary workspace
+     */
+    function writeFile(relativePath: string, content: string): void {
+        const fullPath = path.join(tempDir, relativePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    }
+
+    test('Should skip ignored, dependency and build directories', async () => {
+        writeFile('src/plugin-main.hpp', 'void load();\n');
+        writeFile('src/generated/version.hpp', 'void version();\n');
+        writeFile('.gitignore', '/src/generated/\n*.tmp.hpp\n');
+        writeFile('src/scratch.tmp.hpp', 'void scratch();\n');
+        writeFile('.deps/obs-studio/obs.hpp', 'void obs();\n');
+        writeFile('build_linux/CMakeCache.txt', '');
+        writeFile('build_linux/autogen/moc.hpp', 'void moc();\n');
+        writeFile('out/config.hpp', 'void config();\n');
+
+        const result = await scanner.scan(tempDir, {}, { buildDirs: ['out'] });
+
+        assert.strictEqual(result.files_scanned, 1);
+        assert.deepStrictEqual(result.violations.map(v => v.file), ['src/plugin-main.hpp']);
+        assert.strictEqual(result.rules.find(rule => rule.id === 'missing_pragma_once')!.violation_count, 1);
+    });
+
+    test('Should export SARIF and HTML reports', async () => {
+        writeFile('src/Widget <1>.h', 'class Widget {};\n');
+
+        const result = await scanner.scan(tempDir, {});
+        const writer = new ConventionReportWriter('1.0.0');
+
+        const sarif = JSON.parse(writer.toSarif(result));
+        assert.strictEqual(sarif.version, '2.1.0');
+        const results = sarif.runs[0].results;
+        assert.ok(results.length >= 2);
+        assert.strictEqual(results[0].locations[0].physicalLocation.artifactLocation.uri, 'src/Widget%20%3C1%3E.h');
+        assert.strictEqual(sarif.runs[0].tool.driver.rules[results[0].ruleIndex].id, results[0].ruleId);
+
+        const html = writer.toHtml(result);
+        assert.ok(html.includes('src/Widget &lt;1&gt;.h'));
+        assert.ok(!html.includes('<1>'));
+
+        const json = JSON.parse(writer.toJson(result));
+        assert.strictEqual(json.total_violations, results.length);
+    });
+});
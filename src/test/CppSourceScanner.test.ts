@@ -0,0 +1,126 @@
+import * as assert from 'assert';
+import { CppSourceScanner } from '../utils/CppSourceScanner';
+import { ConventionRuleEngine } from '../core/ConventionRuleEngine';
+import { CodingConventions } from '../types/ObsConfig';
+
+/**
+ * Test suite for CppSourceScanner
+ * Tests comment extraction, declaration scopes and the comment and namespace convention rules
+ */
+suite('CppSourceScanner Tests', () => {
+    let engine: ConventionRuleEngine;
+
+    setup(() => {
+        engine = new ConventionRuleEngine();
+    });
+
+    test('Should extract comments and skip string literals', () => {
+        const content = [
+            'const char *url = "http://example.com // not a comment";',
+            "char slash = '/'; // trailing",
+            'const char *raw = R"sql(/* not a comment */)sql";',
+            '/* block',
+            '   comment */',
+            'int x = 1\'000; // separator'
+        ].join('\n');
+
+        const comments = CppSourceScanner.extractComments(content);
+
+        assert.deepStrictEqual(comments.map(comment => [comment.line, comment.kind, comment.text.trim()]), [
+            [2, 'line', 'trailing'],
+            [4, 'block', 'block\n   comment'],
+            [6, 'line', 'separator']
+        ]);
+    });
+
+    test('Should track namespace scopes of declarations', () => {
+        const content = [
+            '#include <obs-module.h>',
+            '#define LOG(msg) \\',
+            '    blog(LOG_INFO, msg)',
+            'OBS_DECLARE_MODULE()',
+            'class QWidget;',
+            'namespace obs_plugin::ui {',
+            'class SettingsDialog : public QDialog {',
+            '    void show() { if (x) { y(); } }',
+            '};',
+            '}',
+            'namespace {',
+            'int counter = 0;',
+            '}',
+            'extern "C" {',
+            'void c_callback(void);',
+            '}',
+            'bool obs_module_load(void)',
+            '{',
+            '    return true;',
+            '}',
+            'void obs_plugin::Helper::run() {}',
+            'static struct obs_source_info source_info = {',
+            '    .id = "source",',
+            '};'
+        ].join('\n');
+
+        const declarations = CppSourceScanner.findNamespaceScopeDeclarations(content);
+        const summary = declarations.map(d => [d.name, d.line, d.kind, d.namespaces.join('::'), d.externC, d.qualified]);
+
+        assert.deepStrictEqual(summary, [
+            ['QWidget', 5, 'forward', '', false, false],
+            ['SettingsDialog', 7, 'type', 'obs_plugin::ui', false, false],
+            ['counter', 12, 'variable', '', false, false],
+            ['c_callback', 15, 'function', '', true, false],
+            ['obs_module_load', 17, 'function', '', false, false],
+            ['obs_plugin::Helper::run', 21, 'function', '', false, true],
+            ['source_info', 22, 'variable', '', false, false]
+        ]);
+    });
+
+    test('Should report non-English comments', () => {
+        const content = [
+            '// 初始化插件',
+            '// See https://例え.jp/docs for details',
+            '/* Uses `名前` and café */',
+            'const char *label = "中文";',
+            '/* Ok',
+            '   Инициализация */'
+        ].join('\n');
+
+        const violations = engine.validate('src/plugin.cpp', content, {});
+        const comments = violations.filter(violation => violation.type === 'non_english_comment');
+
+        assert.deepStrictEqual(comments.map(violation => violation.line), [1, 6]);
+        assert.ok(comments[0].suggestion.includes('初始化插件'));
+        assert.strictEqual(comments[0].auto_fixable, false);
+    });
+
+    test('Should honor comment rule options and english_comments flag', () => {
+        const content = '// See https://例え.jp and café\n';
+        const strict: Partial<CodingConventions> = {
+            rules: { non_english_comment: { options: { allow_urls: false, ascii_only: true } } }
+        };
+
+        assert.strictEqual(engine.validate('src/plugin.cpp', content, strict).length, 1);
+        assert.strictEqual(engine.validate('src/plugin.cpp', '// 中文\n', { english_comments: false }).length, 0);
+    });
+
+    test('Should report declarations outside the configured namespace', () => {
+        const content = [
+            'bool obs_module_load(void) { return true; }',
+            'void helper();',
+            'namespace obs_plugin {',
+            'class Source {};',
+            '}',
+            'namespace other { int value; }'
+        ].join('\n');
+
+        const violations = engine.validate('src/plugin.cpp', content, { namespace: 'obs_plugin' })
+            .filter(violation => violation.type === 'missing_namespace');
+
+        assert.deepStrictEqual(violations.map(violation => [violation.line, violation.suggestion]), [
+            [2, "Move 'helper' into namespace obs_plugin"],
+            [6, "Move 'value' into namespace obs_plugin"]
+        ]);
+        assert.strictEqual(engine.validate('src/plugin.cpp', content, {})
+            .filter(violation => violation.type === 'missing_namespace').length, 0);
+    });
+});
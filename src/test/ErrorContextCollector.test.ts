@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ErrorContextCollector } from '../core/ErrorContextCollector';
+import { BuildError } from '../types/ObsConfig';
+
+/**
+ * Test suite for collecting the source behind build errors
+ */
+suite('ErrorContextCollector Tests', () => {
+    let root: string;
+    let collector: ErrorContextCollector;
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'obs-error-context-'));
+        collector = new ErrorContextCollector();
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    /**
+     * Write a workspace file, creating its directories
+     */
+    function write(relativePath: string, content: string): void {
+        const file = path.join(root, relativePath);
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, content);
+    }
+
+    test('Should merge snippets of errors close together', async () => {
+        write('src/filter.cpp', Array.from({ length: 60 }, (_, index) => `int line${index + 1};`).join('\n'));
+        const errors: Partial<BuildError>[] = [
+            { file: 'src/filter.cpp', line: 10, message: 'first' },
+            { file: 'src/filter.cpp', line: 14, message: 'second' },
+            { file: 'src/filter.cpp', line: 50, message: 'third' },
+            { file: 'src/missing.cpp', line: 3, message: 'gone' }
+        ];
+
+        const sites = await collector.collect(errors, root);
+
+        assert.strictEqual(sites.length, 2);
+        assert.deepStrictEqual(sites.map(site => [site.start_line, site.focus_line]), [[3, 9], [43, 49]]);
+        assert.ok(sites[0].content.startsWith('int line4;'));
+        assert.ok(sites[0].content.endsWith('int line20;'));
+        assert.ok(sites.every(site => site.kind === 'error_site' && site.id === path.join(root, 'src/filter.cpp')));
+    });
+
+    test('Should extract symbol names from messages and linker symbols', () => {
+        const symbols = ErrorContextCollector.extractSymbols([
+            { message: "no member named 'update_settings' in 'FilterState'" },
+            { message: "use of undeclared identifier 'obs_source_t'; did you mean 'int'?" },
+            { message: 'undefined reference', linker: {
+                kind: 'undefined_symbol',
+                symbol: 'Ui::Dock<std::string>::refresh(obs_data*)',
+                object_files: [],
+                referencing_functions: [],
+                classification: 'unknown'
+            } }
+        ]);
+
+        assert.deepStrictEqual(symbols, ['update_settings', 'FilterState', 'obs_source_t', 'Ui', 'Dock', 'refresh']);
+    });
+
+    test('Should add declarations of named symbols and CMake target commands for linker errors', async () => {
+        write('src/filter.cpp', 'void run()\n{\n    FilterState state;\n    state.update_settings();\n}\n');
+        write('src/filter-state.hpp', [
+            '#pragma once',
+            '',
+            '// Settings of the filter',
+            'struct FilterState {',
+            '    int width;',
+            '};',
+            '',
+            'void unrelated();'
+        ].join('\n'));
+        write('CMakeLists.txt', [
+            'add_library(${CMAKE_PROJECT_NAME} MODULE)',
+            'target_sources(${CMAKE_PROJECT_NAME} PRIVATE',
+            '  src/filter.cpp # (main)',
+            ')',
+            'target_link_libraries(${CMAKE_PROJECT_NAME} PRIVATE OBS::libobs)'
+        ].join('\n'));
+
+        const contexts = await collector.collect([
+            { file: 'src/filter.cpp', line: 4, message: "no member named 'update_settings' in 'FilterState'" },
+            { file: 'src/filter.cpp', line: 1, message: 'undefined reference', linker: {
+                kind: 'undefined_symbol',
+                symbol: 'FilterState::reset()',
+                object_files: [],
+                referencing_functions: [],
+                classification: 'unknown'
+            } }
+        ], root);
+
+        const declaration = contexts.find(context => context.kind === 'declaration');
+        assert.strictEqual(declaration?.id, path.join(root, 'src/filter-state.hpp'));
+        assert.strictEqual(declaration?.start_line, 3);
+        assert.strictEqual(declaration?.content, 'struct FilterState {\n    int width;\n};');
+
+        const targets = contexts.filter(context => context.kind === 'build_target');
+        assert.deepStrictEqual(targets.map(target => [target.start_line, target.content.split('\n').length]), [[1, 3], [4, 1]]);
+    });
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { LineDiff } from '../utils/LineDiff';
+
+/**
+ * Test suite for line hunks used by the patch review
+ */
+suite('LineDiff Tests', () => {
+    const ORIGINAL = ['#include <obs-module.h>', '', 'bool load()', '{', '    return true;', '}', ''].join('\n');
+    const PROPOSED = ['#include <obs-module.h>', '#include <util/platform.h>', '', 'bool load()', '{', '    return false;', '}', ''].join('\n');
+
+    test('Should split changes into hunks and apply any subset of them', () => {
+        const hunks = LineDiff.computeHunks(ORIGINAL, PROPOSED);
+
+        assert.deepStrictEqual(hunks, [
+            { original_start: 1, original_lines: [], proposed_lines: ['#include <util/platform.h>'] },
+            { original_start: 4, original_lines: ['    return true;'], proposed_lines: ['    return false;'] }
+        ]);
+        assert.strictEqual(LineDiff.applyHunks(ORIGINAL, hunks, () => true), PROPOSED);
+        assert.strictEqual(LineDiff.applyHunks(ORIGINAL, hunks, () => false), ORIGINAL);
+        assert.strictEqual(LineDiff.applyHunks(ORIGINAL, hunks, index => index === 1), ORIGINAL.replace('return true', 'return false'));
+        assert.deepStrictEqual(LineDiff.getProposedStarts(hunks, index => index === 0), [1, 5]);
+        assert.deepStrictEqual(LineDiff.getProposedStarts(hunks, index => index === 1), [1, 4]);
+    });
+
+    test('Should format unified diffs for changed, new and deleted files', () => {
+        assert.strictEqual(LineDiff.formatUnified('src/plugin.cpp', ORIGINAL, PROPOSED, 1), [
+            '--- a/src/plugin.cpp',
+            '+++ b/src/plugin.cpp',
+            '@@ -1,2 +1,3 @@',
+            ' #include <obs-module.h>',
+            '+#include <util/platform.h>',
+            ' ',
+            '@@ -4,3 +5,3 @@',
+            ' {',
+            '-    return true;',
+            '+    return false;',
+            ' }',
+            ''
+        ].join('\n'));
+        assert.strictEqual(LineDiff.formatUnified('src/new.hpp', undefined, '#pragma once\n'),
+            '--- /dev/null\n+++ b/src/new.hpp\n@@ -0,0 +1,1 @@\n+#pragma once\n');
+        assert.strictEqual(LineDiff.formatUnified('src/old.hpp', 'x\n', undefined),
+            '--- a/src/old.hpp\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-x\n');
+        assert.strictEqual(LineDiff.formatUnified('same.cpp', ORIGINAL, ORIGINAL), '');
+    });
+});
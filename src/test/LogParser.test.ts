@@ -0,0 +1,299 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { LogParser } from '../core/LogParser';
+
+/**
+ * Test suite for LogParser
+ * Tests grouping of compiler diagnostics into structured build errors
+ */
+suite('LogParser Tests', () => {
+    let parser: LogParser;
+
+    setup(() => {
+        parser = new LogParser();
+    });
+
+    test('should group include chain, instantiation backtrace and notes under one error', () => {
+        const log = [
+            'In file included from /src/plugin.cpp:3:',
+            '                 from /src/main.cpp:1:',
+            "/src/dock.hpp: In instantiation of 'void connectAll(T*) [with T = MyDock]':",
+            '/src/plugin.cpp:20:14:   required from here',
+            "/src/dock.hpp:12:5: error: no matching function for call to 'QObject::connect'",
+            '   12 |     QObject::connect(w, &T::changed);',
+            '      |     ^~~~~~~~~~~~~~~~',
+            "/qt/qobject.h:200:5: note: candidate: 'template<class Func1> QObject::connect'",
+            '/qt/qobject.h:200:5: note:   template argument deduction/substitution failed:'
+        ].join('\n');
+
+        const errors = parser.parseErrors(log, 'linux');
+
+        assert.strictEqual(errors.length, 1);
+        assert.strictEqual(errors[0].file, '/src/dock.hpp');
+        assert.strictEqual(errors[0].line, 12);
+        assert.deepStrictEqual(
+            errors[0].related!.map(related => related.kind),
+            ['include', 'include', 'context', 'instantiation', 'note', 'note']
+        );
+    });
+
+    test('should attach clang notes that follow source excerpts', () => {
+        const log = [
+            "/src/a.cpp:3:5: error: no matching function for call to 'f'",
+            'int x = f(1, 2);',
+            '        ^',
+            '/src/a.cpp:1:5: note: candidate function not viable',
+            "/src/a.hpp:9:3: note: in instantiation of function template specialization 'g<int>' requested here",
+            '1 error generated.'
+        ].join('\n');
+
+        const errors = parser.parseErrors(log, 'macos');
+
+        assert.strictEqual(errors.length, 1);
+        assert.strictEqual(errors[0].related!.length, 2);
+        assert.strictEqual(errors[0].related![1].kind, 'instantiation');
+    });
+
+    test('should keep diagnostics in log order', () => {
+        const log = [
+            "/src/z.cpp:10:1: error: expected ';' after expression",
+            "/src/a.cpp:5:1: warning: unused variable 'x'",
+            "C:\\src\\b.cpp(7,3): error C2065: 'foo': undeclared identifier",
+            "C:\\src\\b.cpp(2): note: see declaration of 'bar'"
+        ].join('\n');
+
+        const errors = parser.parseErrors(log, 'windows-x64');
+
+        assert.strictEqual(errors.length, 3);
+        assert.strictEqual(errors[0].line, 10);
+        assert.strictEqual(errors[1].severity, 'warning');
+        assert.strictEqual(errors[2].line, 7);
+        assert.strictEqual(errors[2].related!.length, 1);
+    });
+
+    test('should strip color codes before parsing', () => {
+        const log = "\x1b[1m/src/a.cpp:4:2: \x1b[0;1;31merror: \x1b[0m\x1b[1munknown type name 'foo'\x1b[0m";
+
+        const errors = parser.parseErrors(log, 'macos');
+
+        assert.strictEqual(errors.length, 1);
+        assert.strictEqual(errors[0].message, "unknown type name 'foo'");
+    });
+
+    test('should group GNU ld undefined references by symbol', () => {
+        const log = [
+            "/usr/bin/ld: CMakeFiles/my-plugin.dir/src/plugin-main.cpp.o: in function `obs_module_load':",
+            "plugin-main.cpp:(.text+0x1a): undefined reference to `obs_frontend_add_dock'",
+            "/usr/bin/ld: CMakeFiles/my-plugin.dir/src/dock.cpp.o: in function `_ZN6MyDockC2EP7QWidget':",
+            "dock.cpp:(.text+0x42): undefined reference to `obs_frontend_add_dock'",
+            'collect2: error: ld returned 1 exit status'
+        ].join('\n');
+
+        const errors = parser.parseErrors(log, 'linux');
+
+        assert.strictEqual(errors.length, 1);
+        assert.strictEqual(errors[0].file, 'src/plugin-main.cpp');
+        assert.strictEqual(errors[0].linker!.classification, 'missing_frontend_api');
+        assert.deepStrictEqual(errors[0].linker!.object_files, [
+            'CMakeFiles/my-plugin.dir/src/plugin-main.cpp.o',
+            'CMakeFiles/my-plugin.dir/src/dock.cpp.o'
+        ]);
+        assert.deepStrictEqual(errors[0].linker!.referencing_functions, ['obs_module_load', 'MyDock::MyDock(QWidget*)']);
+        assert.ok(errors[0].suggestion!.includes('OBS::obs-frontend-api'));
+    });
+
+    test('should parse lld undefined symbol blocks', () => {
+        const log = [
+            'ld.lld: error: undefined symbol: QWidget::QWidget(QWidget*, QFlags<Qt::WindowType>)',
+            '>>> referenced by dock.cpp:12 (/src/dock.cpp:12)',
+            '>>>               CMakeFiles/my-plugin.dir/src/dock.cpp.o:(MyDock::MyDock(QWidget*))',
+            'ld.lld: error: undefined symbol: vtable for MyDock',
+            '>>> referenced by dock.cpp:10 (/src/dock.cpp:10)',
+            "clang++: error: linker command failed with exit code 1 (use -v to see invocation)"
+        ].join('\n');
+
+        const errors = parser.parseErrors(log, 'linux');
+
+        assert.strictEqual(errors.length, 2);
+        assert.strictEqual(errors[0].file, '/src/dock.cpp');
+        assert.strictEqual(errors[0].line, 12);
+        assert.strictEqual(errors[0].linker!.classification, 'missing_qt_module');
+        assert.ok(errors[0].suggestion!.includes('Qt6::Widgets'));
+        assert.strictEqual(errors[1].linker!.classification, 'missing_moc');
+        assert.strictEqual(errors[1].convention_violation!.type, 'moc_include_missing');
+    });
+
+    test('should parse ld64 undefined and duplicate symbols', () => {
+        const log = [
+            'Undefined symbols for architecture arm64:',
+            '  "_obs_source_get_name", referenced from:',
+            '      __ZN6MyDock7refreshEv in dock.cpp.o',
+            'ld: symbol(s) not found for architecture arm64',
+            "duplicate symbol '_g_counter' in:",
+            '    CMakeFiles/my-plugin.dir/src/a.cpp.o',
+            '    CMakeFiles/my-plugin.dir/src/b.cpp.o',
+            'ld: 1 duplicate symbol for architecture arm64'
+        ].join('\n');
+
+        const errors = parser.parseErrors(log, 'macos');
+
+        assert.strictEqual(errors.length, 2);
+        assert.strictEqual(errors[0].linker!.symbol, 'obs_source_get_name');
+        assert.strictEqual(errors[0].linker!.classification, 'missing_libobs');
+        assert.deepStrictEqual(errors[0].linker!.referencing_functions, ['MyDock::refresh()']);
+        assert.strictEqual(errors[1].linker!.kind, 'duplicate_symbol');
+        assert.strictEqual(errors[1].linker!.object_files.length, 2);
+        assert.strictEqual(errors[1].file, 'src/a.cpp');
+    });
+
+    test('should report a generic linker failure when no symbols were parsed', () => {
+        const errors = parser.parseErrors('collect2: error: ld returned 1 exit status', 'linux');
+
+        assert.strictEqual(errors.length, 1);
+        assert.strictEqual(errors[0].linker, undefined);
+    });
+
+    test('should capture CMake error blocks with call stacks', () => {
+        const log = [
+            'CMake Error at /usr/share/cmake/Modules/FindPackageHandleStandardArgs.cmake:230 (message):',
+            '  Could NOT find Qt6 (missing: Qt6_DIR)',
+            'Call Stack (most recent call first):',
+            '  /usr/share/cmake/Modules/FindPackageHandleStandardArgs.cmake:600 (_FPHSA_FAILURE_MESSAGE)',
+            '  cmake/common/helpers.cmake:12 (find_package)',
+            '  CMakeLists.txt:20 (include)',
+            '',
+            '',
+            '-- Configuring incomplete, errors occurred!'
+        ].join('\n');
+
+        const errors = parser.parseErrors(log, 'linux');
+
+        assert.strictEqual(errors.length, 1);
+        assert.strictEqual(errors[0].file, 'cmake/common/helpers.cmake');
+        assert.strictEqual(errors[0].line, 12);
+        assert.strictEqual(errors[0].message, 'Could NOT find Qt6 (missing: Qt6_DIR)');
+        assert.strictEqual(errors[0].related!.filter(related => related.kind === 'call_stack').length, 3);
+        assert.strictEqual(errors[0].cmake!.category, 'missing_package');
+        assert.strictEqual(errors[0].cmake!.package, 'Qt6');
+        assert.strictEqual(errors[0].cmake!.dependency_key, 'qt6_dir');
+    });
+
+    test('should parse CMake warnings and classify generator mismatches', () => {
+        const log = [
+            'CMake Deprecation Warning at CMakeLists.txt:1 (cmake_minimum_required):',
+            '  Compatibility with CMake < 3.10 will be removed from a future version of',
+            '  CMake.',
+            '',
+            'CMake Error: Error: generator : Ninja',
+            'Does not match the generator used previously: Xcode',
+            'Either remove the CMakeCache.txt file and CMakeFiles directory or choose a different binary directory.'
+        ].join('\n');
+
+        const errors = parser.parseErrors(log, 'macos');
+
+        assert.strictEqual(errors.length, 2);
+        assert.strictEqual(errors[0].severity, 'warning');
+        assert.strictEqual(errors[0].cmake!.kind, 'deprecation_warning');
+        assert.strictEqual(errors[0].message, 'Compatibility with CMake < 3.10 will be removed from a future version of CMake.');
+        assert.strictEqual(errors[1].cmake!.category, 'generator_mismatch');
+        assert.strictEqual(errors[1].cmake!.cache_variable, 'CMAKE_GENERATOR');
+    });
+
+    test('should read GCC JSON diagnostics with ranges, notes and fix-its', () => {
+        const diagnostics = [{
+            kind: 'error',
+            message: "expected ';' before '}' token",
+            locations: [{ caret: { file: '/src/plugin.cpp', line: 4, column: 14, 'byte-column': 14 } }],
+            fixits: [{ start: { file: '/src/plugin.cpp', line: 4, column: 14 }, next: { file: '/src/plugin.cpp', line: 4, column: 14 }, string: ';' }],
+            children: [{ kind: 'note', message: 'declared here', locations: [{ caret: { file: '/src/plugin.hpp', line: 2, column: 6 } }] }]
+        }];
+        const log = ['[1/2] Building CXX object plugin.cpp.o', JSON.stringify(diagnostics), 'ninja: build stopped: subcommand failed.'].join('\n');
+
+        assert.strictEqual(parser.parseErrors(log, 'linux').length, 0);
+        const errors = parser.parseErrors(log, 'linux', 'json');
+
+        assert.strictEqual(errors.length, 1);
+        assert.strictEqual(errors[0].line, 4);
+        assert.deepStrictEqual(errors[0].range, { start: { line: 4, column: 14 }, end: { line: 4, column: 15 } });
+        assert.strictEqual(errors[0].related![0].file, '/src/plugin.hpp');
+        assert.strictEqual(errors[0].fixits![0].replacement, ';');
+    });
+
+    test('should read pretty-printed SARIF logs and keep parsing text output', () => {
+        const sarif = {
+            version: '2.1.0',
+            runs: [{
+                originalUriBaseIds: { PWD: { uri: 'file:///work/build/' } },
+                results: [{
+                    level: 'warning',
+                    message: { text: "unused variable 'x'" },
+                    locations: [{ physicalLocation: {
+                        artifactLocation: { uri: '../src/a.cpp', uriBaseId: 'PWD' },
+                        region: { startLine: 3, startColumn: 9, endColumn: 10 }
+                    } }]
+                }]
+            }]
+        };
+        const log = [
+            ...JSON.stringify(sarif, null, 2).split('\n'),
+            "/usr/bin/ld: a.cpp.o:(.text+0x5): undefined reference to `obs_source_get_name'",
+            'collect2: error: ld returned 1 exit status'
+        ].join('\n');
+
+        const errors = parser.parseErrors(log, 'linux', 'sarif');
+
+        assert.strictEqual(errors.length, 2);
+        assert.strictEqual(errors[0].file, path.normalize('/work/src/a.cpp'));
+        assert.strictEqual(errors[0].severity, 'warning');
+        assert.strictEqual(errors[0].range!.end.column, 10);
+        assert.strictEqual(errors[1].linker!.symbol, 'obs_source_get_name');
+    });
+
+    test('should hand source excerpts that look like JSON back to the text parsers', () => {
+        const log = [
+            "/src/a.cpp:3:1: error: expected unqualified-id before '{' token",
+            '{',
+            '^',
+            "/src/a.cpp:5:5: error: 'key' was not declared in this scope",
+            '    {"key", 1},',
+            '    ^',
+            "/src/b.cpp:9:2: error: unknown type name 'foo'",
+            '[',
+            '  {',
+            '    "kind": "warning", "message": "unused variable", "locations": []',
+            '  }',
+            ']'
+        ].join('\n');
+
+        const errors = parser.parseErrors(log, 'linux', 'json');
+
+        assert.deepStrictEqual(errors.map(error => error.message), [
+            "expected unqualified-id before '{' token",
+            "'key' was not declared in this scope",
+            "unknown type name 'foo'",
+            'unused variable'
+        ]);
+    });
+
+    test('should stream diagnostics and progress as chunks arrive', () => {
+        const stream = parser.createStream();
+        const emitted: string[] = [];
+        const progress: string[] = [];
+        stream.onDiagnostics(errors => errors.forEach(error => emitted.push(error.message)));
+        stream.onProgress(step => progress.push(`${step.completed}/${step.total}`));
+
+        stream.write('[1/3] Building CXX object a.cpp.o\n/src/a.cpp:1:1: err');
+        assert.deepStrictEqual(emitted, []);
+
+        stream.write("or: unknown type name 'foo'\n[2/3] Building CXX object b.cpp.o\n");
+        assert.deepStrictEqual(emitted, ["unknown type name 'foo'"]);
+        assert.deepStrictEqual(progress, ['1/3', '2/3']);
+
+        stream.write('/src/b.cpp:2:1: warning: unused');
+        const errors = stream.end();
+
+        assert.strictEqual(errors.length, 2);
+        assert.deepStrictEqual(emitted, ["unknown type name 'foo'", 'unused']);
+    });
+});
+
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { ObsChatParticipant } from '../core/ObsChatParticipant';
+
+/**
+ * Test suite for the @obs chat participant
+ * Covers finding the applicable changes in a model response
+ */
+suite('ObsChatParticipant Tests', () => {
+    test('Should extract unified diffs with their target files', () => {
+        const response = [
+            'Add the missing guard:',
+            '',
+            '```diff',
+            '--- a/src/filter.hpp',
+            '+++ b/src/filter.hpp',
+            '@@ -1,2 +1,3 @@',
+            '+#pragma once',
+            ' struct Filter {};',
+            '```',
+            ''
+        ].join('\n');
+
+        const changes = ObsChatParticipant.extractSuggestedChanges(response);
+
+        assert.strictEqual(changes.length, 1);
+        assert.strictEqual(changes[0].kind, 'unified_diff');
+        assert.deepStrictEqual(changes[0].files, ['src/filter.hpp']);
+        assert.ok(changes[0].content.startsWith('--- a/src/filter.hpp\n'));
+    });
+
+    test('Should extract whole files from blocks naming a path', () => {
+        const response = [
+            '```cpp src/plugin-main.cpp',
+            '#include <obs-module.h>',
+            '```',
+            '',
+            '```cmake:./cmake/common.cmake',
+            'set(X 1)',
+            '```'
+        ].join('\n');
+
+        const changes = ObsChatParticipant.extractSuggestedChanges(response);
+
+        assert.deepStrictEqual(changes, [
+            { kind: 'file_content', files: ['src/plugin-main.cpp'], content: '#include <obs-module.h>\n' },
+            { kind: 'file_content', files: ['cmake/common.cmake'], content: 'set(X 1)\n' }
+        ]);
+    });
+
+    test('Should ignore snippets without a target file', () => {
+        const response = [
+            '```cpp',
+            'obs_log(LOG_INFO, "loaded");',
+            '```',
+            '',
+            '```diff',
+            '-old',
+            '+new',
+            '```'
+        ].join('\n');
+
+        assert.deepStrictEqual(ObsChatParticipant.extractSuggestedChanges(response), []);
+    });
+});
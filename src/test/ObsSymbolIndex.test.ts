@@ -0,0 +1,136 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ObsSymbolIndex } from '../core/ObsSymbolIndex';
+import { ConfigManager } from '../core/ConfigManager';
+import { AIMiddleware } from '../core/AIMiddleware';
+import { ObsConfig } from '../types/ObsConfig';
+
+/**
+ * Test suite for the libobs / obs-frontend-api symbol index
+ */
+suite('ObsSymbolIndex Tests', () => {
+    const OBS_SOURCE_HEADER = [
+        '#pragma once',
+        '#include "util/c99defs.h"',
+        '#ifdef __cplusplus',
+        'extern "C" {',
+        '#endif',
+        'struct obs_source;',
+        'typedef struct obs_source obs_source_t;',
+        '/**',
+        ' * Creates a source of the specified type with the specified settings.',
+        ' *',
+        ' *   The "source" context is used for anything related to presenting',
+        ' */',
+        'EXPORT obs_source_t *obs_source_create(const char *id, const char *name,',
+        '\t\t\t\t       obs_data_t *settings, obs_data_t *hotkey_data);',
+        'enum obs_source_type {',
+        '\tOBS_SOURCE_TYPE_INPUT, /* sources */',
+        '\tOBS_SOURCE_TYPE_FILTER,',
+        '};',
+        '// Draws vertices',
+        'EXPORT void gs_draw(enum gs_draw_mode draw_mode, uint32_t start_vert, uint32_t num_verts);',
+        'static inline void helper(void) {}',
+        '#ifdef __cplusplus',
+        '}',
+        '#endif'
+    ].join('\n');
+
+    let root: string;
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'obs-sdk-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    /**
+     * Write a file under the temporary root, creating its directories
+     */
+    function write(relativePath: string, content: string): void {
+        const file = path.join(root, relativePath);
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, content);
+    }
+
+    test('Should extract exported functions, types and typedefs with signatures and docs', () => {
+        const symbols = ObsSymbolIndex.parseHeader(OBS_SOURCE_HEADER, '/sdk/libobs/obs-source.h', 'obs-source.h');
+
+        assert.deepStrictEqual(symbols.map(symbol => [symbol.name, symbol.kind, symbol.line]), [
+            ['obs_source_t', 'typedef', 7],
+            ['obs_source_create', 'function', 13],
+            ['obs_source_type', 'enum', 15],
+            ['gs_draw', 'function', 20]
+        ]);
+
+        const [, create, type, draw] = symbols;
+        assert.strictEqual(create.signature,
+            'obs_source_t *obs_source_create(const char *id, const char *name, obs_data_t *settings, obs_data_t *hotkey_data);');
+        assert.strictEqual(create.doc,
+            'Creates a source of the specified type with the specified settings.\n\nThe "source" context is used for anything related to presenting');
+        assert.strictEqual(type.signature, 'enum obs_source_type {\n\tOBS_SOURCE_TYPE_INPUT,\n\tOBS_SOURCE_TYPE_FILTER,\n};');
+        assert.strictEqual(draw.doc, 'Draws vertices');
+        assert.strictEqual(draw.include, 'obs-source.h');
+    });
+
+    test('Should find header roots of source trees and install prefixes', () => {
+        fs.mkdirSync(path.join(root, 'obs-studio', 'libobs'), { recursive: true });
+        fs.mkdirSync(path.join(root, 'obs-studio', 'UI', 'obs-frontend-api'), { recursive: true });
+        fs.mkdirSync(path.join(root, 'prefix', 'include', 'obs'), { recursive: true });
+        fs.mkdirSync(path.join(root, 'prefix', 'lib', 'cmake', 'libobs'), { recursive: true });
+
+        const roots = ObsSymbolIndex.findHeaderRoots(root, 'obs-studio', ['prefix/lib/cmake/libobs', undefined]);
+
+        assert.deepStrictEqual(roots, [
+            path.join(root, 'obs-studio', 'libobs'),
+            path.join(root, 'obs-studio', 'UI', 'obs-frontend-api'),
+            path.join(root, 'prefix', 'include', 'obs')
+        ]);
+    });
+
+    test('Should index headers, find references and reuse the cache for the same roots', async () => {
+        write('sdk/libobs/obs-source.h', OBS_SOURCE_HEADER);
+        write('sdk/libobs/graphics/graphics.h', 'EXPORT void gs_matrix_push(void);\n');
+        write('sdk/frontend/api/obs-frontend-api.h', 'EXPORT obs_source_t *obs_frontend_get_current_scene(void);\n');
+        const roots = [path.join(root, 'sdk', 'libobs'), path.join(root, 'sdk', 'frontend', 'api')];
+        const cacheFile = path.join(root, 'storage', 'obs-symbol-index.json');
+
+        const index = new ObsSymbolIndex({} as ConfigManager, cacheFile);
+        await index.load(roots);
+
+        assert.strictEqual(index.size, 6);
+        assert.strictEqual(index.lookup('gs_matrix_push')?.include, 'graphics/graphics.h');
+        assert.strictEqual(index.lookup('obs_frontend_get_current_scene')?.include, 'obs-frontend-api.h');
+        assert.deepStrictEqual(
+            index.findReferences('obs_frontend_get_current_scene(); obs_unknown(); gs_draw(); obs_frontend_get_current_scene();')
+                .map(symbol => symbol.name),
+            ['obs_frontend_get_current_scene', 'gs_draw']);
+
+        fs.rmSync(path.join(root, 'sdk'), { recursive: true, force: true });
+        const cached = new ObsSymbolIndex({} as ConfigManager, cacheFile);
+        await cached.load(roots);
+        assert.strictEqual(cached.size, 6);
+
+        await cached.load([path.join(root, 'elsewhere')]);
+        assert.strictEqual(cached.size, 0);
+    });
+
+    test('Should add signatures of referenced APIs to AI requests', async () => {
+        write('sdk/libobs/obs-source.h', OBS_SOURCE_HEADER);
+        const index = new ObsSymbolIndex({} as ConfigManager);
+        await index.load([path.join(root, 'sdk', 'libobs')]);
+        const config = { coding_conventions: {}, platform_profiles: {}, ai_prompts: {} } as unknown as ObsConfig;
+        const middleware = new AIMiddleware({ getConfig: () => config } as unknown as ConfigManager, undefined, index);
+
+        const envelope = middleware.createRequestEnvelope('assist', 'Why does obs_source_create return NULL?');
+        const [, user] = middleware.toChatMessages(envelope);
+
+        assert.ok(envelope.api_reference?.startsWith('// obs-source.h - Creates a source of the specified type'));
+        assert.ok(user.content.includes('### OBS API signatures'));
+        assert.ok(user.content.includes('obs_data_t *hotkey_data);'));
+    });
+});
@@ -0,0 +1,213 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PatchGenerator } from '../core/PatchGenerator';
+import { BuildError } from '../types/ObsConfig';
+
+/**
+ * Test suite for PatchGenerator
+ * Tests turning compiler fix-it hints into applied edits
+ */
+suite('PatchGenerator Tests', () => {
+    let generator: PatchGenerator;
+    let tempDir: string;
+
+    setup(() => {
+        generator = new PatchGenerator();
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'patch-generator-test-'));
+    });
+
+    teardown(() => {
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    /**
+     * Create a build error carrying a single fix-it hint
+     */
+    function createFixItError(file: string, line: number, startColumn: number, endColumn: number, replacement: string): BuildError {
+        return {
+            file,
+            line,
+            column: startColumn,
+            severity: 'error',
+            message: 'fix me',
+            raw: '',
+            fixits: [{
+                file,
+                range: { start: { line, column: startColumn }, end: { line, column: endColumn } },
+                replacement
+            }]
+        };
+    }
+
+    test('should apply compiler fix-it hints as range edits', async () => {
+        const file = path.join(tempDir, 'plugin.cpp');
+        fs.writeFileSync(file, 'int main() {\n    return 0\n    obs_log(LOG_INFO, "x");\n}\n');
+
+        const patch = generator.generateFixItPatch([
+            createFixItError('plugin.cpp', 2, 13, 13, ';'),
+            createFixItError('plugin.cpp', 3, 5, 12, 'blog')
+        ], tempDir)!;
+
+        assert.strictEqual(patch.edits!.length, 2);
+        assert.strictEqual(await generator.applyPatch(patch), true);
+        assert.strictEqual(fs.readFileSync(file, 'utf8'), 'int main() {\n    return 0;\n    blog(LOG_INFO, "x");\n}\n');
+    });
+
+    test('should place fix-it hints with byte columns after non-ASCII text', async () => {
+        const file = path.join(tempDir, 'plugin.cpp');
+        const line = 'const char *label = "Größe 🎥"; int count = 1';
+        fs.writeFileSync(file, `${line}\n`);
+        const byteColumn = (text: string) => Buffer.byteLength(line.substring(0, line.indexOf(text)), 'utf8') + 1;
+
+        const error = createFixItError('plugin.cpp', 1, byteColumn('count'), byteColumn(' = 1'), 'total');
+        error.fixits!.push({
+            file: 'plugin.cpp',
+            range: { start: { line: 1, column: Buffer.byteLength(line, 'utf8') + 1 }, end: { line: 1, column: Buffer.byteLength(line, 'utf8') + 1 } },
+            replacement: ';'
+        });
+        error.fixits!.forEach(fixit => fixit.byte_columns = true);
+
+        const patch = generator.generateFixItPatch([error], tempDir)!;
+
+        assert.strictEqual(await generator.applyPatch(patch), true);
+        assert.strictEqual(fs.readFileSync(file, 'utf8'), 'const char *label = "Größe 🎥"; int total = 1;\n');
+    });
+
+    test('should reject overlapping fix-it hints without writing', async () => {
+        const file = path.join(tempDir, 'plugin.cpp');
+        fs.writeFileSync(file, 'abcdef\n');
+
+        const patch = generator.generateFixItPatch([
+            createFixItError('plugin.cpp', 1, 1, 4, 'x'),
+            createFixItError('plugin.cpp', 1, 3, 5, 'y')
+        ], tempDir)!;
+
+        assert.strictEqual(await generator.applyPatch(patch), false);
+        assert.strictEqual(fs.readFileSync(file, 'utf8'), 'abcdef\n');
+    });
+
+    test('should return null when there are no fix-it hints', () => {
+        assert.strictEqual(generator.generateFixItPatch([], tempDir), null);
+    });
+
+    test('should apply anchored replace, insert and delete instructions with whitespace-tolerant matching', async () => {
+        const file = path.join(tempDir, 'plugin-main.cpp');
+        fs.writeFileSync(file, [
+            '#include <obs-module.h>',
+            '',
+            'bool obs_module_load(void)',
+            '{',
+            '\t// debug output',
+            '\tobs_log(LOG_INFO,  "loaded");',
+            '\treturn true;',
+            '}'
+        ].join('\n'));
+
+        const patch = generator.generatePatch([
+            `FILE: ${file}`,
+            '<<<<<<< SEARCH',
+            '    obs_log(LOG_INFO, "loaded");',
+            '=======',
+            '\tobs_log(LOG_INFO, "plugin loaded");',
+            '>>>>>>> REPLACE',
+            '<<<<<<< INSERT_AFTER',
+            '#include <obs-module.h>',
+            '=======',
+            '#include <util/platform.h>',
+            '>>>>>>> END',
+            '<<<<<<< DELETE',
+            '\t// debug output',
+            '>>>>>>> END',
+            '<<<<<<< INSERT_AFTER',
+            '}',
+            '=======',
+            '',
+            'void obs_module_unload(void) {}',
+            '>>>>>>> END'
+        ].join('\n'), [file]);
+
+        assert.strictEqual(patch.type, 'edit_instructions');
+        assert.strictEqual(await generator.applyPatch(patch), true);
+        assert.strictEqual(fs.readFileSync(file, 'utf8'), [
+            '#include <obs-module.h>',
+            '#include <util/platform.h>',
+            '',
+            'bool obs_module_load(void)',
+            '{',
+            '\tobs_log(LOG_INFO, "plugin loaded");',
+            '\treturn true;',
+            '}',
+            '',
+            'void obs_module_unload(void) {}'
+        ].join('\n'));
+    });
+
+    test('should report every failed instruction and leave all files unchanged', async () => {
+        const first = path.join(tempDir, 'a.cpp');
+        const second = path.join(tempDir, 'b.cpp');
+        fs.writeFileSync(first, 'int a = 1;\n');
+        fs.writeFileSync(second, 'x();\nx();\n');
+
+        const patch = generator.generatePatch([
+            `FILE: ${first}`,
+            '<<<<<<< SEARCH',
+            'int a = 1;',
+            '=======',
+            'int a = 2;',
+            '>>>>>>> REPLACE',
+            `FILE: ${second}`,
+            '<<<<<<< DELETE',
+            'x();',
+            '>>>>>>> END',
+            '<<<<<<< INSERT_BEFORE',
+            'y();',
+            '=======',
+            'z();',
+            '>>>>>>> END'
+        ].join('\n'), [first, second]);
+
+        assert.strictEqual(await generator.applyPatch(patch), false);
+        assert.deepStrictEqual(patch.errors, [
+            'Instruction 2 (delete in b.cpp, line 8): DELETE text matches more than once in b.cpp: x();',
+            'Instruction 3 (insert_before in b.cpp, line 11): INSERT_BEFORE text not found in b.cpp: y();'
+        ]);
+        assert.strictEqual(fs.readFileSync(first, 'utf8'), 'int a = 1;\n');
+        assert.strictEqual(fs.readFileSync(second, 'utf8'), 'x();\nx();\n');
+    });
+
+    test('should reject malformed edit instructions with the offending line', () => {
+        assert.throws(() => generator.parseEditInstructions('<<<<<<< SEARCH\na\n=======\nb\n>>>>>>> REPLACE', tempDir),
+            /Line 1: SEARCH block has no preceding FILE: line/);
+        assert.throws(() => generator.parseEditInstructions('FILE: a.cpp\n<<<<<<< DELETE\na\n=======\n>>>>>>> END', tempDir),
+            /Line 4: DELETE block takes no replacement text/);
+        assert.throws(() => generator.parseEditInstructions('FILE: a.cpp\n<<<<<<< INSERT_AFTER\na\n', tempDir),
+            /Line 2: INSERT_AFTER block is not closed/);
+    });
+
+    test('should track pending patches and compute proposals without writing', () => {
+        const file = path.join(tempDir, 'plugin.cpp');
+        const created = path.join(tempDir, 'src', 'dock.hpp');
+        fs.writeFileSync(file, 'int a = 1;\n');
+
+        const edit = generator.generatePatch(`FILE: ${file}\n<<<<<<< SEARCH\nint a = 1;\n=======\nint a = 2;\n>>>>>>> REPLACE\n`, [file]);
+        const creation = generator.generatePatch('#pragma once\n', [created]);
+        creation.edits = [{ type: 'replace_range', file: created, range: { start: { line: 1, column: 1 }, end: { line: 1, column: 1 } }, text: '#pragma once\n' }];
+        creation.new_files = [created];
+
+        assert.deepStrictEqual(generator.getPendingPatches().map(patch => patch.id), [edit.id, creation.id]);
+        assert.deepStrictEqual(generator.computeProposal(edit), { files: [{ file, original: 'int a = 1;\n', proposed: 'int a = 2;\n' }], errors: [] });
+        assert.deepStrictEqual(generator.computeProposal(creation).files, [{ file: created, original: undefined, proposed: '#pragma once\n' }]);
+        assert.strictEqual(fs.readFileSync(file, 'utf8'), 'int a = 1;\n');
+        assert.ok(!fs.existsSync(created));
+
+        assert.ok(generator.writeProposal(edit, generator.computeProposal(edit).files));
+        assert.ok(generator.discardPatch(creation.id!));
+        assert.strictEqual(fs.readFileSync(file, 'utf8'), 'int a = 2;\n');
+        assert.strictEqual(edit.validation_status, 'valid');
+        assert.deepStrictEqual(generator.getPendingPatches(), []);
+    });
+});
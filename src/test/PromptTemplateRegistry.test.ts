@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PromptTemplateRegistry } from '../core/PromptTemplateRegistry';
+import { AIMiddleware } from '../core/AIMiddleware';
+import { ConfigManager } from '../core/ConfigManager';
+import { AIPromptConfig, ObsConfig } from '../types/ObsConfig';
+
+/**
+ * Test suite for user-defined prompt templates
+ */
+suite('PromptTemplateRegistry Tests', () => {
+    let root: string;
+    let registry: PromptTemplateRegistry;
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'obs-prompts-'));
+        registry = new PromptTemplateRegistry();
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    /**
+     * Write a template file into the default templates directory
+     */
+    function writeTemplate(name: string, content: string): void {
+        const directory = path.join(root, PromptTemplateRegistry.DEFAULT_TEMPLATES_DIR);
+        fs.mkdirSync(directory, { recursive: true });
+        fs.writeFileSync(path.join(directory, name), content);
+    }
+
+    test('Should load workspace template files with front matter and map them to intents', () => {
+        writeTemplate('review.md', [
+            '---',
+            'name: "Strict Reviewer"',
+            'intents: [assist]',
+            'variables: [header_ext, team]',
+            '---',
+            'Review as {team}; headers use {header_ext}.'
+        ].join('\n'));
+        const config = { system_template: 'obs_plugin_expert', variables: { team: 'the OBS team' } } as unknown as AIPromptConfig;
+
+        registry.load(config, root);
+        const template = registry.resolve('assist', config);
+        const rendering = registry.render(template, { header_ext: '.hpp', team: 'the OBS team' });
+
+        assert.strictEqual(template.id, 'review');
+        assert.strictEqual(template.name, 'Strict Reviewer');
+        assert.strictEqual(template.source, 'workspace');
+        assert.strictEqual(rendering.text, 'Review as the OBS team; headers use .hpp.');
+        assert.deepStrictEqual(rendering.warnings, []);
+        assert.strictEqual(registry.resolve('fix', config).id, 'obs_error_fix');
+    });
+
+    test('Should report unknown placeholders, unused and unfilled variables and unknown intent templates', () => {
+        const config = {
+            system_template: 'obs_plugin_expert',
+            intent_templates: { fix: 'missing_template' },
+            templates: {
+                fix_steps: { template: 'Fix {error_message} in {file} using {preset}', variables: ['error_message', 'file', 'ticket'] },
+                loose: { template: 'Platform {platform}, owner {owner}' }
+            }
+        } as unknown as AIPromptConfig;
+
+        registry.load(config, root);
+
+        assert.deepStrictEqual(registry.getWarnings('fix_steps'), [
+            'fix_steps: unknown placeholder {preset}',
+            'fix_steps: declared variable "ticket" is not used',
+            'fix_steps: variable "file" has no value; set it in ai_prompts.variables',
+            'fix_steps: variable "ticket" has no value; set it in ai_prompts.variables',
+            'ai_prompts.intent_templates.fix names unknown template "missing_template"'
+        ]);
+        assert.ok(registry.getWarnings('loose').includes('loose: unknown placeholder {owner}'));
+        assert.strictEqual(registry.resolve('fix', config).id, 'obs_error_fix');
+
+        const rendering = registry.render(registry.get('fix_steps')!, { error_message: 'boom' });
+        assert.strictEqual(rendering.text, 'Fix boom in  using ');
+        assert.deepStrictEqual(rendering.missing, ['file', 'preset']);
+    });
+
+    test('Should fill project and error variables and append custom context in system prompts', () => {
+        const config = {
+            coding_conventions: { header_extension: '.hpp', ui_components_dir: 'src/ui' },
+            platform_profiles: {},
+            dependencies: { obs: '.deps/obs' },
+            ai_prompts: {
+                system_template: 'custom',
+                custom_system_prompt: 'UI lives in {ui_dir}, deps in {deps_dir}.',
+                custom_context: 'Filter plugin for NDI sources',
+                intent_templates: { fix: 'fixer' },
+                templates: { fixer: { template: 'Fix {error_message} at {file_path}:{line_number}', intents: ['fix'] } }
+            }
+        } as unknown as ObsConfig;
+        const middleware = new AIMiddleware({ getConfig: () => config } as unknown as ConfigManager);
+
+        assert.strictEqual(middleware.generateSystemPrompt('assist', config),
+            'UI lives in src/ui, deps in .deps/obs.\n\nProject context:\nFilter plugin for NDI sources');
+
+        const variables = middleware.createErrorVariables([{ file: 'src/filter.cpp', line: 12, message: "unknown type 'obs_source'" }]);
+        assert.strictEqual(middleware.renderPromptTemplate('fix', config, variables).text,
+            "Fix unknown type 'obs_source' at src/filter.cpp:12");
+    });
+});
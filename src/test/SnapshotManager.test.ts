@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SnapshotManager } from '../core/SnapshotManager';
+import { PatchGenerator } from '../core/PatchGenerator';
+import { UnifiedDiffApplier } from '../core/UnifiedDiffApplier';
+
+/**
+ * Test suite for file snapshots and rolling back applied changes
+ */
+suite('SnapshotManager Tests', () => {
+    let root: string;
+    let storageDir: string;
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'obs-snapshot-'));
+        storageDir = path.join(root, 'storage');
+        fs.mkdirSync(path.join(root, 'src'));
+        fs.writeFileSync(path.join(root, 'src', 'plugin-main.cpp'), 'int a = 1;\n');
+        fs.writeFileSync(path.join(root, 'src', 'legacy.cpp'), 'int legacy;\n');
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    /**
+     * Read a file below the test root
+     */
+    function read(file: string): string {
+        return fs.readFileSync(path.join(root, file), 'utf8');
+    }
+
+    test('Should restore changed files, recreate deleted ones and delete created ones', () => {
+        const snapshots = new SnapshotManager(storageDir);
+        const main = path.join(root, 'src', 'plugin-main.cpp');
+        const legacy = path.join(root, 'src', 'legacy.cpp');
+        const created = path.join(root, 'src', 'ui', 'dock.hpp');
+
+        const snapshot = snapshots.record('Apply dock', [main, legacy, created, main]);
+        fs.writeFileSync(main, 'int a = 2;\n');
+        fs.unlinkSync(legacy);
+        fs.mkdirSync(path.dirname(created));
+        fs.writeFileSync(created, '#pragma once\n');
+
+        assert.deepStrictEqual(snapshot.files.map(file => file.existed), [true, true, false]);
+        const result = snapshots.restore(snapshot.id);
+
+        assert.deepStrictEqual(result, { restored: [main, legacy], deleted: [created] });
+        assert.strictEqual(read('src/plugin-main.cpp'), 'int a = 1;\n');
+        assert.strictEqual(read('src/legacy.cpp'), 'int legacy;\n');
+        assert.ok(!fs.existsSync(created));
+        assert.ok(snapshots.get(snapshot.id)?.restored_at);
+        assert.deepStrictEqual(snapshots.restore(snapshot.id), { restored: [], deleted: [] });
+    });
+
+    test('Should list snapshots newest first, skip restored ones for undo and prune old ones', () => {
+        const snapshots = new SnapshotManager(storageDir, 2);
+        const main = path.join(root, 'src', 'plugin-main.cpp');
+
+        const first = snapshots.record('First', [main]);
+        const second = snapshots.record('Second', [main]);
+        const third = snapshots.record('Third', [main]);
+
+        assert.deepStrictEqual(snapshots.list().map(snapshot => snapshot.label), ['Third', 'Second']);
+        assert.ok(!fs.existsSync(path.join(storageDir, first.id)));
+        snapshots.restore(third.id);
+        assert.strictEqual(snapshots.getLatest()?.id, second.id);
+        assert.strictEqual(snapshots.discard(second.id), true);
+        assert.strictEqual(snapshots.getLatest(), undefined);
+        assert.deepStrictEqual(new SnapshotManager(storageDir).list().map(snapshot => snapshot.id), [third.id]);
+    });
+
+    test('Should record a snapshot for applied patches and roll back failed ones', async () => {
+        const snapshots = new SnapshotManager(storageDir);
+        const generator = new PatchGenerator(undefined, undefined, new UnifiedDiffApplier(), snapshots);
+        const main = path.join(root, 'src', 'plugin-main.cpp');
+        const created = path.join(root, 'src', 'filter.hpp');
+
+        const patch = generator.generatePatch(`FILE: ${main}\n<<<<<<< SEARCH\nint a = 1;\n=======\nint a = 2;\n>>>>>>> REPLACE\n`, [main], false);
+        patch.description = 'bump a';
+        assert.strictEqual(await generator.applyPatch(patch), true);
+        assert.strictEqual(read('src/plugin-main.cpp'), 'int a = 2;\n');
+
+        const failing = generator.generatePatch(`FILE: ${created}\n<<<<<<< SEARCH\nmissing\n=======\nint b;\n>>>>>>> REPLACE\n`, [created], false);
+        failing.new_files = [created];
+        assert.strictEqual(await generator.applyPatch(failing), false);
+        assert.ok(!fs.existsSync(created));
+
+        assert.deepStrictEqual(snapshots.list().map(snapshot => snapshot.label), ['Apply bump a']);
+        snapshots.restore(snapshots.getLatest()!.id);
+        assert.strictEqual(read('src/plugin-main.cpp'), 'int a = 1;\n');
+    });
+
+    test('Should neither record a snapshot nor create new files for a patch that fails validation', async () => {
+        const snapshots = new SnapshotManager(storageDir);
+        const generator = new PatchGenerator(undefined, undefined, new UnifiedDiffApplier(), snapshots);
+        const missing = path.join(root, 'src', 'missing.cpp');
+        const created = path.join(root, 'src', 'filter.hpp');
+
+        const patch = generator.generatePatch(`FILE: ${missing}\n<<<<<<< SEARCH\nint a;\n=======\nint b;\n>>>>>>> REPLACE\n`, [missing, created], false);
+        patch.new_files = [created];
+
+        assert.strictEqual(await generator.applyPatch(patch), false);
+        assert.deepStrictEqual(patch.errors, [`Target file does not exist: ${missing}`]);
+        assert.ok(!fs.existsSync(created));
+        assert.deepStrictEqual(snapshots.list(), []);
+    });
+});
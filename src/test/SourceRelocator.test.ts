@@ -0,0 +1,124 @@
+import * as assert from 'assert';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SourceRelocator } from '../core/SourceRelocator';
+
+/**
+ * Test suite for SourceRelocator
+ * Tests renaming files with include and CMake source list rewrites
+ */
+suite('SourceRelocator Tests', () => {
+    let relocator: SourceRelocator;
+    let tempDir: string;
+
+    setup(() => {
+        relocator = new SourceRelocator();
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'source-relocator-test-'));
+    });
+
+    teardown(() => {
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    /**
+     * Create a file below the temporary workspace
+     */
+    function writeFile(relativePath: string, content: string): void {
+        const fullPath = path.join(tempDir, relativePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    }
+
+    /**
+     * Read a file below the temporary workspace
+     */
+    function readFile(relativePath: string): string {
+        return fs.readFileSync(path.join(tempDir, relativePath), 'utf8');
+    }
+
+    test('Should rename a header and rewrite includes and CMake sources', async () => {
+        writeFile('src/filter.h', '#pragma once\n');
+        writeFile('src/filter.cpp', '#include "filter.h"\r\n#include <obs-module.h>\r\n');
+        writeFile('src/ui/panel.cpp', '#include "../filter.h"\n#include <filter.h>\n');
+        writeFile('CMakeLists.txt', 'target_sources(${CMAKE_PROJECT_NAME} PRIVATE src/filter.cpp src/filter.h)\n' +
+            '# src/filter.h stays in comments\n');
+        writeFile('src/CMakeLists.txt', 'target_sources(plugin PRIVATE ${CMAKE_CURRENT_SOURCE_DIR}/filter.h)\n');
+
+        const plan = await relocator.plan(tempDir, [{ from: 'src/filter.h', to: 'src/filter.hpp' }]);
+        assert.strictEqual(plan.edits.length, 4);
+        assert.ok(relocator.formatPreview(plan).includes('-#include "filter.h"'));
+
+        await relocator.apply(plan);
+
+        assert.ok(fs.existsSync(path.join(tempDir, 'src/filter.hpp')));
+        assert.ok(!fs.existsSync(path.join(tempDir, 'src/filter.h')));
+        assert.strictEqual(readFile('src/filter.cpp'), '#include "filter.hpp"\r\n#include <obs-module.h>\r\n');
+        assert.strictEqual(readFile('src/ui/panel.cpp'), '#include "../filter.hpp"\n#include <filter.hpp>\n');
+        assert.ok(readFile('CMakeLists.txt').includes('src/filter.cpp src/filter.hpp)'));
+        assert.ok(readFile('CMakeLists.txt').includes('# src/filter.h stays'));
+        assert.ok(readFile('src/CMakeLists.txt').includes('${CMAKE_CURRENT_SOURCE_DIR}/filter.hpp'));
+
+        await relocator.revert(plan);
+        assert.strictEqual(readFile('src/filter.cpp'), '#include "filter.h"\r\n#include <obs-module.h>\r\n');
+        assert.ok(fs.existsSync(path.join(tempDir, 'src/filter.h')));
+    });
+
+    test('Should use git mv for tracked files', async () => {
+        writeFile('src/filter.h', '#pragma once\n');
+        const git = (...args: string[]) => cp.execFileSync('git', args, { cwd: tempDir, encoding: 'utf8' });
+        git('init', '-q');
+        git('add', '.');
+
+        const plan = await relocator.plan(tempDir, [{ from: 'src/filter.h', to: 'src/filter.hpp' }]);
+        assert.strictEqual(plan.use_git, true);
+        await relocator.apply(plan);
+
+        assert.strictEqual(git('ls-files').trim(), 'src/filter.hpp');
+    });
+
+    test('Should move a UI component with its implementation and form', async () => {
+        writeFile('src/SettingsDialog.hpp', '#pragma once\n#include "plugin-support.h"\n');
+        writeFile('src/SettingsDialog.cpp', '#include "SettingsDialog.hpp"\n#include "ui_SettingsDialog.h"\n' +
+            '#include "plugin-support.h"\n#include "moc_SettingsDialog.cpp"\n');
+        writeFile('src/SettingsDialog.ui', '<ui version="4.0"/>\n');
+        writeFile('src/plugin-support.h', '#pragma once\n');
+        writeFile('src/plugin-main.cpp', '#include "SettingsDialog.hpp"\n');
+        writeFile('CMakeLists.txt', 'target_sources(plugin PRIVATE src/SettingsDialog.cpp src/SettingsDialog.hpp src/SettingsDialog.ui)\n');
+
+        const moves = relocator.withCompanions(tempDir, [{ from: 'src/SettingsDialog.hpp', to: 'src/ui/SettingsDialog.hpp' }]);
+        assert.deepStrictEqual(moves.map(move => move.to).sort(), [
+            'src/ui/SettingsDialog.cpp',
+            'src/ui/SettingsDialog.hpp',
+            'src/ui/SettingsDialog.ui'
+        ]);
+
+        await relocator.apply(await relocator.plan(tempDir, moves));
+
+        assert.strictEqual(readFile('src/ui/SettingsDialog.hpp'), '#pragma once\n#include "../plugin-support.h"\n');
+        assert.strictEqual(readFile('src/ui/SettingsDialog.cpp'), '#include "SettingsDialog.hpp"\n#include "ui_SettingsDialog.h"\n' +
+            '#include "../plugin-support.h"\n#include "moc_SettingsDialog.cpp"\n');
+        assert.strictEqual(readFile('src/plugin-main.cpp'), '#include "ui/SettingsDialog.hpp"\n');
+        assert.strictEqual(readFile('CMakeLists.txt'),
+            'target_sources(plugin PRIVATE src/ui/SettingsDialog.cpp src/ui/SettingsDialog.hpp src/ui/SettingsDialog.ui)\n');
+    });
+
+    test('Should update directory-qualified moc includes', async () => {
+        writeFile('src/widgets/Panel.hpp', '#pragma once\n');
+        writeFile('src/main.cpp', '#include "widgets/moc_Panel.cpp"\n');
+
+        await relocator.apply(await relocator.plan(tempDir, [{ from: 'src/widgets/Panel.hpp', to: 'src/ui/Panel.hpp' }]));
+
+        assert.strictEqual(readFile('src/main.cpp'), '#include "ui/moc_Panel.cpp"\n');
+    });
+
+    test('Should refuse to overwrite an existing file', async () => {
+        writeFile('src/filter.h', '');
+        writeFile('src/filter.hpp', '');
+
+        await assert.rejects(relocator.plan(tempDir, [{ from: 'src/filter.h', to: 'src/filter.hpp' }]), /already exists/);
+    });
+});
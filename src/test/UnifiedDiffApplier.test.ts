@@ -0,0 +1,161 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { UnifiedDiffApplier } from '../core/UnifiedDiffApplier';
+
+/**
+ * Test suite for applying unified diffs without git
+ */
+suite('UnifiedDiffApplier Tests', () => {
+    const PLUGIN_MAIN = [
+        '#include <obs-module.h>',
+        '',
+        'OBS_DECLARE_MODULE()',
+        '',
+        'bool obs_module_load(void)',
+        '{',
+        '    obs_log(LOG_INFO, "loaded");',
+        '    return true;',
+        '}',
+        ''
+    ].join('\n');
+
+    let root: string;
+    let applier: UnifiedDiffApplier;
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'obs-diff-'));
+        fs.mkdirSync(path.join(root, 'src'));
+        fs.writeFileSync(path.join(root, 'src', 'plugin-main.cpp'), PLUGIN_MAIN);
+        applier = new UnifiedDiffApplier();
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    /**
+     * Read a file below the test root
+     */
+    function read(file: string): string {
+        return fs.readFileSync(path.join(root, file), 'utf8');
+    }
+
+    test('Should apply hunks with wrong line numbers and missing header numbers by their context', () => {
+        const diff = [
+            '--- a/src/plugin-main.cpp',
+            '+++ b/src/plugin-main.cpp',
+            '@@ -1,2 +1,3 @@',
+            ' #include <obs-module.h>',
+            '+#include <util/platform.h>',
+            ' ',
+            '@@ -40,4 +41,4 @@',
+            ' {',
+            '-    obs_log(LOG_INFO, "loaded");',
+            '+    obs_log(LOG_INFO, "plugin loaded");',
+            '     return true;',
+            '@@',
+            ' }',
+            '+',
+            '+void obs_module_unload(void) {}',
+            ''
+        ].join('\n');
+
+        const result = applier.apply(diff, root);
+
+        assert.strictEqual(result.applied, true, applier.formatRejects(result));
+        assert.deepStrictEqual(result.changed_files, [path.join(root, 'src', 'plugin-main.cpp')]);
+        assert.deepStrictEqual(result.adjustments.map(adjustment => [adjustment.hunk, adjustment.offset]), [[2, -34]]);
+        assert.strictEqual(read('src/plugin-main.cpp'), [
+            '#include <obs-module.h>',
+            '#include <util/platform.h>',
+            '',
+            'OBS_DECLARE_MODULE()',
+            '',
+            'bool obs_module_load(void)',
+            '{',
+            '    obs_log(LOG_INFO, "plugin loaded");',
+            '    return true;',
+            '}',
+            '',
+            'void obs_module_unload(void) {}',
+            ''
+        ].join('\n'));
+    });
+
+    test('Should create, delete and rename files from a git diff', () => {
+        fs.writeFileSync(path.join(root, 'src', 'old.hpp'), '#pragma once\n');
+        fs.writeFileSync(path.join(root, 'src', 'legacy.cpp'), 'int legacy;\n');
+        const diff = [
+            'diff --git a/src/ui/dock.hpp b/src/ui/dock.hpp',
+            'new file mode 100644',
+            '--- /dev/null',
+            '+++ b/src/ui/dock.hpp',
+            '@@ -0,0 +1,2 @@',
+            '+#pragma once',
+            '+class Dock;',
+            '\\ No newline at end of file',
+            'diff --git a/src/legacy.cpp b/src/legacy.cpp',
+            'deleted file mode 100644',
+            '--- a/src/legacy.cpp',
+            '+++ /dev/null',
+            '@@ -1 +0,0 @@',
+            '-int legacy;',
+            'diff --git a/src/old.hpp b/src/filter.hpp',
+            'similarity index 100%',
+            'rename from src/old.hpp',
+            'rename to src/filter.hpp',
+            ''
+        ].join('\n');
+
+        const result = applier.apply(diff, root);
+
+        assert.strictEqual(result.applied, true, applier.formatRejects(result));
+        assert.strictEqual(read('src/ui/dock.hpp'), '#pragma once\nclass Dock;');
+        assert.strictEqual(read('src/filter.hpp'), '#pragma once\n');
+        assert.ok(!fs.existsSync(path.join(root, 'src', 'legacy.cpp')));
+        assert.ok(!fs.existsSync(path.join(root, 'src', 'old.hpp')));
+        assert.deepStrictEqual(result.deleted_files.sort(), [path.join(root, 'src', 'legacy.cpp'), path.join(root, 'src', 'old.hpp')].sort());
+    });
+
+    test('Should apply within fuzz and reject unmatched hunks with a reason without writing', () => {
+        const fuzzy = [
+            '--- a/src/plugin-main.cpp',
+            '+++ b/src/plugin-main.cpp',
+            '@@ -5,4 +5,4 @@',
+            ' bool obs_module_load(void)',
+            ' {',
+            '-    obs_log(LOG_INFO, "loaded");',
+            '+    obs_log(LOG_INFO, "ready");',
+            '     return false;',
+            ''
+        ].join('\n');
+        assert.strictEqual(applier.apply(fuzzy, root, { max_offset: 10, fuzz: 0 }).applied, false);
+        const fuzzed = applier.apply(fuzzy, root, { max_offset: 10, fuzz: 1 });
+        assert.deepStrictEqual(fuzzed.adjustments.map(adjustment => adjustment.fuzz), [1]);
+        assert.ok(read('src/plugin-main.cpp').includes('"ready"'));
+
+        const diff = [
+            '--- a/src/plugin-main.cpp',
+            '+++ b/src/plugin-main.cpp',
+            '@@ -1,2 +1,2 @@',
+            '-#include <obs-module.h>',
+            '+#include <obs-module.hpp>',
+            ' ',
+            '@@ -7,2 +7,2 @@',
+            '-    obs_log(LOG_WARNING, "loaded");',
+            '+    obs_log(LOG_INFO, "loaded");',
+            '     return true;',
+            ''
+        ].join('\n');
+        const result = applier.apply(diff, root, { max_offset: 10, fuzz: 2 });
+
+        assert.strictEqual(result.applied, false);
+        assert.deepStrictEqual(result.rejects.map(reject => [reject.file, reject.hunk]), [['src/plugin-main.cpp', 2]]);
+        assert.strictEqual(result.rejects[0].reason,
+            'context not found within 10 lines of line 7; line 7 is "obs_log(LOG_INFO, "ready");", expected "obs_log(LOG_WARNING, "loaded");"');
+        assert.ok(applier.formatRejects(result).startsWith('src/plugin-main.cpp hunk 2 rejected: context not found'));
+        assert.ok(read('src/plugin-main.cpp').startsWith('#include <obs-module.h>\n'));
+    });
+});
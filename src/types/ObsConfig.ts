@@ -26,8 +26,11 @@ export interface PlatformProfile {
     configure_command: string;
     output_dir: string;
     compiler: string;
+    diagnostics_format?: DiagnosticsFormat;
 }
 
+export type DiagnosticsFormat = 'text' | 'sarif' | 'json';
+
 export interface CodingConventions {
     header_extension: string;
     use_pragma_once: boolean;
@@ -36,25 +39,117 @@ export interface CodingConventions {
     english_comments: boolean;
     auto_commit: boolean;
     namespace?: string;
+    rules?: Record<string, ConventionRuleSetting>;
+    commit_gate?: CommitGateSettings;
+}
+
+export interface CommitGateSettings {
+    enabled?: boolean;
+    /** Lowest severity that blocks a commit */
+    block_on?: ConventionSeverity;
+    /** Apply rule auto-fixes to fully staged files before checking */
+    auto_fix?: boolean;
+}
+
+export type ConventionSeverity = 'error' | 'warning' | 'info';
+
+export type ConventionRuleSetting = ConventionSeverity | 'off' | ConventionRuleConfig;
+
+export interface ConventionRuleConfig {
+    enabled?: boolean;
+    severity?: ConventionSeverity;
+    files?: string[];
+    exclude?: string[];
+    options?: Record<string, unknown>;
+    /** Custom rules only: report lines matching this regular expression */
+    pattern?: string;
+    /** Custom rules only: message shown for each match */
+    message?: string;
+    /** Custom rules only: replacement used to auto-fix matches */
+    replacement?: string;
+    description?: string;
 }
 
 export interface AIPromptConfig {
+    /** Template for compile and assist requests, or 'custom' to use custom_system_prompt */
     system_template: string;
     include_conventions: boolean;
     include_project_structure: boolean;
     include_recent_errors: boolean;
     custom_system_prompt?: string;
+    /** Appended to the system prompt unless the template places it with {custom_context} */
     custom_context?: string;
+    /** Template id per intent, overriding system_template and the templates' own intents */
+    intent_templates?: Partial<Record<AIIntent, string>>;
+    templates?: Record<string, PromptTemplateDefinition>;
+    /** Workspace directory of .md prompt templates, default .obs/prompts */
+    templates_dir?: string;
+    /** Values of user-defined template variables */
+    variables?: Record<string, string>;
+}
+
+export type AIIntent = 'compile' | 'fix' | 'assist';
+
+export type PromptTemplateType = 'system' | 'error_analysis' | 'fix_suggestion';
+
+/**
+ * A prompt template as written in ai_prompts.templates or the front matter of a template file
+ */
+export interface PromptTemplateDefinition {
+    name?: string;
+    type?: PromptTemplateType;
+    template: string;
+    /** Placeholders the template uses; any other {placeholder} is reported */
+    variables?: string[];
+    /** Intents this template is used for unless intent_templates says otherwise */
+    intents?: AIIntent[];
 }
 
 export interface AIRequestEnvelope {
-    intent: 'compile' | 'fix' | 'assist';
+    intent: AIIntent;
     system_prompt: string;
     user_prompt: string;
     file_contexts: FileContext[];
     recent_build_log?: string;
-    coding_conventions: CodingConventions;
+    /** Left out when the context budget has no room for it */
+    coding_conventions?: CodingConventions;
     project_structure: ProjectStructure;
+    /** Signatures of the OBS APIs the request refers to */
+    api_reference?: string;
+    /** Estimated size of the rendered request */
+    estimated_tokens?: number;
+    context_budget?: ContextBudgetReport;
+    redaction?: RedactionReport;
+}
+
+export interface RedactionReport {
+    /** Secrets replaced, by rule id */
+    secrets: Record<string, number>;
+    /** Workspace and home directory paths replaced with placeholders */
+    paths: number;
+    /** Files left out because they match an exclude glob */
+    excluded_files: string[];
+}
+
+export interface ObsApiSymbol {
+    name: string;
+    kind: 'function' | 'struct' | 'enum' | 'union' | 'typedef';
+    /** Declaration without EXPORT and comments; types include their body */
+    signature: string;
+    doc?: string;
+    /** Absolute path of the defining header */
+    header: string;
+    /** Path to use in an #include directive, such as obs-module.h or graphics/graphics.h */
+    include: string;
+    line: number;
+}
+
+export interface ObsApiIndexCache {
+    version: number;
+    /** Header roots the index was built from */
+    roots: string[];
+    built_at: string;
+    symbols: ObsApiSymbol[];
 }
 
 export interface FileContext {
@@ -62,6 +157,38 @@ export interface FileContext {
     snippet: string;
     cursor_line: number;
     file_type: 'hpp' | 'cpp' | 'ui' | 'cmake';
+    /** Zero-based line of the first snippet line, when the snippet is not the start of the file */
+    start_line?: number;
+}
+
+export type ContextKind = 'error_site' | 'declaration' | 'api_reference' | 'build_target' | 'active_file' | 'paired_header' | 'build_log' | 'conventions';
+
+export interface ContextCandidate {
+    /** File path, or the kind for contexts that are not files */
+    id: string;
+    kind: ContextKind;
+    content: string;
+    /** Zero-based line of the first content line */
+    start_line?: number;
+    /** Zero-based line kept when the content is cut down around a position */
+    focus_line?: number;
+}
+
+export interface ContextBudgetItem {
+    id: string;
+    kind: ContextKind;
+    tokens: number;
+    truncated: boolean;
+}
+
+export interface ContextBudgetReport {
+    budget_tokens: number;
+    /** Tokens taken by the prompts and project structure before any context is added */
+    reserved_tokens: number;
+    used_tokens: number;
+    included: ContextBudgetItem[];
+    /** Contexts left out, with their full estimated size */
+    dropped: ContextBudgetItem[];
 }
 
 export interface ProjectStructure {
@@ -80,12 +207,166 @@ export interface BuildError {
     message: string;
     raw: string;
     convention_violation?: ConventionViolation;
+    related?: RelatedDiagnostic[];
+    suggestion?: string;
+    linker?: LinkerDiagnostic;
+    cmake?: CMakeDiagnostic;
+    range?: SourceRange;
+    fixits?: FixItHint[];
+    fingerprint?: string;
+}
+
+export interface SourcePosition {
+    line: number;
+    column: number;
+}
+
+export interface SourceRange {
+    start: SourcePosition;
+    end: SourcePosition;
+}
+
+export interface FixItHint {
+    file: string;
+    range: SourceRange;
+    replacement: string;
+    /** Columns count UTF-8 bytes, as in GCC JSON output, instead of UTF-16 code units */
+    byte_columns?: boolean;
+}
+
+export interface LinkerDiagnostic {
+    kind: 'undefined_symbol' | 'duplicate_symbol' | 'missing_library';
+    symbol: string;
+    mangled_symbol?: string;
+    object_files: string[];
+    referencing_functions: string[];
+    classification: 'missing_frontend_api' | 'missing_libobs' | 'missing_qt_module' | 'missing_moc' | 'duplicate_definition' | 'unknown';
+}
+
+export interface CMakeDiagnostic {
+    kind: 'error' | 'warning' | 'dev_warning' | 'deprecation_warning' | 'deprecation_error';
+    command?: string;
+    category: 'missing_package' | 'bad_preset' | 'stale_cache' | 'generator_mismatch' | 'toolchain' | 'other';
+    package?: string;
+    dependency_key?: string;
+    cache_variable?: string;
+}
+
+export interface RelatedDiagnostic {
+    kind: 'note' | 'include' | 'instantiation' | 'context' | 'call_stack';
+    file: string;
+    line: number;
+    column: number;
+    message: string;
+}
+
+export interface DiagnosticLineParser {
+    /** Feed a single log line, returns true when the line belongs to this parser */
+    feed(line: string): boolean;
+    /** Close the diagnostic currently being assembled */
+    flush(): void;
+    /** Take all completed diagnostics */
+    drain(): BuildError[];
+    /** Take lines that were claimed but turned out to belong to other parsers */
+    release?(): string[];
+    /** Whether the claimed lines may still be given back, so the current diagnostic stays open */
+    isTentative?(): boolean;
 }
 
 export interface ConventionViolation {
-    type: 'missing_pragma_once' | 'wrong_header_extension' | 'ui_component_location' | 'moc_include_missing';
+    /** Id of the rule that reported the violation */
+    type: string;
     suggestion: string;
     auto_fixable: boolean;
+    severity?: ConventionSeverity;
+    file?: string;
+    line?: number;
+}
+
+export interface ConventionScanResult {
+    workspace_root: string;
+    timestamp: string;
+    duration: number;
+    files_scanned: number;
+    rules: ConventionRuleSummary[];
+    /** Violations with workspace-relative file paths */
+    violations: ConventionViolation[];
+}
+
+export interface ConventionRuleSummary {
+    id: string;
+    description: string;
+    severity: ConventionSeverity;
+    violation_count: number;
+}
+
+export type ConventionReportFormat = 'json' | 'sarif' | 'html';
+
+export interface ConventionRuleContext {
+    /** Workspace-relative path with forward slashes */
+    relativePath: string;
+    filePath: string;
+    content: string;
+    conventions: Partial<CodingConventions>;
+    options: Record<string, unknown>;
+}
+
+export interface ConventionFinding {
+    message: string;
+    line?: number;
+}
+
+export interface ConventionRule {
+    id: string;
+    description: string;
+    /** Globs matched against the workspace-relative path */
+    files: string[];
+    severity: ConventionSeverity;
+    /** Whether the rule runs when .obspluginrc.json does not mention it */
+    isEnabledByDefault?(conventions: Partial<CodingConventions>): boolean;
+    check(context: ConventionRuleContext): ConventionFinding[];
+    /** Return the fixed content, or undefined when nothing could be fixed */
+    fix?(context: ConventionRuleContext): string | undefined;
+    /** Return the workspace-relative path the file should be moved to, for violations fixed by moving the file */
+    relocate?(context: ConventionRuleContext): string | undefined;
+}
+
+export interface FileMove {
+    /** Workspace-relative paths with forward slashes */
+    from: string;
+    to: string;
+}
+
+export interface RelocationChange {
+    line: number;
+    before: string;
+    after: string;
+}
+
+export interface RelocationEdit {
+    /** Workspace-relative path before any move */
+    file: string;
+    original: string;
+    content: string;
+    changes: RelocationChange[];
+}
+
+export interface RelocationPlan {
+    workspace_root: string;
+    moves: FileMove[];
+    edits: RelocationEdit[];
+    use_git: boolean;
+}
+
+export interface CommitGateResult {
+    workspace_root: string;
+    /** Staged workspace-relative paths that were checked */
+    files: string[];
+    /** Rules auto-fixed and re-staged per file */
+    fixed: Record<string, string[]>;
+    violations: ConventionViolation[];
+    blocking: ConventionViolation[];
+    passed: boolean;
 }
 
 export interface ErrorCollection {
@@ -96,12 +377,174 @@ export interface ErrorCollection {
 }
 
 export interface PatchOperation {
+    /** Key of the patch among PatchGenerator's pending patches */
+    id?: string;
     type: 'unified_diff' | 'edit_instructions';
     content: string;
     target_files: string[];
     validation_status: 'valid' | 'invalid' | 'pending';
     convention_compliance: boolean;
     auto_commit: boolean;
+    edits?: EditInstruction[];
+    /** One-line summary shown when the patch is reviewed */
+    description?: string;
+    /** Target files that do not exist yet and are created empty before the edits are applied */
+    new_files?: string[];
+    /** Why the last attempt to apply the patch failed, one entry per failed edit or rejected hunk */
+    errors?: string[];
+    /** Rejected hunks of a unified diff with their reasons, from the last attempt to apply it */
+    reject_report?: string;
+}
+
+export interface SuggestedChange {
+    /** A unified diff, the complete new content of one file, or SEARCH/REPLACE blocks for one file */
+    kind: 'unified_diff' | 'file_content' | 'search_replace';
+    /** Workspace-relative target paths */
+    files: string[];
+    content: string;
+}
+
+/**
+ * Patches made from the changes in an AI response, and the changes that could not be used
+ */
+export interface AIResponsePatches {
+    patches: PatchOperation[];
+    rejected: RejectedChange[];
+}
+
+export interface RejectedChange {
+    files: string[];
+    reason: string;
+}
+
+export interface EditInstruction {
+    type: 'replace_range';
+    file: string;
+    range: SourceRange;
+    text: string;
+    /** Columns count UTF-8 bytes instead of UTF-16 code units */
+    byte_columns?: boolean;
+}
+
+export type AnchoredEditOperation = 'replace' | 'insert_before' | 'insert_after' | 'delete';
+
+export interface AnchoredEdit {
+    operation: AnchoredEditOperation;
+    file: string;
+    /** Text that locates the edit; empty for a replace means append to the file */
+    anchor: string;
+    /** Replacement or inserted text; empty for delete */
+    text: string;
+    /** One-based line of the block in the edit instructions */
+    line: number;
+}
+
+export interface AnchoredEditFailure {
+    /** One-based position of the instruction in the edit instructions */
+    index: number;
+    line: number;
+    operation: AnchoredEditOperation;
+    file: string;
+    reason: string;
+}
+
+export interface DiffHunk {
+    /** One-based start lines from the @@ header; 0 when the header has no line numbers */
+    old_start: number;
+    old_lines: number;
+    new_start: number;
+    new_lines: number;
+    header: string;
+    /** Hunk body lines with their ' ', '-' or '+' prefix */
+    lines: string[];
+    /** Whether the new side ends without a newline */
+    no_newline_new?: boolean;
+}
+
+export interface FileDiff {
+    status: 'modify' | 'create' | 'delete' | 'rename';
+    /** Paths as written in the diff with the a/ and b/ prefixes removed */
+    old_path: string;
+    new_path: string;
+    hunks: DiffHunk[];
+}
+
+export interface DiffApplyOptions {
+    /** Furthest a hunk may move from the line its header names */
+    max_offset: number;
+    /** Leading and trailing context lines a hunk may ignore when it does not match */
+    fuzz: number;
+}
+
+export interface HunkAdjustment {
+    file: string;
+    /** One-based position of the hunk in its file diff */
+    hunk: number;
+    offset: number;
+    fuzz: number;
+}
+
+export interface HunkReject {
+    file: string;
+    /** One-based position of the hunk in its file diff; 0 when the whole file was rejected */
+    hunk: number;
+    header: string;
+    reason: string;
+    lines: string[];
+}
+
+export interface DiffApplyResult {
+    /** Whether every hunk applied; nothing is written otherwise */
+    applied: boolean;
+    changed_files: string[];
+    created_files: string[];
+    deleted_files: string[];
+    adjustments: HunkAdjustment[];
+    rejects: HunkReject[];
+}
+
+export interface LineHunk {
+    /** Zero-based first line of the hunk in the original content */
+    original_start: number;
+    original_lines: string[];
+    proposed_lines: string[];
+}
+
+export type HunkDecision = 'pending' | 'accepted' | 'rejected';
+
+export interface ProposedFileChange {
+    file: string;
+    /** Current content; undefined when the patch creates the file */
+    original?: string;
+    /** Content after the patch; undefined when the patch deletes the file */
+    proposed?: string;
+}
+
+export interface PatchProposal {
+    files: ProposedFileChange[];
+    /** Why the proposal could not be computed; files is empty then */
+    errors: string[];
+}
+
+export interface SnapshotFileEntry {
+    path: string;
+    /** False for files that did not exist yet; restoring deletes them */
+    existed: boolean;
+    /** Name of the stored copy inside the snapshot directory */
+    blob?: string;
+}
+
+export interface FileSnapshot {
+    id: string;
+    label: string;
+    timestamp: string;
+    files: SnapshotFileEntry[];
+    restored_at?: string;
+}
+
+export interface SnapshotRestoreResult {
+    restored: string[];
+    deleted: string[];
 }
 
 export interface TemplateGeneration {
@@ -123,13 +566,104 @@ export interface BuildResult {
     errors: BuildError[];
     cmake_preset: string;
     build_command: string;
+    stopped_early?: boolean;
+    history_id?: string;
+}
+
+export interface BuildHistoryEntry {
+    id: string;
+    timestamp: string;
+    cmake_preset: string;
+    build_command: string;
+    duration: number;
+    success: boolean;
+    error_count: number;
+    warning_count: number;
+    errors: RecordedBuildError[];
+}
+
+export interface RecordedBuildError {
+    fingerprint: string;
+    file: string;
+    line: number;
+    severity: 'error' | 'warning' | 'info';
+    message: string;
+}
+
+export interface BuildComparison {
+    base: BuildHistoryEntry;
+    target: BuildHistoryEntry;
+    new_errors: RecordedBuildError[];
+    fixed_errors: RecordedBuildError[];
+    persisting_errors: RecordedBuildError[];
+}
+
+export interface BuildOptions {
+    onProgress?: (message: string) => void;
+    failFastErrorLimit?: number;
+}
+
+export interface BuildProgress {
+    completed?: number;
+    total?: number;
+    percent?: number;
+    description: string;
+}
+
+export interface AIChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface AIChatRequest {
+    messages: AIChatMessage[];
+    temperature?: number;
+    max_tokens?: number;
+}
+
+export interface AIChatResponse {
+    content: string;
+    model: string;
+    finish_reason?: string;
+    usage?: {
+        prompt_tokens: number;
+        completion_tokens: number;
+    };
+}
+
+/**
+ * Cancellation signal compatible with vscode.CancellationToken
+ */
+export interface AICancellationToken {
+    isCancellationRequested: boolean;
+    onCancellationRequested(listener: () => void): { dispose(): void };
+}
+
+/**
+ * A chat model backend used by AIMiddleware
+ */
+export interface AIProvider {
+    readonly id: string;
+    complete(request: AIChatRequest, token?: AICancellationToken): Promise<AIChatResponse>;
 }
 
 export interface PromptTemplate {
     id: string;
     name: string;
-    type: 'system' | 'error_analysis' | 'fix_suggestion';
+    type: PromptTemplateType;
     template: string;
-    variables: Record<string, any>;
-    conventions: CodingConventions;
+    variables: string[];
+    intents: AIIntent[];
+    source: 'builtin' | 'config' | 'workspace';
+    /** Template file, for workspace templates */
+    file?: string;
+}
+
+export interface PromptTemplateRendering {
+    template: PromptTemplate;
+    text: string;
+    /** Placeholders that had no value and were left empty */
+    missing: string[];
+    /** Problems found when the template was loaded */
+    warnings: string[];
 }
\ No newline at end of file
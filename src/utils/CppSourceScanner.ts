@@ -0,0 +1,324 @@
+/**
+ * A comment found in C/C++ source
+ */
+export interface CppComment {
+    text: string;
+    line: number;
+    kind: 'line' | 'block';
+}
+
+/**
+ * A declaration at namespace scope
+ */
+export interface CppDeclaration {
+    name: string;
+    line: number;
+    kind: 'type' | 'function' | 'variable' | 'alias' | 'forward' | 'other';
+    /** Enclosing named namespaces, outermost first; anonymous namespaces are empty strings */
+    namespaces: string[];
+    /** Declared inside an extern "C" block or with an extern "C" prefix */
+    externC: boolean;
+    /** Name is qualified, such as an out-of-line member definition */
+    qualified: boolean;
+}
+
+/**
+ * Scope opened by a brace at namespace level
+ */
+interface Scope {
+    kind: 'namespace' | 'extern';
+    /** Namespace name, possibly nested such as a::b, or empty for anonymous namespaces */
+    name: string;
+}
+
+/**
+ * Lightweight lexical scanner for C/C++ sources
+ * Separates comments from code while skipping string, character and raw string literals
+ */
+export class CppSourceScanner {
+    private static readonly TYPE_KEYWORD = /\b(class|struct|union|enum(?:\s+class|\s+struct)?)\s+(?:(?:[A-Z][A-Z0-9_]*|alignas\s*\([^)]*\)|\[\[[^\]]*\]\])\s+)*([\w:]+)/;
+    private static readonly MACRO_INVOCATION = /^[A-Z][A-Z0-9_]*\s*(?:\(|$)/;
+    private static readonly MACRO_STATEMENT = /^[A-Z][A-Z0-9_]*\s*\((?:[^()]|\([^()]*\))*\)$/;
+
+    /**
+     * Extract all comments with their starting line
+     */
+    public static extractComments(content: string): CppComment[] {
+        return CppSourceScanner.lex(content).comments;
+    }
+
+    /**
+     * Replace comments and literal contents with spaces, keeping line breaks so positions stay valid
+     */
+    public static stripCommentsAndLiterals(content: string): string {
+        return CppSourceScanner.lex(content).code;
+    }
+
+    /**
+     * Find the declarations made directly at namespace scope
+     */
+    public static findNamespaceScopeDeclarations(content: string): CppDeclaration[] {
+        const code = CppSourceScanner.stripPreprocessor(CppSourceScanner.stripCommentsAndLiterals(content));
+        const declarations: CppDeclaration[] = [];
+        const scopes: Scope[] = [];
+        let statement = '';
+        let statementLine = 1;
+        let line = 1;
+        let bodyDepth = 0;
+
+        for (let i = 0; i < code.length; i++) {
+            const char = code[i];
+            if (char === '\n') {
+                line++;
+            }
+
+            // Skip the bodies of classes, functions and initializers
+            if (bodyDepth > 0) {
+                if (char === '{') {
+                    bodyDepth++;
+                } else if (char === '}') {
+                    bodyDepth--;
+                }
+                continue;
+            }
+
+            // Macros such as OBS_DECLARE_MODULE() are often invoked without a trailing semicolon
+            if (char === '\n' && CppSourceScanner.MACRO_STATEMENT.test(statement.trim())) {
+                statement = '';
+                continue;
+            }
+
+            if (!statement.trim() && /\s/.test(char)) {
+                continue;
+            }
+            if (!statement.trim()) {
+                statementLine = line;
+            }
+
+            if (char === '{') {
+                const header = statement.trim();
+                statement = '';
+
+                const namespaceMatch = header.match(/^(?:inline\s+)?namespace\s*([\w:]*)\s*$/);
+                if (namespaceMatch) {
+                    scopes.push({ kind: 'namespace', name: namespaceMatch[1] });
+                    continue;
+                }
+                if (/^extern\s*"C(?:\+\+)?"$/.test(header)) {
+                    scopes.push({ kind: 'extern', name: '' });
+                    continue;
+                }
+
+                const declaration = CppSourceScanner.describe(header, statementLine, scopes, true);
+                if (declaration) {
+                    declarations.push(declaration);
+                }
+                bodyDepth = 1;
+                continue;
+            }
+
+            if (char === '}') {
+                statement = '';
+                scopes.pop();
+                continue;
+            }
+
+            if (char === ';') {
+                const declaration = CppSourceScanner.describe(statement.trim(), statementLine, scopes, false);
+                if (declaration) {
+                    declarations.push(declaration);
+                }
+                statement = '';
+                continue;
+            }
+
+            statement += char;
+        }
+
+        return declarations;
+    }
+
+    /**
+     * Classify a declaration statement and extract its name
+     */
+    private static describe(statement: string, line: number, scopes: Scope[], hasBody: boolean): CppDeclaration | undefined {
+        let text = statement.replace(/\s+/g, ' ').trim();
+        if (!text || /^(?:using\s+namespace|static_assert|namespace\s+\w+\s*=|friend\b)/.test(text)) {
+            return undefined;
+        }
+        if (CppSourceScanner.MACRO_INVOCATION.test(text) && !/^[A-Z][A-Z0-9_]*\s+\w/.test(text)) {
+            return undefined;
+        }
+
+        let externC = scopes.some(scope => scope.kind === 'extern');
+        if (/^extern\s*"C"/.test(text)) {
+            externC = true;
+            text = text.replace(/^extern\s*"C"\s*/, '');
+        }
+
+        // Drop template headers and attributes before the declaration itself
+        text = CppSourceScanner.stripTemplateHeader(text).replace(/\[\[[^\]]*\]\]\s*/g, '');
+        const namespaces = scopes
+            .filter(scope => scope.kind === 'namespace')
+            .flatMap(scope => scope.name ? scope.name.split('::') : ['']);
+
+        let kind: CppDeclaration['kind'];
+        let name: string | undefined;
+        let match: RegExpMatchArray | null;
+        const paren = text.indexOf('(');
+        const assignment = text.indexOf('=');
+
+        if ((match = text.match(/^using\s+(\w+)\s*=/))) {
+            kind = 'alias';
+            name = match[1];
+        } else if (/^typedef\b/.test(text)) {
+            kind = 'alias';
+            name = text.match(/\(\s*\*\s*(\w+)\s*\)/)?.[1] || text.match(/(\w+)\s*(?:\[[^\]]*\]\s*)*$/)?.[1];
+        } else if (paren === -1 && (match = text.match(CppSourceScanner.TYPE_KEYWORD))) {
+            const afterName = text.substring(text.indexOf(match[0]) + match[0].length).trim();
+            if (afterName === '' || afterName.startsWith(':') || afterName.startsWith('final')) {
+                kind = hasBody ? 'type' : 'forward';
+                name = match[2];
+            } else {
+                kind = 'variable';
+                name = afterName.match(/^[*&\s]*(\w+)/)?.[1];
+            }
+        } else if (paren !== -1 && (assignment === -1 || assignment > paren)) {
+            // The name of a function is the last identifier before its parameter list
+            kind = 'function';
+            name = text.substring(0, paren).match(/([\w:~]+)\s*$/)?.[1];
+        } else if ((match = text.match(/([\w:]+)\s*(?:\[[^\]]*\]\s*)*(?:=|$)/))) {
+            kind = 'variable';
+            name = match[1];
+        } else {
+            kind = 'other';
+            name = text.split(/\s+/).pop();
+        }
+
+        if (!name || /^(?:const|static|inline|extern|void|int|char|bool|auto|return|operator)$/.test(name)) {
+            return undefined;
+        }
+
+        return {
+            name: name.replace(/^::/, ''),
+            line,
+            kind,
+            namespaces,
+            externC,
+            qualified: name.includes('::')
+        };
+    }
+
+    /**
+     * Remove leading template<...> headers, respecting nested angle brackets
+     */
+    private static stripTemplateHeader(text: string): string {
+        while (/^template\s*</.test(text)) {
+            let depth = 0;
+            let end = -1;
+            for (let i = text.indexOf('<'); i < text.length; i++) {
+                if (text[i] === '<') {
+                    depth++;
+                } else if (text[i] === '>' && --depth === 0) {
+                    end = i;
+                    break;
+                }
+            }
+            if (end === -1) {
+                return text;
+            }
+            text = text.substring(end + 1).trim();
+        }
+        return text;
+    }
+
+    /**
+     * Blank out preprocessor directives, including continuation lines
+     */
+    private static stripPreprocessor(code: string): string {
+        const lines = code.split('\n');
+        let continuing = false;
+
+        for (let i = 0; i < lines.length; i++) {
+            if (continuing || /^\s*#/.test(lines[i])) {
+                continuing = /\\\s*$/.test(lines[i]);
+                lines[i] = ' '.repeat(lines[i].length);
+            }
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Split source into code with blanked comments and literals, and the comments themselves
+     */
+    private static lex(content: string): { code: string; comments: CppComment[] } {
+        const comments: CppComment[] = [];
+        const code: string[] = [];
+        let line = 1;
+        let i = 0;
+
+        const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+
+        while (i < content.length) {
+            const char = content[i];
+            const next = content[i + 1];
+
+            if (char === '/' && next === '/') {
+                // Line comments continue onto the next line after a trailing backslash
+                let end = i;
+                while (end < content.length && content[end] !== '\n') {
+                    end++;
+                    if (content[end] === '\n' && content[end - 1] === '\\') {
+                        end++;
+                    }
+                }
+                const text = content.substring(i, end);
+                comments.push({ text: text.substring(2).replace(/\\\n/g, '\n'), line, kind: 'line' });
+                code.push(blank(text));
+                line += (text.match(/\n/g) || []).length;
+                i = end;
+            } else if (char === '/' && next === '*') {
+                const end = content.indexOf('*/', i + 2);
+                const stop = end === -1 ? content.length : end + 2;
+                const text = content.substring(i, stop);
+                comments.push({ text: text.substring(2, end === -1 ? text.length : text.length - 2), line, kind: 'block' });
+                code.push(blank(text));
+                line += (text.match(/\n/g) || []).length;
+                i = stop;
+            } else if (char === 'R' && next === '"' && !/\w/.test(content[i - 1] || '')) {
+                const delimiterEnd = content.indexOf('(', i + 2);
+                const delimiter = delimiterEnd === -1 ? '' : content.substring(i + 2, delimiterEnd);
+                const terminator = `)${delimiter}"`;
+                const end = delimiterEnd === -1 ? -1 : content.indexOf(terminator, delimiterEnd);
+                const stop = end === -1 ? content.length : end + terminator.length;
+                const text = content.substring(i, stop);
+                code.push('R""' + blank(text.substring(3)));
+                line += (text.match(/\n/g) || []).length;
+                i = stop;
+            } else if (char === '"' || (char === '\'' && !/[0-9A-Fa-f]/.test(content[i - 1] || ''))) {
+                // Digit separators such as 1'000 are not character literals
+                let end = i + 1;
+                while (end < content.length && content[end] !== char && content[end] !== '\n') {
+                    end += content[end] === '\\' ? 2 : 1;
+                }
+                const stop = Math.min(end + 1, content.length);
+                const text = content.substring(i, stop);
+                // Language linkage strings are kept so extern "C" blocks stay recognizable
+                code.push(text === '"C"' || text === '"C++"'
+                    ? text
+                    : char + blank(text.substring(1, text.length - 1)) + (text.length > 1 ? char : ''));
+                line += (text.match(/\n/g) || []).length;
+                i = stop;
+            } else {
+                if (char === '\n') {
+                    line++;
+                }
+                code.push(char);
+                i++;
+            }
+        }
+
+        return { code: code.join(''), comments };
+    }
+}
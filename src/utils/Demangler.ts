@@ -0,0 +1,786 @@
+/**
+ * Demangles Itanium C++ ABI symbol names (GCC, Clang, ld64)
+ * Returns the input unchanged when a symbol cannot be decoded
+ */
+export class Demangler {
+    /**
+     * Check whether a symbol looks like an Itanium mangled name
+     */
+    public static isMangled(symbol: string): boolean {
+        return /^_{1,2}Z/.test(symbol);
+    }
+
+    /**
+     * Demangle a symbol, falling back to the original text
+     */
+    public static demangle(symbol: string): string {
+        if (!Demangler.isMangled(symbol)) {
+            return symbol;
+        }
+
+        // ld64 prefixes every C symbol with an extra underscore
+        const mangled = symbol.startsWith('__Z') ? symbol.substring(1) : symbol;
+
+        try {
+            return new ItaniumDemangler(mangled).demangle();
+        } catch {
+            return symbol;
+        }
+    }
+}
+
+type TypeNode =
+    | { kind: 'name'; text: string }
+    | { kind: 'pointer'; inner: TypeNode; op: string }
+    | { kind: 'qualified'; inner: TypeNode; qualifiers: string }
+    | { kind: 'function'; ret: TypeNode | null; params: TypeNode[]; qualifiers: string }
+    | { kind: 'array'; inner: TypeNode; dimension: string }
+    | { kind: 'member'; owner: TypeNode; inner: TypeNode };
+
+interface ParsedName {
+    text: string;
+    qualifiers: string;
+    isTemplate: boolean;
+    isCtorDtorOrConversion: boolean;
+}
+
+const BUILTIN_TYPES: Record<string, string> = {
+    v: 'void', w: 'wchar_t', b: 'bool', c: 'char', a: 'signed char', h: 'unsigned char',
+    s: 'short', t: 'unsigned short', i: 'int', j: 'unsigned int', l: 'long', m: 'unsigned long',
+    x: 'long long', y: 'unsigned long long', n: '__int128', o: 'unsigned __int128',
+    f: 'float', d: 'double', e: 'long double', g: '__float128', z: '...'
+};
+
+const EXTENDED_BUILTIN_TYPES: Record<string, string> = {
+    Dn: 'decltype(nullptr)', Da: 'auto', Dc: 'decltype(auto)', Di: 'char32_t',
+    Ds: 'char16_t', Du: 'char8_t', Df: 'decimal32', Dd: 'decimal64', Dh: 'half'
+};
+
+const STANDARD_SUBSTITUTIONS: Record<string, string> = {
+    Sa: 'std::allocator',
+    Sb: 'std::basic_string',
+    Ss: 'std::string',
+    Si: 'std::istream',
+    So: 'std::ostream',
+    Sd: 'std::iostream'
+};
+
+const OPERATOR_NAMES: Record<string, string> = {
+    nw: 'new', na: 'new[]', dl: 'delete', da: 'delete[]', ps: '+', ng: '-', ad: '&', de: '*',
+    co: '~', pl: '+', mi: '-', ml: '*', dv: '/', rm: '%', an: '&', or: '|', eo: '^', aS: '=',
+    pL: '+=', mI: '-=', mL: '*=', dV: '/=', rM: '%=', aN: '&=', oR: '|=', eO: '^=', ls: '<<',
+    rs: '>>', lS: '<<=', rS: '>>=', eq: '==', ne: '!=', lt: '<', gt: '>', le: '<=', ge: '>=',
+    ss: '<=>', nt: '!', aa: '&&', oo: '||', pp: '++', mm: '--', cm: ',', pm: '->*', pt: '->',
+    cl: '()', ix: '[]', qu: '?'
+};
+
+/**
+ * Recursive descent parser for the subset of the Itanium grammar emitted by linkers
+ */
+class ItaniumDemangler {
+    private pos = 0;
+    private readonly substitutions: TypeNode[] = [];
+    private templateArgs: TypeNode[] = [];
+    private lastSourceName = '';
+
+    constructor(private readonly input: string) {}
+
+    public demangle(): string {
+        this.expect('_Z');
+        let result = this.parseEncoding();
+
+        // Compiler generated clones such as foo.cold or foo.isra.0
+        if (this.peek() === '.') {
+            result += ` [clone ${this.input.substring(this.pos)}]`;
+            this.pos = this.input.length;
+        }
+
+        if (this.pos !== this.input.length) {
+            throw new Error(`Unexpected trailing input at ${this.pos}`);
+        }
+
+        return result;
+    }
+
+    private parseEncoding(includeReturnType: boolean = true): string {
+        const special = this.parseSpecialName();
+        if (special !== null) {
+            return special;
+        }
+
+        const name = this.parseName();
+        if (this.atEncodingEnd()) {
+            return name.text;
+        }
+
+        let returnType: TypeNode | null = null;
+        if (name.isTemplate && !name.isCtorDtorOrConversion) {
+            returnType = this.parseType();
+        }
+
+        const params = this.parseBareFunctionType();
+        const prefix = returnType && includeReturnType ? `${this.print(returnType)} ` : '';
+        return `${prefix}${name.text}(${params})${name.qualifiers}`;
+    }
+
+    private parseSpecialName(): string | null {
+        const specials: Record<string, string> = {
+            TV: 'vtable for ', TT: 'VTT for ', TI: 'typeinfo for ', TS: 'typeinfo name for '
+        };
+
+        const code = this.input.substr(this.pos, 2);
+        if (specials[code]) {
+            this.pos += 2;
+            return specials[code] + this.print(this.parseType());
+        }
+
+        switch (code) {
+            case 'GV':
+                this.pos += 2;
+                return `guard variable for ${this.parseName().text}`;
+            case 'TW':
+                this.pos += 2;
+                return `TLS wrapper function for ${this.parseName().text}`;
+            case 'TH':
+                this.pos += 2;
+                return `TLS init function for ${this.parseName().text}`;
+            case 'Th':
+                this.pos += 2;
+                this.parseCallOffsetNumber();
+                return `non-virtual thunk to ${this.parseEncoding()}`;
+            case 'Tv':
+                this.pos += 2;
+                this.parseCallOffsetNumber();
+                this.parseCallOffsetNumber();
+                return `virtual thunk to ${this.parseEncoding()}`;
+            default:
+                return null;
+        }
+    }
+
+    private parseCallOffsetNumber(): void {
+        if (this.peek() === 'n') {
+            this.pos++;
+        }
+        this.parseNumber();
+        this.expect('_');
+    }
+
+    private parseName(): ParsedName {
+        const c = this.peek();
+
+        if (c === 'N') {
+            return this.parseNestedName();
+        }
+
+        if (c === 'Z') {
+            return this.parseLocalName();
+        }
+
+        let text: string;
+        if (this.input.startsWith('St', this.pos)) {
+            this.pos += 2;
+            text = `std::${this.parseUnqualifiedName()}`;
+            if (this.peek() === 'I') {
+                this.substitutions.push(this.nameNode(text));
+            }
+        } else if (c === 'S') {
+            text = this.print(this.parseSubstitution());
+        } else {
+            text = this.parseUnqualifiedName();
+            if (this.peek() === 'I') {
+                this.substitutions.push(this.nameNode(text));
+            }
+        }
+
+        if (this.peek() === 'I') {
+            text += this.parseTemplateArgs();
+            return { text, qualifiers: '', isTemplate: true, isCtorDtorOrConversion: false };
+        }
+
+        return { text, qualifiers: '', isTemplate: false, isCtorDtorOrConversion: text.startsWith('operator ') };
+    }
+
+    private parseNestedName(): ParsedName {
+        this.expect('N');
+
+        let qualifiers = '';
+        while ('rVK'.includes(this.peek())) {
+            qualifiers = this.cvQualifier(this.next()) + qualifiers;
+        }
+        if (this.peek() === 'R' || this.peek() === 'O') {
+            qualifiers += this.next() === 'R' ? ' &' : ' &&';
+        }
+
+        let prefix = '';
+        let isTemplate = false;
+        let isCtorDtorOrConversion = false;
+
+        while (this.peek() !== 'E') {
+            const c = this.peek();
+            isTemplate = false;
+            if (c !== 'I') {
+                isCtorDtorOrConversion = false;
+            }
+
+            if (c === 'I') {
+                if (!prefix) {
+                    throw new Error('Template arguments without a template name');
+                }
+                prefix += this.parseTemplateArgs();
+                isTemplate = true;
+            } else if (this.input.startsWith('St', this.pos) && !prefix) {
+                this.pos += 2;
+                prefix = 'std';
+                continue;
+            } else if (c === 'S' && !prefix) {
+                prefix = this.print(this.parseSubstitution());
+                // Substitutions are never added to the table a second time
+                continue;
+            } else if (c === 'Z' && !prefix) {
+                prefix = this.parseLocalName().text;
+            } else if (c === 'T' && !prefix) {
+                prefix = this.print(this.parseTemplateParam());
+            } else if (c === 'C' || (c === 'D' && /[0-9]/.test(this.input.charAt(this.pos + 1)))) {
+                prefix = this.joinScope(prefix, this.parseCtorDtorName(prefix));
+                isCtorDtorOrConversion = true;
+            } else {
+                const component = this.parseUnqualifiedName();
+                prefix = this.joinScope(prefix, component);
+                isCtorDtorOrConversion = component.startsWith('operator ');
+            }
+
+            if (this.peek() !== 'E') {
+                this.substitutions.push(this.nameNode(prefix));
+            }
+        }
+
+        this.expect('E');
+        return { text: prefix, qualifiers, isTemplate, isCtorDtorOrConversion };
+    }
+
+    private parseLocalName(): ParsedName {
+        this.expect('Z');
+        const scope = this.parseEncoding(false);
+        this.expect('E');
+
+        if (this.peek() === 's') {
+            this.pos++;
+            this.parseDiscriminator();
+            return { text: `${scope}::string literal`, qualifiers: '', isTemplate: false, isCtorDtorOrConversion: false };
+        }
+
+        const entity = this.parseName();
+        this.parseDiscriminator();
+        return { ...entity, text: `${scope}::${entity.text}` };
+    }
+
+    private parseDiscriminator(): void {
+        if (this.peek() !== '_') {
+            return;
+        }
+        this.pos++;
+        if (this.peek() === '_') {
+            this.pos++;
+            this.parseNumber();
+            this.expect('_');
+        } else {
+            this.parseNumber();
+        }
+    }
+
+    private parseUnqualifiedName(): string {
+        const c = this.peek();
+        let name: string;
+
+        if (c === 'L') {
+            // Internal linkage marker used by GCC for static entities
+            this.pos++;
+            return this.parseUnqualifiedName();
+        } else if (/[0-9]/.test(c)) {
+            name = this.parseSourceName();
+            this.lastSourceName = name;
+        } else if (c === 'U') {
+            name = this.parseUnnamedTypeName();
+        } else {
+            name = this.parseOperatorName();
+        }
+
+        // ABI tags such as [abi:cxx11]
+        while (this.peek() === 'B') {
+            this.pos++;
+            name += `[abi:${this.parseSourceName()}]`;
+        }
+
+        return name;
+    }
+
+    private parseSourceName(): string {
+        const length = this.parseNumber();
+        if (length <= 0 || this.pos + length > this.input.length) {
+            throw new Error('Invalid source name length');
+        }
+        const name = this.input.substr(this.pos, length);
+        this.pos += length;
+
+        return name.startsWith('_GLOBAL__N') ? '(anonymous namespace)' : name;
+    }
+
+    private parseUnnamedTypeName(): string {
+        this.expect('U');
+        const kind = this.next();
+
+        if (kind === 'l') {
+            const params: TypeNode[] = [];
+            while (this.peek() !== 'E') {
+                params.push(this.parseType());
+            }
+            this.expect('E');
+            const index = this.parseOptionalIndex();
+            const paramText = params.length === 1 && this.print(params[0]) === 'void' ? '' : params.map(p => this.print(p)).join(', ');
+            return `{lambda(${paramText})#${index}}`;
+        }
+
+        if (kind === 't') {
+            return `{unnamed type#${this.parseOptionalIndex()}}`;
+        }
+
+        throw new Error(`Unsupported unnamed type U${kind}`);
+    }
+
+    private parseOptionalIndex(): number {
+        let index = 1;
+        if (this.peek() !== '_') {
+            index = this.parseNumber() + 2;
+        }
+        this.expect('_');
+        return index;
+    }
+
+    private parseOperatorName(): string {
+        const code = this.input.substr(this.pos, 2);
+
+        if (code === 'cv') {
+            this.pos += 2;
+            return `operator ${this.print(this.parseType())}`;
+        }
+
+        if (code === 'li') {
+            this.pos += 2;
+            return `operator"" ${this.parseSourceName()}`;
+        }
+
+        const operator = OPERATOR_NAMES[code];
+        if (!operator) {
+            throw new Error(`Unknown operator ${code}`);
+        }
+
+        this.pos += 2;
+        return /^[a-z]/.test(operator) ? `operator ${operator}` : `operator${operator}`;
+    }
+
+    private parseCtorDtorName(scope: string): string {
+        const className = this.unqualifiedTail(scope);
+        const c = this.next();
+        if (c === 'C') {
+            if (this.peek() === 'I') {
+                // Inheriting constructor carries the base class type
+                this.pos++;
+                this.next();
+                this.parseType();
+            } else {
+                this.next();
+            }
+            return className;
+        }
+
+        this.next();
+        return `~${className}`;
+    }
+
+    /**
+     * Last scope component without its template arguments, used for constructor names
+     */
+    private unqualifiedTail(scope: string): string {
+        let depth = 0;
+        let end = scope.length;
+        let start = 0;
+
+        for (let i = scope.length - 1; i >= 0; i--) {
+            const c = scope.charAt(i);
+            if (c === '>') {
+                depth++;
+            } else if (c === '<') {
+                depth--;
+                if (depth === 0 && end === scope.length) {
+                    end = i;
+                }
+            } else if (depth === 0 && c === ':' && scope.charAt(i - 1) === ':') {
+                start = i + 1;
+                break;
+            }
+        }
+
+        return scope.substring(start, end) || this.lastSourceName;
+    }
+
+    private parseTemplateArgs(): string {
+        this.expect('I');
+        const args: TypeNode[] = [];
+
+        while (this.peek() !== 'E') {
+            args.push(this.parseTemplateArg());
+        }
+        this.expect('E');
+
+        this.templateArgs = args;
+        const text = args.map(arg => this.print(arg)).join(', ');
+        return text.endsWith('>') ? `<${text} >` : `<${text}>`;
+    }
+
+    private parseTemplateArg(): TypeNode {
+        const c = this.peek();
+
+        if (c === 'L') {
+            return this.nameNode(this.parseExpressionLiteral());
+        }
+
+        if (c === 'J') {
+            this.pos++;
+            const pack: TypeNode[] = [];
+            while (this.peek() !== 'E') {
+                pack.push(this.parseTemplateArg());
+            }
+            this.expect('E');
+            return this.nameNode(pack.map(arg => this.print(arg)).join(', '));
+        }
+
+        if (c === 'X') {
+            throw new Error('Template argument expressions are not supported');
+        }
+
+        return this.parseType();
+    }
+
+    private parseExpressionLiteral(): string {
+        this.expect('L');
+
+        if (this.input.startsWith('_Z', this.pos)) {
+            this.pos += 2;
+            const encoding = this.parseEncoding();
+            this.expect('E');
+            return encoding;
+        }
+
+        const type = this.parseType();
+        const typeName = this.print(type);
+        let value = '';
+        while (this.peek() !== 'E') {
+            value += this.next();
+        }
+        this.expect('E');
+
+        const numeric = value.startsWith('n') ? `-${value.substring(1)}` : value;
+        switch (typeName) {
+            case 'bool':
+                return numeric === '0' ? 'false' : 'true';
+            case 'int':
+                return numeric;
+            case 'unsigned int':
+                return `${numeric}u`;
+            case 'long':
+                return `${numeric}l`;
+            case 'unsigned long':
+                return `${numeric}ul`;
+            default:
+                return `(${typeName})${numeric}`;
+        }
+    }
+
+    private parseTemplateParam(): TypeNode {
+        this.expect('T');
+        let index = 0;
+        if (this.peek() !== '_') {
+            index = this.parseNumber() + 1;
+        }
+        this.expect('_');
+
+        const arg = this.templateArgs[index];
+        if (!arg) {
+            throw new Error(`Unresolved template parameter ${index}`);
+        }
+        return arg;
+    }
+
+    private parseSubstitution(): TypeNode {
+        const code = this.input.substr(this.pos, 2);
+        if (STANDARD_SUBSTITUTIONS[code]) {
+            this.pos += 2;
+            return this.nameNode(STANDARD_SUBSTITUTIONS[code]);
+        }
+
+        this.expect('S');
+        let index = 0;
+        if (this.peek() !== '_') {
+            let seq = '';
+            while (/[0-9A-Z]/.test(this.peek())) {
+                seq += this.next();
+            }
+            index = parseInt(seq, 36) + 1;
+        }
+        this.expect('_');
+
+        const node = this.substitutions[index];
+        if (!node) {
+            throw new Error(`Unresolved substitution ${index}`);
+        }
+        return node;
+    }
+
+    private parseType(): TypeNode {
+        const c = this.peek();
+        const code = this.input.substr(this.pos, 2);
+
+        if (BUILTIN_TYPES[c]) {
+            this.pos++;
+            return this.nameNode(BUILTIN_TYPES[c]);
+        }
+
+        if (EXTENDED_BUILTIN_TYPES[code]) {
+            this.pos += 2;
+            return this.nameNode(EXTENDED_BUILTIN_TYPES[code]);
+        }
+
+        let node: TypeNode;
+        switch (c) {
+            case 'r':
+            case 'V':
+            case 'K': {
+                let qualifiers = '';
+                while ('rVK'.includes(this.peek())) {
+                    qualifiers = this.cvQualifier(this.next()) + qualifiers;
+                }
+                const inner = this.parseType();
+                node = inner.kind === 'function'
+                    ? { ...inner, qualifiers: inner.qualifiers + qualifiers }
+                    : { kind: 'qualified', inner, qualifiers };
+                break;
+            }
+            case 'P':
+                this.pos++;
+                node = { kind: 'pointer', inner: this.parseType(), op: '*' };
+                break;
+            case 'R':
+            case 'O':
+                this.pos++;
+                node = this.createReference(this.parseType(), c === 'R' ? '&' : '&&');
+                break;
+            case 'F':
+                node = this.parseFunctionType();
+                break;
+            case 'A':
+                node = this.parseArrayType();
+                break;
+            case 'M': {
+                this.pos++;
+                const owner = this.parseType();
+                node = { kind: 'member', owner, inner: this.parseType() };
+                break;
+            }
+            case 'T':
+                node = this.parseTemplateParam();
+                if (this.peek() === 'I') {
+                    this.substitutions.push(node);
+                    node = this.nameNode(this.print(node) + this.parseTemplateArgs());
+                }
+                break;
+            case 'D':
+                if (code === 'Dp') {
+                    this.pos += 2;
+                    return this.parseType();
+                }
+                throw new Error(`Unsupported type ${code}`);
+            case 'S':
+                if (code !== 'St') {
+                    node = this.parseSubstitution();
+                    if (this.peek() !== 'I') {
+                        return node;
+                    }
+                    node = this.nameNode(this.print(node) + this.parseTemplateArgs());
+                    break;
+                }
+                node = this.nameNode(this.parseName().text);
+                break;
+            case 'u':
+                this.pos++;
+                return this.nameNode(this.parseSourceName());
+            default:
+                node = this.nameNode(this.parseName().text);
+                break;
+        }
+
+        this.substitutions.push(node);
+        return node;
+    }
+
+    /**
+     * Apply reference collapsing, e.g. T&& with T = U& yields U&
+     */
+    private createReference(inner: TypeNode, op: string): TypeNode {
+        if (inner.kind === 'pointer' && inner.op !== '*') {
+            return { kind: 'pointer', inner: inner.inner, op: inner.op === '&&' && op === '&&' ? '&&' : '&' };
+        }
+        return { kind: 'pointer', inner, op };
+    }
+
+    private parseFunctionType(): TypeNode {
+        this.expect('F');
+        if (this.peek() === 'Y') {
+            this.pos++;
+        }
+
+        const ret = this.parseType();
+        const params: TypeNode[] = [];
+        let qualifiers = '';
+
+        while (this.peek() !== 'E') {
+            if ((this.peek() === 'R' || this.peek() === 'O') && this.input.charAt(this.pos + 1) === 'E') {
+                qualifiers = this.next() === 'R' ? ' &' : ' &&';
+                continue;
+            }
+            params.push(this.parseType());
+        }
+        this.expect('E');
+
+        return { kind: 'function', ret, params: this.dropVoidParam(params), qualifiers };
+    }
+
+    private parseArrayType(): TypeNode {
+        this.expect('A');
+        let dimension = '';
+        if (this.peek() === 'T') {
+            dimension = this.print(this.parseTemplateParam());
+        } else {
+            while (this.peek() !== '_') {
+                dimension += this.next();
+            }
+        }
+        this.expect('_');
+        return { kind: 'array', inner: this.parseType(), dimension };
+    }
+
+    private parseBareFunctionType(): string {
+        const params: TypeNode[] = [];
+        while (!this.atEncodingEnd()) {
+            params.push(this.parseType());
+        }
+        return this.dropVoidParam(params).map(param => this.print(param)).join(', ');
+    }
+
+    private dropVoidParam(params: TypeNode[]): TypeNode[] {
+        if (params.length === 1 && params[0].kind === 'name' && params[0].text === 'void') {
+            return [];
+        }
+        return params;
+    }
+
+    private print(node: TypeNode): string {
+        const separator = node.kind === 'function' ? ' ' : '';
+        return this.printLeft(node) + separator + this.printRight(node);
+    }
+
+    private printLeft(node: TypeNode): string {
+        switch (node.kind) {
+            case 'name':
+                return node.text;
+            case 'qualified':
+                return this.printLeft(node.inner) + node.qualifiers;
+            case 'pointer':
+                if (this.needsParentheses(node.inner)) {
+                    return `${this.printLeft(node.inner)} (${node.op}`;
+                }
+                return this.print(node.inner) + node.op;
+            case 'function':
+                return node.ret ? this.print(node.ret) : '';
+            case 'array':
+                return this.print(node.inner);
+            case 'member': {
+                const owner = this.print(node.owner);
+                if (node.inner.kind === 'function') {
+                    return `${this.printLeft(node.inner)} (${owner}::*`;
+                }
+                return `${this.print(node.inner)} ${owner}::*`;
+            }
+        }
+    }
+
+    private printRight(node: TypeNode): string {
+        switch (node.kind) {
+            case 'qualified':
+                return this.printRight(node.inner);
+            case 'pointer':
+                return this.needsParentheses(node.inner) ? `)${this.printRight(node.inner)}` : '';
+            case 'function':
+                return `(${node.params.map(param => this.print(param)).join(', ')})${node.qualifiers}`;
+            case 'array':
+                return ` [${node.dimension}]`;
+            case 'member':
+                return node.inner.kind === 'function' ? `)${this.printRight(node.inner)}` : '';
+            default:
+                return '';
+        }
+    }
+
+    private needsParentheses(node: TypeNode): boolean {
+        return node.kind === 'function' || node.kind === 'array';
+    }
+
+    private cvQualifier(code: string): string {
+        switch (code) {
+            case 'r':
+                return ' restrict';
+            case 'V':
+                return ' volatile';
+            default:
+                return ' const';
+        }
+    }
+
+    private joinScope(prefix: string, name: string): string {
+        return prefix ? `${prefix}::${name}` : name;
+    }
+
+    private nameNode(text: string): TypeNode {
+        return { kind: 'name', text };
+    }
+
+    private atEncodingEnd(): boolean {
+        return this.pos >= this.input.length || this.peek() === 'E' || this.peek() === '.';
+    }
+
+    private parseNumber(): number {
+        const start = this.pos;
+        while (/[0-9]/.test(this.peek())) {
+            this.pos++;
+        }
+        if (start === this.pos) {
+            throw new Error(`Expected number at ${start}`);
+        }
+        return parseInt(this.input.substring(start, this.pos), 10);
+    }
+
+    private expect(text: string): void {
+        if (!this.input.startsWith(text, this.pos)) {
+            throw new Error(`Expected '${text}' at ${this.pos}`);
+        }
+        this.pos += text.length;
+    }
+
+    private peek(): string {
+        return this.input.charAt(this.pos);
+    }
+
+    private next(): string {
+        return this.input.charAt(this.pos++);
+    }
+}
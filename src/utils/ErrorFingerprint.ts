@@ -0,0 +1,67 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { BuildError } from '../types/ObsConfig';
+
+/**
+ * Stable identifiers for build errors across builds
+ * Ignores line and column drift and machine-specific absolute paths
+ */
+export class ErrorFingerprint {
+    /**
+     * Assign fingerprints to all errors, numbering repeats of the same diagnostic in log order
+     */
+    public static assign(errors: BuildError[], workspaceRoot: string): void {
+        const seen = new Map<string, number>();
+
+        for (const error of errors) {
+            const base = ErrorFingerprint.compute(error, workspaceRoot);
+            const occurrence = (seen.get(base) || 0) + 1;
+            seen.set(base, occurrence);
+            error.fingerprint = occurrence === 1 ? base : `${base}-${occurrence}`;
+        }
+    }
+
+    /**
+     * Compute the fingerprint for a single error
+     */
+    public static compute(error: BuildError, workspaceRoot: string): string {
+        const key = [
+            error.severity,
+            ErrorFingerprint.normalizeFile(error.file, workspaceRoot),
+            error.linker ? `${error.linker.kind}:${error.linker.symbol}` : '',
+            error.cmake ? error.cmake.category : '',
+            ErrorFingerprint.normalizeMessage(error.message)
+        ].join('\n');
+
+        return crypto.createHash('sha1').update(key).digest('hex').substring(0, 16);
+    }
+
+    /**
+     * Reduce a path to a machine-independent form
+     */
+    public static normalizeFile(file: string, workspaceRoot: string): string {
+        let normalized = file.replace(/\\/g, '/');
+        const root = workspaceRoot.replace(/\\/g, '/').replace(/\/$/, '');
+
+        if (root && normalized.startsWith(root + '/')) {
+            normalized = normalized.substring(root.length + 1);
+        } else if (path.isAbsolute(file) || /^[A-Za-z]:\//.test(normalized)) {
+            // Files outside the workspace, such as SDK headers, keep their last two segments
+            normalized = normalized.split('/').filter(segment => segment).slice(-2).join('/');
+        }
+
+        return normalized.replace(/^(?:\.\.?\/)+/, '');
+    }
+
+    /**
+     * Strip positions, addresses and paths that change between builds from a message
+     */
+    public static normalizeMessage(message: string): string {
+        return message
+            .replace(/(?:[A-Za-z]:)?(?:[\w.+-]*[\\/])+([\w.+-]+)/g, '$1')
+            .replace(/:\d+(?::\d+)?\b/g, '')
+            .replace(/\b0x[0-9a-fA-F]+\b/g, '0x')
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
+}
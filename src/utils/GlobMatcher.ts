@@ -0,0 +1,85 @@
+/**
+ * Minimal glob matching for workspace-relative paths
+ * Supports **, *, ?, [...] and {a,b}; patterns without a slash match the file name only
+ */
+export class GlobMatcher {
+    private static readonly cache = new Map<string, RegExp>();
+
+    /**
+     * Check whether a path matches any of the patterns
+     */
+    public static matchesAny(filePath: string, patterns: string[]): boolean {
+        return patterns.some(pattern => GlobMatcher.matches(filePath, pattern));
+    }
+
+    /**
+     * Check whether a path matches a single pattern
+     */
+    public static matches(filePath: string, pattern: string): boolean {
+        const normalized = filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+        const target = pattern.includes('/') ? normalized : normalized.substring(normalized.lastIndexOf('/') + 1);
+        return GlobMatcher.toRegExp(pattern).test(target);
+    }
+
+    /**
+     * Compile a glob pattern into an anchored regular expression
+     */
+    public static toRegExp(pattern: string): RegExp {
+        let compiled = GlobMatcher.cache.get(pattern);
+        if (!compiled) {
+            compiled = new RegExp(`^${GlobMatcher.translate(pattern.replace(/^\.\//, ''))}$`);
+            GlobMatcher.cache.set(pattern, compiled);
+        }
+        return compiled;
+    }
+
+    /**
+     * Translate glob syntax into regular expression source
+     */
+    private static translate(pattern: string): string {
+        let source = '';
+        let braceDepth = 0;
+
+        for (let i = 0; i < pattern.length; i++) {
+            const char = pattern[i];
+
+            if (char === '*') {
+                if (pattern[i + 1] === '*') {
+                    // "**/" matches zero or more directories, a trailing "**" matches everything below
+                    if (pattern[i + 2] === '/') {
+                        source += '(?:.*/)?';
+                        i += 2;
+                    } else {
+                        source += '.*';
+                        i += 1;
+                    }
+                } else {
+                    source += '[^/]*';
+                }
+            } else if (char === '?') {
+                source += '[^/]';
+            } else if (char === '[') {
+                const end = pattern.indexOf(']', i + 1);
+                if (end === -1) {
+                    source += '\\[';
+                } else {
+                    const body = pattern.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+                    source += `[${body}]`;
+                    i = end;
+                }
+            } else if (char === '{') {
+                braceDepth++;
+                source += '(?:';
+            } else if (char === '}' && braceDepth > 0) {
+                braceDepth--;
+                source += ')';
+            } else if (char === ',' && braceDepth > 0) {
+                source += '|';
+            } else {
+                source += char.replace(/[.+^$()|\\]/g, '\\$&');
+            }
+        }
+
+        return source;
+    }
+}
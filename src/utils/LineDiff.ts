@@ -0,0 +1,185 @@
+import { LineHunk } from '../types/ObsConfig';
+
+/**
+ * One step of a line edit script
+ */
+interface LineOperation {
+    type: 'equal' | 'delete' | 'insert';
+    line: string;
+}
+
+/**
+ * Line-based diff between two versions of a file
+ * Splits content on '\n' only, so carriage returns and the final newline survive a round trip
+ */
+export class LineDiff {
+    /** Largest table the LCS search builds before the changed region is treated as one replacement */
+    private static readonly MAX_TABLE_SIZE = 4000000;
+
+    /**
+     * Changed regions between two contents, in file order
+     */
+    public static computeHunks(original: string, proposed: string): LineHunk[] {
+        const hunks: LineHunk[] = [];
+        let originalLine = 0;
+        let current: LineHunk | undefined;
+
+        for (const operation of LineDiff.diffLines(original.split('\n'), proposed.split('\n'))) {
+            if (operation.type === 'equal') {
+                current = undefined;
+                originalLine++;
+                continue;
+            }
+            if (!current) {
+                current = { original_start: originalLine, original_lines: [], proposed_lines: [] };
+                hunks.push(current);
+            }
+            if (operation.type === 'delete') {
+                current.original_lines.push(operation.line);
+                originalLine++;
+            } else {
+                current.proposed_lines.push(operation.line);
+            }
+        }
+
+        return hunks;
+    }
+
+    /**
+     * Apply the hunks selected by include to the original content
+     */
+    public static applyHunks(original: string, hunks: LineHunk[], include: (index: number) => boolean): string {
+        const lines = original.split('\n');
+        const result: string[] = [];
+        let next = 0;
+
+        hunks.forEach((hunk, index) => {
+            result.push(...lines.slice(next, hunk.original_start));
+            result.push(...(include(index) ? hunk.proposed_lines : hunk.original_lines));
+            next = hunk.original_start + hunk.original_lines.length;
+        });
+        result.push(...lines.slice(next));
+
+        return result.join('\n');
+    }
+
+    /**
+     * Zero-based line at which each hunk starts in the content that includes the selected hunks
+     */
+    public static getProposedStarts(hunks: LineHunk[], include: (index: number) => boolean): number[] {
+        let delta = 0;
+        return hunks.map((hunk, index) => {
+            const start = hunk.original_start + delta;
+            if (include(index)) {
+                delta += hunk.proposed_lines.length - hunk.original_lines.length;
+            }
+            return start;
+        });
+    }
+
+    /**
+     * Unified diff of one file; undefined content stands for a missing file
+     */
+    public static formatUnified(name: string, original: string | undefined, proposed: string | undefined, context: number = 3): string {
+        const toLines = (content: string | undefined) =>
+            content === undefined || content === '' ? [] : (content.endsWith('\n') ? content.slice(0, -1) : content).split('\n');
+        const operations = LineDiff.diffLines(toLines(original), toLines(proposed));
+        const header = [
+            `--- ${original === undefined ? '/dev/null' : `a/${name}`}`,
+            `+++ ${proposed === undefined ? '/dev/null' : `b/${name}`}`
+        ];
+        const output: string[] = [];
+
+        // Changes separated by at most twice the context share a hunk, like diff -U
+        const changes = operations.map((operation, position) => operation.type === 'equal' ? -1 : position).filter(position => position >= 0);
+        const groups: Array<[number, number]> = [];
+        for (const position of changes) {
+            const last = groups[groups.length - 1];
+            if (last && position - last[1] - 1 <= context * 2) {
+                last[1] = position;
+            } else {
+                groups.push([position, position]);
+            }
+        }
+
+        for (const [first, last] of groups) {
+            const start = Math.max(0, first - context);
+            const slice = operations.slice(start, Math.min(operations.length, last + context + 1));
+            const before = operations.slice(0, start);
+            const oldStart = before.filter(operation => operation.type !== 'insert').length;
+            const newStart = before.filter(operation => operation.type !== 'delete').length;
+            const oldCount = slice.filter(operation => operation.type !== 'insert').length;
+            const newCount = slice.filter(operation => operation.type !== 'delete').length;
+
+            output.push(`@@ -${oldCount === 0 ? oldStart : oldStart + 1},${oldCount} +${newCount === 0 ? newStart : newStart + 1},${newCount} @@`);
+            for (const operation of slice) {
+                output.push(`${operation.type === 'equal' ? ' ' : operation.type === 'delete' ? '-' : '+'}${operation.line}`);
+            }
+        }
+
+        if (output.length === 0) {
+            return '';
+        }
+        const missingNewline = (content: string | undefined) => content !== undefined && content !== '' && !content.endsWith('\n');
+        if (missingNewline(original) || missingNewline(proposed)) {
+            output.push('\\ No newline at end of file');
+        }
+        return [...header, ...output, ''].join('\n');
+    }
+
+    /**
+     * Shortest edit script between two line arrays using the longest common subsequence
+     */
+    private static diffLines(a: string[], b: string[]): LineOperation[] {
+        let prefix = 0;
+        while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+            prefix++;
+        }
+        let suffix = 0;
+        while (suffix < a.length - prefix && suffix < b.length - prefix &&
+            a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+            suffix++;
+        }
+
+        const head: LineOperation[] = a.slice(0, prefix).map(line => ({ type: 'equal', line }));
+        const tail: LineOperation[] = a.slice(a.length - suffix).map(line => ({ type: 'equal', line }));
+        const oldMiddle = a.slice(prefix, a.length - suffix);
+        const newMiddle = b.slice(prefix, b.length - suffix);
+
+        if ((oldMiddle.length + 1) * (newMiddle.length + 1) > LineDiff.MAX_TABLE_SIZE) {
+            return [
+                ...head,
+                ...oldMiddle.map(line => ({ type: 'delete' as const, line })),
+                ...newMiddle.map(line => ({ type: 'insert' as const, line })),
+                ...tail
+            ];
+        }
+
+        // lengths[i * width + j] is the LCS length of oldMiddle[i..] and newMiddle[j..]
+        const width = newMiddle.length + 1;
+        const lengths = new Uint32Array((oldMiddle.length + 1) * width);
+        for (let i = oldMiddle.length - 1; i >= 0; i--) {
+            for (let j = newMiddle.length - 1; j >= 0; j--) {
+                lengths[i * width + j] = oldMiddle[i] === newMiddle[j]
+                    ? lengths[(i + 1) * width + j + 1] + 1
+                    : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+            }
+        }
+
+        const middle: LineOperation[] = [];
+        let i = 0;
+        let j = 0;
+        while (i < oldMiddle.length || j < newMiddle.length) {
+            if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+                middle.push({ type: 'equal', line: oldMiddle[i++] });
+                j++;
+            } else if (j >= newMiddle.length || (i < oldMiddle.length && lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+                middle.push({ type: 'delete', line: oldMiddle[i++] });
+            } else {
+                middle.push({ type: 'insert', line: newMiddle[j++] });
+            }
+        }
+
+        return [...head, ...middle, ...tail];
+    }
+}
@@ -1,4 +1,4 @@
-import * as vscode from 'vscode';
+import type * as vscode from 'vscode';
 
 /**
  * Log levels enum
@@ -15,14 +15,15 @@ export enum LogLevel {
  * Provides structured logging with different levels
  */
 export class Logger {
-    private static outputChannel: vscode.OutputChannel;
+    private static outputChannel: vscode.OutputChannel | undefined;
+    private static vscodeApi: typeof vscode | null | undefined;
     private static logLevel: LogLevel = LogLevel.INFO;
 
     /**
      * Initialize logger with output channel
      */
     public static initialize(channelName: string = 'OBS Plugin AI Assistant'): void {
-        this.outputChannel = vscode.window.createOutputChannel(channelName);
+        this.outputChannel = this.getVsCode()?.window.createOutputChannel(channelName);
     }
 
     /**
@@ -56,7 +57,7 @@ export class Logger {
     public static warn(message: string, data?: any): void {
         if (this.logLevel <= LogLevel.WARN) {
             this.log('WARN', message, data);
-            vscode.window.showWarningMessage(`OBS Plugin: ${message}`);
+            this.getVsCode()?.window.showWarningMessage(`OBS Plugin: ${message}`);
         }
     }
 
@@ -66,7 +67,7 @@ export class Logger {
     public static error(message: string, error?: any): void {
         if (this.logLevel <= LogLevel.ERROR) {
             this.log('ERROR', message, error);
-            vscode.window.showErrorMessage(`OBS Plugin: ${message}`);
+            this.getVsCode()?.window.showErrorMessage(`OBS Plugin: ${message}`);
         }
     }
 
@@ -97,6 +98,20 @@ export class Logger {
         }
     }
 
+    /**
+     * Load the VS Code API, or null when running outside the editor such as in the git pre-commit hook
+     */
+    private static getVsCode(): typeof vscode | null {
+        if (this.vscodeApi === undefined) {
+            try {
+                this.vscodeApi = require('vscode') as typeof vscode;
+            } catch (error) {
+                this.vscodeApi = null;
+            }
+        }
+        return this.vscodeApi;
+    }
+
     /**
      * Internal logging method
      */
@@ -121,6 +136,10 @@ export class Logger {
             }
         }
 
-        this.outputChannel.appendLine(logMessage);
+        if (this.outputChannel) {
+            this.outputChannel.appendLine(logMessage);
+        } else if (level === 'WARN' || level === 'ERROR') {
+            console.error(logMessage);
+        }
     }
 }
\ No newline at end of file
@@ -0,0 +1,141 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from './Logger';
+import { GlobMatcher } from './GlobMatcher';
+
+/**
+ * A single .gitignore pattern anchored to the directory that declares it
+ */
+interface IgnorePattern {
+    base: string;
+    glob: string;
+    anchored: boolean;
+    negated: boolean;
+    directoryOnly: boolean;
+}
+
+/**
+ * Options for walking a workspace
+ */
+export interface WorkspaceWalkOptions {
+    /** Workspace-relative build directories to skip in addition to detected CMake build trees */
+    buildDirs?: string[];
+    isCancelled?: () => boolean;
+}
+
+/**
+ * Lists the plugin files of a workspace
+ * Skips .git, .deps, node_modules, CMake build trees and paths ignored by .gitignore
+ */
+export class WorkspaceWalker {
+    private static readonly SKIPPED_DIRECTORIES = new Set(['.git', '.deps', 'node_modules', '.vs', '.vscode', '.cache']);
+
+    /**
+     * List workspace-relative file paths with forward slashes, sorted by directory
+     */
+    public static async listFiles(workspaceRoot: string, options: WorkspaceWalkOptions = {}): Promise<string[]> {
+        const buildDirs = new Set((options.buildDirs || []).map(dir => dir.replace(/\\/g, '/').replace(/^\.\/|\/+$/g, '')));
+        const files: string[] = [];
+
+        const visit = async (directory: string, ignorePatterns: IgnorePattern[]): Promise<void> => {
+            const patterns = [...ignorePatterns, ...await WorkspaceWalker.readGitIgnore(workspaceRoot, directory)];
+            let entries: fs.Dirent[];
+            try {
+                entries = await fs.promises.readdir(directory, { withFileTypes: true });
+            } catch (error) {
+                Logger.warn(`Failed to read directory ${directory}`, error);
+                return;
+            }
+
+            for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+                if (options.isCancelled?.()) {
+                    return;
+                }
+
+                const fullPath = path.join(directory, entry.name);
+                const relativePath = path.relative(workspaceRoot, fullPath).replace(/\\/g, '/');
+
+                if (entry.isDirectory()) {
+                    if (!WorkspaceWalker.SKIPPED_DIRECTORIES.has(entry.name) &&
+                        !buildDirs.has(relativePath) &&
+                        !WorkspaceWalker.isIgnored(relativePath, true, patterns) &&
+                        !fs.existsSync(path.join(fullPath, 'CMakeCache.txt'))) {
+                        await visit(fullPath, patterns);
+                    }
+                } else if (entry.isFile() && !WorkspaceWalker.isIgnored(relativePath, false, patterns)) {
+                    files.push(relativePath);
+                }
+            }
+        };
+
+        await visit(workspaceRoot, []);
+        return files;
+    }
+
+    /**
+     * Read the .gitignore of a directory
+     */
+    private static async readGitIgnore(workspaceRoot: string, directory: string): Promise<IgnorePattern[]> {
+        const gitIgnorePath = path.join(directory, '.gitignore');
+        if (!fs.existsSync(gitIgnorePath)) {
+            return [];
+        }
+
+        const base = path.relative(workspaceRoot, directory).replace(/\\/g, '/');
+        const content = await fs.promises.readFile(gitIgnorePath, 'utf8');
+        const patterns: IgnorePattern[] = [];
+
+        for (const rawLine of content.split(/\r?\n/)) {
+            let line = rawLine.trim();
+            if (!line || line.startsWith('#')) {
+                continue;
+            }
+
+            const negated = line.startsWith('!');
+            if (negated) {
+                line = line.substring(1);
+            }
+
+            const directoryOnly = line.endsWith('/');
+            line = line.replace(/\/+$/, '');
+
+            // Patterns containing a slash are relative to the .gitignore directory, others match at any depth
+            const anchored = line.includes('/');
+            patterns.push({
+                base,
+                glob: line.replace(/^\//, ''),
+                anchored,
+                negated,
+                directoryOnly
+            });
+        }
+
+        return patterns;
+    }
+
+    /**
+     * Apply .gitignore patterns in order, later patterns overriding earlier ones
+     */
+    private static isIgnored(relativePath: string, isDirectory: boolean, patterns: IgnorePattern[]): boolean {
+        let ignored = false;
+
+        for (const pattern of patterns) {
+            if (pattern.directoryOnly && !isDirectory) {
+                continue;
+            }
+            if (pattern.base && !relativePath.startsWith(pattern.base + '/')) {
+                continue;
+            }
+
+            const pathFromBase = pattern.base ? relativePath.substring(pattern.base.length + 1) : relativePath;
+            const matches = pattern.anchored
+                ? GlobMatcher.toRegExp(pattern.glob).test(pathFromBase)
+                : GlobMatcher.matches(pathFromBase, pattern.glob);
+            if (matches) {
+                ignored = !pattern.negated;
+            }
+        }
+
+        return ignored;
+    }
+}